@@ -3,63 +3,201 @@
  */
 
 import { HPOApiClient } from '../utils/api-client.js';
-import { SearchParams, HierarchyParams } from '../types/hpo.js';
+import { InformationContent, ICSource, TermClosure } from '../utils/information-content.js';
+import { SemanticSimilarity, SimilarityMetric, BestMatch } from '../utils/semantic-similarity.js';
+import { AnnotationStore, FREQUENCY_TERMS } from '../utils/annotations.js';
+import { DiseaseRanker } from '../utils/disease-ranking.js';
+import { CachedBackend } from '../utils/cache.js';
+import { TranslationStore, TRANSLATION_STATUSES } from '../utils/translations.js';
+import { TextAnnotator, TextAnnotation } from '../utils/text-annotator.js';
+import { IdResolver, IdResolution, RESOLUTION_STATUSES, ResolutionStatus } from '../utils/id-resolution.js';
+import { XrefIndex, XrefMatch, groupXrefs, canonicalPrefix } from '../utils/xref-index.js';
+import { ProfileNormalizer, ProfileNormalization, DroppedTerm } from '../utils/profile-normalizer.js';
+import { SubgraphBuilder, Subgraph, GraphDirection, GraphFormat, renderSubgraph } from '../utils/graph-export.js';
+import { TermPathFinder, TermPaths } from '../utils/term-paths.js';
+import { OrganSystemClassifier, OrganSystem, PHENOTYPIC_ABNORMALITY_ID } from '../utils/organ-systems.js';
+import { SubontologyValidator, SubontologyCheck, SUBONTOLOGIES } from '../utils/subontologies.js';
+import { TermEnrichment, AnnotatedItem, EnrichmentMethod, MultipleTestingCorrection } from '../utils/enrichment.js';
+import { PhenopacketConverter, PhenopacketImport, PhenopacketExport, FeatureInput, FeatureReport } from '../utils/phenopacket.js';
+import { readOutputFormat, formatResult, formatError, paginationInfo } from '../utils/output.js';
+import type { ToolArguments } from './tool-registry.js';
+import { InvalidParamsError, NotFoundError, responseError } from '../utils/errors.js';
+import {
+  SearchParams,
+  SearchResult,
+  HierarchyParams,
+  HPOBackend,
+  ApiResponse,
+  DiseaseAnnotation,
+  SimpleOntologyTerm,
+  Language,
+  Translation,
+  Subontology
+} from '../types/hpo.js';
+import {
+  SearchOutput,
+  TermOutput,
+  TermListOutput,
+  HierarchyOutput,
+  ValidationOutput,
+  TermPathOutput,
+  TermComparisonOutput,
+  SemanticSimilarityOutput,
+  TermStatsOutput,
+  BatchOutput,
+  ProfileSimilarityOutput,
+  TermDiseasesOutput,
+  TermGenesOutput,
+  DiseaseTermsOutput,
+  GeneTermsOutput,
+  DiseaseRankingOutput,
+  CacheStatsOutput,
+  ApiStatusOutput,
+  LanguagesOutput,
+  TextAnnotationOutput,
+  PhenopacketImportOutput,
+  PhenopacketExportOutput,
+  IdResolutionOutput,
+  MapToHPOOutput,
+  MapFromHPOOutput,
+  ProfileNormalizationOutput,
+  SubgraphOutput,
+  EnrichmentOutput,
+  OrganSystemOutput,
+  SubontologyTermsOutput,
+  SubontologyValidationOutput,
+  ObservationOutput
+} from '../types/output.js';
 
 export class HPOHandlers {
-  private apiClient: HPOApiClient;
-
-  constructor() {
-    this.apiClient = new HPOApiClient();
+  private apiClient: HPOBackend;
+  private annotations: AnnotationStore;
+  private informationContent: InformationContent;
+  private similarity: SemanticSimilarity;
+  private diseaseRanker: DiseaseRanker;
+  private translations: TranslationStore;
+  private textAnnotator: TextAnnotator;
+  private phenopackets: PhenopacketConverter;
+  private idResolver: IdResolver;
+  private xrefIndex: XrefIndex;
+  private profileNormalizer: ProfileNormalizer;
+  private subgraphBuilder: SubgraphBuilder;
+  private pathFinder: TermPathFinder;
+  private enrichment: TermEnrichment;
+  private organSystems: OrganSystemClassifier;
+  private subontologies: SubontologyValidator;
+
+  constructor(
+    backend: HPOBackend = new HPOApiClient(),
+    annotations: AnnotationStore = new AnnotationStore(),
+    translations: TranslationStore = new TranslationStore()
+  ) {
+    this.apiClient = backend;
+    this.annotations = annotations;
+    this.translations = translations;
+    this.informationContent = new InformationContent(backend);
+    this.similarity = new SemanticSimilarity(this.informationContent);
+    this.diseaseRanker = new DiseaseRanker(this.informationContent, annotations);
+    this.textAnnotator = new TextAnnotator(backend);
+    this.phenopackets = new PhenopacketConverter(backend);
+    this.idResolver = new IdResolver(backend);
+    this.xrefIndex = new XrefIndex(backend);
+    this.profileNormalizer = new ProfileNormalizer(this.informationContent, this.idResolver);
+    this.subgraphBuilder = new SubgraphBuilder(backend);
+    this.pathFinder = new TermPathFinder(backend);
+    this.enrichment = new TermEnrichment(this.informationContent);
+    this.organSystems = new OrganSystemClassifier(backend, this.informationContent);
+    this.subontologies = new SubontologyValidator(backend, this.informationContent, this.idResolver);
+
+    if (annotations.hasDiseaseAnnotations()) {
+      // Annotation-based IC counts each disease once per phenotype term it is annotated to
+      this.informationContent.setAnnotationSource(async () =>
+        (await annotations.getDiseases()).map(disease =>
+          disease.annotations.filter(a => !a.negated && a.aspect === 'P').map(a => a.hpoId)
+        )
+      );
+    }
   }
 
   /**
    * Search for HPO terms by keyword, ID, or synonym
    */
-  async searchHPOTerms(args: any) {
-    if (!args.query || typeof args.query !== 'string') {
-      throw new Error('Query parameter is required and must be a string');
+  async searchHPOTerms(args: ToolArguments<'search_hpo_terms'>) {
+    const format = readOutputFormat(args);
+    const language = await this.readLanguage(args);
+
+    let categories: OrganSystem[] | undefined;
+    if (args.category && args.category.length > 0) {
+      try {
+        const resolved = await this.organSystems.resolve(args.category);
+        if (resolved.invalid.length > 0) {
+          const systems = await this.organSystems.getSystems();
+          return formatError(format, `Unknown category: ${resolved.invalid.join(', ')}. Valid categories are the organ systems under Phenotypic abnormality (${PHENOTYPIC_ABNORMALITY_ID}), by ID or name:\n${systems.map(s => `• ${s.id}: ${s.shortName}`).join('\n')}`);
+        }
+        categories = resolved.systems;
+      } catch (error) {
+        return formatError(format, error instanceof Error ? error.message : 'Unknown error', error);
+      }
     }
 
     const searchParams: SearchParams = {
       q: args.query,
-      max: args.max && typeof args.max === 'number' ? args.max : 20,
-      offset: args.offset && typeof args.offset === 'number' ? args.offset : 0,
-      category: args.category && Array.isArray(args.category) ? args.category : undefined
+      max: args.max ?? 20,
+      offset: args.offset ?? 0,
+      category: categories?.map(system => system.id)
     };
 
-    const result = await this.apiClient.searchTerms(searchParams);
+    const result = language
+      ? await this.searchWithTranslations(searchParams, language)
+      : await this.apiClient.searchTerms(searchParams);
 
     if (result.error) {
-      return {
-        content: [{
-          type: "text",
-          text: `Error searching HPO terms: ${result.error}`
-        }],
-        isError: true
-      };
+      return formatError(format, `Error searching HPO terms: ${result.error}`, result.failure);
+    }
+
+    // The remote API may ignore the category, so results are checked against it here
+    let searchTerms = result.data?.terms || [];
+    let outsideCategory = 0;
+    if (categories) {
+      const kept = await this.organSystems.filterTerms(searchTerms, categories);
+      outsideCategory = searchTerms.length - kept.length;
+      searchTerms = kept;
     }
+    // Once results were dropped here, the reported total no longer applies
+    const reportedTotal = outsideCategory > 0 ? undefined : result.data?.totalResults;
+
+    const terms = await this.translateTerms(searchTerms, language);
+    const totalResults = reportedTotal || terms.length;
+    const data: SearchOutput = {
+      query: args.query,
+      language,
+      categories: categories?.map(system => ({ id: system.id, name: system.name })),
+      terms,
+      pagination: paginationInfo(searchParams.offset!, searchParams.max!, terms.length, reportedTotal)
+    };
 
-    const terms = result.data?.terms || [];
-    const totalResults = result.data?.totalResults || terms.length;
+    const categoryNote = categories
+      ? ` in ${categories.map(system => system.shortName).join(' or ')}`
+      : '';
+    const filterNote = outsideCategory > 0
+      ? `\n\n${outsideCategory} results on this page were outside the requested categories and were removed.`
+      : '';
 
     if (terms.length === 0) {
-      return {
-        content: [{
-          type: "text",
-          text: `No HPO terms found for query: "${args.query}"`
-        }]
-      };
+      return formatResult(format, `No HPO terms found for query: "${args.query}"${categoryNote}${filterNote}`, data);
     }
 
     const formattedResults = terms.map(term => {
-      const synonyms = term.synonyms && term.synonyms.length > 0 
-        ? `\n  Synonyms: ${term.synonyms.join(', ')}` 
+      const termSynonyms = term.translation?.synonyms?.length ? term.translation.synonyms : term.synonyms;
+      const termDefinition = term.translation?.definition || term.definition;
+      const synonyms = termSynonyms && termSynonyms.length > 0 
+        ? `\n  Synonyms: ${termSynonyms.join(', ')}` 
         : '';
-      const definition = term.definition 
-        ? `\n  Definition: ${term.definition}` 
+      const definition = termDefinition 
+        ? `\n  Definition: ${termDefinition}` 
         : '';
       
-      return `• ${term.id}: ${term.name}${definition}${synonyms}`;
+      return `• ${term.id}: ${formatTermName(term)}${definition}${synonyms}`;
     }).join('\n\n');
 
     const pagination = searchParams.offset! > 0 || terms.length >= (searchParams.max || 20)
@@ -68,57 +206,59 @@ export class HPOHandlers {
         ? `\n\nShowing first ${terms.length} of ${totalResults} total results.`
         : '';
 
-    return {
-      content: [{
-        type: "text",
-        text: `Found ${totalResults} HPO terms matching "${args.query}":\n\n${formattedResults}${pagination}`
-      }]
-    };
+    return formatResult(format, `Found ${totalResults} HPO terms matching "${args.query}"${categoryNote}:\n\n${formattedResults}${pagination}${filterNote}`, data);
   }
 
   /**
    * Get detailed information about a specific HPO term
    */
-  async getHPOTerm(args: any) {
-    if (!args.id || typeof args.id !== 'string') {
-      throw new Error('HPO ID parameter is required and must be a string');
-    }
+  async getHPOTerm(args: ToolArguments<'get_hpo_term'>) {
+    const format = readOutputFormat(args);
+    const language = await this.readLanguage(args);
 
     const result = await this.apiClient.getTerm(args.id);
 
     if (result.error) {
-      return {
-        content: [{
-          type: "text",
-          text: `Error retrieving HPO term ${args.id}: ${result.error}`
-        }],
-        isError: true
-      };
+      return formatError(format, `Error retrieving HPO term ${args.id}: ${result.error}`, result.failure);
     }
 
     const term = result.data;
     if (!term) {
-      return {
-        content: [{
-          type: "text",
-          text: `HPO term ${args.id} not found`
-        }]
-      };
+      const data: TermOutput = { term: null };
+      return formatResult(format, `HPO term ${args.id} not found`, data);
     }
 
+    // Translated text replaces the English label, definition and synonyms where available
+    const translation = language ? await this.translations.getTranslation(term.id, language) : undefined;
+    const definition = translation?.definition || term.definition;
+    const synonyms = translation?.synonyms?.length ? translation.synonyms : term.synonyms;
+    const [parents, children] = await Promise.all([
+      this.translateTerms(term.parents || [], language),
+      this.translateTerms(term.children || [], language)
+    ]);
+
     let output = `**HPO Term: ${term.id}**\n`;
-    output += `**Name:** ${term.name}\n\n`;
+    output += `**Name:** ${translation?.name || term.name}\n`;
 
-    if (term.definition) {
-      output += `**Definition:** ${term.definition}\n\n`;
+    if (translation) {
+      if (translation.name) {
+        output += `**English Name:** ${term.name}\n`;
+      }
+      output += `**Translation:** ${translation.language.name} (${translation.language.code}) - ${translation.status?.name || 'Unknown status'}`;
+      output += translation.name ? '\n' : ', showing English\n';
+    }
+    output += '\n';
+
+    if (definition) {
+      output += `**Definition:** ${definition}\n\n`;
     }
 
     if (term.comment) {
       output += `**Comment:** ${term.comment}\n\n`;
     }
 
-    if (term.synonyms && term.synonyms.length > 0) {
-      output += `**Synonyms:** ${term.synonyms.join(', ')}\n\n`;
+    if (synonyms && synonyms.length > 0) {
+      output += `**Synonyms:** ${synonyms.join(', ')}\n\n`;
     }
 
     if (term.xrefs && term.xrefs.length > 0) {
@@ -129,265 +269,215 @@ export class HPOHandlers {
       output += `**Alternative IDs:** ${term.alternativeIds.join(', ')}\n\n`;
     }
 
-    if (term.parents && term.parents.length > 0) {
-      output += `**Parent Terms:**\n${term.parents.map(p => `  • ${p.id}: ${p.name}`).join('\n')}\n\n`;
+    if (parents.length > 0) {
+      output += `**Parent Terms:**\n${parents.map(p => `  • ${p.id}: ${formatTermName(p)}`).join('\n')}\n\n`;
     }
 
-    if (term.children && term.children.length > 0) {
-      output += `**Child Terms:**\n${term.children.map(c => `  • ${c.id}: ${c.name}`).join('\n')}\n\n`;
+    if (children.length > 0) {
+      output += `**Child Terms:**\n${children.map(c => `  • ${c.id}: ${formatTermName(c)}`).join('\n')}\n\n`;
     }
 
     if (term.isObsolete) {
       output += `**Status:** This term is obsolete`;
       if (term.replacement) {
         output += ` (replaced by ${term.replacement})`;
+      } else if (term.consider && term.consider.length > 0) {
+        output += ` (consider ${term.consider.join(', ')})`;
       }
       output += '\n\n';
     }
 
-    return {
-      content: [{
-        type: "text",
-        text: output.trim()
-      }]
-    };
+    const data: TermOutput = { term, translation };
+    return formatResult(format, output.trim(), data);
   }
 
   /**
    * Get all HPO terms with pagination
    */
-  async getAllHPOTerms(args: any) {
-    const max = args.max && typeof args.max === 'number' ? Math.min(args.max, 100) : 20;
-    const offset = args.offset && typeof args.offset === 'number' ? args.offset : 0;
+  async getAllHPOTerms(args: ToolArguments<'get_all_hpo_terms'>) {
+    const format = readOutputFormat(args);
+    const max = args.max ?? 20;
+    const offset = args.offset ?? 0;
 
     const result = await this.apiClient.getAllTerms(max, offset);
 
     if (result.error) {
-      return {
-        content: [{
-          type: "text",
-          text: `Error retrieving HPO terms: ${result.error}`
-        }],
-        isError: true
-      };
+      return formatError(format, `Error retrieving HPO terms: ${result.error}`, result.failure);
     }
 
     const terms = result.data || [];
+    const data: TermListOutput = { terms, pagination: paginationInfo(offset, max, terms.length) };
 
     if (terms.length === 0) {
-      return {
-        content: [{
-          type: "text",
-          text: `No HPO terms found at offset ${offset}`
-        }]
-      };
+      return formatResult(format, `No HPO terms found at offset ${offset}`, data);
     }
 
     const formattedTerms = terms.map(term => `• ${term.id}: ${term.name}`).join('\n');
 
-    return {
-      content: [{
-        type: "text",
-        text: `HPO Terms (showing ${terms.length} terms starting from position ${offset + 1}):\n\n${formattedTerms}\n\nTo see more terms, use a higher offset value.`
-      }]
-    };
+    return formatResult(
+      format,
+      `HPO Terms (showing ${terms.length} terms starting from position ${offset + 1}):\n\n${formattedTerms}\n\nTo see more terms, use a higher offset value.`,
+      data
+    );
   }
 
   /**
    * Get ancestors of an HPO term
    */
-  async getHPOAncestors(args: any) {
-    if (!args.id || typeof args.id !== 'string') {
-      throw new Error('HPO ID parameter is required and must be a string');
-    }
+  async getHPOAncestors(args: ToolArguments<'get_hpo_ancestors'>) {
+    const format = readOutputFormat(args);
+    const language = await this.readLanguage(args);
 
     const params: HierarchyParams = {
       id: args.id,
-      max: args.max && typeof args.max === 'number' ? args.max : 50,
-      offset: args.offset && typeof args.offset === 'number' ? args.offset : 0
+      max: args.max ?? 50,
+      offset: args.offset ?? 0
     };
 
     const result = await this.apiClient.getAncestors(params);
 
     if (result.error) {
-      return {
-        content: [{
-          type: "text",
-          text: `Error retrieving ancestors for ${args.id}: ${result.error}`
-        }],
-        isError: true
-      };
+      return formatError(format, `Error retrieving ancestors for ${args.id}: ${result.error}`, result.failure);
     }
 
-    const ancestors = result.data || [];
+    const ancestors = await this.translateTerms(result.data || [], language);
+    const data: HierarchyOutput = {
+      id: this.formatHPOId(args.id),
+      relation: 'ancestors',
+      language,
+      terms: ancestors,
+      pagination: paginationInfo(params.offset!, params.max!, ancestors.length)
+    };
 
     if (ancestors.length === 0) {
-      return {
-        content: [{
-          type: "text",
-          text: `No ancestors found for HPO term ${args.id}`
-        }]
-      };
+      return formatResult(format, `No ancestors found for HPO term ${args.id}`, data);
     }
 
-    const formattedAncestors = ancestors.map(ancestor => `• ${ancestor.id}: ${ancestor.name}`).join('\n');
+    const formattedAncestors = ancestors.map(ancestor => `• ${ancestor.id}: ${formatTermName(ancestor)}`).join('\n');
 
-    return {
-      content: [{
-        type: "text",
-        text: `Ancestors of ${args.id}:\n\n${formattedAncestors}`
-      }]
-    };
+    return formatResult(format, `Ancestors of ${args.id}:\n\n${formattedAncestors}`, data);
   }
 
   /**
    * Get direct parents of an HPO term
    */
-  async getHPOParents(args: any) {
-    if (!args.id || typeof args.id !== 'string') {
-      throw new Error('HPO ID parameter is required and must be a string');
-    }
+  async getHPOParents(args: ToolArguments<'get_hpo_parents'>) {
+    const format = readOutputFormat(args);
+    const language = await this.readLanguage(args);
 
     const params: HierarchyParams = {
       id: args.id,
-      max: args.max && typeof args.max === 'number' ? args.max : 20,
-      offset: args.offset && typeof args.offset === 'number' ? args.offset : 0
+      max: args.max ?? 20,
+      offset: args.offset ?? 0
     };
 
     const result = await this.apiClient.getParents(params);
 
     if (result.error) {
-      return {
-        content: [{
-          type: "text",
-          text: `Error retrieving parents for ${args.id}: ${result.error}`
-        }],
-        isError: true
-      };
+      return formatError(format, `Error retrieving parents for ${args.id}: ${result.error}`, result.failure);
     }
 
-    const parents = result.data || [];
+    const parents = await this.translateTerms(result.data || [], language);
+    const data: HierarchyOutput = {
+      id: this.formatHPOId(args.id),
+      relation: 'parents',
+      language,
+      terms: parents,
+      pagination: paginationInfo(params.offset!, params.max!, parents.length)
+    };
 
     if (parents.length === 0) {
-      return {
-        content: [{
-          type: "text",
-          text: `No direct parents found for HPO term ${args.id}`
-        }]
-      };
+      return formatResult(format, `No direct parents found for HPO term ${args.id}`, data);
     }
 
-    const formattedParents = parents.map(parent => `• ${parent.id}: ${parent.name}`).join('\n');
+    const formattedParents = parents.map(parent => `• ${parent.id}: ${formatTermName(parent)}`).join('\n');
 
-    return {
-      content: [{
-        type: "text",
-        text: `Direct parents of ${args.id}:\n\n${formattedParents}`
-      }]
-    };
+    return formatResult(format, `Direct parents of ${args.id}:\n\n${formattedParents}`, data);
   }
 
   /**
    * Get direct children of an HPO term
    */
-  async getHPOChildren(args: any) {
-    if (!args.id || typeof args.id !== 'string') {
-      throw new Error('HPO ID parameter is required and must be a string');
-    }
+  async getHPOChildren(args: ToolArguments<'get_hpo_children'>) {
+    const format = readOutputFormat(args);
+    const language = await this.readLanguage(args);
 
     const params: HierarchyParams = {
       id: args.id,
-      max: args.max && typeof args.max === 'number' ? args.max : 20,
-      offset: args.offset && typeof args.offset === 'number' ? args.offset : 0
+      max: args.max ?? 20,
+      offset: args.offset ?? 0
     };
 
     const result = await this.apiClient.getChildren(params);
 
     if (result.error) {
-      return {
-        content: [{
-          type: "text",
-          text: `Error retrieving children for ${args.id}: ${result.error}`
-        }],
-        isError: true
-      };
+      return formatError(format, `Error retrieving children for ${args.id}: ${result.error}`, result.failure);
     }
 
-    const children = result.data || [];
+    const children = await this.translateTerms(result.data || [], language);
+    const data: HierarchyOutput = {
+      id: this.formatHPOId(args.id),
+      relation: 'children',
+      language,
+      terms: children,
+      pagination: paginationInfo(params.offset!, params.max!, children.length)
+    };
 
     if (children.length === 0) {
-      return {
-        content: [{
-          type: "text",
-          text: `No direct children found for HPO term ${args.id}`
-        }]
-      };
+      return formatResult(format, `No direct children found for HPO term ${args.id}`, data);
     }
 
-    const formattedChildren = children.map(child => `• ${child.id}: ${child.name}`).join('\n');
+    const formattedChildren = children.map(child => `• ${child.id}: ${formatTermName(child)}`).join('\n');
 
-    return {
-      content: [{
-        type: "text",
-        text: `Direct children of ${args.id}:\n\n${formattedChildren}`
-      }]
-    };
+    return formatResult(format, `Direct children of ${args.id}:\n\n${formattedChildren}`, data);
   }
 
   /**
    * Get all descendants of an HPO term
    */
-  async getHPODescendants(args: any) {
-    if (!args.id || typeof args.id !== 'string') {
-      throw new Error('HPO ID parameter is required and must be a string');
-    }
+  async getHPODescendants(args: ToolArguments<'get_hpo_descendants'>) {
+    const format = readOutputFormat(args);
+    const language = await this.readLanguage(args);
 
     const params: HierarchyParams = {
       id: args.id,
-      max: args.max && typeof args.max === 'number' ? Math.min(args.max, 100) : 50,
-      offset: args.offset && typeof args.offset === 'number' ? args.offset : 0
+      max: args.max ?? 50,
+      offset: args.offset ?? 0
     };
 
     const result = await this.apiClient.getDescendants(params);
 
     if (result.error) {
-      return {
-        content: [{
-          type: "text",
-          text: `Error retrieving descendants for ${args.id}: ${result.error}`
-        }],
-        isError: true
-      };
+      return formatError(format, `Error retrieving descendants for ${args.id}: ${result.error}`, result.failure);
     }
 
-    const descendants = result.data || [];
+    const descendants = await this.translateTerms(result.data || [], language);
+    const data: HierarchyOutput = {
+      id: this.formatHPOId(args.id),
+      relation: 'descendants',
+      language,
+      terms: descendants,
+      pagination: paginationInfo(params.offset!, params.max!, descendants.length)
+    };
 
     if (descendants.length === 0) {
-      return {
-        content: [{
-          type: "text",
-          text: `No descendants found for HPO term ${args.id}`
-        }]
-      };
+      return formatResult(format, `No descendants found for HPO term ${args.id}`, data);
     }
 
-    const formattedDescendants = descendants.map(descendant => `• ${descendant.id}: ${descendant.name}`).join('\n');
+    const formattedDescendants = descendants.map(descendant => `• ${descendant.id}: ${formatTermName(descendant)}`).join('\n');
 
-    return {
-      content: [{
-        type: "text",
-        text: `Descendants of ${args.id} (showing ${descendants.length} terms):\n\n${formattedDescendants}\n\n${descendants.length >= (params.max || 50) ? 'Use offset parameter to see more results.' : ''}`
-      }]
-    };
+    return formatResult(
+      format,
+      `Descendants of ${args.id} (showing ${descendants.length} terms):\n\n${formattedDescendants}\n\n${descendants.length >= (params.max || 50) ? 'Use offset parameter to see more results.' : ''}`,
+      data
+    );
   }
 
   /**
    * Validate if a given string is a valid HPO ID format
    */
-  async validateHPOId(args: any) {
-    if (!args.id || typeof args.id !== 'string') {
-      throw new Error('ID parameter is required and must be a string');
-    }
+  async validateHPOId(args: ToolArguments<'validate_hpo_id'>) {
+    const format = readOutputFormat(args);
 
     const isValid = this.apiClient.isValidHPOId(args.id);
     const formattedId = this.apiClient.formatHPOId(args.id);
@@ -396,149 +486,121 @@ export class HPOHandlers {
       // Try to fetch the term to verify it exists
       const result = await this.apiClient.getTerm(args.id);
       
+      if (result.failure instanceof NotFoundError) {
+        const data: ValidationOutput = { input: args.id, formattedId, validFormat: true, exists: false, error: result.error };
+        return formatResult(format, `❌ ID "${args.id}" has valid HPO format but the term does not exist: ${result.error}`, data);
+      }
       if (result.error) {
-        return {
-          content: [{
-            type: "text",
-            text: `ID "${args.id}" has valid HPO format but term not found: ${result.error}`
-          }]
-        };
+        // The API could not be asked (unreachable, timed out, rate limited): existence is unknown
+        return formatError(format, `Could not check whether ${formattedId} exists: ${result.error}`, result.failure);
       }
 
-      return {
-        content: [{
-          type: "text",
-          text: `✅ Valid HPO ID: "${args.id}" (formatted as "${formattedId}")\nTerm exists: ${result.data?.name || 'Unknown'}`
-        }]
+      const data: ValidationOutput = {
+        input: args.id,
+        formattedId,
+        validFormat: true,
+        exists: true,
+        term: result.data ? { id: result.data.id, name: result.data.name } : undefined
       };
+      return formatResult(
+        format,
+        `✅ Valid HPO ID: "${args.id}" (formatted as "${formattedId}")\nTerm exists: ${result.data?.name || 'Unknown'}`,
+        data
+      );
     } else {
-      return {
-        content: [{
-          type: "text",
-          text: `❌ Invalid HPO ID format: "${args.id}"\nValid format: HP:XXXXXXX (e.g., HP:0000001)`
-        }]
-      };
+      const data: ValidationOutput = { input: args.id, formattedId, validFormat: false, exists: null };
+      return formatResult(format, `❌ Invalid HPO ID format: "${args.id}"\nValid format: HP:XXXXXXX (e.g., HP:0000001)`, data);
     }
   }
 
   /**
    * Get the full hierarchical path from root to a specific HPO term
    */
-  async getHPOTermPath(args: any) {
-    if (!args.id || typeof args.id !== 'string') {
-      throw new Error('HPO ID parameter is required and must be a string');
-    }
+  async getHPOTermPath(args: ToolArguments<'get_hpo_term_path'>) {
+    const format = readOutputFormat(args);
+
+    const maxPaths = args.max_paths ?? 20;
 
     // Get the term details first
     const termResult = await this.apiClient.getTerm(args.id);
     if (termResult.error) {
-      return {
-        content: [{
-          type: "text",
-          text: `Error retrieving term ${args.id}: ${termResult.error}`
-        }],
-        isError: true
-      };
-    }
-
-    // Get all ancestors
-    const ancestorsResult = await this.apiClient.getAncestors({ id: args.id, max: 200, offset: 0 });
-    if (ancestorsResult.error) {
-      return {
-        content: [{
-          type: "text",
-          text: `Error retrieving ancestors for ${args.id}: ${ancestorsResult.error}`
-        }],
-        isError: true
-      };
+      return formatError(format, `Error retrieving term ${args.id}: ${termResult.error}`, termResult.failure);
     }
 
-    const ancestors = ancestorsResult.data || [];
     const term = termResult.data;
-
     if (!term) {
-      return {
-        content: [{
-          type: "text",
-          text: `Term ${args.id} not found`
-        }]
-      };
+      return formatError(format, `Term ${args.id} not found`);
     }
 
-    // Build the path (root to current term)
-    const pathTerms = [...ancestors.reverse(), { id: term.id, name: term.name }];
-    const formattedPath = pathTerms.map((t, index) => {
-      const indent = '  '.repeat(index);
-      return `${indent}${index === pathTerms.length - 1 ? '→' : '├'} ${t.id}: ${t.name}`;
-    }).join('\n');
+    let result: TermPaths;
+    try {
+      result = await this.pathFinder.getPaths({ id: term.id, name: term.name }, maxPaths);
+    } catch (error) {
+      return formatError(format, `Error retrieving paths for ${args.id}: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
 
-    return {
-      content: [{
-        type: "text",
-        text: `Hierarchical path to ${args.id}:\n\n${formattedPath}\n\nPath depth: ${pathTerms.length - 1} levels`
-      }]
+    const formattedPaths = result.paths.map((path, index) =>
+      `${index + 1}. ${path.map(t => `${t.id} (${t.name})`).join(' → ')}`
+    ).join('\n');
+
+    let output = `**Paths from root to ${term.id} (${term.name}):** ${result.pathCount} ${result.pathCount === 1 ? 'path' : 'paths'}\n`;
+    output += `**Depth:** ${formatDepth(result)}\n\n`;
+    output += formattedPaths;
+    if (result.truncated) {
+      output += `\n\nShowing the ${result.paths.length} shortest of ${result.pathCount} paths; increase max_paths to see more`;
+    }
+
+    const data: TermPathOutput = {
+      term: { id: term.id, name: term.name },
+      paths: result.paths,
+      pathCount: result.pathCount,
+      truncated: result.truncated,
+      minDepth: result.minDepth,
+      maxDepth: result.maxDepth
     };
+    return formatResult(format, output, data);
   }
 
   /**
    * Compare two HPO terms and find their relationship
    */
-  async compareHPOTerms(args: any) {
-    if (!args.term1 || !args.term2 || typeof args.term1 !== 'string' || typeof args.term2 !== 'string') {
-      throw new Error('Both term1 and term2 parameters are required and must be strings');
-    }
-
-    // Get details for both terms
-    const [term1Result, term2Result] = await Promise.all([
-      this.apiClient.getTerm(args.term1),
-      this.apiClient.getTerm(args.term2)
-    ]);
-
-    if (term1Result.error || term2Result.error) {
-      return {
-        content: [{
-          type: "text",
-          text: `Error retrieving terms: ${term1Result.error || term2Result.error}`
-        }],
-        isError: true
-      };
+  async compareHPOTerms(args: ToolArguments<'compare_hpo_terms'>) {
+    const format = readOutputFormat(args);
+
+    // The same cached ancestor closures as semantic similarity and enrichment analysis
+    let closure1: TermClosure;
+    let closure2: TermClosure;
+    try {
+      [closure1, closure2] = await Promise.all([
+        this.informationContent.getClosure(args.term1),
+        this.informationContent.getClosure(args.term2)
+      ]);
+    } catch (error) {
+      return formatError(format, `Error retrieving terms: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
     }
 
-    if (!term1Result.data || !term2Result.data) {
-      return {
-        content: [{
-          type: "text",
-          text: `One or both terms not found: ${args.term1}, ${args.term2}`
-        }]
-      };
-    }
-
-    // Get ancestors for both terms
-    const [ancestors1Result, ancestors2Result] = await Promise.all([
-      this.apiClient.getAncestors({ id: args.term1, max: 200, offset: 0 }),
-      this.apiClient.getAncestors({ id: args.term2, max: 200, offset: 0 })
-    ]);
-
-    const ancestors1 = ancestors1Result.data || [];
-    const ancestors2 = ancestors2Result.data || [];
-
     // Find common ancestors
-    const ancestors1Ids = new Set(ancestors1.map(a => a.id));
-    const commonAncestors = ancestors2.filter(a => ancestors1Ids.has(a.id));
+    const commonAncestors = Array.from(closure2.ancestors.entries())
+      .filter(([id]) => closure1.ancestors.has(id))
+      .map(([id, name]) => ({ id, name }));
 
     // Check direct relationship
     let relationship = 'No direct relationship';
-    if (ancestors1.some(a => a.id === args.term2)) {
-      relationship = `${args.term1} is a descendant of ${args.term2}`;
-    } else if (ancestors2.some(a => a.id === args.term1)) {
-      relationship = `${args.term2} is a descendant of ${args.term1}`;
+    let relationshipType: TermComparisonOutput['relationship'] = 'none';
+    if (closure1.ancestors.has(closure2.id)) {
+      relationship = `${closure1.id} is a descendant of ${closure2.id}`;
+      relationshipType = 'term1_descendant';
+    } else if (closure2.ancestors.has(closure1.id)) {
+      relationship = `${closure2.id} is a descendant of ${closure1.id}`;
+      relationshipType = 'term2_descendant';
     } else if (commonAncestors.length > 0) {
       relationship = `Related through common ancestors`;
+      relationshipType = 'common_ancestors';
     }
 
     let output = `**Comparison of HPO Terms:**\n\n`;
-    output += `**Term 1:** ${args.term1}: ${term1Result.data.name}\n`;
-    output += `**Term 2:** ${args.term2}: ${term2Result.data.name}\n\n`;
+    output += `**Term 1:** ${closure1.id}: ${closure1.name}\n`;
+    output += `**Term 2:** ${closure2.id}: ${closure2.name}\n\n`;
     output += `**Relationship:** ${relationship}\n\n`;
 
     if (commonAncestors.length > 0) {
@@ -553,21 +615,57 @@ export class HPOHandlers {
       output += `**Common Ancestors:** None found\n`;
     }
 
-    return {
-      content: [{
-        type: "text",
-        text: output
-      }]
+    const data: TermComparisonOutput = {
+      term1: { id: closure1.id, name: closure1.name },
+      term2: { id: closure2.id, name: closure2.name },
+      relationship: relationshipType,
+      commonAncestors
     };
+    return formatResult(format, output, data);
   }
 
   /**
-   * Get statistics about an HPO term
+   * Compute information-content-based semantic similarity between two HPO terms
    */
-  async getHPOTermStats(args: any) {
-    if (!args.id || typeof args.id !== 'string') {
-      throw new Error('HPO ID parameter is required and must be a string');
+  async getHPOSemanticSimilarity(args: ToolArguments<'hpo_semantic_similarity'>) {
+    const icSource: ICSource = args.ic_source ?? 'descendants';
+    const format = readOutputFormat(args);
+
+    let result;
+    try {
+      result = await this.similarity.compare(args.term1, args.term2, icSource);
+    } catch (error) {
+      return formatError(format, `Error computing semantic similarity: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    const fixed = (value: number) => value.toFixed(4);
+
+    let output = `**Semantic Similarity of HPO Terms:**\n\n`;
+    output += `**Term 1:** ${result.term1.id}: ${result.term1.name} (IC: ${fixed(result.term1.ic)})\n`;
+    output += `**Term 2:** ${result.term2.id}: ${result.term2.name} (IC: ${fixed(result.term2.ic)})\n\n`;
+    output += `**Information Content Source:** ${icSource === 'annotations' ? 'annotation frequency' : 'descendant counts'}\n\n`;
+
+    if (result.mica) {
+      output += `**Most Informative Common Ancestor:** ${result.mica.id}: ${result.mica.name} (IC: ${fixed(result.mica.ic)})\n`;
+    } else {
+      output += `**Most Informative Common Ancestor:** None found\n`;
     }
+    output += `**Common Ancestors:** ${result.commonAncestorCount}\n\n`;
+
+    output += `**Similarity Scores:**\n`;
+    output += `  • Resnik: ${fixed(result.resnik)}\n`;
+    output += `  • Lin: ${fixed(result.lin)}\n`;
+    output += `  • Jiang-Conrath: ${fixed(result.jiangConrath)} (distance: ${fixed(result.jiangConrathDistance)})\n`;
+
+    const data: SemanticSimilarityOutput = { ...result, icSource };
+    return formatResult(format, output, data);
+  }
+
+  /**
+   * Get statistics about an HPO term
+   */
+  async getHPOTermStats(args: ToolArguments<'get_hpo_term_stats'>) {
+    const format = readOutputFormat(args);
 
     // Get term details and all relationships
     const [termResult, ancestorsResult, descendantsResult, parentsResult, childrenResult] = await Promise.all([
@@ -579,23 +677,19 @@ export class HPOHandlers {
     ]);
 
     if (termResult.error) {
-      return {
-        content: [{
-          type: "text",
-          text: `Error retrieving term ${args.id}: ${termResult.error}`
-        }],
-        isError: true
-      };
+      return formatError(format, `Error retrieving term ${args.id}: ${termResult.error}`, termResult.failure);
     }
 
     const term = termResult.data;
     if (!term) {
-      return {
-        content: [{
-          type: "text",
-          text: `Term ${args.id} not found`
-        }]
-      };
+      return formatError(format, `Term ${args.id} not found`);
+    }
+
+    let paths: TermPaths;
+    try {
+      paths = await this.pathFinder.getPaths({ id: term.id, name: term.name }, 0);
+    } catch (error) {
+      return formatError(format, `Error retrieving paths for ${args.id}: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
     }
 
     const ancestors = ancestorsResult.data || [];
@@ -615,7 +709,8 @@ export class HPOHandlers {
     output += `  • Direct Parents: ${parents.length}\n`;
     output += `  • Direct Children: ${children.length}\n`;
     output += `  • All Descendants: ${descendants.length}\n`;
-    output += `  • Depth from Root: ${ancestors.length}\n\n`;
+    output += `  • Depth from Root: ${formatDepth(paths)}\n`;
+    output += `  • Paths from Root: ${paths.pathCount}\n\n`;
 
     output += `**Term Properties:**\n`;
     output += `  • Synonyms: ${term.synonyms?.length || 0}\n`;
@@ -627,59 +722,34 @@ export class HPOHandlers {
       output += `\n**Comment:** ${term.comment.substring(0, 150)}${term.comment.length > 150 ? '...' : ''}`;
     }
 
-    return {
-      content: [{
-        type: "text",
-        text: output
-      }]
+    const data: TermStatsOutput = {
+      term: { id: term.id, name: term.name, definition: term.definition, comment: term.comment },
+      hierarchy: {
+        ancestors: ancestors.length,
+        parents: parents.length,
+        children: children.length,
+        descendants: descendants.length,
+        minDepth: paths.minDepth,
+        maxDepth: paths.maxDepth,
+        paths: paths.pathCount
+      },
+      properties: {
+        synonyms: term.synonyms?.length || 0,
+        xrefs: term.xrefs?.length || 0,
+        alternativeIds: term.alternativeIds?.length || 0,
+        isObsolete: term.isObsolete === true
+      }
     };
+    return formatResult(format, output, data);
   }
 
   /**
    * Batch process multiple HPO terms
    */
-  async batchGetHPOTerms(args: any) {
-    if (!args.ids || !Array.isArray(args.ids)) {
-      throw new Error('IDs parameter is required and must be an array of strings');
-    }
-
-    if (args.ids.length === 0) {
-      return {
-        content: [{
-          type: "text",
-          text: "No IDs provided"
-        }]
-      };
-    }
-
-    if (args.ids.length > 20) {
-      return {
-        content: [{
-          type: "text",
-          text: "Maximum 20 terms can be processed at once"
-        }]
-      };
-    }
+  async batchGetHPOTerms(args: ToolArguments<'batch_get_hpo_terms'>) {
+    const format = readOutputFormat(args);
 
-    const results = await Promise.all(
-      args.ids.map(async (id: string) => {
-        try {
-          const result = await this.apiClient.getTerm(id);
-          return {
-            id,
-            success: !result.error,
-            data: result.data,
-            error: result.error
-          };
-        } catch (error) {
-          return {
-            id,
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          };
-        }
-      })
-    );
+    const results = await this.resolveTerms(args.ids);
 
     const successful = results.filter(r => r.success);
     const failed = results.filter(r => !r.success);
@@ -706,18 +776,1357 @@ export class HPOHandlers {
       });
     }
 
-    return {
-      content: [{
-        type: "text",
-        text: output
-      }]
+    const data: BatchOutput = {
+      requested: args.ids.length,
+      terms: successful.map(result => result.data!),
+      failed: failed.map(result => ({ id: result.id, error: result.error || 'Unknown error' }))
     };
+    return formatResult(format, output, data);
   }
 
   /**
-   * Format HPO ID to ensure proper format
+   * Compare two patient phenotype profiles using best-match-average similarity
    */
-  formatHPOId(id: string): string {
-    return this.apiClient.formatHPOId(id);
+  async compareHPOProfiles(args: ToolArguments<'compare_hpo_profiles'>) {
+    const format = readOutputFormat(args);
+
+    const metric: SimilarityMetric = args.metric ?? 'resnik';
+    const icSource: ICSource = args.ic_source ?? 'descendants';
+
+    const [resolved1, resolved2] = await Promise.all([
+      this.resolveTerms(args.profile1),
+      this.resolveTerms(args.profile2)
+    ]);
+    const failed = [...resolved1, ...resolved2].filter(r => !r.success);
+    const ids1 = unique(resolved1.filter(r => r.success).map(r => r.data!.id));
+    const ids2 = unique(resolved2.filter(r => r.success).map(r => r.data!.id));
+
+    if (ids1.length === 0 || ids2.length === 0) {
+      return formatError(format, `Could not resolve any terms in ${ids1.length === 0 ? 'profile1' : 'profile2'}:\n${failed.map(r => `• ${r.id}: ${r.error}`).join('\n')}`);
+    }
+
+    let result;
+    try {
+      result = await this.similarity.compareProfiles(ids1, ids2, metric, icSource);
+    } catch (error) {
+      return formatError(format, `Error computing profile similarity: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    const fixed = (value: number) => value.toFixed(4);
+    const formatMatches = (matches: BestMatch[]) => matches
+      .map(m => `  • ${m.term.id} (${m.term.name}) → ${m.match.id} (${m.match.name}): ${fixed(m.score)}`)
+      .join('\n');
+
+    let output = `**Phenotype Profile Similarity:**\n\n`;
+    output += `**Profile 1:** ${ids1.length} terms\n`;
+    output += `**Profile 2:** ${ids2.length} terms\n`;
+    output += `**Term Similarity Metric:** ${metric} (IC from ${icSource === 'annotations' ? 'annotation frequency' : 'descendant counts'})\n\n`;
+
+    output += `**Scores:**\n`;
+    output += `  • Best-match average (symmetric): ${fixed(result.bestMatchAverage)}\n`;
+    output += `  • Maximum: ${fixed(result.maximum)}\n`;
+    output += `  • funSimAvg: ${fixed(result.funSimAvg)}\n\n`;
+
+    output += `**Best Matches (Profile 1 → Profile 2):**\n${formatMatches(result.bestMatches1)}\n\n`;
+    output += `**Best Matches (Profile 2 → Profile 1):**\n${formatMatches(result.bestMatches2)}\n`;
+
+    if (failed.length > 0) {
+      output += `\n**Unresolved Terms (excluded):**\n`;
+      failed.forEach(r => {
+        output += `• ${r.id}: ${r.error}\n`;
+      });
+    }
+
+    const data: ProfileSimilarityOutput = {
+      ...result,
+      icSource,
+      unresolved: failed.map(r => ({ id: r.id, error: r.error || 'Unknown error' }))
+    };
+    return formatResult(format, output, data);
+  }
+
+  /**
+   * List diseases annotated to an HPO term
+   */
+  async getHPOTermDiseases(args: ToolArguments<'get_hpo_term_diseases'>) {
+    const max = args.max ?? 50;
+    const offset = args.offset ?? 0;
+    const database: string | undefined = args.database?.toUpperCase();
+    const format = readOutputFormat(args);
+
+    let termIds;
+    let annotations;
+    try {
+      termIds = await this.getAnnotationQueryTerms(args.id, args.include_descendants === true);
+      annotations = (await this.annotations.getDiseaseAnnotationsForTerms(termIds.ids))
+        .filter(a => !a.negated)
+        .filter(a => !database || a.diseaseId.startsWith(`${database}:`));
+    } catch (error) {
+      return formatError(format, `Error retrieving diseases for ${args.id}: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    const byDisease = new Map<string, DiseaseAnnotation[]>();
+    annotations.forEach(a => byDisease.set(a.diseaseId, [...(byDisease.get(a.diseaseId) || []), a]));
+    const diseaseIds = Array.from(byDisease.keys()).sort();
+    const page = diseaseIds.slice(offset, offset + max);
+    const data: TermDiseasesOutput = {
+      term: termIds.term,
+      includeDescendants: args.include_descendants === true,
+      diseases: page.map(diseaseId => ({
+        id: diseaseId,
+        name: byDisease.get(diseaseId)![0].diseaseName,
+        annotations: byDisease.get(diseaseId)!
+      })),
+      pagination: paginationInfo(offset, max, page.length, diseaseIds.length)
+    };
+
+    if (diseaseIds.length === 0) {
+      return formatResult(
+        format,
+        `No ${database ? `${database} ` : ''}diseases annotated to ${termIds.name}${args.include_descendants ? ' or its descendants' : ''}`,
+        data
+      );
+    }
+
+    const formattedDiseases = page.map(diseaseId => {
+      const diseaseAnnotations = byDisease.get(diseaseId)!;
+      const details = diseaseAnnotations
+        .map(a => `  ${[`Term: ${a.hpoId}`, this.formatAnnotationDetails(a)].filter(Boolean).join(' | ')}`)
+        .join('\n');
+      return `• ${diseaseId}: ${diseaseAnnotations[0].diseaseName}\n${details}`;
+    }).join('\n');
+
+    let output = `Diseases annotated to ${termIds.name}${args.include_descendants ? ` and its ${termIds.ids.length - 1} descendants` : ''}`;
+    output += ` (${diseaseIds.length} total, showing ${offset + 1}-${offset + page.length}):\n\n${formattedDiseases}`;
+    if (offset + page.length < diseaseIds.length) {
+      output += `\n\nUse offset parameter to see more results.`;
+    }
+
+    return formatResult(format, output, data);
+  }
+
+  /**
+   * List genes annotated to an HPO term
+   */
+  async getHPOTermGenes(args: ToolArguments<'get_hpo_term_genes'>) {
+    const max = args.max ?? 50;
+    const offset = args.offset ?? 0;
+    const format = readOutputFormat(args);
+
+    let termIds;
+    let annotations;
+    try {
+      termIds = await this.getAnnotationQueryTerms(args.id, args.include_descendants === true);
+      annotations = await this.annotations.getGeneAnnotationsForTerms(termIds.ids);
+    } catch (error) {
+      return formatError(format, `Error retrieving genes for ${args.id}: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    const genes = new Map<string, { symbol: string; diseases: Set<string> }>();
+    annotations.forEach(a => {
+      const gene = genes.get(a.geneId) || { symbol: a.geneSymbol, diseases: new Set<string>() };
+      if (a.diseaseId) {
+        gene.diseases.add(a.diseaseId);
+      }
+      genes.set(a.geneId, gene);
+    });
+    const geneIds = Array.from(genes.keys()).sort((a, b) => genes.get(a)!.symbol.localeCompare(genes.get(b)!.symbol));
+    const page = geneIds.slice(offset, offset + max);
+    const data: TermGenesOutput = {
+      term: termIds.term,
+      includeDescendants: args.include_descendants === true,
+      genes: page.map(geneId => ({
+        id: geneId,
+        symbol: genes.get(geneId)!.symbol,
+        diseases: Array.from(genes.get(geneId)!.diseases)
+      })),
+      pagination: paginationInfo(offset, max, page.length, geneIds.length)
+    };
+
+    if (geneIds.length === 0) {
+      return formatResult(format, `No genes annotated to ${termIds.name}${args.include_descendants ? ' or its descendants' : ''}`, data);
+    }
+
+    const formattedGenes = page.map(geneId => {
+      const gene = genes.get(geneId)!;
+      const diseases = gene.diseases.size > 0 ? ` (via ${Array.from(gene.diseases).join(', ')})` : '';
+      return `• ${gene.symbol} (${geneId})${diseases}`;
+    }).join('\n');
+
+    let output = `Genes annotated to ${termIds.name}${args.include_descendants ? ` and its ${termIds.ids.length - 1} descendants` : ''}`;
+    output += ` (${geneIds.length} total, showing ${offset + 1}-${offset + page.length}):\n\n${formattedGenes}`;
+    if (offset + page.length < geneIds.length) {
+      output += `\n\nUse offset parameter to see more results.`;
+    }
+
+    return formatResult(format, output, data);
+  }
+
+  /**
+   * List the HPO terms annotated to a disease
+   */
+  async getDiseaseHPOTerms(args: ToolArguments<'get_disease_hpo_terms'>) {
+    const format = readOutputFormat(args);
+
+    let disease;
+    try {
+      disease = await this.annotations.getDisease(args.disease_id);
+    } catch (error) {
+      return formatError(format, `Error retrieving annotations for ${args.disease_id}: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    if (!disease) {
+      const data: DiseaseTermsOutput = { disease: null, annotations: [] };
+      return formatResult(format, `Disease ${args.disease_id} not found in annotation data`, data);
+    }
+
+    const names = await this.getTermNames(disease.annotations.flatMap(a => [a.hpoId, ...(a.onset ? [a.onset] : [])]));
+    const formatAnnotation = (a: DiseaseAnnotation) => {
+      const details = this.formatAnnotationDetails(a, names);
+      return `• ${a.hpoId}: ${names.get(a.hpoId) || 'Unknown'}${details ? `\n  ${details}` : ''}`;
+    };
+
+    const sections: Array<[string, DiseaseAnnotation[]]> = [
+      ['Phenotypic Features', disease.annotations.filter(a => !a.negated && (!a.aspect || a.aspect === 'P'))],
+      ['Mode of Inheritance', disease.annotations.filter(a => !a.negated && a.aspect === 'I')],
+      ['Clinical Course / Onset', disease.annotations.filter(a => !a.negated && a.aspect === 'C')],
+      ['Clinical Modifiers', disease.annotations.filter(a => !a.negated && a.aspect === 'M')],
+      ['Excluded Phenotypes (NOT)', disease.annotations.filter(a => a.negated)]
+    ];
+
+    let output = `**${disease.id}: ${disease.name}**\n\n`;
+    output += `**Annotations:** ${disease.annotations.length}\n\n`;
+    sections
+      .filter(([, annotations]) => annotations.length > 0)
+      .forEach(([title, annotations]) => {
+        output += `**${title} (${annotations.length}):**\n${annotations.map(formatAnnotation).join('\n')}\n\n`;
+      });
+
+    const data: DiseaseTermsOutput = {
+      disease: { id: disease.id, name: disease.name },
+      annotations: disease.annotations.map(a => ({ ...a, hpoName: names.get(a.hpoId) }))
+    };
+    return formatResult(format, output.trim(), data);
+  }
+
+  /**
+   * List the HPO terms annotated to a gene
+   */
+  async getGeneHPOTerms(args: ToolArguments<'get_gene_hpo_terms'>) {
+    const format = readOutputFormat(args);
+
+    let gene;
+    try {
+      gene = await this.annotations.getGene(args.gene);
+    } catch (error) {
+      return formatError(format, `Error retrieving annotations for ${args.gene}: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    if (!gene) {
+      const data: GeneTermsOutput = { gene: null, terms: [] };
+      return formatResult(format, `Gene ${args.gene} not found in annotation data`, data);
+    }
+
+    // The same term may be annotated once per associated disease
+    const byTerm = new Map<string, { name?: string; frequencies: Set<string>; diseases: Set<string> }>();
+    gene.annotations.forEach(a => {
+      const entry = byTerm.get(a.hpoId) || { name: a.hpoName, frequencies: new Set<string>(), diseases: new Set<string>() };
+      if (a.frequency) {
+        entry.frequencies.add(FREQUENCY_TERMS[a.frequency] || a.frequency);
+      }
+      if (a.diseaseId) {
+        entry.diseases.add(a.diseaseId);
+      }
+      byTerm.set(a.hpoId, entry);
+    });
+
+    const sortedTerms = Array.from(byTerm.entries()).sort(([a], [b]) => a.localeCompare(b));
+    const formattedTerms = sortedTerms
+      .map(([hpoId, entry]) => {
+        const details: string[] = [];
+        if (entry.frequencies.size > 0) {
+          details.push(`Frequency: ${Array.from(entry.frequencies).join(', ')}`);
+        }
+        if (entry.diseases.size > 0) {
+          details.push(`Diseases: ${Array.from(entry.diseases).join(', ')}`);
+        }
+        return `• ${hpoId}: ${entry.name || 'Unknown'}${details.length > 0 ? `\n  ${details.join(' | ')}` : ''}`;
+      })
+      .join('\n');
+
+    const data: GeneTermsOutput = {
+      gene: { id: gene.id, symbol: gene.symbol },
+      terms: sortedTerms.map(([hpoId, entry]) => ({
+        id: hpoId,
+        name: entry.name,
+        frequencies: Array.from(entry.frequencies),
+        diseases: Array.from(entry.diseases)
+      }))
+    };
+    return formatResult(format, `HPO terms annotated to ${gene.symbol} (${gene.id}) - ${byTerm.size} terms:\n\n${formattedTerms}`, data);
+  }
+
+  /**
+   * Rank annotated diseases by phenotypic similarity to a patient's HPO terms
+   */
+  async rankDiseasesByPhenotype(args: ToolArguments<'rank_diseases_by_phenotype'>) {
+    const maxResults = args.max_results ?? 20;
+    const icSource: ICSource = args.ic_source ?? 'annotations';
+    const database: string | undefined = args.database;
+    const format = readOutputFormat(args);
+
+    const [observed, excluded] = await Promise.all([
+      this.resolveTerms(args.hpo_ids),
+      this.resolveTerms(args.excluded_hpo_ids || [])
+    ]);
+    const failed = [...observed, ...excluded].filter(r => !r.success);
+    const observedIds = unique(observed.filter(r => r.success).map(r => r.data!.id));
+    const excludedIds = unique(excluded.filter(r => r.success).map(r => r.data!.id));
+
+    if (observedIds.length === 0) {
+      return formatError(format, `Could not resolve any observed terms:\n${failed.map(r => `• ${r.id}: ${r.error}`).join('\n')}`);
+    }
+
+    let ranking;
+    try {
+      ranking = await this.diseaseRanker.rank(observedIds, excludedIds, { icSource, database, maxResults });
+    } catch (error) {
+      return formatError(format, `Error ranking diseases: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    const fixed = (value: number) => value.toFixed(3);
+
+    let output = `**Phenotype-Driven Disease Ranking:**\n\n`;
+    output += `**Observed Terms:** ${observedIds.length}\n`;
+    output += `**Excluded Terms:** ${excludedIds.length}\n`;
+    output += `**Diseases Scored:** ${ranking.diseasesScored}${database ? ` (${database.toUpperCase()} only)` : ''}\n`;
+    output += `**Scoring:** Resnik best-match average, IC from ${icSource === 'annotations' ? 'annotation frequency' : 'descendant counts'}\n\n`;
+
+    ranking.results.forEach(result => {
+      output += `**${result.rank}. ${result.diseaseId}: ${result.diseaseName}** - score ${fixed(result.score)}`;
+      output += result.exclusionPenalty > 0 ? ` (match ${fixed(result.matchScore)}, penalty -${fixed(result.exclusionPenalty)})\n` : '\n';
+      result.matches.forEach(match => {
+        output += match.diseaseTerm
+          ? `  • ${match.patientTerm.id} (${match.patientTerm.name}) ↔ ${match.diseaseTerm.id} (${match.diseaseTerm.name}) via ${match.mica?.id} (${match.mica?.name}): ${fixed(match.score)}\n`
+          : `  • ${match.patientTerm.id} (${match.patientTerm.name}): no informative match\n`;
+      });
+      if (result.contradictions.length > 0) {
+        output += `  • Contradicts excluded: ${result.contradictions.map(t => `${t.id} (${t.name})`).join(', ')}\n`;
+      }
+      output += '\n';
+    });
+
+    if (failed.length > 0) {
+      output += `**Unresolved Terms (excluded from scoring):**\n`;
+      failed.forEach(r => {
+        output += `• ${r.id}: ${r.error}\n`;
+      });
+    }
+
+    const data: DiseaseRankingOutput = {
+      ...ranking,
+      unresolved: failed.map(r => ({ id: r.id, error: r.error || 'Unknown error' }))
+    };
+    return formatResult(format, output.trim(), data);
+  }
+
+  /**
+   * Find HPO terms over-represented in a study set of genes or patients compared with a population
+   */
+  async analyzeHPOEnrichment(args: ToolArguments<'analyze_hpo_enrichment'>) {
+    const itemType: EnrichmentOutput['itemType'] = args.study.some(isPatientItem) ? 'patients' : 'genes';
+    const values = [...args.study, ...(args.population || [])];
+    if (!values.every(item => isPatientItem(item) === (itemType === 'patients'))) {
+      throw new InvalidParamsError('study and population must both be arrays of gene symbols or IDs, or both be arrays of patients ({ id, hpo_ids })');
+    }
+    if (itemType === 'patients' && args.population === undefined) {
+      throw new InvalidParamsError('population parameter is required for patient cohorts');
+    }
+
+    const method: EnrichmentMethod = args.method ?? 'term-for-term';
+    const correction: MultipleTestingCorrection = args.correction ?? 'benjamini-hochberg';
+    const alpha: number = args.alpha ?? 0.05;
+    const maxResults = args.max_results ?? 20;
+    const format = readOutputFormat(args);
+
+    let study: { items: AnnotatedItem[]; unmatched: string[] };
+    let population: { items: AnnotatedItem[]; unmatched: string[] };
+    try {
+      if (itemType === 'genes') {
+        study = await this.readGeneItems(args.study.filter(isGeneItem));
+        population = args.population
+          ? await this.readGeneItems(args.population.filter(isGeneItem))
+          : { items: (await this.annotations.getGenes()).map(gene => ({ id: gene.symbol, hpoIds: unique(gene.annotations.map(a => a.hpoId)) })), unmatched: [] };
+      } else {
+        study = readPatientItems(args.study.filter(isPatientItem));
+        population = readPatientItems((args.population || []).filter(isPatientItem));
+      }
+    } catch (error) {
+      return formatError(format, `Error reading annotations: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    const unmatched = unique([...study.unmatched, ...population.unmatched]);
+    if (study.items.length === 0) {
+      return formatError(format, `No study ${itemType} with HPO annotations:\n${unmatched.map(item => `• ${item}`).join('\n')}`);
+    }
+
+    let result;
+    try {
+      result = await this.enrichment.analyze(study.items, population.items, { method, correction, alpha, maxResults });
+    } catch (error) {
+      return formatError(format, `Error running enrichment analysis: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    const correctionNames: Record<MultipleTestingCorrection, string> = {
+      'bonferroni': 'Bonferroni',
+      'benjamini-hochberg': 'Benjamini-Hochberg',
+      'none': 'no'
+    };
+
+    let output = `**HPO Term Enrichment:**\n\n`;
+    output += `**Study Set:** ${result.studySize} ${itemType}\n`;
+    output += `**Population:** ${result.populationSize} ${itemType}${args.population ? '' : ' (all annotated genes)'}\n`;
+    output += `**Method:** ${method}, ${correctionNames[correction]} correction\n`;
+    output += `**Terms Tested:** ${result.testedTerms} (${result.significantTerms} significant at α = ${alpha})\n\n`;
+
+    result.results.forEach((term, index) => {
+      output += `**${index + 1}. ${term.id}: ${term.name}** - p = ${formatPValue(term.pValue)}, adjusted p = ${formatPValue(term.adjustedPValue)}${term.significant ? ' (significant)' : ''}\n`;
+      output += `  • Study ${term.studyCount}/${term.studySize}, population ${term.populationCount}/${term.populationSize}, fold enrichment ${term.foldEnrichment.toFixed(2)}\n`;
+      output += `  • ${itemType === 'genes' ? 'Genes' : 'Patients'}: ${term.studyItems.slice(0, 20).join(', ')}${term.studyItems.length > 20 ? `, ... and ${term.studyItems.length - 20} more` : ''}\n\n`;
+    });
+
+    if (result.addedToPopulation.length > 0) {
+      output += `**Added to Population:** ${result.addedToPopulation.join(', ')}\n`;
+    }
+    if (unmatched.length > 0) {
+      output += `**Not Used (unknown or without HPO terms):** ${unmatched.join(', ')}\n`;
+    }
+    if (result.unknownTerms.length > 0) {
+      output += `**Unknown HPO IDs:** ${result.unknownTerms.join(', ')}\n`;
+    }
+
+    const data: EnrichmentOutput = { ...result, itemType, unmatched };
+    return formatResult(format, output.trim(), data);
   }
+
+  /**
+   * Recognise HPO terms in clinical free text
+   */
+  async annotateTextWithHPO(args: ToolArguments<'annotate_text_with_hpo'>) {
+    const format = readOutputFormat(args);
+
+    const includeNegated = args.include_negated !== false;
+    const minConfidence: number = args.min_confidence ?? 0;
+
+    let annotations: TextAnnotation[];
+    try {
+      annotations = await this.textAnnotator.annotate(args.text);
+    } catch (error) {
+      return formatError(format, `Error annotating text: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    annotations = annotations
+      .map(annotation => ({ ...annotation, matches: annotation.matches.filter(m => m.confidence >= minConfidence) }))
+      .filter(annotation => annotation.matches.length > 0 && (includeNegated || !annotation.negated));
+
+    const observed = annotations.filter(a => !a.negated);
+    const negated = annotations.filter(a => a.negated);
+    const data: TextAnnotationOutput = {
+      textLength: args.text.length,
+      annotations,
+      observedTerms: unique(observed.map(a => a.matches[0].id)),
+      negatedTerms: unique(negated.map(a => a.matches[0].id))
+    };
+
+    if (annotations.length === 0) {
+      return formatResult(format, "No HPO terms recognised in the text", data);
+    }
+
+    const formatAnnotation = (annotation: TextAnnotation) => {
+      const [best, ...others] = annotation.matches;
+      let line = `• ${best.id}: ${best.name} - "${annotation.text}" [${annotation.start}-${annotation.end}]`;
+      line += ` (confidence ${best.confidence.toFixed(2)}${best.matchType === 'synonym' ? `, synonym "${best.matchedLabel}"` : ''})`;
+      if (annotation.negationCue) {
+        line += `\n  Negated by "${annotation.negationCue}"`;
+      }
+      if (others.length > 0) {
+        line += `\n  Also matches: ${others.map(m => `${m.id} (${m.name})`).join(', ')}`;
+      }
+      return line;
+    };
+
+    let output = `**HPO Terms in Text:** ${annotations.length} mentions of ${unique(annotations.map(a => a.matches[0].id)).length} terms\n\n`;
+    if (observed.length > 0) {
+      output += `**Observed (${observed.length}):**\n${observed.map(formatAnnotation).join('\n')}\n\n`;
+    }
+    if (negated.length > 0) {
+      output += `**Negated (${negated.length}):**\n${negated.map(formatAnnotation).join('\n')}\n\n`;
+    }
+    output += `**Observed Terms:** ${data.observedTerms.join(', ') || 'none'}\n`;
+    if (includeNegated) {
+      output += `**Excluded Terms:** ${data.negatedTerms.join(', ') || 'none'}`;
+    }
+
+    return formatResult(format, output.trim(), data);
+  }
+
+  /**
+   * Render the hierarchy around one or more terms as a DOT, Mermaid or GraphML graph
+   */
+  async exportHPOSubgraph(args: ToolArguments<'export_hpo_subgraph'>) {
+    const direction: GraphDirection = args.direction ?? 'up';
+    const graphFormat: GraphFormat = args.graph_format ?? 'mermaid';
+    const format = readOutputFormat(args);
+
+    const depth = args.depth ?? 3;
+    const maxNodes = args.max_nodes ?? 200;
+
+    const results = await this.resolveTerms(args.ids);
+    const failed = results.filter(r => !r.success || !r.data);
+    if (failed.length > 0) {
+      return formatError(format, `Error retrieving seed terms: ${failed.map(f => `${f.id} (${f.error || 'not found'})`).join(', ')}`);
+    }
+    const seeds = Array.from(new Map(results.map(r => [r.data!.id, { id: r.data!.id, name: r.data!.name }])).values());
+
+    let subgraph: Subgraph;
+    try {
+      subgraph = await this.subgraphBuilder.build(seeds, { direction, depth, maxNodes });
+    } catch (error) {
+      return formatError(format, `Error building subgraph: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    const graph = renderSubgraph(subgraph, graphFormat);
+    const data: SubgraphOutput = {
+      graphFormat,
+      direction,
+      depth,
+      nodes: subgraph.nodes,
+      edges: subgraph.edges,
+      truncated: subgraph.truncated,
+      graph
+    };
+
+    let output = `**HPO Subgraph:** ${subgraph.nodes.length} terms, ${subgraph.edges.length} is_a edges\n`;
+    output += `**Seeds:** ${seeds.map(s => `${s.id} (${s.name})`).join(', ')}\n`;
+    output += `**Direction:** ${direction} | **Depth:** ${depth}\n`;
+    if (subgraph.truncated) {
+      output += `**Note:** Stopped at ${maxNodes} terms, so the graph is incomplete; increase max_nodes or reduce depth\n`;
+    }
+    output += `\n\`\`\`${graphFormat === 'graphml' ? 'xml' : graphFormat}\n${graph}\n\`\`\``;
+
+    return formatResult(format, output, data);
+  }
+
+  /**
+   * Map legacy HPO IDs to current primary IDs through alternative IDs and replacements
+   */
+  async resolveHPOIds(args: ToolArguments<'resolve_hpo_ids'>) {
+    const format = readOutputFormat(args);
+
+    const ids = unique(args.ids.map(id => id.trim()).filter(Boolean));
+    if (ids.length === 0) {
+      throw new InvalidParamsError("No IDs provided");
+    }
+
+    const [results, release] = await Promise.all([
+      this.idResolver.resolve(ids),
+      this.apiClient.getVersion?.().catch(() => undefined)
+    ]);
+
+    const byStatus = (status: ResolutionStatus) => results.filter(r => r.status === status);
+    const summary = Object.fromEntries(
+      RESOLUTION_STATUSES.map(status => [status, byStatus(status).length])
+    ) as Record<ResolutionStatus, number>;
+    const data: IdResolutionOutput = {
+      release,
+      summary,
+      results,
+      mapping: Object.fromEntries(results.map(r => [r.inputId, r.current?.id ?? null]))
+    };
+
+    const formatId = (result: IdResolution) => result.inputId === result.id ? result.id : `${result.inputId} (${result.id})`;
+    const formatPath = (result: IdResolution) =>
+      result.path.length > 1 ? ` via ${[result.id, ...result.path.map(step => step.to)].join(' → ')}` : '';
+    const sections: Array<[ResolutionStatus, string, (result: IdResolution) => string]> = [
+      ['merged', 'Merged (alternative IDs)', r => `• ${formatId(r)} → ${r.current!.id}: ${r.current!.name}`],
+      ['replaced', 'Replaced', r => `• ${formatId(r)} → ${r.current!.id}: ${r.current!.name}${formatPath(r)}`],
+      ['obsolete', 'Obsolete without replacement', r =>
+        `• ${formatId(r)}: ${r.message}${r.consider.map(t => `\n  Consider ${t.id}: ${t.name}`).join('')}`],
+      ['unknown', 'Unknown', r => `• ${formatId(r)}: ${r.message}`],
+      ['invalid', 'Invalid', r => `• ${r.inputId}: ${r.message}`]
+    ];
+
+    let output = `**HPO ID Resolution:** ${ids.length} IDs${release ? ` against release ${release}` : ''}\n\n`;
+    output += `**Summary:** ${RESOLUTION_STATUSES.map(status => `${status} ${summary[status]}`).join(' | ')}\n\n`;
+    if (summary.current > 0) {
+      output += `**Already Current:** ${summary.current} IDs need no change\n\n`;
+    }
+    sections.forEach(([status, title, formatLine]) => {
+      const matching = byStatus(status);
+      if (matching.length > 0) {
+        output += `**${title} (${matching.length}):**\n${matching.map(formatLine).join('\n')}\n\n`;
+      }
+    });
+
+    return formatResult(format, output.trim(), data);
+  }
+
+  /**
+   * Group HPO terms by the top-level organ systems under Phenotypic abnormality
+   */
+  async classifyByOrganSystem(args: ToolArguments<'classify_by_organ_system'>) {
+    const format = readOutputFormat(args);
+
+    let result;
+    try {
+      result = await this.organSystems.classify(unique(args.hpo_ids.map(id => this.apiClient.formatHPOId(id.trim()))));
+    } catch (error) {
+      return formatError(format, `Error classifying terms: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    let output = `**Organ System Classification:** ${result.terms.length} terms in ${result.systems.length} organ systems\n\n`;
+    result.systems.forEach(entry => {
+      output += `**${entry.system.name} (${entry.system.id}):** ${entry.count}\n`;
+      output += `${entry.terms.map(term => `  • ${term.id}: ${term.name}`).join('\n')}\n\n`;
+    });
+    if (result.terms.some(term => term.systems.length > 1)) {
+      output += `Terms with parents in several organ systems are counted under each of them.\n\n`;
+    }
+    if (result.unclassified.length > 0) {
+      output += `**Outside Phenotypic abnormality (${result.unclassified.length}):**\n${result.unclassified.map(t => `• ${t.id}: ${t.name}`).join('\n')}\n\n`;
+    }
+    if (result.unknown.length > 0) {
+      output += `**Not Found:** ${result.unknown.join(', ')}`;
+    }
+
+    const data: OrganSystemOutput = result;
+    return formatResult(format, output.trim(), data);
+  }
+
+  /**
+   * List the terms of one HPO sub-ontology (e.g. onset, frequency or mode of inheritance)
+   */
+  async listHPOSubontology(args: ToolArguments<'list_hpo_subontology'>) {
+    const subontology: Subontology = args.subontology;
+    const max = args.max ?? 100;
+    const offset = args.offset ?? 0;
+    const format = readOutputFormat(args);
+    const info = SUBONTOLOGIES[subontology];
+
+    let allTerms: SimpleOntologyTerm[];
+    try {
+      allTerms = await this.subontologies.listTerms(subontology);
+    } catch (error) {
+      return formatError(format, error instanceof Error ? error.message : 'Unknown error', error);
+    }
+
+    const terms = allTerms.slice(offset, offset + max);
+    const data: SubontologyTermsOutput = {
+      subontology,
+      root: { id: info.rootId, name: info.name },
+      terms,
+      pagination: paginationInfo(offset, max, terms.length, allTerms.length)
+    };
+
+    let output = `**${info.name} (${info.rootId}):** ${info.description}\n\n`;
+    output += `**Terms:** ${allTerms.length}\n\n`;
+    output += terms.map(term => `• ${term.id}: ${term.name}`).join('\n');
+    if (offset + terms.length < allTerms.length) {
+      output += `\n\nShowing terms ${offset + 1}-${offset + terms.length} of ${allTerms.length}. Use offset parameter to see more results.`;
+    }
+
+    return formatResult(format, output, data);
+  }
+
+  /**
+   * Check that HPO IDs are current terms of the expected sub-ontology
+   */
+  async validateHPOSubontologyTerms(args: ToolArguments<'validate_hpo_subontology_terms'>) {
+    const subontology: Subontology = args.subontology;
+    const format = readOutputFormat(args);
+
+    let results: SubontologyCheck[];
+    try {
+      results = await this.subontologies.check(args.ids.map(id => id.trim()), subontology);
+    } catch (error) {
+      return formatError(format, `Error validating terms: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    const info = SUBONTOLOGIES[subontology];
+    const validCount = results.filter(result => result.valid).length;
+    let output = `**${info.name} (${info.rootId}) Validation:** ${validCount} of ${results.length} valid\n\n`;
+    output += results.map(formatSubontologyCheck).join('\n');
+
+    const data: SubontologyValidationOutput = { subontology, valid: validCount === results.length, results };
+    return formatResult(format, output, data);
+  }
+
+  /**
+   * Validate a phenotype observation and its onset, frequency, severity, laterality and modifiers
+   */
+  async validateHPOObservation(args: ToolArguments<'validate_hpo_observation'>) {
+    const format = readOutputFormat(args);
+
+    let result;
+    try {
+      result = await this.subontologies.validateObservation({
+        term: args.term.trim(),
+        excluded: args.excluded === true,
+        onset: args.onset?.trim() || undefined,
+        frequency: args.frequency?.trim() || undefined,
+        severity: args.severity?.trim() || undefined,
+        laterality: args.laterality?.trim() || undefined,
+        modifiers: args.modifiers?.map(id => id.trim())
+      });
+    } catch (error) {
+      return formatError(format, `Error validating observation: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    let output: string;
+    if (result.observation) {
+      const observation = result.observation;
+      const qualifiers: Array<[string, SimpleOntologyTerm | undefined]> = [
+        ['Onset', observation.onset],
+        ['Frequency', observation.frequency],
+        ['Severity', observation.severity],
+        ['Laterality', observation.laterality]
+      ];
+      output = `✅ **Valid observation:** ${observation.excluded ? 'Excluded' : 'Observed'} ${observation.term.id}: ${observation.term.name}\n`;
+      qualifiers.forEach(([label, term]) => {
+        if (term) {
+          output += `**${label}:** ${term.id}: ${term.name}\n`;
+        }
+      });
+      if (observation.modifiers.length > 0) {
+        output += `**Modifiers:** ${observation.modifiers.map(term => `${term.id}: ${term.name}`).join(', ')}\n`;
+      }
+      const notes = result.checks.filter(check => check.message);
+      if (notes.length > 0) {
+        output += `\n**Notes:**\n${notes.map(check => `• ${check.field}: ${check.message}`).join('\n')}`;
+      }
+    } else {
+      output = `❌ **Invalid observation:**\n\n${result.checks.map(check => `• ${check.field}: ${formatSubontologyCheck(check)}`).join('\n')}`;
+    }
+
+    const data: ObservationOutput = result;
+    return formatResult(format, output.trim(), data);
+  }
+
+  /**
+   * Reduce a patient profile to its most specific terms, reporting dropped terms and contradictions
+   */
+  async normalizeHPOProfile(args: ToolArguments<'normalize_hpo_profile'>) {
+    const excludedIds = args.excluded_hpo_ids ?? [];
+    const format = readOutputFormat(args);
+
+    if (args.hpo_ids.length + excludedIds.length === 0) {
+      throw new InvalidParamsError("No IDs provided");
+    }
+
+    let result: ProfileNormalization;
+    try {
+      result = await this.profileNormalizer.normalize(
+        args.hpo_ids.map(id => id.trim()),
+        excludedIds.map(id => id.trim())
+      );
+    } catch (error) {
+      return formatError(format, `Error normalising profile: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    const data: ProfileNormalizationOutput = result;
+    const formatDropped = (term: DroppedTerm) => {
+      let line = `• ${term.inputId}${term.term ? ` (${term.term.id}: ${term.term.name})` : ''} [${term.excluded ? 'excluded' : 'observed'}, ${term.reason}]: ${term.message}`;
+      if (term.reason === 'obsolete' && term.related.length > 0) {
+        line += `\n  Consider: ${term.related.map(t => `${t.id} (${t.name})`).join(', ')}`;
+      }
+      return line;
+    };
+
+    let output = `**Normalised HPO Profile:** ${result.observed.length} observed, ${result.excluded.length} excluded terms\n\n`;
+    if (result.observed.length > 0) {
+      output += `**Observed:**\n${result.observed.map(t => `• ${t.id}: ${t.name}`).join('\n')}\n\n`;
+    }
+    if (result.excluded.length > 0) {
+      output += `**Excluded:**\n${result.excluded.map(t => `• ${t.id}: ${t.name}`).join('\n')}\n\n`;
+    }
+    if (result.contradictions.length > 0) {
+      output += `**Contradictions (${result.contradictions.length}):**\n${result.contradictions.map(c => `• ${c.message} (${c.observed.name} / ${c.excluded.name})`).join('\n')}\n\n`;
+    }
+    if (result.updated.length > 0) {
+      output += `**Updated IDs (${result.updated.length}):**\n${result.updated.map(u => `• ${u.inputId} → ${u.term.id}: ${u.term.name} (${u.status})`).join('\n')}\n\n`;
+    }
+    if (result.dropped.length > 0) {
+      output += `**Dropped (${result.dropped.length}):**\n${result.dropped.map(formatDropped).join('\n')}`;
+    }
+
+    return formatResult(format, output.trim(), data);
+  }
+
+  /**
+   * Find HPO terms cross-referencing codes of another vocabulary (UMLS, SNOMED CT, MeSH, ICD)
+   */
+  async mapToHPO(args: ToolArguments<'map_to_hpo'>) {
+    const format = readOutputFormat(args);
+
+    const codes = unique<string>(args.codes.map((code: string) => code.trim()).filter(Boolean));
+    if (codes.length === 0) {
+      throw new InvalidParamsError("No codes provided");
+    }
+
+    let matches: XrefMatch[][];
+    try {
+      matches = await Promise.all(codes.map(code => this.xrefIndex.findTerms(code, args.vocabulary)));
+    } catch (error) {
+      return formatError(format, `Error mapping codes: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    const vocabulary = args.vocabulary ? canonicalPrefix(args.vocabulary) : undefined;
+    const data: MapToHPOOutput = {
+      vocabulary,
+      mappings: codes.map((code, index) => ({ code, terms: matches[index] })).filter(m => m.terms.length > 0),
+      unmapped: codes.filter((_, index) => matches[index].length === 0)
+    };
+
+    let output = `**Mapping to HPO:** ${data.mappings.length}/${codes.length} codes mapped${vocabulary ? ` (vocabulary ${vocabulary})` : ''}\n\n`;
+    data.mappings.forEach(mapping => {
+      output += `**${mapping.code}:**\n`;
+      output += mapping.terms.map(term => `• ${term.id}: ${term.name} (via ${term.xref})`).join('\n');
+      output += '\n\n';
+    });
+    if (data.unmapped.length > 0) {
+      output += `**No HPO Term Found:** ${data.unmapped.join(', ')}`;
+    }
+
+    return formatResult(format, output.trim(), data);
+  }
+
+  /**
+   * List the codes of other vocabularies that HPO terms cross-reference, grouped by vocabulary
+   */
+  async mapFromHPO(args: ToolArguments<'map_from_hpo'>) {
+    const format = readOutputFormat(args);
+
+    const results = await this.resolveTerms(args.ids);
+    const data: MapFromHPOOutput = {
+      mappings: results
+        .filter(r => r.success && r.data)
+        .map(r => ({
+          id: r.data!.id,
+          name: r.data!.name,
+          vocabularies: groupXrefs(r.data!.xrefs || [], args.vocabularies)
+        })),
+      failed: results.filter(r => !r.success).map(r => ({ id: r.id, error: r.error || 'Unknown error' }))
+    };
+
+    let output = `**Mapping from HPO:** ${data.mappings.length} terms\n\n`;
+    data.mappings.forEach(mapping => {
+      output += `**${mapping.id}: ${mapping.name}**\n`;
+      output += mapping.vocabularies.length > 0
+        ? mapping.vocabularies.map(group => `• ${group.vocabulary} (${group.prefix}): ${group.codes.join(', ')}`).join('\n')
+        : `• No cross-references${args.vocabularies ? ' to the requested vocabularies' : ''}`;
+      output += '\n\n';
+    });
+    if (data.failed.length > 0) {
+      output += `**Failed Terms:**\n${data.failed.map(f => `• ${f.id}: ${f.error}`).join('\n')}`;
+    }
+
+    return formatResult(format, output.trim(), data);
+  }
+
+  /**
+   * Validate the HPO terms of a GA4GH Phenopacket and fill in current labels
+   */
+  async importPhenopacket(args: ToolArguments<'import_phenopacket'>) {
+    const format = readOutputFormat(args);
+
+    let result: PhenopacketImport;
+    try {
+      result = await this.phenopackets.importPhenopacket(args.phenopacket);
+    } catch (error) {
+      return formatError(format, `Error importing phenopacket: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    const count = (status: FeatureReport['status']) => result.features.filter(f => f.status === status).length;
+    const data: PhenopacketImportOutput = {
+      id: result.id,
+      subject: result.subject,
+      summary: {
+        features: result.features.length,
+        observed: result.features.filter(f => !f.excluded).length,
+        excluded: result.features.filter(f => f.excluded).length,
+        valid: count('valid'),
+        alternativeIds: count('alternative_id'),
+        obsolete: count('obsolete'),
+        notFound: count('not_found'),
+        invalid: count('invalid_id')
+      },
+      features: result.features,
+      diseases: result.diseases,
+      declaredHpoVersion: result.declaredHpoVersion,
+      issues: result.issues,
+      phenopacket: result.phenopacket
+    };
+
+    const formatFeature = (feature: FeatureReport) => {
+      let line = `• ${feature.id || '(no ID)'}: ${feature.label || feature.inputLabel || 'Unknown term'}`;
+      if (feature.status !== 'valid') {
+        line += ` [${feature.status.replace('_', ' ')}]`;
+      }
+      if (feature.replacement) {
+        line += ` → ${feature.replacement.id}${feature.replacement.label ? ` (${feature.replacement.label})` : ''}`;
+      }
+      feature.issues.forEach(issue => {
+        line += `\n  ${issue}`;
+      });
+      return line;
+    };
+
+    const summary = data.summary;
+    const observed = result.features.filter(f => !f.excluded);
+    const excluded = result.features.filter(f => f.excluded);
+
+    let output = `**Phenopacket:** ${result.id || '(no ID)'}\n`;
+    if (result.subject) {
+      output += `**Subject:** ${result.subject.id || '(no ID)'}${result.subject.sex ? ` (${result.subject.sex})` : ''}\n`;
+    }
+    if (result.declaredHpoVersion) {
+      output += `**Declared HPO Version:** ${result.declaredHpoVersion}\n`;
+    }
+    output += `**Phenotypic Features:** ${summary.features} (${summary.observed} observed, ${summary.excluded} excluded)\n`;
+    output += `**Valid:** ${summary.valid} | **Alternative IDs:** ${summary.alternativeIds} | **Obsolete:** ${summary.obsolete} | **Not Found:** ${summary.notFound} | **Invalid:** ${summary.invalid}\n\n`;
+
+    if (observed.length > 0) {
+      output += `**Observed (${observed.length}):**\n${observed.map(formatFeature).join('\n')}\n\n`;
+    }
+    if (excluded.length > 0) {
+      output += `**Excluded (${excluded.length}):**\n${excluded.map(formatFeature).join('\n')}\n\n`;
+    }
+    if (result.diseases.length > 0) {
+      output += `**Diseases:** ${result.diseases.map(d => `${d.id}${d.label ? ` (${d.label})` : ''}`).join(', ')}\n\n`;
+    }
+    if (result.issues.length > 0) {
+      output += `**Document Issues:**\n${result.issues.map(issue => `• ${issue}`).join('\n')}\n\n`;
+    }
+    output += `**Enriched Phenopacket:**\n\`\`\`json\n${JSON.stringify(result.phenopacket, null, 2)}\n\`\`\``;
+
+    return formatResult(format, output, data);
+  }
+
+  /**
+   * Build a GA4GH Phenopacket from observed and excluded HPO terms
+   */
+  async exportPhenopacket(args: ToolArguments<'export_phenopacket'>) {
+    const observed = args.observed ?? [];
+    const excluded = args.excluded ?? [];
+    if (observed.length + excluded.length === 0) {
+      throw new InvalidParamsError('At least one observed or excluded HPO term is required');
+    }
+    const format = readOutputFormat(args);
+
+    const features: FeatureInput[] = [
+      ...observed.map(readFeatureInput),
+      ...excluded.map(id => ({ id, excluded: true }))
+    ];
+
+    let result: PhenopacketExport;
+    try {
+      result = await this.phenopackets.exportPhenopacket({
+        id: args.id,
+        subjectId: args.subject_id,
+        sex: args.sex,
+        features
+      });
+    } catch (error) {
+      return formatError(format, `Error exporting phenopacket: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    const data: PhenopacketExportOutput = result;
+    const phenotypicFeatures = result.phenopacket.phenotypicFeatures || [];
+    const excludedCount = phenotypicFeatures.filter(f => f.excluded).length;
+
+    let output = `**Phenopacket:** ${result.phenopacket.id}\n`;
+    output += `**Phenotypic Features:** ${phenotypicFeatures.length} (${phenotypicFeatures.length - excludedCount} observed, ${excludedCount} excluded)\n`;
+    output += `**HPO Version:** ${result.phenopacket.metaData.resources[0].version}\n\n`;
+    if (result.warnings.length > 0) {
+      output += `**Warnings:**\n${result.warnings.map(warning => `• ${warning}`).join('\n')}\n\n`;
+    }
+    output += `\`\`\`json\n${JSON.stringify(result.phenopacket, null, 2)}\n\`\`\``;
+
+    return formatResult(format, output, data);
+  }
+
+  /**
+   * Report response cache hit/miss counts, optionally clearing the cache
+   */
+  async getHPOCacheStats(args: ToolArguments<'get_hpo_cache_stats'>) {
+    const format = readOutputFormat(args);
+
+    if (!(this.apiClient instanceof CachedBackend)) {
+      const data: CacheStatsOutput = { enabled: false, stats: null, cleared: false };
+      return formatResult(format, "Response caching is disabled; set HPO_CACHE=on to enable it", data);
+    }
+
+    const stats = this.apiClient.getStats();
+    const hitRate = (hits: number, misses: number) =>
+      hits + misses > 0 ? `${((hits / (hits + misses)) * 100).toFixed(1)}%` : 'n/a';
+
+    let output = `**HPO Response Cache:**\n\n`;
+    output += `**Entries:** ${stats.entries} / ${stats.maxEntries}\n`;
+    output += `**Storage:** ${stats.persistedTo ? `memory + ${stats.persistedTo}` : 'memory only'}\n`;
+    output += `**Ontology Release:** ${stats.release || 'unknown (entries expire by TTL only)'}\n`;
+    output += `**Hits:** ${stats.hits}\n`;
+    output += `**Misses:** ${stats.misses}\n`;
+    output += `**Shared In-Flight Calls:** ${stats.shared}\n`;
+    output += `**Hit Rate:** ${hitRate(stats.hits, stats.misses)}\n\n`;
+
+    output += `**By Endpoint:**\n`;
+    Object.entries(stats.endpoints).forEach(([endpoint, counters]) => {
+      output += `  • ${endpoint}: ${counters.hits} hits, ${counters.misses} misses, ${counters.shared} shared (${hitRate(counters.hits, counters.misses)}), TTL ${counters.ttlSeconds}s\n`;
+    });
+
+    const cleared = args?.clear === true;
+    if (cleared) {
+      await this.apiClient.clear();
+      output += `\nCache cleared.`;
+    }
+
+    const data: CacheStatsOutput = { enabled: true, stats, cleared };
+    return formatResult(format, output, data);
+  }
+
+  /**
+   * Report retries, rate limiting and circuit breaker state of the remote API connection
+   */
+  async getHPOApiStatus(args: ToolArguments<'get_hpo_api_status'>) {
+    const format = readOutputFormat(args);
+
+    const status = this.apiClient.getConnectionStatus?.();
+    if (!status) {
+      const data: ApiStatusOutput = { status: null };
+      return formatResult(format, "The local ontology backend is in use; no remote API connection is made", data);
+    }
+
+    let output = `**HPO API Connection:**\n\n`;
+    output += `**Base URL:** ${status.baseUrl}\n`;
+    output += `**Requests Sent:** ${status.requests} (${status.retries} retries)\n`;
+    output += `**Failed Calls:** ${status.failures}\n`;
+    output += `**Rejected by Circuit Breaker:** ${status.rejected}\n\n`;
+
+    const circuit = status.circuit;
+    if (circuit) {
+      const icon = circuit.state === 'closed' ? '✅' : circuit.state === 'open' ? '❌' : '⚠️';
+      output += `**Circuit Breaker:** ${icon} ${circuit.state}\n`;
+      output += `  • Consecutive failures: ${circuit.consecutiveFailures} / ${circuit.failureThreshold}\n`;
+      if (circuit.openedAt) {
+        output += `  • Opened at: ${circuit.openedAt}\n`;
+      }
+      if (circuit.nextAttemptAt) {
+        output += `  • Next attempt at: ${circuit.nextAttemptAt}\n`;
+      }
+      if (circuit.lastError) {
+        output += `  • Last error: ${circuit.lastError}\n`;
+      }
+    } else {
+      output += `**Circuit Breaker:** off\n`;
+    }
+
+    const rateLimit = status.rateLimit;
+    output += rateLimit
+      ? `**Rate Limit:** ${rateLimit.requestsPerSecond} requests/s (burst ${rateLimit.burst}), ${rateLimit.availableTokens} available, ${rateLimit.queued} queued` +
+        `${rateLimit.pausedUntil ? `, paused until ${rateLimit.pausedUntil} after a 429 response` : ''}\n`
+      : `**Rate Limit:** off\n`;
+
+    const data: ApiStatusOutput = { status };
+    return formatResult(format, output, data);
+  }
+
+  /**
+   * List the languages HPO term translations are available in
+   */
+  async listHPOLanguages(args: ToolArguments<'list_hpo_languages'>) {
+    const format = readOutputFormat(args);
+
+    let languages;
+    try {
+      languages = await this.translations.getLanguageSummaries();
+    } catch (error) {
+      return formatError(format, `Error listing HPO translations: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+
+    const data: LanguagesOutput = { languages };
+    if (languages.length === 0) {
+      return formatResult(format, "No HPO translation files (hp-<language>.babelon.tsv) found in HPO_TRANSLATIONS_DIR", data);
+    }
+
+    const formattedLanguages = languages.map(summary => {
+      const statuses = Object.entries(summary.statuses)
+        .map(([status, count]) => `${TRANSLATION_STATUSES[status] || status}: ${count}`)
+        .join(', ');
+      return `• ${summary.language.name} (${summary.language.code}): ${summary.terms} translated terms${statuses ? ` (${statuses})` : ''}`;
+    }).join('\n');
+
+    return formatResult(
+      format,
+      `**Available HPO Translations:**\n\n${formattedLanguages}\n\nPass the language code as the language parameter. Terms without a translation are shown in English.`,
+      data
+    );
+  }
+
+  /**
+   * Read the optional language argument. Returns undefined for English.
+   */
+  private async readLanguage(args: { language?: string }): Promise<Language | undefined> {
+    if (args.language === undefined) {
+      return undefined;
+    }
+    return this.translations.resolveLanguage(args.language);
+  }
+
+  /**
+   * Attach translations to a list of terms
+   */
+  private async translateTerms<T extends SimpleOntologyTerm>(terms: T[], language?: Language): Promise<Array<T & { translation?: Translation }>> {
+    if (!language) {
+      return terms;
+    }
+    return Promise.all(terms.map(async term => ({
+      ...term,
+      translation: await this.translations.getTranslation(term.id, language)
+    })));
+  }
+
+  /**
+   * Search English labels through the backend and translated labels locally.
+   * Translated matches are listed first; terms found by both are only listed once.
+   */
+  private async searchWithTranslations(params: SearchParams, language: Language): Promise<ApiResponse<SearchResult>> {
+    const offset = params.offset || 0;
+    const max = params.max || 20;
+    const translatedMatches = await this.translations.searchTranslations(params.q, language);
+    const translatedIds = new Set(translatedMatches.map(match => match.id));
+
+    const result = await this.apiClient.searchTerms({
+      ...params,
+      offset: Math.max(0, offset - translatedMatches.length)
+    });
+    if (result.error) {
+      return result;
+    }
+
+    const englishTerms = (result.data?.terms || []).filter(term => !translatedIds.has(term.id));
+    const terms = [
+      ...translatedMatches.slice(offset, offset + max).map(match => ({
+        id: match.id,
+        name: match.englishName || match.id,
+        score: match.score
+      })),
+      ...englishTerms
+    ].slice(0, max);
+
+    return {
+      data: {
+        terms,
+        totalResults: translatedMatches.length + (result.data?.totalResults ?? englishTerms.length)
+      },
+      status: result.status
+    };
+  }
+
+  /**
+   * Resolve an HPO term and, optionally, its descendants for annotation lookups
+   */
+  private async getAnnotationQueryTerms(id: string, includeDescendants: boolean) {
+    const termResult = await this.apiClient.getTerm(id);
+    if (termResult.error || !termResult.data) {
+      throw termResult.failure ?? new NotFoundError(`HPO term ${id} not found`);
+    }
+
+    const ids = [termResult.data.id];
+    if (includeDescendants) {
+      const descendantsResult = await this.apiClient.getDescendants({ id: termResult.data.id, max: 50000, offset: 0 });
+      if (descendantsResult.error) {
+        throw responseError(descendantsResult, 'Error retrieving descendants');
+      }
+      ids.push(...(descendantsResult.data || []).map(d => d.id));
+    }
+
+    return {
+      term: { id: termResult.data.id, name: termResult.data.name },
+      name: `${termResult.data.id} (${termResult.data.name})`,
+      ids
+    };
+  }
+
+  /**
+   * Look up genes by symbol or ID, keeping each gene once
+   */
+  private async readGeneItems(values: string[]): Promise<{ items: AnnotatedItem[]; unmatched: string[] }> {
+    const items = new Map<string, AnnotatedItem>();
+    const unmatched: string[] = [];
+    for (const value of values) {
+      const gene = await this.annotations.getGene(value);
+      if (!gene) {
+        unmatched.push(value);
+      } else if (!items.has(gene.id)) {
+        items.set(gene.id, { id: gene.symbol, hpoIds: unique(gene.annotations.map(a => a.hpoId)) });
+      }
+    }
+    return { items: Array.from(items.values()), unmatched };
+  }
+
+  /**
+   * Look up names for a list of HPO term IDs, skipping terms that cannot be retrieved
+   */
+  private async getTermNames(ids: string[]): Promise<Map<string, string>> {
+    const results = await this.resolveTerms(unique(ids));
+    return new Map(results.filter(r => r.success && r.data).map(r => [r.id, r.data!.name]));
+  }
+
+  /**
+   * Describe the frequency, onset, evidence and source of a disease annotation
+   */
+  private formatAnnotationDetails(annotation: DiseaseAnnotation, names: Map<string, string> = new Map()): string {
+    const details: string[] = [];
+    if (annotation.frequency) {
+      details.push(`Frequency: ${FREQUENCY_TERMS[annotation.frequency] || annotation.frequency}`);
+    }
+    if (annotation.onset) {
+      details.push(`Onset: ${names.get(annotation.onset) ? `${names.get(annotation.onset)} (${annotation.onset})` : annotation.onset}`);
+    }
+    if (annotation.sex) {
+      details.push(`Sex: ${annotation.sex}`);
+    }
+    if (annotation.modifiers && annotation.modifiers.length > 0) {
+      details.push(`Modifiers: ${annotation.modifiers.join(', ')}`);
+    }
+    if (annotation.evidence) {
+      details.push(`Evidence: ${annotation.evidence}`);
+    }
+    if (annotation.reference) {
+      details.push(`Reference: ${annotation.reference}`);
+    }
+    return details.join(' | ');
+  }
+
+  /**
+   * Retrieve several HPO terms concurrently, capturing per-term failures
+   */
+  private async resolveTerms(ids: string[]) {
+    return Promise.all(
+      ids.map(async (id: string) => {
+        try {
+          const result = await this.apiClient.getTerm(id);
+          return {
+            id,
+            success: !result.error,
+            data: result.data,
+            error: result.error
+          };
+        } catch (error) {
+          return {
+            id,
+            success: false,
+            data: undefined,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          };
+        }
+      })
+    );
+  }
+
+  /**
+   * Format HPO ID to ensure proper format
+   */
+  formatHPOId(id: string): string {
+    return this.apiClient.formatHPOId(id);
+  }
+}
+
+/**
+ * Display name of a term: the translated label with the English label alongside,
+ * or the English label when the term has not been translated
+ */
+function formatTermName(term: SimpleOntologyTerm & { translation?: Translation }): string {
+  const translation = term.translation;
+  if (!translation) {
+    return term.name;
+  }
+  if (!translation.name) {
+    return `${term.name} [${translation.status?.name || 'Not translated'}, English]`;
+  }
+  return `${translation.name} (${term.name})${translation.status ? ` [${translation.status.name}]` : ''}`;
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
+
+/**
+ * Read an observed feature given as an HPO ID or as { id, onset, modifiers, severity, description }
+ */
+function readFeatureInput(feature: NonNullable<ToolArguments<'export_phenopacket'>['observed']>[number]): FeatureInput {
+  if (typeof feature === 'string') {
+    return { id: feature };
+  }
+  return {
+    id: feature.id,
+    onset: feature.onset,
+    modifiers: feature.modifiers,
+    severity: feature.severity,
+    description: feature.description
+  };
+}
+
+/**
+ * Depth of a term, as a range when its paths from the root differ in length
+ */
+function formatDepth(paths: TermPaths): string {
+  return paths.minDepth === paths.maxDepth
+    ? `${paths.minDepth}`
+    : `${paths.minDepth} (shortest path) to ${paths.maxDepth} (longest path)`;
+}
+
+type EnrichmentItem = ToolArguments<'analyze_hpo_enrichment'>['study'][number];
+type PatientItem = Exclude<EnrichmentItem, string>;
+
+function isGeneItem(item: EnrichmentItem): item is string {
+  return typeof item === 'string';
+}
+
+function isPatientItem(item: EnrichmentItem): item is PatientItem {
+  return typeof item !== 'string';
+}
+
+/**
+ * Read patient profiles, keeping the first profile for each ID
+ */
+function readPatientItems(patients: PatientItem[]): { items: AnnotatedItem[]; unmatched: string[] } {
+  const items = new Map<string, AnnotatedItem>();
+  const unmatched: string[] = [];
+  patients.forEach(patient => {
+    const hpoIds = unique(patient.hpo_ids.map(id => id.trim()).filter(Boolean));
+    if (hpoIds.length === 0) {
+      unmatched.push(patient.id);
+    } else if (!items.has(patient.id)) {
+      items.set(patient.id, { id: patient.id, hpoIds });
+    }
+  });
+  return { items: Array.from(items.values()), unmatched };
+}
+
+/**
+ * Small p-values in scientific notation
+ */
+function formatPValue(p: number): string {
+  return p < 0.001 ? p.toExponential(2) : p.toFixed(4);
+}
+
+/**
+ * One line per validated value; invalid values are explained by their message
+ */
+function formatSubontologyCheck(check: SubontologyCheck): string {
+  const term = check.term ? `${check.term.id} (${check.term.name})` : check.inputId;
+  return check.valid
+    ? `✅ ${check.inputId === check.term?.id ? term : `${check.inputId} → ${term}`}${check.message ? ` - ${check.message}` : ''}`
+    : `❌ ${check.message}`;
 }
@@ -0,0 +1,196 @@
+/**
+ * HPO Prompt Handlers - Guided clinical phenotyping workflows exposed as MCP prompts
+ *
+ * Each prompt embeds live HPO data (term details and child terms) so the model
+ * starts from the current ontology rather than from memory.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { HPOHandlers } from './hpo-handlers.js';
+
+const PHENOTYPIC_ABNORMALITY_ID = 'HP:0000118';
+const MAX_PROFILE_TERMS = 50;
+
+export class HPOPromptHandlers {
+  constructor(private readonly hpoHandlers: HPOHandlers) {}
+
+  /**
+   * Available prompt templates and their arguments
+   */
+  listPrompts() {
+    return {
+      prompts: [
+        {
+          name: "encode_clinical_note",
+          description: "Encode a clinical note or letter into HPO terms, organised by organ system",
+          arguments: [
+            {
+              name: "note",
+              description: "Free-text clinical note describing the patient's phenotype",
+              required: true
+            },
+            {
+              name: "include_excluded",
+              description: "Also list phenotypes the note explicitly rules out (\"yes\" or \"no\", default: yes)",
+              required: false
+            }
+          ]
+        },
+        {
+          name: "refine_phenotype",
+          description: "Refine a vague phenotype term into more specific child terms",
+          arguments: [
+            {
+              name: "term_id",
+              description: "HPO term ID to refine (e.g., HP:0001250)",
+              required: true
+            },
+            {
+              name: "clinical_context",
+              description: "Additional clinical details that help choose between child terms",
+              required: false
+            }
+          ]
+        },
+        {
+          name: "summarize_profile_by_organ_system",
+          description: "Summarise a patient HPO profile grouped by organ system",
+          arguments: [
+            {
+              name: "hpo_ids",
+              description: "Comma-separated HPO term IDs of the patient profile",
+              required: true
+            }
+          ]
+        }
+      ]
+    };
+  }
+
+  /**
+   * Build the messages for a prompt template
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}) {
+    switch (name) {
+      case "encode_clinical_note":
+        return this.encodeClinicalNote(args);
+      case "refine_phenotype":
+        return this.refinePhenotype(args);
+      case "summarize_profile_by_organ_system":
+        return this.summarizeProfile(args);
+      default:
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+  }
+
+  private async encodeClinicalNote(args: Record<string, string>) {
+    const note = requireArgument(args, 'note');
+    const includeExcluded = (args.include_excluded || 'yes').toLowerCase() !== 'no';
+    const organSystems = await this.getOrganSystems();
+
+    let text = `Encode the following clinical note into Human Phenotype Ontology (HPO) terms.\n\n`;
+    text += `**Clinical note:**\n${note}\n\n`;
+    text += `**Top-level HPO organ system branches (children of ${PHENOTYPIC_ABNORMALITY_ID} Phenotypic abnormality):**\n${organSystems}\n\n`;
+    text += `**Instructions:**\n`;
+    text += `1. Identify every phenotypic finding in the note.\n`;
+    text += `2. For each finding, use search_hpo_terms to find candidate terms and get_hpo_term to confirm the definition matches.\n`;
+    text += `3. Choose the most specific term supported by the note; use get_hpo_children to check for a better fit.\n`;
+    if (includeExcluded) {
+      text += `4. List findings the note explicitly rules out (e.g. "no seizures") separately as excluded terms.\n`;
+    }
+    text += `\nReport the terms grouped by the organ system branches above, giving the HPO ID, term name and the phrase from the note that supports it.`;
+
+    return {
+      description: "Encode a clinical note into HPO terms",
+      messages: [userMessage(text)]
+    };
+  }
+
+  private async refinePhenotype(args: Record<string, string>) {
+    const termId = requireArgument(args, 'term_id');
+
+    const [termResult, childrenResult] = await Promise.all([
+      this.hpoHandlers.getHPOTerm({ id: termId }),
+      this.hpoHandlers.getHPOChildren({ id: termId, max: 100 })
+    ]);
+    if (termResult.isError) {
+      throw new McpError(ErrorCode.InvalidParams, termResult.content[0].text);
+    }
+
+    let text = `Refine the phenotype below into the most specific HPO terms that fit the patient.\n\n`;
+    text += `**Current term:**\n${termResult.content[0].text}\n\n`;
+    text += `**More specific child terms:**\n${childrenResult.content[0].text}\n\n`;
+    if (args.clinical_context) {
+      text += `**Clinical context:**\n${args.clinical_context}\n\n`;
+    }
+    text += `**Instructions:**\n`;
+    text += `1. Compare the clinical context with each child term's definition (use get_hpo_term for details).\n`;
+    text += `2. Recommend the child term(s) that best describe the patient, or explain why the current term is already the best fit.\n`;
+    text += `3. If a recommended child term has children of its own, use get_hpo_children to check whether a still more specific term applies.`;
+
+    return {
+      description: `Refine ${termId} into more specific child terms`,
+      messages: [userMessage(text)]
+    };
+  }
+
+  private async summarizeProfile(args: Record<string, string>) {
+    const ids = requireArgument(args, 'hpo_ids')
+      .split(/[\s,;]+/)
+      .map(id => id.trim())
+      .filter(Boolean);
+
+    if (ids.length > MAX_PROFILE_TERMS) {
+      throw new McpError(ErrorCode.InvalidParams, `A profile can contain at most ${MAX_PROFILE_TERMS} terms`);
+    }
+
+    const [organSystems, ...termResults] = await Promise.all([
+      this.getOrganSystems(),
+      ...ids.map(id => this.hpoHandlers.getHPOTerm({ id }))
+    ]);
+
+    let text = `Summarise the following patient phenotype profile grouped by organ system.\n\n`;
+    text += `**Top-level HPO organ system branches (children of ${PHENOTYPIC_ABNORMALITY_ID} Phenotypic abnormality):**\n${organSystems}\n\n`;
+    text += `**Profile terms:**\n\n`;
+    termResults.forEach((result, index) => {
+      text += result.isError
+        ? `${ids[index]}: could not be retrieved (${result.content[0].text})\n\n`
+        : `${result.content[0].text}\n\n`;
+    });
+    text += `**Instructions:**\n`;
+    text += `1. Assign each term to one or more organ system branches above, using get_hpo_ancestors when the parent terms are not conclusive.\n`;
+    text += `2. Write a short clinical summary per organ system.\n`;
+    text += `3. Point out redundant terms (a term together with one of its ancestors) and organ systems with no findings.`;
+
+    return {
+      description: `Summarise a ${ids.length}-term HPO profile by organ system`,
+      messages: [userMessage(text)]
+    };
+  }
+
+  /**
+   * Live list of the top-level organ system branches
+   */
+  private async getOrganSystems(): Promise<string> {
+    const result = await this.hpoHandlers.getHPOChildren({ id: PHENOTYPIC_ABNORMALITY_ID, max: 100 });
+    return result.isError ? '(organ system list unavailable)' : result.content[0].text;
+  }
+}
+
+function requireArgument(args: Record<string, string>, name: string): string {
+  const value = args[name];
+  if (!value || !value.trim()) {
+    throw new McpError(ErrorCode.InvalidParams, `Argument "${name}" is required`);
+  }
+  return value.trim();
+}
+
+function userMessage(text: string) {
+  return {
+    role: "user" as const,
+    content: {
+      type: "text" as const,
+      text
+    }
+  };
+}
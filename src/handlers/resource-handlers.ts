@@ -0,0 +1,140 @@
+/**
+ * HPO Resource Handlers - Exposes HPO terms as MCP resources
+ *
+ * Resource URIs:
+ * - hpo://term/{id}              Term document (definition, synonyms, cross-references, parents, children)
+ * - hpo://term/{id}/ancestors    All ancestor terms
+ * - hpo://term/{id}/descendants  All descendant terms
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { HPOBackend } from '../types/hpo.js';
+import { HPOHandlers } from './hpo-handlers.js';
+import { NotFoundError, responseError, toMcpError } from '../utils/errors.js';
+
+const RESOURCE_PAGE_SIZE = 100;
+const MAX_HIERARCHY_RESULTS = 50000;
+const TERM_URI_PATTERN = /^hpo:\/\/term\/([^/]+)(?:\/(ancestors|descendants))?$/;
+
+export class HPOResourceHandlers {
+  constructor(
+    private readonly backend: HPOBackend,
+    private readonly hpoHandlers: HPOHandlers
+  ) {}
+
+  /**
+   * List term resources one page at a time. The cursor is the offset of the next page.
+   */
+  async listResources(cursor?: string) {
+    const offset = cursor ? Number(cursor) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+    }
+
+    const result = await this.backend.getAllTerms(RESOURCE_PAGE_SIZE, offset);
+    if (result.error) {
+      throw toMcpError(responseError(result, 'Error listing HPO terms'));
+    }
+
+    const terms = result.data || [];
+    return {
+      resources: terms.map(term => ({
+        uri: `hpo://term/${term.id}`,
+        name: `${term.id}: ${term.name}`,
+        mimeType: "text/markdown"
+      })),
+      nextCursor: terms.length >= RESOURCE_PAGE_SIZE ? String(offset + terms.length) : undefined
+    };
+  }
+
+  /**
+   * URI templates for term documents and hierarchy listings
+   */
+  listResourceTemplates() {
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: "hpo://term/{id}",
+          name: "HPO term",
+          description: "Term document with definition, synonyms, cross-references, parents and children (e.g. hpo://term/HP:0001250)",
+          mimeType: "text/markdown"
+        },
+        {
+          uriTemplate: "hpo://term/{id}/ancestors",
+          name: "HPO term ancestors",
+          description: "All terms above the given term in the hierarchy",
+          mimeType: "text/markdown"
+        },
+        {
+          uriTemplate: "hpo://term/{id}/descendants",
+          name: "HPO term descendants",
+          description: "All terms below the given term in the hierarchy",
+          mimeType: "text/markdown"
+        }
+      ]
+    };
+  }
+
+  /**
+   * Render the document behind a resource URI
+   */
+  async readResource(uri: string) {
+    const match = uri.match(TERM_URI_PATTERN);
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+    }
+
+    const id = this.backend.formatHPOId(decodeURIComponent(match[1]));
+    const view = match[2];
+
+    const text = view ? await this.renderHierarchy(id, view as 'ancestors' | 'descendants') : await this.renderTerm(id);
+
+    return {
+      contents: [{
+        uri,
+        mimeType: "text/markdown",
+        text
+      }]
+    };
+  }
+
+  private async renderTerm(id: string): Promise<string> {
+    // Look the term up first so a missing term and a failing backend map to different MCP errors
+    const termResult = await this.backend.getTerm(id);
+    if (termResult.error || !termResult.data) {
+      throw toMcpError(termResult.failure ?? new NotFoundError(`HPO term ${id} not found`));
+    }
+
+    const result = await this.hpoHandlers.getHPOTerm({ id });
+    const text = result.content[0].text;
+    if (result.isError) {
+      throw new McpError(ErrorCode.InternalError, text);
+    }
+    return text;
+  }
+
+  private async renderHierarchy(id: string, view: 'ancestors' | 'descendants'): Promise<string> {
+    const params = { id, max: MAX_HIERARCHY_RESULTS, offset: 0 };
+    const [termResult, relatedResult] = await Promise.all([
+      this.backend.getTerm(id),
+      view === 'ancestors' ? this.backend.getAncestors(params) : this.backend.getDescendants(params)
+    ]);
+
+    if (termResult.error || !termResult.data) {
+      throw toMcpError(termResult.failure ?? new NotFoundError(`HPO term ${id} not found`));
+    }
+    if (relatedResult.error) {
+      throw toMcpError(responseError(relatedResult, `Error retrieving ${view} for ${id}`));
+    }
+
+    const related = relatedResult.data || [];
+    const title = view === 'ancestors' ? 'Ancestors' : 'Descendants';
+
+    let output = `**${title} of ${termResult.data.id}: ${termResult.data.name}** (${related.length} terms)\n\n`;
+    output += related.length > 0
+      ? related.map(term => `• ${term.id}: ${term.name}`).join('\n')
+      : `No ${view} found`;
+
+    return output;
+  }
+}
@@ -0,0 +1,1017 @@
+/**
+ * HPO Tool Registry - Declarative definitions of the MCP tools
+ *
+ * Each tool's JSON Schema is defined once: it is advertised as the tool's inputSchema
+ * and used to validate and coerce incoming arguments before the handler runs, so
+ * handlers receive arguments of the declared types within the declared bounds. The
+ * handlers' argument types (ToolArguments) are derived from the same schemas.
+ * Invalid arguments are rejected with InvalidParamsError naming the offending field.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { HPOHandlers } from './hpo-handlers.js';
+import { JsonSchema, SchemaValue, validateArguments } from '../utils/schema.js';
+import { ToolResult } from '../utils/output.js';
+import { GRAPH_FORMATS } from '../utils/graph-export.js';
+import { ENRICHMENT_METHODS, CORRECTIONS } from '../utils/enrichment.js';
+import { SUBONTOLOGY_NAMES } from '../utils/subontologies.js';
+
+export interface ToolDefinition {
+  name: string;
+  /** HPOHandlers method called with the validated arguments */
+  method: keyof HPOHandlers;
+  description: string;
+  inputSchema: JsonSchema;
+}
+
+/**
+ * Shared output_format argument accepted by every tool
+ */
+const OUTPUT_FORMAT_PROPERTY = {
+  type: "string",
+  enum: ["markdown", "json"],
+  description: "Response format: human-readable markdown (default) or structured JSON"
+} as const satisfies JsonSchema;
+
+/**
+ * Shared language argument accepted by tools that display term labels
+ */
+const LANGUAGE_PROPERTY = {
+  type: "string",
+  description: "Language code for translated labels, definitions and synonyms (e.g., de, fr, it, ja, nl; default: en). Untranslated terms fall back to English. See list_hpo_languages."
+} as const satisfies JsonSchema;
+
+/**
+ * Shared sub-ontology argument of the sub-ontology tools
+ */
+const SUBONTOLOGY_PROPERTY = {
+  type: "string",
+  enum: SUBONTOLOGY_NAMES,
+  description: "Sub-ontology: phenotype (HP:0000118), inheritance (HP:0000005), onset (HP:0003674), frequency (HP:0040279), modifier (HP:0012823), severity (HP:0012824) or laterality (HP:0012831)"
+} as const satisfies JsonSchema;
+
+/**
+ * Shared term ID argument of the single-term tools
+ */
+const HPO_ID_PROPERTY = {
+  type: "string",
+  description: "HPO term ID (e.g., HP:0001234 or just 0001234)",
+  minLength: 1
+} as const satisfies JsonSchema;
+
+export const TOOL_DEFINITIONS = [
+  {
+    name: "search_hpo_terms",
+    method: "searchHPOTerms",
+    description: "Search for HPO terms by keyword, ID, or synonym. Supports pagination and filtering.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Search query - can be a keyword, HPO ID (e.g., HP:0001234), or synonym",
+          minLength: 1
+        },
+        max: {
+          type: "integer",
+          description: "Maximum number of results to return (default: 20, max: 100)",
+          minimum: 1,
+          maximum: 100
+        },
+        offset: {
+          type: "integer",
+          description: "Number of results to skip for pagination (default: 0)",
+          minimum: 0
+        },
+        category: {
+          type: "array",
+          items: { type: "string" },
+          description: "Restrict results to organ systems: the top-level branches under Phenotypic abnormality (HP:0000118), given by ID (e.g. HP:0000707) or name (e.g. \"nervous system\", \"cardiovascular system\", \"eye\"). Unknown values are rejected with the list of valid ones (optional)"
+        },
+        language: LANGUAGE_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["query"]
+    }
+  },
+  {
+    name: "get_hpo_term",
+    method: "getHPOTerm",
+    description: "Get detailed information about a specific HPO term by its ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: HPO_ID_PROPERTY,
+        language: LANGUAGE_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["id"]
+    }
+  },
+  {
+    name: "get_all_hpo_terms",
+    method: "getAllHPOTerms",
+    description: "Get a list of all HPO terms with pagination support",
+    inputSchema: {
+      type: "object",
+      properties: {
+        max: {
+          type: "integer",
+          description: "Maximum number of terms to return (default: 20, max: 100)",
+          minimum: 1,
+          maximum: 100
+        },
+        offset: {
+          type: "integer",
+          description: "Number of terms to skip for pagination (default: 0)",
+          minimum: 0
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      }
+    }
+  },
+  {
+    name: "get_hpo_ancestors",
+    method: "getHPOAncestors",
+    description: "Get all ancestor terms for a given HPO term (all terms higher in the hierarchy)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: HPO_ID_PROPERTY,
+        max: {
+          type: "integer",
+          description: "Maximum number of ancestors to return (default: 50)",
+          minimum: 1,
+          maximum: 200
+        },
+        offset: {
+          type: "integer",
+          description: "Number of results to skip for pagination (default: 0)",
+          minimum: 0
+        },
+        language: LANGUAGE_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["id"]
+    }
+  },
+  {
+    name: "get_hpo_parents",
+    method: "getHPOParents",
+    description: "Get direct parent terms for a given HPO term (one level up in the hierarchy)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: HPO_ID_PROPERTY,
+        max: {
+          type: "integer",
+          description: "Maximum number of parents to return (default: 20)",
+          minimum: 1,
+          maximum: 100
+        },
+        offset: {
+          type: "integer",
+          description: "Number of results to skip for pagination (default: 0)",
+          minimum: 0
+        },
+        language: LANGUAGE_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["id"]
+    }
+  },
+  {
+    name: "get_hpo_children",
+    method: "getHPOChildren",
+    description: "Get direct child terms for a given HPO term (one level down in the hierarchy)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: HPO_ID_PROPERTY,
+        max: {
+          type: "integer",
+          description: "Maximum number of children to return (default: 20)",
+          minimum: 1,
+          maximum: 100
+        },
+        offset: {
+          type: "integer",
+          description: "Number of results to skip for pagination (default: 0)",
+          minimum: 0
+        },
+        language: LANGUAGE_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["id"]
+    }
+  },
+  {
+    name: "get_hpo_descendants",
+    method: "getHPODescendants",
+    description: "Get all descendant terms for a given HPO term (all terms lower in the hierarchy)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: HPO_ID_PROPERTY,
+        max: {
+          type: "integer",
+          description: "Maximum number of descendants to return (default: 50, max: 100)",
+          minimum: 1,
+          maximum: 100
+        },
+        offset: {
+          type: "integer",
+          description: "Number of results to skip for pagination (default: 0)",
+          minimum: 0
+        },
+        language: LANGUAGE_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["id"]
+    }
+  },
+  {
+    name: "validate_hpo_id",
+    method: "validateHPOId",
+    description: "Validate if a given string is a valid HPO ID format and check if the term exists",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "ID to validate (e.g., HP:0001234, 0001234, or any string)",
+          minLength: 1
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["id"]
+    }
+  },
+  {
+    name: "export_hpo_subgraph",
+    method: "exportHPOSubgraph",
+    description: "Export the part of the HPO hierarchy around one or more terms as a graph (Graphviz DOT, Mermaid or GraphML). Terms with several parents are drawn once with all their is_a edges, so the result is the true DAG rather than a single path.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ids: {
+          type: "array",
+          items: {
+            type: "string"
+          },
+          description: "Seed HPO term IDs",
+          minItems: 1,
+          maxItems: 20
+        },
+        direction: {
+          type: "string",
+          enum: ["up", "down", "both"],
+          description: "Follow parents towards the root (up, default), children (down), or both"
+        },
+        depth: {
+          type: "integer",
+          description: "Number of levels to follow from the seeds (default: 3, max: 20)",
+          minimum: 0,
+          maximum: 20
+        },
+        max_nodes: {
+          type: "integer",
+          description: "Maximum number of terms in the graph (default: 200, max: 1000)",
+          minimum: 1,
+          maximum: 1000
+        },
+        graph_format: {
+          type: "string",
+          enum: GRAPH_FORMATS,
+          description: "Graph language to render (default: mermaid)"
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["ids"]
+    }
+  },
+  {
+    name: "resolve_hpo_ids",
+    method: "resolveHPOIds",
+    description: "Map legacy HPO IDs (e.g. from older HPO releases) to their current primary IDs by following alternative IDs, replaced_by and consider links. Reports which IDs were merged, replaced, obsoleted without replacement, or are unknown.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ids: {
+          type: "array",
+          items: {
+            type: "string"
+          },
+          description: "HPO term IDs to resolve",
+          minItems: 1,
+          maxItems: 10000
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["ids"]
+    }
+  },
+  {
+    name: "map_to_hpo",
+    method: "mapToHPO",
+    description: "Map codes from other vocabularies (UMLS CUIs, SNOMED CT, MeSH, ICD) to candidate HPO terms using the terms' database cross-references. Requires a local ontology file.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        codes: {
+          type: "array",
+          items: {
+            type: "string"
+          },
+          description: "Codes with or without a vocabulary prefix (e.g. SNOMEDCT_US:91175000, UMLS:C0036572, C0036572)",
+          minItems: 1,
+          maxItems: 100
+        },
+        vocabulary: {
+          type: "string",
+          description: "Vocabulary of codes given without a prefix (e.g. SNOMEDCT_US, UMLS, MSH). Without it, unprefixed codes are matched in every vocabulary."
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["codes"]
+    }
+  },
+  {
+    name: "map_from_hpo",
+    method: "mapFromHPO",
+    description: "List the codes in other vocabularies (UMLS, SNOMED CT, MeSH, ICD, ...) that HPO terms cross-reference, grouped by vocabulary",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ids: {
+          type: "array",
+          items: {
+            type: "string"
+          },
+          description: "HPO term IDs to map",
+          minItems: 1,
+          maxItems: 100
+        },
+        vocabularies: {
+          type: "array",
+          items: {
+            type: "string"
+          },
+          description: "Only return these vocabularies (e.g. [\"SNOMEDCT_US\"])"
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["ids"]
+    }
+  },
+  {
+    name: "get_hpo_term_path",
+    method: "getHPOTermPath",
+    description: "Get every distinct path from the root to a specific HPO term (terms can have several parents), with the minimum and maximum depth",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: HPO_ID_PROPERTY,
+        max_paths: {
+          type: "integer",
+          description: "Maximum number of paths to list, shortest first (default: 20, max: 100)",
+          minimum: 1,
+          maximum: 100
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["id"]
+    }
+  },
+  {
+    name: "compare_hpo_terms",
+    method: "compareHPOTerms",
+    description: "Compare two HPO terms and find their relationship and common ancestors",
+    inputSchema: {
+      type: "object",
+      properties: {
+        term1: {
+          type: "string",
+          description: "First HPO term ID (e.g., HP:0001234)",
+          minLength: 1
+        },
+        term2: {
+          type: "string",
+          description: "Second HPO term ID (e.g., HP:0005678)",
+          minLength: 1
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["term1", "term2"]
+    }
+  },
+  {
+    name: "hpo_semantic_similarity",
+    method: "getHPOSemanticSimilarity",
+    description: "Compute information-content-based semantic similarity (Resnik, Lin, Jiang-Conrath) between two HPO terms and find their most informative common ancestor",
+    inputSchema: {
+      type: "object",
+      properties: {
+        term1: {
+          type: "string",
+          description: "First HPO term ID (e.g., HP:0001234)",
+          minLength: 1
+        },
+        term2: {
+          type: "string",
+          description: "Second HPO term ID (e.g., HP:0005678)",
+          minLength: 1
+        },
+        ic_source: {
+          type: "string",
+          enum: ["descendants", "annotations"],
+          description: "How information content is computed: from descendant counts (default) or from annotation frequency"
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["term1", "term2"]
+    }
+  },
+  {
+    name: "compare_hpo_profiles",
+    method: "compareHPOProfiles",
+    description: "Compare two patient phenotype profiles (lists of HPO terms) using symmetric best-match-average, maximum and funSimAvg similarity, with a per-term best match table",
+    inputSchema: {
+      type: "object",
+      properties: {
+        profile1: {
+          type: "array",
+          items: { type: "string" },
+          description: "HPO term IDs of the first profile",
+          minItems: 1,
+          maxItems: 200
+        },
+        profile2: {
+          type: "array",
+          items: { type: "string" },
+          description: "HPO term IDs of the second profile",
+          minItems: 1,
+          maxItems: 200
+        },
+        metric: {
+          type: "string",
+          enum: ["resnik", "lin", "jiang_conrath"],
+          description: "Pairwise term similarity measure (default: resnik)"
+        },
+        ic_source: {
+          type: "string",
+          enum: ["descendants", "annotations"],
+          description: "How information content is computed: from descendant counts (default) or from annotation frequency"
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["profile1", "profile2"]
+    }
+  },
+  {
+    name: "get_hpo_term_stats",
+    method: "getHPOTermStats",
+    description: "Get comprehensive statistics and analysis for an HPO term including hierarchy counts and properties",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: HPO_ID_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["id"]
+    }
+  },
+  {
+    name: "batch_get_hpo_terms",
+    method: "batchGetHPOTerms",
+    description: "Retrieve multiple HPO terms in a single request (maximum 20 terms)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "Array of HPO term IDs to retrieve",
+          minItems: 1,
+          maxItems: 20
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["ids"]
+    }
+  },
+  {
+    name: "get_hpo_term_diseases",
+    method: "getHPOTermDiseases",
+    description: "List diseases (OMIM, Orphanet, DECIPHER) annotated to an HPO term, with frequency, onset and evidence codes. Requires phenotype.hpoa",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: HPO_ID_PROPERTY,
+        include_descendants: {
+          type: "boolean",
+          description: "Also include diseases annotated to descendants of the term (default: false)"
+        },
+        database: {
+          type: "string",
+          enum: ["OMIM", "ORPHA", "DECIPHER"],
+          description: "Only return diseases from this database (optional)"
+        },
+        max: {
+          type: "integer",
+          description: "Maximum number of diseases to return (default: 50, max: 200)",
+          minimum: 1,
+          maximum: 200
+        },
+        offset: {
+          type: "integer",
+          description: "Number of results to skip for pagination (default: 0)",
+          minimum: 0
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["id"]
+    }
+  },
+  {
+    name: "get_hpo_term_genes",
+    method: "getHPOTermGenes",
+    description: "List genes annotated to an HPO term. Requires genes_to_phenotype.txt",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: HPO_ID_PROPERTY,
+        include_descendants: {
+          type: "boolean",
+          description: "Also include genes annotated to descendants of the term (default: false)"
+        },
+        max: {
+          type: "integer",
+          description: "Maximum number of genes to return (default: 50, max: 200)",
+          minimum: 1,
+          maximum: 200
+        },
+        offset: {
+          type: "integer",
+          description: "Number of results to skip for pagination (default: 0)",
+          minimum: 0
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["id"]
+    }
+  },
+  {
+    name: "rank_diseases_by_phenotype",
+    method: "rankDiseasesByPhenotype",
+    description: "Rank annotated diseases by semantic similarity between a patient's HPO terms and each disease's annotation profile (differential diagnosis), with per-term match explanations. Requires phenotype.hpoa",
+    inputSchema: {
+      type: "object",
+      properties: {
+        hpo_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "HPO term IDs observed in the patient",
+          minItems: 1,
+          maxItems: 100
+        },
+        excluded_hpo_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "HPO term IDs explicitly excluded in the patient (optional)",
+          maxItems: 100
+        },
+        database: {
+          type: "string",
+          enum: ["OMIM", "ORPHA", "DECIPHER"],
+          description: "Only rank diseases from this database (optional)"
+        },
+        ic_source: {
+          type: "string",
+          enum: ["annotations", "descendants"],
+          description: "How information content is computed: from annotation frequency (default) or from descendant counts"
+        },
+        max_results: {
+          type: "integer",
+          description: "Maximum number of ranked diseases to return (default: 20, max: 100)",
+          minimum: 1,
+          maximum: 100
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["hpo_ids"]
+    }
+  },
+  {
+    name: "analyze_hpo_enrichment",
+    method: "analyzeHPOEnrichment",
+    description: "Find HPO terms over-represented in a study set of genes or patients compared with a population, using a one-sided hypergeometric test with true-path propagation, term-for-term or parent-child-union statistics and Bonferroni or Benjamini-Hochberg correction. Gene sets require genes_to_phenotype.txt",
+    inputSchema: {
+      type: "object",
+      properties: {
+        study: {
+          type: "array",
+          items: {
+            oneOf: [
+              { type: "string", description: "Gene symbol or NCBI gene ID" },
+              {
+                type: "object",
+                properties: {
+                  id: { type: "string", description: "Patient identifier" },
+                  hpo_ids: { type: "array", items: { type: "string" }, description: "HPO term IDs observed in the patient", maxItems: 500 }
+                },
+                required: ["id", "hpo_ids"]
+              }
+            ]
+          },
+          description: "Study set: gene symbols or IDs (e.g. [\"SCN1A\", \"KCNQ2\"]), or patients with HPO profiles",
+          minItems: 1,
+          maxItems: 10000
+        },
+        population: {
+          type: "array",
+          items: {
+            oneOf: [
+              { type: "string" },
+              {
+                type: "object",
+                properties: {
+                  id: { type: "string" },
+                  hpo_ids: { type: "array", items: { type: "string" }, maxItems: 500 }
+                },
+                required: ["id", "hpo_ids"]
+              }
+            ]
+          },
+          description: "Population set of the same kind as the study set. Optional for genes (default: all annotated genes), required for patients. Study items missing from it are added",
+          maxItems: 50000
+        },
+        method: {
+          type: "string",
+          enum: ENRICHMENT_METHODS,
+          description: "Test each term against the whole population (term-for-term, default) or against the items annotated to its parents (parent-child-union)"
+        },
+        correction: {
+          type: "string",
+          enum: CORRECTIONS,
+          description: "Multiple-testing correction (default: benjamini-hochberg)"
+        },
+        alpha: {
+          type: "number",
+          description: "Significance threshold for corrected p-values (default: 0.05)",
+          minimum: 0,
+          maximum: 1
+        },
+        max_results: {
+          type: "integer",
+          description: "Maximum number of terms to return, most significant first (default: 20, max: 200)",
+          minimum: 1,
+          maximum: 200
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["study"]
+    }
+  },
+  {
+    name: "classify_by_organ_system",
+    method: "classifyByOrganSystem",
+    description: "Group a list of HPO terms by the top-level organ systems under Phenotypic abnormality (HP:0000118), such as nervous system or cardiovascular system, with a count per system. Terms with parents in several systems are counted under each",
+    inputSchema: {
+      type: "object",
+      properties: {
+        hpo_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "HPO term IDs to classify",
+          minItems: 1,
+          maxItems: 1000
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["hpo_ids"]
+    }
+  },
+  {
+    name: "list_hpo_subontology",
+    method: "listHPOSubontology",
+    description: "List the terms of an HPO sub-ontology: phenotypic abnormalities, modes of inheritance, onset, frequency, clinical modifiers, severity or laterality",
+    inputSchema: {
+      type: "object",
+      properties: {
+        subontology: SUBONTOLOGY_PROPERTY,
+        max: {
+          type: "integer",
+          description: "Maximum number of terms to return (default: 100, max: 500)",
+          minimum: 1,
+          maximum: 500
+        },
+        offset: {
+          type: "integer",
+          description: "Number of terms to skip for pagination (default: 0)",
+          minimum: 0
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["subontology"]
+    }
+  },
+  {
+    name: "validate_hpo_subontology_terms",
+    method: "validateHPOSubontologyTerms",
+    description: "Check that HPO IDs are current terms of the expected sub-ontology, e.g. that a frequency is below Frequency (HP:0040279). Reports outdated IDs and the sub-ontology a misplaced term belongs to",
+    inputSchema: {
+      type: "object",
+      properties: {
+        subontology: SUBONTOLOGY_PROPERTY,
+        ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "HPO term IDs to validate",
+          minItems: 1,
+          maxItems: 500
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["subontology", "ids"]
+    }
+  },
+  {
+    name: "validate_hpo_observation",
+    method: "validateHPOObservation",
+    description: "Validate a structured phenotype observation (term plus onset, frequency, severity, laterality and modifiers), checking each value against its sub-ontology, and return the observation with current IDs and labels",
+    inputSchema: {
+      type: "object",
+      properties: {
+        term: {
+          type: "string",
+          description: "Phenotypic abnormality observed (below HP:0000118), e.g. HP:0001250",
+          minLength: 1
+        },
+        excluded: {
+          type: "boolean",
+          description: "True when the phenotype was looked for and found absent (default: false)"
+        },
+        onset: {
+          type: "string",
+          description: "Onset term (below HP:0003674), e.g. HP:0003593 Infantile onset (optional)"
+        },
+        frequency: {
+          type: "string",
+          description: "Frequency term (below HP:0040279), e.g. HP:0040282 Frequent (optional)"
+        },
+        severity: {
+          type: "string",
+          description: "Severity term (below HP:0012824), e.g. HP:0012828 Severe (optional)"
+        },
+        laterality: {
+          type: "string",
+          description: "Laterality term (below HP:0012831), e.g. HP:0012832 Bilateral (optional)"
+        },
+        modifiers: {
+          type: "array",
+          items: { type: "string" },
+          description: "Other clinical modifiers (below HP:0012823), e.g. HP:0031796 Recurrent (optional)"
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["term"]
+    }
+  },
+  {
+    name: "normalize_hpo_profile",
+    method: "normalizeHPOProfile",
+    description: "Normalise a patient HPO profile: resolve outdated IDs, drop terms implied by more specific observed terms (or more general excluded terms), detect observed terms that contradict excluded ones, and report what was dropped and why",
+    inputSchema: {
+      type: "object",
+      properties: {
+        hpo_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "HPO term IDs observed in the patient",
+          maxItems: 500
+        },
+        excluded_hpo_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "HPO term IDs explicitly excluded in the patient (optional)",
+          maxItems: 500
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["hpo_ids"]
+    }
+  },
+  {
+    name: "get_disease_hpo_terms",
+    method: "getDiseaseHPOTerms",
+    description: "List the HPO terms annotated to a disease, including inheritance, onset, frequency, evidence codes and excluded phenotypes. Requires phenotype.hpoa",
+    inputSchema: {
+      type: "object",
+      properties: {
+        disease_id: {
+          type: "string",
+          description: "Disease ID (e.g., OMIM:154700, ORPHA:558, DECIPHER:1)",
+          minLength: 1
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["disease_id"]
+    }
+  },
+  {
+    name: "get_gene_hpo_terms",
+    method: "getGeneHPOTerms",
+    description: "List the HPO terms annotated to a gene. Requires genes_to_phenotype.txt",
+    inputSchema: {
+      type: "object",
+      properties: {
+        gene: {
+          type: "string",
+          description: "Gene symbol (e.g., FBN1) or NCBI gene ID (e.g., NCBIGene:2200)",
+          minLength: 1
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["gene"]
+    }
+  },
+  {
+    name: "annotate_text_with_hpo",
+    method: "annotateTextWithHPO",
+    description: "Recognise HPO terms in clinical free text (e.g. a clinic letter). Returns each mention with character offsets, matched HPO terms, a confidence score and whether it is negated (e.g. \"no seizures\"). Works offline; requires a local ontology file.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        text: {
+          type: "string",
+          description: "Clinical text to annotate",
+          minLength: 1,
+          maxLength: 100000
+        },
+        include_negated: {
+          type: "boolean",
+          description: "Include negated mentions such as \"no seizures\" (default: true)"
+        },
+        min_confidence: {
+          type: "number",
+          description: "Minimum match confidence between 0 and 1 (default: 0)",
+          minimum: 0,
+          maximum: 1
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["text"]
+    }
+  },
+  {
+    name: "import_phenopacket",
+    method: "importPhenopacket",
+    description: "Import a GA4GH Phenopacket (v2 JSON): validate every phenotypic feature against HPO, flag unknown, alternative and obsolete IDs with their replacements, fill in current term labels and summarise the observed and excluded features",
+    inputSchema: {
+      type: "object",
+      properties: {
+        phenopacket: {
+          type: ["object", "string"],
+          description: "Phenopacket as a JSON object or JSON string"
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      },
+      required: ["phenopacket"]
+    }
+  },
+  {
+    name: "export_phenopacket",
+    method: "exportPhenopacket",
+    description: "Build a GA4GH Phenopacket (v2 JSON) from observed and excluded HPO terms, with optional onset, severity and clinical modifiers per term. Obsolete or unknown IDs are rejected with suggested replacements.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        observed: {
+          type: "array",
+          items: {
+            oneOf: [
+              { type: "string" },
+              {
+                type: "object",
+                properties: {
+                  id: { type: "string", description: "HPO term ID" },
+                  onset: { type: "string", description: "HPO onset term (e.g. HP:0003593) or ISO 8601 age (e.g. P2Y6M)" },
+                  severity: { type: "string", description: "HPO severity term (e.g. HP:0012828)" },
+                  modifiers: { type: "array", items: { type: "string" }, description: "HPO clinical modifier terms (e.g. HP:0031796)" },
+                  description: { type: "string", description: "Free-text description of the feature" }
+                },
+                required: ["id"]
+              }
+            ]
+          },
+          description: "Observed phenotypes: HPO term IDs, or objects with an id and optional onset, severity and modifiers",
+          maxItems: 500
+        },
+        excluded: {
+          type: "array",
+          items: { type: "string" },
+          description: "HPO term IDs explicitly excluded in the subject",
+          maxItems: 500
+        },
+        id: {
+          type: "string",
+          description: "Phenopacket ID (default: generated from the current time)"
+        },
+        subject_id: {
+          type: "string",
+          description: "Subject (individual) ID"
+        },
+        sex: {
+          type: "string",
+          enum: ["UNKNOWN_SEX", "FEMALE", "MALE", "OTHER_SEX"],
+          description: "Subject sex"
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      }
+    }
+  },
+  {
+    name: "get_hpo_cache_stats",
+    method: "getHPOCacheStats",
+    description: "Report response cache hit/miss counts per endpoint, cache size and the ontology release the cache is tied to",
+    inputSchema: {
+      type: "object",
+      properties: {
+        clear: {
+          type: "boolean",
+          description: "Clear the cache after reporting its statistics (default: false)"
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
+      }
+    }
+  },
+  {
+    name: "get_hpo_api_status",
+    method: "getHPOApiStatus",
+    description: "Report the state of the connection to the remote HPO API: request and retry counts, the client-side rate limiter and whether the circuit breaker is failing fast because the API is down",
+    inputSchema: {
+      type: "object",
+      properties: {
+        output_format: OUTPUT_FORMAT_PROPERTY
+      }
+    }
+  },
+  {
+    name: "list_hpo_languages",
+    method: "listHPOLanguages",
+    description: "List the languages HPO term translations are available in, with the number of translated terms per translation status",
+    inputSchema: {
+      type: "object",
+      properties: {
+        output_format: OUTPUT_FORMAT_PROPERTY
+      }
+    }
+  }
+] as const satisfies readonly ToolDefinition[];
+
+export type ToolName = typeof TOOL_DEFINITIONS[number]['name'];
+
+/**
+ * Validated arguments of a tool, as declared by its input schema
+ */
+export type ToolArguments<N extends ToolName> = SchemaValue<Extract<typeof TOOL_DEFINITIONS[number], { name: N }>['inputSchema']>;
+
+/**
+ * The handler methods as the registry calls them; assigning HPOHandlers to this type
+ * checks that every tool's method accepts the arguments its schema declares
+ */
+type ToolHandlers = {
+  [T in typeof TOOL_DEFINITIONS[number] as T['method']]: (args: SchemaValue<T['inputSchema']>) => Promise<ToolResult>;
+};
+
+export class HPOToolRegistry {
+  private readonly tools = new Map<string, ToolDefinition & { method: keyof ToolHandlers }>(TOOL_DEFINITIONS.map(tool => [tool.name, tool]));
+  private readonly handlers: ToolHandlers;
+
+  constructor(hpoHandlers: HPOHandlers) {
+    this.handlers = hpoHandlers;
+  }
+
+  /**
+   * Tool names, descriptions and input schemas as advertised to clients
+   */
+  listTools() {
+    return {
+      tools: TOOL_DEFINITIONS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema }))
+    };
+  }
+
+  /**
+   * Validate the arguments against the tool's schema and run its handler
+   */
+  async callTool(name: string, args: unknown): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+    // The arguments have just been checked against the tool's schema
+    const handler = this.handlers[tool.method] as (args: Record<string, unknown>) => Promise<ToolResult>;
+    return await handler.call(this.handlers, validateArguments(tool.inputSchema, args));
+  }
+}
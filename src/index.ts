@@ -8,6 +8,11 @@
  * - Getting detailed information about specific HPO terms
  * - Listing all HPO terms with pagination
  * - Exploring hierarchical relationships (ancestors, parents, children, descendants)
+ * - Attaching terms as context through hpo://term/{id} resources
+ * - Guided clinical phenotyping workflows as prompts
+ *
+ * Terms are served either by the remote HPO API or, for offline use, by a local
+ * HPO release file (hp.obo or hp.json) selected via HPO_BACKEND / HPO_ONTOLOGY_FILE.
  * 
  * The HPO contains over 18,000 terms describing human phenotypic abnormalities
  * and is widely used in genetic research and clinical diagnostics.
@@ -18,372 +23,226 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
-  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   McpError,
+  CallToolRequest,
+  ListResourcesRequest,
+  ReadResourceRequest,
+  GetPromptRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 
 import { HPOHandlers } from "./handlers/hpo-handlers.js";
+import { HPOResourceHandlers } from "./handlers/resource-handlers.js";
+import { HPOPromptHandlers } from "./handlers/prompt-handlers.js";
+import { HPOToolRegistry } from "./handlers/tool-registry.js";
+import { readBackendConfig, createBackend } from "./utils/backend.js";
+import { describeApiConfig } from "./utils/config.js";
+import { isInvalidParams, toMcpError } from "./utils/errors.js";
+import { formatError } from "./utils/output.js";
+import { CachedBackend } from "./utils/cache.js";
+import { AnnotationStore, readAnnotationConfig } from "./utils/annotations.js";
+import { TranslationStore, readTranslationConfig } from "./utils/translations.js";
+import { readTransportConfig } from "./utils/transport.js";
+import { startHttpServer } from "./utils/http-server.js";
 
 /**
- * Create an MCP server with HPO functionality
+ * Read one part of the configuration, exiting with a readable message when it is invalid
  */
-const server = new Server(
-  {
-    name: "hpo-server",
-    version: "0.1.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+function readConfig<T>(read: () => T): T {
+  try {
+    return read();
+  } catch (error) {
+    console.error(`Invalid HPO MCP server configuration: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
   }
-);
+}
 
-// Initialize HPO handlers
-const hpoHandlers = new HPOHandlers();
+// Initialize HPO handlers with the configured backend
+const backendConfig = readConfig(() => readBackendConfig());
+const backend = createBackend(backendConfig);
+const annotationStore = new AnnotationStore(readConfig(() => readAnnotationConfig()));
+const translationStore = new TranslationStore(readConfig(() => readTranslationConfig()));
+const transportConfig = readConfig(() => readTransportConfig());
+const hpoHandlers = new HPOHandlers(backend, annotationStore, translationStore);
+const resourceHandlers = new HPOResourceHandlers(backend, hpoHandlers);
+const promptHandlers = new HPOPromptHandlers(hpoHandlers);
+const toolRegistry = new HPOToolRegistry(hpoHandlers);
 
 /**
  * Handler that lists all available HPO tools
  */
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "search_hpo_terms",
-        description: "Search for HPO terms by keyword, ID, or synonym. Supports pagination and filtering.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            query: {
-              type: "string",
-              description: "Search query - can be a keyword, HPO ID (e.g., HP:0001234), or synonym"
-            },
-            max: {
-              type: "number",
-              description: "Maximum number of results to return (default: 20, max: 100)",
-              minimum: 1,
-              maximum: 100
-            },
-            offset: {
-              type: "number",
-              description: "Number of results to skip for pagination (default: 0)",
-              minimum: 0
-            },
-            category: {
-              type: "array",
-              items: { type: "string" },
-              description: "Filter by specific HPO categories (optional)"
-            }
-          },
-          required: ["query"]
-        }
-      },
-      {
-        name: "get_hpo_term",
-        description: "Get detailed information about a specific HPO term by its ID",
-        inputSchema: {
-          type: "object",
-          properties: {
-            id: {
-              type: "string",
-              description: "HPO term ID (e.g., HP:0001234 or just 0001234)"
-            }
-          },
-          required: ["id"]
-        }
-      },
-      {
-        name: "get_all_hpo_terms",
-        description: "Get a list of all HPO terms with pagination support",
-        inputSchema: {
-          type: "object",
-          properties: {
-            max: {
-              type: "number",
-              description: "Maximum number of terms to return (default: 20, max: 100)",
-              minimum: 1,
-              maximum: 100
-            },
-            offset: {
-              type: "number",
-              description: "Number of terms to skip for pagination (default: 0)",
-              minimum: 0
-            }
-          }
-        }
-      },
-      {
-        name: "get_hpo_ancestors",
-        description: "Get all ancestor terms for a given HPO term (all terms higher in the hierarchy)",
-        inputSchema: {
-          type: "object",
-          properties: {
-            id: {
-              type: "string",
-              description: "HPO term ID (e.g., HP:0001234 or just 0001234)"
-            },
-            max: {
-              type: "number",
-              description: "Maximum number of ancestors to return (default: 50)",
-              minimum: 1,
-              maximum: 200
-            },
-            offset: {
-              type: "number",
-              description: "Number of results to skip for pagination (default: 0)",
-              minimum: 0
-            }
-          },
-          required: ["id"]
-        }
-      },
-      {
-        name: "get_hpo_parents",
-        description: "Get direct parent terms for a given HPO term (one level up in the hierarchy)",
-        inputSchema: {
-          type: "object",
-          properties: {
-            id: {
-              type: "string",
-              description: "HPO term ID (e.g., HP:0001234 or just 0001234)"
-            },
-            max: {
-              type: "number",
-              description: "Maximum number of parents to return (default: 20)",
-              minimum: 1,
-              maximum: 100
-            },
-            offset: {
-              type: "number",
-              description: "Number of results to skip for pagination (default: 0)",
-              minimum: 0
-            }
-          },
-          required: ["id"]
-        }
-      },
-      {
-        name: "get_hpo_children",
-        description: "Get direct child terms for a given HPO term (one level down in the hierarchy)",
-        inputSchema: {
-          type: "object",
-          properties: {
-            id: {
-              type: "string",
-              description: "HPO term ID (e.g., HP:0001234 or just 0001234)"
-            },
-            max: {
-              type: "number",
-              description: "Maximum number of children to return (default: 20)",
-              minimum: 1,
-              maximum: 100
-            },
-            offset: {
-              type: "number",
-              description: "Number of results to skip for pagination (default: 0)",
-              minimum: 0
-            }
-          },
-          required: ["id"]
-        }
-      },
-      {
-        name: "get_hpo_descendants",
-        description: "Get all descendant terms for a given HPO term (all terms lower in the hierarchy)",
-        inputSchema: {
-          type: "object",
-          properties: {
-            id: {
-              type: "string",
-              description: "HPO term ID (e.g., HP:0001234 or just 0001234)"
-            },
-            max: {
-              type: "number",
-              description: "Maximum number of descendants to return (default: 50, max: 100)",
-              minimum: 1,
-              maximum: 100
-            },
-            offset: {
-              type: "number",
-              description: "Number of results to skip for pagination (default: 0)",
-              minimum: 0
-            }
-          },
-          required: ["id"]
-        }
-      },
-      {
-        name: "validate_hpo_id",
-        description: "Validate if a given string is a valid HPO ID format and check if the term exists",
-        inputSchema: {
-          type: "object",
-          properties: {
-            id: {
-              type: "string",
-              description: "ID to validate (e.g., HP:0001234, 0001234, or any string)"
-            }
-          },
-          required: ["id"]
-        }
-      },
-      {
-        name: "get_hpo_term_path",
-        description: "Get the full hierarchical path from root to a specific HPO term",
-        inputSchema: {
-          type: "object",
-          properties: {
-            id: {
-              type: "string",
-              description: "HPO term ID (e.g., HP:0001234 or just 0001234)"
-            }
-          },
-          required: ["id"]
-        }
-      },
-      {
-        name: "compare_hpo_terms",
-        description: "Compare two HPO terms and find their relationship and common ancestors",
-        inputSchema: {
-          type: "object",
-          properties: {
-            term1: {
-              type: "string",
-              description: "First HPO term ID (e.g., HP:0001234)"
-            },
-            term2: {
-              type: "string",
-              description: "Second HPO term ID (e.g., HP:0005678)"
-            }
-          },
-          required: ["term1", "term2"]
-        }
-      },
-      {
-        name: "get_hpo_term_stats",
-        description: "Get comprehensive statistics and analysis for an HPO term including hierarchy counts and properties",
-        inputSchema: {
-          type: "object",
-          properties: {
-            id: {
-              type: "string",
-              description: "HPO term ID (e.g., HP:0001234 or just 0001234)"
-            }
-          },
-          required: ["id"]
-        }
-      },
-      {
-        name: "batch_get_hpo_terms",
-        description: "Retrieve multiple HPO terms in a single request (maximum 20 terms)",
-        inputSchema: {
-          type: "object",
-          properties: {
-            ids: {
-              type: "array",
-              items: { type: "string" },
-              description: "Array of HPO term IDs to retrieve",
-              maxItems: 20
-            }
-          },
-          required: ["ids"]
-        }
-      }
-    ]
-  };
-});
+async function listTools() {
+  return toolRegistry.listTools();
+}
 
 /**
  * Handler for executing HPO tools
  */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+async function callTool(request: CallToolRequest) {
   const { name, arguments: args } = request.params;
 
   try {
-    switch (name) {
-      case "search_hpo_terms":
-        return await hpoHandlers.searchHPOTerms(args);
+    return await toolRegistry.callTool(name, args);
+  } catch (error) {
+    // Handle both McpError and regular errors
+    if (error instanceof McpError) {
+      throw error;
+    }
 
-      case "get_hpo_term":
-        return await hpoHandlers.getHPOTerm(args);
+    // Invalid arguments and IDs are protocol errors; anything else is a failed tool call
+    if (isInvalidParams(error)) {
+      throw toMcpError(error);
+    }
 
-      case "get_all_hpo_terms":
-        return await hpoHandlers.getAllHPOTerms(args);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return formatError(args?.output_format === 'json' ? 'json' : 'markdown', `Error: ${errorMessage}`, error);
+  }
+}
 
-      case "get_hpo_ancestors":
-        return await hpoHandlers.getHPOAncestors(args);
+/**
+ * Handler that lists HPO term resources, paging through all terms
+ */
+async function listResources(request: ListResourcesRequest) {
+  return await resourceHandlers.listResources(request.params?.cursor);
+}
 
-      case "get_hpo_parents":
-        return await hpoHandlers.getHPOParents(args);
+/**
+ * Handler that lists the HPO resource URI templates
+ */
+async function listResourceTemplates() {
+  return resourceHandlers.listResourceTemplates();
+}
 
-      case "get_hpo_children":
-        return await hpoHandlers.getHPOChildren(args);
+/**
+ * Handler for reading HPO term resources
+ */
+async function readResource(request: ReadResourceRequest) {
+  return await resourceHandlers.readResource(request.params.uri);
+}
 
-      case "get_hpo_descendants":
-        return await hpoHandlers.getHPODescendants(args);
+/**
+ * Handler that lists the clinical phenotyping prompts
+ */
+async function listPrompts() {
+  return promptHandlers.listPrompts();
+}
 
-      case "validate_hpo_id":
-        return await hpoHandlers.validateHPOId(args);
+/**
+ * Handler for building a prompt from its template
+ */
+async function getPrompt(request: GetPromptRequest) {
+  return await promptHandlers.getPrompt(request.params.name, request.params.arguments);
+}
 
-      case "get_hpo_term_path":
-        return await hpoHandlers.getHPOTermPath(args);
+/**
+ * Create an MCP server with HPO functionality. In HTTP mode every client session
+ * gets its own server, and all of them share the handlers, backend and cache above.
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "hpo-server",
+      version: "0.1.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, listTools);
+  server.setRequestHandler(CallToolRequestSchema, callTool);
+  server.setRequestHandler(ListResourcesRequestSchema, listResources);
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, listResourceTemplates);
+  server.setRequestHandler(ReadResourceRequestSchema, readResource);
+  server.setRequestHandler(ListPromptsRequestSchema, listPrompts);
+  server.setRequestHandler(GetPromptRequestSchema, getPrompt);
+  return server;
+}
 
-      case "compare_hpo_terms":
-        return await hpoHandlers.compareHPOTerms(args);
+// Stops the running transport on shutdown
+let stopServer: () => Promise<void> = async () => {};
 
-      case "get_hpo_term_stats":
-        return await hpoHandlers.getHPOTermStats(args);
+/**
+ * Start the server on stdio or, in HTTP mode, for many concurrent clients
+ */
+async function main() {
+  if (backendConfig.api) {
+    console.error(['HPO API configuration:', ...describeApiConfig(backendConfig.api).map(line => `  ${line}`)].join('\n'));
+  }
 
-      case "batch_get_hpo_terms":
-        return await hpoHandlers.batchGetHPOTerms(args);
+  if (backendConfig.type === 'local') {
+    const version = await backend.getVersion?.();
+    console.error(`Loaded HPO ontology from ${backendConfig.ontologyFile}${version ? ` (release ${version})` : ''}`);
+  }
 
-      default:
-        throw new McpError(
-          ErrorCode.MethodNotFound,
-          `Unknown tool: ${name}`
-        );
-    }
-  } catch (error) {
-    // Handle both McpError and regular errors
-    if (error instanceof McpError) {
-      throw error;
-    }
+  if (backend instanceof CachedBackend) {
+    await backend.initialize();
+    const stats = backend.getStats();
+    console.error(`Response cache enabled (${stats.entries} entries${stats.persistedTo ? ` persisted to ${stats.persistedTo}` : ', in memory'})`);
+  }
 
-    // Convert regular errors to appropriate MCP errors
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    
-    if (errorMessage.includes('required')) {
-      throw new McpError(ErrorCode.InvalidParams, errorMessage);
-    }
-    
-    return {
-      content: [{
-        type: "text",
-        text: `Error: ${errorMessage}`
-      }],
-      isError: true
-    };
+  if (annotationStore.hasDiseaseAnnotations()) {
+    const summary = await annotationStore.loadDiseaseSummary();
+    console.error(`Loaded annotations for ${summary.diseases} diseases${summary.version ? ` (${summary.version})` : ''}`);
   }
-});
 
-/**
- * Start the server using stdio transport
- */
-async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  if (annotationStore.hasGeneAnnotations()) {
+    const summary = await annotationStore.loadGeneSummary();
+    console.error(`Loaded annotations for ${summary.genes} genes`);
+  }
+
+  if (translationStore.hasTranslations()) {
+    const languages = await translationStore.getLanguages();
+    console.error(`HPO translations available: ${languages.map(l => l.language.code).join(', ') || 'none'}`);
+  }
+
+  if (transportConfig.type === 'http') {
+    const httpServer = await startHttpServer(createServer, {
+      host: transportConfig.host,
+      port: transportConfig.port,
+      sessionIdleTimeoutMs: transportConfig.sessionIdleTimeoutMs,
+      maxSessions: transportConfig.maxSessions,
+      allowedOrigins: transportConfig.allowedOrigins,
+      getStatus: async () => {
+        const api = backend.getConnectionStatus?.();
+        return {
+          // An open circuit means tools that need the remote API fail fast
+          ...(api?.circuit && api.circuit.state !== 'closed' ? { status: 'degraded' } : {}),
+          backend: backendConfig.type,
+          ontologyVersion: await backend.getVersion?.().catch(() => undefined),
+          api
+        };
+      }
+    });
+    stopServer = () => httpServer.close();
+    console.error(`HPO MCP server listening on ${httpServer.url} (streamable HTTP at /mcp, SSE at /sse, health at /health)`);
+    return;
+  }
+
+  const server = createServer();
+  stopServer = () => server.close();
+  await server.connect(new StdioServerTransport());
   console.error("HPO MCP server running on stdio");
 }
 
 // Handle graceful shutdown
 process.on('SIGINT', async () => {
   console.error('Shutting down HPO MCP server...');
-  await server.close();
+  await stopServer();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.error('Shutting down HPO MCP server...');
-  await server.close();
+  await stopServer();
   process.exit(0);
 });
 
@@ -3,6 +3,8 @@
  * Based on the HPO API documentation at https://ontology.jax.org/api/hp/docs
  */
 
+import type { HPOError } from '../utils/errors.js';
+
 /**
  * Complete ontology term information
  */
@@ -16,6 +18,8 @@ export interface OntologyTerm {
   alternativeIds?: string[];
   isObsolete?: boolean;
   replacement?: string;
+  /** Terms suggested in place of an obsolete term that has no single replacement */
+  consider?: string[];
   subset?: string[];
   children?: SimpleOntologyTerm[];
   parents?: SimpleOntologyTerm[];
@@ -31,6 +35,50 @@ export interface SimpleOntologyTerm {
   name: string;
 }
 
+/**
+ * Label and synonyms of a term, used for text matching
+ */
+export interface TermLabels {
+  id: string;
+  name: string;
+  synonyms: string[];
+}
+
+/**
+ * Cross-references of a term to other vocabularies, used for cross-ontology mapping
+ */
+export interface TermXrefs {
+  id: string;
+  name: string;
+  xrefs: string[];
+}
+
+/**
+ * HPO sub-ontologies: phenotypic abnormalities and the separate branches used to
+ * describe inheritance and to qualify a phenotype
+ */
+export type Subontology = 'phenotype' | 'inheritance' | 'onset' | 'frequency' | 'modifier' | 'severity' | 'laterality';
+
+/**
+ * A phenotype observation with its qualifiers, each a term from the matching sub-ontology
+ */
+export interface PhenotypeObservation {
+  /** Phenotypic abnormality (below HP:0000118) */
+  term: SimpleOntologyTerm;
+  /** True when the phenotype was looked for and found absent */
+  excluded: boolean;
+  /** Age of onset (below HP:0003674) */
+  onset?: SimpleOntologyTerm;
+  /** How often the phenotype is present (below HP:0040279) */
+  frequency?: SimpleOntologyTerm;
+  /** Severity (below HP:0012824) */
+  severity?: SimpleOntologyTerm;
+  /** Side of the body affected (below HP:0012831) */
+  laterality?: SimpleOntologyTerm;
+  /** Other clinical modifiers, such as Recurrent (below HP:0012823) */
+  modifiers: SimpleOntologyTerm[];
+}
+
 /**
  * Search result from the HPO search endpoint
  */
@@ -103,7 +151,11 @@ export interface HierarchyParams {
  */
 export interface ApiResponse<T> {
   data?: T;
+  /** Message of the failure, when the request failed */
   error?: string;
+  /** Typed failure with its category, when the request failed */
+  failure?: HPOError;
+  /** HTTP status of the response, or of the failure */
   status: number;
 }
 
@@ -116,3 +168,106 @@ export interface PaginationInfo {
   totalResults: number;
   hasMore: boolean;
 }
+
+/**
+ * Disease-to-phenotype annotation from phenotype.hpoa
+ */
+export interface DiseaseAnnotation {
+  diseaseId: string;
+  diseaseName: string;
+  hpoId: string;
+  /** True when the phenotype is explicitly excluded (qualifier NOT) */
+  negated: boolean;
+  reference?: string;
+  /** Evidence code: IEA, PCS or TAS */
+  evidence?: string;
+  onset?: string;
+  frequency?: string;
+  sex?: string;
+  modifiers?: string[];
+  /** Sub-ontology of the annotated term: P (phenotype), I (inheritance), C (onset), M (modifier) */
+  aspect?: string;
+}
+
+/**
+ * Gene-to-phenotype annotation from genes_to_phenotype.txt
+ */
+export interface GeneAnnotation {
+  geneId: string;
+  geneSymbol: string;
+  hpoId: string;
+  hpoName?: string;
+  frequency?: string;
+  diseaseId?: string;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * State of the circuit breaker guarding the remote API
+ */
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  resetTimeoutMs: number;
+  openedAt?: string;
+  /** When an open circuit lets the next trial request through */
+  nextAttemptAt?: string;
+  lastError?: string;
+}
+
+/**
+ * State of the client-side rate limiter
+ */
+export interface RateLimitStatus {
+  requestsPerSecond: number;
+  burst: number;
+  availableTokens: number;
+  /** Requests waiting for a token */
+  queued: number;
+  /** Set while requests are held back after a 429 with Retry-After */
+  pausedUntil?: string;
+}
+
+/**
+ * Health of the connection to the remote HPO API
+ */
+export interface ApiConnectionStatus {
+  baseUrl: string;
+  /** HTTP requests sent, including retries */
+  requests: number;
+  retries: number;
+  /** Calls that failed, after any retries */
+  failures: number;
+  /** Calls rejected without a request because the circuit was open */
+  rejected: number;
+  /** null when rate limiting is off */
+  rateLimit: RateLimitStatus | null;
+  /** null when the circuit breaker is off */
+  circuit: CircuitStatus | null;
+}
+
+/**
+ * Ontology backend used by the tool handlers. Implemented by the remote
+ * HPO API client and by the local ontology file loader.
+ */
+export interface HPOBackend {
+  searchTerms(params: SearchParams): Promise<ApiResponse<SearchResult>>;
+  getAllTerms(max?: number, offset?: number): Promise<ApiResponse<SimpleOntologyTerm[]>>;
+  getTerm(id: string): Promise<ApiResponse<OntologyTerm>>;
+  getAncestors(params: HierarchyParams): Promise<ApiResponse<SimpleOntologyTerm[]>>;
+  getParents(params: HierarchyParams): Promise<ApiResponse<SimpleOntologyTerm[]>>;
+  getChildren(params: HierarchyParams): Promise<ApiResponse<SimpleOntologyTerm[]>>;
+  getDescendants(params: HierarchyParams): Promise<ApiResponse<SimpleOntologyTerm[]>>;
+  formatHPOId(id: string): string;
+  isValidHPOId(id: string): boolean;
+  /** Release version of the ontology being served, when the backend can report it */
+  getVersion?(): Promise<string | undefined>;
+  /** Labels and synonyms of every non-obsolete term, when the backend holds the full ontology */
+  getAllTermLabels?(): Promise<TermLabels[] | undefined>;
+  /** Cross-references of every non-obsolete term, when the backend holds the full ontology */
+  getAllTermXrefs?(): Promise<TermXrefs[] | undefined>;
+  /** Retry, rate limit and circuit breaker state, when the backend is the remote API */
+  getConnectionStatus?(): ApiConnectionStatus | undefined;
+}
@@ -0,0 +1,398 @@
+/**
+ * JSON output schemas for HPO tools (returned when output_format is "json")
+ *
+ * Every tool returns one of these objects serialised as a single JSON text block.
+ * Failed calls return ErrorOutput with isError set on the tool result.
+ */
+
+import {
+  OntologyTerm,
+  SimpleOntologyTerm,
+  SearchTerm,
+  PaginationInfo,
+  DiseaseAnnotation,
+  Language,
+  Translation,
+  Subontology,
+  ApiConnectionStatus
+} from './hpo.js';
+import { OntologyClass, Phenopacket } from './phenopacket.js';
+import { ICSource } from '../utils/information-content.js';
+import { ErrorCategory } from '../utils/errors.js';
+import { TermSimilarity, ProfileSimilarity } from '../utils/semantic-similarity.js';
+import { DiseaseRanking } from '../utils/disease-ranking.js';
+import { CacheStats } from '../utils/cache.js';
+import { LanguageSummary } from '../utils/translations.js';
+import { TextAnnotation } from '../utils/text-annotator.js';
+import { FeatureReport } from '../utils/phenopacket.js';
+import { IdResolution, ResolutionStatus } from '../utils/id-resolution.js';
+import { XrefMatch, XrefGroup } from '../utils/xref-index.js';
+import { ProfileNormalization } from '../utils/profile-normalizer.js';
+import { GraphDirection, GraphFormat, SubgraphNode, SubgraphEdge } from '../utils/graph-export.js';
+import { Enrichment } from '../utils/enrichment.js';
+import { OrganSystemClassification } from '../utils/organ-systems.js';
+import { SubontologyCheck, ObservationValidation } from '../utils/subontologies.js';
+
+/**
+ * Returned by every tool when the call fails
+ */
+export interface ErrorOutput {
+  error: {
+    message: string;
+    /** Set when the failure has a known cause, e.g. not_found, timeout or upstream */
+    category?: ErrorCategory;
+    /** HTTP status of the failure */
+    status?: number;
+    /** How long to wait before retrying, when the API is rate limiting */
+    retryAfterMs?: number;
+  };
+}
+
+/**
+ * A term that could not be retrieved
+ */
+export interface FailedTerm {
+  id: string;
+  error: string;
+}
+
+/**
+ * A term with its translation, present when a language was requested
+ */
+export type TranslatedTerm<T extends SimpleOntologyTerm = SimpleOntologyTerm> = T & {
+  translation?: Translation;
+};
+
+/**
+ * search_hpo_terms
+ */
+export interface SearchOutput {
+  query: string;
+  language?: Language;
+  /** Organ-system branches the results were restricted to */
+  categories?: SimpleOntologyTerm[];
+  terms: TranslatedTerm<SearchTerm>[];
+  pagination: PaginationInfo;
+}
+
+/**
+ * get_hpo_term (term is null when the term does not exist)
+ */
+export interface TermOutput {
+  term: OntologyTerm | null;
+  translation?: Translation;
+}
+
+/**
+ * get_all_hpo_terms
+ */
+export interface TermListOutput {
+  terms: SimpleOntologyTerm[];
+  pagination: PaginationInfo;
+}
+
+/**
+ * get_hpo_ancestors, get_hpo_parents, get_hpo_children, get_hpo_descendants
+ */
+export interface HierarchyOutput {
+  id: string;
+  relation: 'ancestors' | 'parents' | 'children' | 'descendants';
+  language?: Language;
+  terms: TranslatedTerm[];
+  pagination: PaginationInfo;
+}
+
+/**
+ * validate_hpo_id (exists is null when the format is invalid and no lookup was made)
+ */
+export interface ValidationOutput {
+  input: string;
+  formattedId: string;
+  validFormat: boolean;
+  exists: boolean | null;
+  term?: SimpleOntologyTerm;
+  error?: string;
+}
+
+/**
+ * get_hpo_term_path
+ */
+export interface TermPathOutput {
+  term: SimpleOntologyTerm;
+  /** Each path lists the terms from the root down to and including the term, shortest first */
+  paths: SimpleOntologyTerm[][];
+  /** Number of distinct root-to-term paths, which may exceed the paths returned */
+  pathCount: number;
+  truncated: boolean;
+  minDepth: number;
+  maxDepth: number;
+}
+
+/**
+ * compare_hpo_terms
+ */
+export interface TermComparisonOutput {
+  term1: SimpleOntologyTerm;
+  term2: SimpleOntologyTerm;
+  /** term1_descendant: term1 is below term2; term2_descendant: term2 is below term1 */
+  relationship: 'term1_descendant' | 'term2_descendant' | 'common_ancestors' | 'none';
+  commonAncestors: SimpleOntologyTerm[];
+}
+
+/**
+ * hpo_semantic_similarity
+ */
+export interface SemanticSimilarityOutput extends TermSimilarity {
+  icSource: ICSource;
+}
+
+/**
+ * get_hpo_term_stats
+ */
+export interface TermStatsOutput {
+  term: SimpleOntologyTerm & { definition?: string; comment?: string };
+  hierarchy: {
+    ancestors: number;
+    parents: number;
+    children: number;
+    descendants: number;
+    /** Shortest and longest number of is_a steps from the root */
+    minDepth: number;
+    maxDepth: number;
+    paths: number;
+  };
+  properties: {
+    synonyms: number;
+    xrefs: number;
+    alternativeIds: number;
+    isObsolete: boolean;
+  };
+}
+
+/**
+ * batch_get_hpo_terms
+ */
+export interface BatchOutput {
+  requested: number;
+  terms: OntologyTerm[];
+  failed: FailedTerm[];
+}
+
+/**
+ * compare_hpo_profiles
+ */
+export interface ProfileSimilarityOutput extends ProfileSimilarity {
+  icSource: ICSource;
+  unresolved: FailedTerm[];
+}
+
+/**
+ * get_hpo_term_diseases
+ */
+export interface TermDiseasesOutput {
+  term: SimpleOntologyTerm;
+  includeDescendants: boolean;
+  diseases: Array<{
+    id: string;
+    name: string;
+    annotations: DiseaseAnnotation[];
+  }>;
+  pagination: PaginationInfo;
+}
+
+/**
+ * get_hpo_term_genes
+ */
+export interface TermGenesOutput {
+  term: SimpleOntologyTerm;
+  includeDescendants: boolean;
+  genes: Array<{
+    id: string;
+    symbol: string;
+    diseases: string[];
+  }>;
+  pagination: PaginationInfo;
+}
+
+/**
+ * get_disease_hpo_terms (disease is null when the disease is not annotated)
+ */
+export interface DiseaseTermsOutput {
+  disease: { id: string; name: string } | null;
+  annotations: Array<DiseaseAnnotation & { hpoName?: string }>;
+}
+
+/**
+ * get_gene_hpo_terms (gene is null when the gene is not annotated)
+ */
+export interface GeneTermsOutput {
+  gene: { id: string; symbol: string } | null;
+  terms: Array<{
+    id: string;
+    name?: string;
+    frequencies: string[];
+    diseases: string[];
+  }>;
+}
+
+/**
+ * rank_diseases_by_phenotype
+ */
+export interface DiseaseRankingOutput extends DiseaseRanking {
+  unresolved: FailedTerm[];
+}
+
+/**
+ * get_hpo_cache_stats (statistics are null when caching is disabled)
+ */
+export interface CacheStatsOutput {
+  enabled: boolean;
+  stats: CacheStats | null;
+  cleared: boolean;
+}
+
+/**
+ * get_hpo_api_status
+ */
+export interface ApiStatusOutput {
+  /** null when the local ontology backend is in use */
+  status: ApiConnectionStatus | null;
+}
+
+/**
+ * list_hpo_languages
+ */
+export interface LanguagesOutput {
+  languages: LanguageSummary[];
+}
+
+/**
+ * annotate_text_with_hpo
+ */
+export interface TextAnnotationOutput {
+  textLength: number;
+  annotations: TextAnnotation[];
+  /** Best-matching term of each non-negated mention, without duplicates */
+  observedTerms: string[];
+  /** Best-matching term of each negated mention, without duplicates */
+  negatedTerms: string[];
+}
+
+/**
+ * import_phenopacket
+ */
+export interface PhenopacketImportOutput {
+  id?: string;
+  subject?: { id?: string; sex?: string };
+  summary: {
+    features: number;
+    observed: number;
+    excluded: number;
+    valid: number;
+    alternativeIds: number;
+    obsolete: number;
+    notFound: number;
+    invalid: number;
+  };
+  features: FeatureReport[];
+  diseases: OntologyClass[];
+  declaredHpoVersion?: string;
+  issues: string[];
+  /** The phenopacket with normalised IDs and current HPO labels */
+  phenopacket: Phenopacket;
+}
+
+/**
+ * export_phenopacket
+ */
+export interface PhenopacketExportOutput {
+  phenopacket: Phenopacket;
+  warnings: string[];
+}
+
+/**
+ * resolve_hpo_ids (one result per distinct input ID)
+ */
+export interface IdResolutionOutput {
+  /** Release the IDs were resolved against, when the backend reports it */
+  release?: string;
+  summary: Record<ResolutionStatus, number>;
+  results: IdResolution[];
+  /** Input ID to current primary ID, or null when there is no current term */
+  mapping: Record<string, string | null>;
+}
+
+/**
+ * map_to_hpo
+ */
+export interface MapToHPOOutput {
+  vocabulary?: string;
+  mappings: Array<{ code: string; terms: XrefMatch[] }>;
+  /** Codes no HPO term cross-references */
+  unmapped: string[];
+}
+
+/**
+ * map_from_hpo
+ */
+export interface MapFromHPOOutput {
+  mappings: Array<{ id: string; name: string; vocabularies: XrefGroup[] }>;
+  failed: FailedTerm[];
+}
+
+/**
+ * normalize_hpo_profile
+ */
+export type ProfileNormalizationOutput = ProfileNormalization;
+
+/**
+ * export_hpo_subgraph
+ */
+export interface SubgraphOutput {
+  graphFormat: GraphFormat;
+  direction: GraphDirection;
+  depth: number;
+  nodes: SubgraphNode[];
+  edges: SubgraphEdge[];
+  truncated: boolean;
+  /** The rendered graph (DOT, Mermaid or GraphML text) */
+  graph: string;
+}
+
+/**
+ * analyze_hpo_enrichment
+ */
+export interface EnrichmentOutput extends Enrichment {
+  itemType: 'genes' | 'patients';
+  /** Genes or patients that could not be used (unknown gene, no HPO terms) */
+  unmatched: string[];
+}
+
+/**
+ * classify_by_organ_system
+ */
+export type OrganSystemOutput = OrganSystemClassification;
+
+/**
+ * list_hpo_subontology
+ */
+export interface SubontologyTermsOutput {
+  subontology: Subontology;
+  root: SimpleOntologyTerm;
+  terms: SimpleOntologyTerm[];
+  pagination: PaginationInfo;
+}
+
+/**
+ * validate_hpo_subontology_terms
+ */
+export interface SubontologyValidationOutput {
+  subontology: Subontology;
+  valid: boolean;
+  results: SubontologyCheck[];
+}
+
+/**
+ * validate_hpo_observation
+ */
+export type ObservationOutput = ObservationValidation;
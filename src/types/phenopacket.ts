@@ -0,0 +1,111 @@
+/**
+ * TypeScript interfaces for GA4GH Phenopacket Schema v2 documents
+ * Based on the schema documentation at https://phenopacket-schema.readthedocs.io/en/latest/
+ *
+ * Only the elements read or written by the HPO tools are typed in detail; other
+ * top-level elements (measurements, biosamples, interpretations, ...) are passed through.
+ */
+
+/**
+ * Ontology term reference (e.g. { id: "HP:0001250", label: "Seizure" })
+ */
+export interface OntologyClass {
+  id: string;
+  label: string;
+}
+
+/**
+ * Age as an ISO 8601 duration (e.g. "P3Y6M")
+ */
+export interface Age {
+  iso8601duration: string;
+}
+
+/**
+ * Point or range in time. Phenopackets allow one of several representations.
+ */
+export interface TimeElement {
+  age?: Age;
+  ageRange?: { start: Age; end: Age };
+  ontologyClass?: OntologyClass;
+  timestamp?: string;
+  gestationalAge?: { weeks: number; days?: number };
+}
+
+export interface Evidence {
+  evidenceCode: OntologyClass;
+  reference?: { id?: string; reference?: string; description?: string };
+}
+
+/**
+ * A phenotypic abnormality observed in (or explicitly excluded from) the subject
+ */
+export interface PhenotypicFeature {
+  description?: string;
+  type: OntologyClass;
+  excluded?: boolean;
+  severity?: OntologyClass;
+  modifiers?: OntologyClass[];
+  onset?: TimeElement;
+  resolution?: TimeElement;
+  evidence?: Evidence[];
+}
+
+export type Sex = 'UNKNOWN_SEX' | 'FEMALE' | 'MALE' | 'OTHER_SEX';
+
+export interface Individual {
+  id: string;
+  alternateIds?: string[];
+  dateOfBirth?: string;
+  timeAtLastEncounter?: TimeElement;
+  sex?: Sex;
+  karyotypicSex?: string;
+  gender?: OntologyClass;
+  taxonomy?: OntologyClass;
+}
+
+export interface Disease {
+  term: OntologyClass;
+  excluded?: boolean;
+  onset?: TimeElement;
+  resolution?: TimeElement;
+  diseaseStage?: OntologyClass[];
+  clinicalTnmFinding?: OntologyClass[];
+  primarySite?: OntologyClass;
+  laterality?: OntologyClass;
+}
+
+/**
+ * Ontology or other resource referenced by the CURIEs in a phenopacket
+ */
+export interface Resource {
+  id: string;
+  name: string;
+  url: string;
+  version: string;
+  namespacePrefix: string;
+  iriPrefix: string;
+}
+
+export interface MetaData {
+  created: string;
+  createdBy: string;
+  submittedBy?: string;
+  resources: Resource[];
+  updates?: Array<{ timestamp: string; updatedBy?: string; comment?: string }>;
+  phenopacketSchemaVersion: string;
+  externalReferences?: Array<{ id?: string; reference?: string; description?: string }>;
+}
+
+export interface Phenopacket {
+  id: string;
+  subject?: Individual;
+  phenotypicFeatures?: PhenotypicFeature[];
+  diseases?: Disease[];
+  metaData: MetaData;
+  measurements?: unknown[];
+  biosamples?: unknown[];
+  interpretations?: unknown[];
+  medicalActions?: unknown[];
+  files?: unknown[];
+}
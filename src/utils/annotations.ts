@@ -0,0 +1,329 @@
+/**
+ * HPO Annotations - Disease and gene annotations loaded from local HPO annotation files
+ *
+ * Configured through environment variables:
+ * - HPO_HPOA_FILE: path to phenotype.hpoa (disease annotations from OMIM, Orphanet and DECIPHER)
+ * - HPO_GENES_TO_PHENOTYPE_FILE: path to genes_to_phenotype.txt (gene annotations)
+ */
+
+import { readFile } from 'fs/promises';
+import { DiseaseAnnotation, GeneAnnotation } from '../types/hpo.js';
+
+export interface AnnotationConfig {
+  hpoaFile?: string;
+  genesFile?: string;
+}
+
+/**
+ * A disease and all of its phenotype annotations
+ */
+export interface AnnotatedDisease {
+  id: string;
+  name: string;
+  annotations: DiseaseAnnotation[];
+}
+
+/**
+ * A gene and all of its phenotype annotations
+ */
+export interface AnnotatedGene {
+  id: string;
+  symbol: string;
+  annotations: GeneAnnotation[];
+}
+
+interface DiseaseIndex {
+  version?: string;
+  diseases: Map<string, AnnotatedDisease>;
+  byTerm: Map<string, DiseaseAnnotation[]>;
+}
+
+interface GeneIndex {
+  genes: Map<string, AnnotatedGene>;
+  bySymbol: Map<string, string>;
+  byTerm: Map<string, GeneAnnotation[]>;
+}
+
+/**
+ * Names of the HPO frequency terms used in annotation files
+ */
+export const FREQUENCY_TERMS: Record<string, string> = {
+  'HP:0040280': 'Obligate (100%)',
+  'HP:0040281': 'Very frequent (80-99%)',
+  'HP:0040282': 'Frequent (30-79%)',
+  'HP:0040283': 'Occasional (5-29%)',
+  'HP:0040284': 'Very rare (1-4%)',
+  'HP:0040285': 'Excluded (0%)'
+};
+
+/**
+ * Read the annotation file configuration from the environment
+ */
+export function readAnnotationConfig(env: NodeJS.ProcessEnv = process.env): AnnotationConfig {
+  return {
+    hpoaFile: env.HPO_HPOA_FILE?.trim() || undefined,
+    genesFile: env.HPO_GENES_TO_PHENOTYPE_FILE?.trim() || undefined
+  };
+}
+
+export class AnnotationStore {
+  private diseaseIndex?: Promise<DiseaseIndex>;
+  private geneIndex?: Promise<GeneIndex>;
+
+  constructor(private readonly config: AnnotationConfig = {}) {}
+
+  hasDiseaseAnnotations(): boolean {
+    return this.config.hpoaFile !== undefined;
+  }
+
+  hasGeneAnnotations(): boolean {
+    return this.config.genesFile !== undefined;
+  }
+
+  /**
+   * All annotated diseases
+   */
+  async getDiseases(): Promise<AnnotatedDisease[]> {
+    const index = await this.loadDiseases();
+    return Array.from(index.diseases.values());
+  }
+
+  /**
+   * Look up a disease by ID (e.g. OMIM:154700, ORPHA:558, DECIPHER:1)
+   */
+  async getDisease(id: string): Promise<AnnotatedDisease | undefined> {
+    const index = await this.loadDiseases();
+    return index.diseases.get(normalizeDiseaseId(id));
+  }
+
+  /**
+   * Disease annotations made directly to the given HPO terms
+   */
+  async getDiseaseAnnotationsForTerms(hpoIds: string[]): Promise<DiseaseAnnotation[]> {
+    const index = await this.loadDiseases();
+    return hpoIds.flatMap(id => index.byTerm.get(id) || []);
+  }
+
+  /**
+   * All annotated genes
+   */
+  async getGenes(): Promise<AnnotatedGene[]> {
+    const index = await this.loadGenes();
+    return Array.from(index.genes.values());
+  }
+
+  /**
+   * Look up a gene by symbol (e.g. SCN1A) or NCBI gene ID (e.g. NCBIGene:6323 or 6323)
+   */
+  async getGene(idOrSymbol: string): Promise<AnnotatedGene | undefined> {
+    const index = await this.loadGenes();
+    const query = idOrSymbol.trim();
+    const geneId = /^\d+$/.test(query) ? `NCBIGene:${query}` : query;
+    return index.genes.get(geneId) || index.genes.get(index.bySymbol.get(query.toUpperCase()) || '');
+  }
+
+  /**
+   * Gene annotations made directly to the given HPO terms
+   */
+  async getGeneAnnotationsForTerms(hpoIds: string[]): Promise<GeneAnnotation[]> {
+    const index = await this.loadGenes();
+    return hpoIds.flatMap(id => index.byTerm.get(id) || []);
+  }
+
+  /**
+   * Load disease annotations, returning the number of diseases and the file version
+   */
+  async loadDiseaseSummary(): Promise<{ diseases: number; version?: string }> {
+    const index = await this.loadDiseases();
+    return { diseases: index.diseases.size, version: index.version };
+  }
+
+  /**
+   * Load gene annotations, returning the number of genes
+   */
+  async loadGeneSummary(): Promise<{ genes: number }> {
+    const index = await this.loadGenes();
+    return { genes: index.genes.size };
+  }
+
+  private loadDiseases(): Promise<DiseaseIndex> {
+    if (!this.config.hpoaFile) {
+      return Promise.reject(new Error('Disease annotations are not configured: set HPO_HPOA_FILE to the path of phenotype.hpoa'));
+    }
+    if (!this.diseaseIndex) {
+      this.diseaseIndex = readFile(this.config.hpoaFile, 'utf-8').then(parseHpoa);
+      this.diseaseIndex.catch(() => {
+        this.diseaseIndex = undefined;
+      });
+    }
+    return this.diseaseIndex;
+  }
+
+  private loadGenes(): Promise<GeneIndex> {
+    if (!this.config.genesFile) {
+      return Promise.reject(new Error('Gene annotations are not configured: set HPO_GENES_TO_PHENOTYPE_FILE to the path of genes_to_phenotype.txt'));
+    }
+    if (!this.geneIndex) {
+      this.geneIndex = readFile(this.config.genesFile, 'utf-8').then(parseGenesToPhenotype);
+      this.geneIndex.catch(() => {
+        this.geneIndex = undefined;
+      });
+    }
+    return this.geneIndex;
+  }
+}
+
+/**
+ * Parse phenotype.hpoa (tab-separated, "#" header comments, one annotation per line)
+ */
+function parseHpoa(content: string): DiseaseIndex {
+  const diseases = new Map<string, AnnotatedDisease>();
+  const byTerm = new Map<string, DiseaseAnnotation[]>();
+  let version: string | undefined;
+  let columns: Map<string, number> | undefined;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim()) {
+      continue;
+    }
+    if (line.startsWith('#')) {
+      const match = line.match(/^#(?:date|version):\s*(.+)$/);
+      if (match) {
+        version = match[1].trim();
+      }
+      continue;
+    }
+
+    const fields = line.split('\t');
+    if (!columns) {
+      columns = new Map(fields.map((name, index) => [name.trim().toLowerCase(), index]));
+      continue;
+    }
+
+    const field = (name: string) => {
+      const index = columns!.get(name);
+      const value = index === undefined ? undefined : fields[index]?.trim();
+      return value ? value : undefined;
+    };
+
+    const diseaseId = field('database_id');
+    const hpoId = field('hpo_id');
+    if (!diseaseId || !hpoId) {
+      continue;
+    }
+
+    const annotation: DiseaseAnnotation = {
+      diseaseId,
+      diseaseName: field('disease_name') || diseaseId,
+      hpoId,
+      negated: field('qualifier') === 'NOT',
+      reference: field('reference'),
+      evidence: field('evidence'),
+      onset: field('onset'),
+      frequency: field('frequency'),
+      sex: field('sex'),
+      modifiers: field('modifier')?.split(';').map(m => m.trim()).filter(Boolean),
+      aspect: field('aspect')
+    };
+
+    let disease = diseases.get(diseaseId);
+    if (!disease) {
+      disease = { id: diseaseId, name: annotation.diseaseName, annotations: [] };
+      diseases.set(diseaseId, disease);
+    }
+    disease.annotations.push(annotation);
+    appendTo(byTerm, hpoId, annotation);
+  }
+
+  return { version, diseases, byTerm };
+}
+
+/**
+ * Parse genes_to_phenotype.txt. Supports the current headed format
+ * (ncbi_gene_id, gene_symbol, hpo_id, hpo_name, frequency, disease_id)
+ * and the legacy "#Format:" layout used by older releases.
+ */
+function parseGenesToPhenotype(content: string): GeneIndex {
+  const genes = new Map<string, AnnotatedGene>();
+  const bySymbol = new Map<string, string>();
+  const byTerm = new Map<string, GeneAnnotation[]>();
+  let columns: Map<string, number> | undefined;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    const fields = line.split('\t');
+    if (line.startsWith('#')) {
+      if (line.startsWith('#Format:')) {
+        // Legacy layout: entrez-gene-id, entrez-gene-symbol, HPO-Term-ID, HPO-Term-Name,
+        // Frequency-Raw, Frequency-HPO, Additional Info, G-D source, disease-ID
+        columns = new Map([
+          ['ncbi_gene_id', 0], ['gene_symbol', 1], ['hpo_id', 2], ['hpo_name', 3],
+          ['frequency', 5], ['disease_id', 8]
+        ]);
+      }
+      continue;
+    }
+    if (!columns) {
+      columns = new Map(fields.map((name, index) => [name.trim().toLowerCase(), index]));
+      continue;
+    }
+
+    const field = (name: string) => {
+      const index = columns!.get(name);
+      const value = index === undefined ? undefined : fields[index]?.trim();
+      return value && value !== '-' ? value : undefined;
+    };
+
+    const rawGeneId = field('ncbi_gene_id');
+    const geneSymbol = field('gene_symbol');
+    const hpoId = field('hpo_id');
+    if (!rawGeneId || !geneSymbol || !hpoId) {
+      continue;
+    }
+
+    const geneId = rawGeneId.includes(':') ? rawGeneId : `NCBIGene:${rawGeneId}`;
+    const annotation: GeneAnnotation = {
+      geneId,
+      geneSymbol,
+      hpoId,
+      hpoName: field('hpo_name'),
+      frequency: field('frequency'),
+      diseaseId: field('disease_id')
+    };
+
+    let gene = genes.get(geneId);
+    if (!gene) {
+      gene = { id: geneId, symbol: geneSymbol, annotations: [] };
+      genes.set(geneId, gene);
+      bySymbol.set(geneSymbol.toUpperCase(), geneId);
+    }
+    gene.annotations.push(annotation);
+    appendTo(byTerm, hpoId, annotation);
+  }
+
+  return { genes, bySymbol, byTerm };
+}
+
+/**
+ * Normalise common disease ID spellings (e.g. "ORPHANET:558" or "omim:154700")
+ */
+function normalizeDiseaseId(id: string): string {
+  const [prefix, ...rest] = id.trim().split(':');
+  if (rest.length === 0) {
+    return id.trim();
+  }
+  const upper = prefix.toUpperCase();
+  return `${upper === 'ORPHANET' ? 'ORPHA' : upper}:${rest.join(':')}`;
+}
+
+function appendTo<T>(map: Map<string, T[]>, key: string, value: T): void {
+  const values = map.get(key);
+  if (values) {
+    values.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
@@ -1,48 +1,62 @@
 /**
  * HPO API Client - Handles HTTP requests to the Human Phenotype Ontology API
- * Base URL: https://ontology.jax.org/api/hp/
+ * Base URL: https://ontology.jax.org/api/hp/ unless configured otherwise (see config.ts)
+ *
+ * Requests are rate limited, transient failures are retried and a circuit breaker
+ * fails fast while the API is down (see resilience.ts).
  */
 
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosResponse } from 'axios';
 import {
   OntologyTerm,
   SimpleOntologyTerm,
   SearchResult,
   SearchParams,
   HierarchyParams,
-  ApiResponse
+  ApiResponse,
+  ApiConnectionStatus,
+  HPOBackend
 } from '../types/hpo.js';
+import { formatHPOId, isValidHPOId } from './hpo-id.js';
+import { failedResponse, HPOError, InvalidIdError, InvalidParamsError, NotFoundError, RateLimitedError, TimeoutError, UpstreamError } from './errors.js';
+import { ApiConfig, DEFAULT_API_CONFIG } from './config.js';
+import { axiosProxySettings } from './proxy.js';
+import {
+  backoffDelay,
+  CircuitBreaker,
+  isTransientStatus,
+  MAX_RETRY_AFTER_MS,
+  parseRetryAfter,
+  sleep,
+  TokenBucket
+} from './resilience.js';
 
-export class HPOApiClient {
+export class HPOApiClient implements HPOBackend {
   private readonly client: AxiosInstance;
-  private readonly baseURL = 'https://ontology.jax.org/api/hp';
+  private readonly limiter?: TokenBucket;
+  private readonly breaker?: CircuitBreaker;
+  private readonly counters = { requests: 0, retries: 0, failures: 0, rejected: 0 };
+  private releaseCheck?: { release?: string; checkedAt: number };
+  private pendingRelease?: Promise<string | undefined>;
 
-  constructor() {
+  constructor(private readonly config: ApiConfig = DEFAULT_API_CONFIG) {
     this.client = axios.create({
-      baseURL: this.baseURL,
-      timeout: 30000,
+      baseURL: config.baseUrl,
+      timeout: config.timeoutMs,
       headers: {
+        ...config.headers,
         'Accept': 'application/json',
-        'User-Agent': 'HPO-MCP-Server/1.0.0'
-      }
+        'User-Agent': config.userAgent
+      },
+      ...axiosProxySettings(config.baseUrl, config.proxy)
     });
 
-    // Add response interceptor for error handling
-    this.client.interceptors.response.use(
-      (response) => response,
-      (error) => {
-        if (error.response) {
-          // Server responded with error status
-          throw new Error(`HPO API Error (${error.response.status}): ${error.response.data?.message || error.message}`);
-        } else if (error.request) {
-          // Request was made but no response received
-          throw new Error('HPO API is not responding. Please check your internet connection.');
-        } else {
-          // Something else happened
-          throw new Error(`Request error: ${error.message}`);
-        }
-      }
-    );
+    if (config.rateLimit > 0) {
+      this.limiter = new TokenBucket(config.rateLimit, config.rateLimitBurst);
+    }
+    if (config.circuitBreakerThreshold > 0) {
+      this.breaker = new CircuitBreaker(config.circuitBreakerThreshold, config.circuitBreakerResetMs);
+    }
   }
 
   /**
@@ -59,7 +73,7 @@ export class HPOApiClient {
         params.category.forEach(cat => searchParams.append('category', cat));
       }
 
-      const response: AxiosResponse = await this.client.get(`/search?${searchParams.toString()}`);
+      const response: AxiosResponse = await this.get(`/search?${searchParams.toString()}`);
       
       return {
         data: {
@@ -71,10 +85,7 @@ export class HPOApiClient {
         status: response.status
       };
     } catch (error) {
-      return {
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-        status: 500
-      };
+      return failedResponse(error);
     }
   }
 
@@ -87,17 +98,14 @@ export class HPOApiClient {
       if (max) params.append('max', max.toString());
       if (offset) params.append('offset', offset.toString());
 
-      const response: AxiosResponse = await this.client.get(`/terms?${params.toString()}`);
+      const response: AxiosResponse = await this.get(`/terms?${params.toString()}`);
       
       return {
         data: response.data.terms || response.data || [],
         status: response.status
       };
     } catch (error) {
-      return {
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-        status: 500
-      };
+      return failedResponse(error);
     }
   }
 
@@ -106,19 +114,15 @@ export class HPOApiClient {
    */
   async getTerm(id: string): Promise<ApiResponse<OntologyTerm>> {
     try {
-      // Ensure ID has proper format (HP:XXXXXXX)
-      const formattedId = this.formatHPOId(id);
-      const response: AxiosResponse = await this.client.get(`/terms/${encodeURIComponent(formattedId)}`);
+      const formattedId = this.requireValidId(id);
+      const response: AxiosResponse = await this.get(`/terms/${encodeURIComponent(formattedId)}`);
       
       return {
         data: response.data,
         status: response.status
       };
     } catch (error) {
-      return {
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-        status: 500
-      };
+      return failedResponse(error);
     }
   }
 
@@ -127,12 +131,12 @@ export class HPOApiClient {
    */
   async getAncestors(params: HierarchyParams): Promise<ApiResponse<SimpleOntologyTerm[]>> {
     try {
-      const formattedId = this.formatHPOId(params.id);
+      const formattedId = this.requireValidId(params.id);
       const searchParams = new URLSearchParams();
       if (params.max) searchParams.append('max', params.max.toString());
       if (params.offset) searchParams.append('offset', params.offset.toString());
 
-      const response: AxiosResponse = await this.client.get(
+      const response: AxiosResponse = await this.get(
         `/terms/${encodeURIComponent(formattedId)}/ancestors?${searchParams.toString()}`
       );
       
@@ -141,10 +145,7 @@ export class HPOApiClient {
         status: response.status
       };
     } catch (error) {
-      return {
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-        status: 500
-      };
+      return failedResponse(error);
     }
   }
 
@@ -153,12 +154,12 @@ export class HPOApiClient {
    */
   async getParents(params: HierarchyParams): Promise<ApiResponse<SimpleOntologyTerm[]>> {
     try {
-      const formattedId = this.formatHPOId(params.id);
+      const formattedId = this.requireValidId(params.id);
       const searchParams = new URLSearchParams();
       if (params.max) searchParams.append('max', params.max.toString());
       if (params.offset) searchParams.append('offset', params.offset.toString());
 
-      const response: AxiosResponse = await this.client.get(
+      const response: AxiosResponse = await this.get(
         `/terms/${encodeURIComponent(formattedId)}/parents?${searchParams.toString()}`
       );
       
@@ -167,10 +168,7 @@ export class HPOApiClient {
         status: response.status
       };
     } catch (error) {
-      return {
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-        status: 500
-      };
+      return failedResponse(error);
     }
   }
 
@@ -179,12 +177,12 @@ export class HPOApiClient {
    */
   async getChildren(params: HierarchyParams): Promise<ApiResponse<SimpleOntologyTerm[]>> {
     try {
-      const formattedId = this.formatHPOId(params.id);
+      const formattedId = this.requireValidId(params.id);
       const searchParams = new URLSearchParams();
       if (params.max) searchParams.append('max', params.max.toString());
       if (params.offset) searchParams.append('offset', params.offset.toString());
 
-      const response: AxiosResponse = await this.client.get(
+      const response: AxiosResponse = await this.get(
         `/terms/${encodeURIComponent(formattedId)}/children?${searchParams.toString()}`
       );
       
@@ -193,10 +191,7 @@ export class HPOApiClient {
         status: response.status
       };
     } catch (error) {
-      return {
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-        status: 500
-      };
+      return failedResponse(error);
     }
   }
 
@@ -205,12 +200,12 @@ export class HPOApiClient {
    */
   async getDescendants(params: HierarchyParams): Promise<ApiResponse<SimpleOntologyTerm[]>> {
     try {
-      const formattedId = this.formatHPOId(params.id);
+      const formattedId = this.requireValidId(params.id);
       const searchParams = new URLSearchParams();
       if (params.max) searchParams.append('max', params.max.toString());
       if (params.offset) searchParams.append('offset', params.offset.toString());
 
-      const response: AxiosResponse = await this.client.get(
+      const response: AxiosResponse = await this.get(
         `/terms/${encodeURIComponent(formattedId)}/descendants?${searchParams.toString()}`
       );
       
@@ -219,35 +214,176 @@ export class HPOApiClient {
         status: response.status
       };
     } catch (error) {
-      return {
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-        status: 500
-      };
+      return failedResponse(error);
     }
   }
 
   /**
-   * Format HPO ID to ensure proper format (HP:XXXXXXX)
+   * Current HPO release (e.g. "2024-08-13"), looked up from the release URL at most once
+   * per release check interval. A failed lookup keeps the last known release.
    */
-  formatHPOId(id: string): string {
-    // If it already starts with HP:, return as-is
-    if (id.startsWith('HP:')) {
-      return id;
+  async getVersion(): Promise<string | undefined> {
+    if (!this.config.releaseUrl) {
+      return undefined;
+    }
+    if (this.releaseCheck && Date.now() - this.releaseCheck.checkedAt < this.config.releaseCheckIntervalMs) {
+      return this.releaseCheck.release;
+    }
+    if (!this.pendingRelease) {
+      this.pendingRelease = this.fetchRelease(this.config.releaseUrl).finally(() => {
+        this.pendingRelease = undefined;
+      });
+    }
+    return this.pendingRelease;
+  }
+
+  /**
+   * Retry, rate limit and circuit breaker state
+   */
+  getConnectionStatus(): ApiConnectionStatus {
+    return {
+      baseUrl: this.config.baseUrl,
+      ...this.counters,
+      rateLimit: this.limiter?.getStatus() ?? null,
+      circuit: this.breaker?.getStatus() ?? null
+    };
+  }
+
+  /**
+   * Read the release from a GitHub release ("tag_name": "v2024-08-13") or any JSON
+   * document with a "version" or "release" field
+   */
+  private async fetchRelease(releaseUrl: string): Promise<string | undefined> {
+    let release = this.releaseCheck?.release;
+    try {
+      // A separate request: the configured headers may hold credentials meant for the API only
+      const response = await axios.get(releaseUrl, {
+        timeout: this.config.timeoutMs,
+        headers: { 'Accept': 'application/json', 'User-Agent': this.config.userAgent },
+        ...axiosProxySettings(releaseUrl, this.config.releaseProxy)
+      });
+      const value = response.data?.tag_name ?? response.data?.version ?? response.data?.release;
+      if (typeof value === 'string' && value.trim()) {
+        release = value.trim().replace(/^v(?=\d)/, '');
+      }
+    } catch (error) {
+      console.error(`Could not look up the current HPO release from ${releaseUrl}: ${error instanceof Error ? error.message : error}`);
     }
-    
-    // If it's just numbers, add HP: prefix
-    if (/^\d+$/.test(id)) {
-      return `HP:${id.padStart(7, '0')}`;
+    this.releaseCheck = { release, checkedAt: Date.now() };
+    return release;
+  }
+
+  /**
+   * GET a path, waiting for the rate limiter and retrying transient failures
+   */
+  private async get(path: string): Promise<AxiosResponse> {
+    if (this.breaker && !this.breaker.allowRequest()) {
+      this.counters.rejected++;
+      const circuit = this.breaker.getStatus();
+      throw new UpstreamError(
+        `HPO API is unavailable: ${circuit.consecutiveFailures} consecutive requests failed (last error: ${circuit.lastError}). ` +
+        `Failing fast until ${circuit.nextAttemptAt ?? 'the current trial request completes'}.`,
+        { status: 503 }
+      );
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      await this.limiter?.take();
+      this.counters.requests++;
+      try {
+        const response = await this.client.get(path);
+        this.breaker?.recordSuccess();
+        return response;
+      } catch (error) {
+        const response = error instanceof AxiosError ? error.response : undefined;
+        // Network errors and timeouts have a request but no response
+        const transient = error instanceof AxiosError && (response ? isTransientStatus(response.status) : Boolean(error.request));
+        const retryAfter = parseRetryAfter(response?.headers?.['retry-after']);
+
+        if (transient && attempt < this.config.maxRetries && (retryAfter === undefined || retryAfter <= MAX_RETRY_AFTER_MS)) {
+          const delay = Math.max(retryAfter ?? 0, backoffDelay(attempt, this.config.retryBaseDelayMs, this.config.retryMaxDelayMs));
+          if (response?.status === 429 && retryAfter !== undefined) {
+            // The API asked every client to slow down, not just this request
+            this.limiter?.pause(retryAfter);
+          }
+          this.counters.retries++;
+          await sleep(delay);
+          continue;
+        }
+
+        const failure = describeError(error, retryAfter);
+        this.counters.failures++;
+        if (transient) {
+          this.breaker?.recordFailure(failure.message);
+        } else {
+          // The API answered, e.g. 404 for an unknown term: it is up
+          this.breaker?.recordSuccess();
+        }
+        throw failure;
+      }
     }
-    
-    // Otherwise, return as-is and let the API handle validation
-    return id;
+  }
+
+  /**
+   * Format an HPO ID (HP:XXXXXXX), rejecting malformed IDs before they reach the API
+   */
+  private requireValidId(id: string): string {
+    const formattedId = this.formatHPOId(id);
+    if (!this.isValidHPOId(formattedId)) {
+      throw new InvalidIdError(`Invalid HPO ID format "${id}" (expected HP:XXXXXXX)`);
+    }
+    return formattedId;
+  }
+
+  /**
+   * Format HPO ID to ensure proper format (HP:XXXXXXX)
+   */
+  formatHPOId(id: string): string {
+    return formatHPOId(id);
   }
 
   /**
    * Validate if a string looks like a valid HPO ID
    */
   isValidHPOId(id: string): boolean {
-    return /^HP:\d{7}$/.test(id) || /^\d{7}$/.test(id);
+    return isValidHPOId(id);
+  }
+}
+
+/**
+ * Turn an axios error into a typed error with the response status
+ */
+export function describeError(error: unknown, retryAfterMs?: number): HPOError {
+  if (error instanceof HPOError) {
+    return error;
+  }
+  if (!(error instanceof AxiosError)) {
+    return new UpstreamError(error instanceof Error ? error.message : String(error), { status: 500 });
+  }
+  if (error.response) {
+    // Server responded with error status
+    const status = error.response.status;
+    const message = `HPO API Error (${status}): ${error.response.data?.message || error.message}`;
+    if (status === 404) {
+      return new NotFoundError(message);
+    }
+    if (status === 400 || status === 422) {
+      return new InvalidParamsError(message, { status });
+    }
+    if (status === 429) {
+      return new RateLimitedError(message, { retryAfterMs });
+    }
+    if (status === 408 || status === 504) {
+      return new TimeoutError(message, { status });
+    }
+    return new UpstreamError(message, { status });
+  }
+  if (error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT) {
+    return new TimeoutError(`HPO API did not respond within ${error.config?.timeout} ms`);
+  }
+  if (error.request) {
+    // Request was made but no response received
+    return new UpstreamError('HPO API is not responding. Please check your internet connection.', { status: 503 });
   }
+  return new UpstreamError(`Request error: ${error.message}`, { status: 500 });
 }
@@ -0,0 +1,62 @@
+/**
+ * Backend selection - Chooses between the remote HPO API and a local ontology file
+ *
+ * Configured through environment variables:
+ * - HPO_BACKEND: "api" (default) or "local"
+ * - HPO_ONTOLOGY_FILE: path to a local hp.obo or hp.json release (implies "local")
+ *
+ * The remote API connection is configured by HPO_CONFIG_FILE and the HPO_API_*
+ * variables (see config.ts). Responses are cached according to the HPO_CACHE_*
+ * variables (see cache.ts).
+ */
+
+import { HPOBackend } from '../types/hpo.js';
+import { HPOApiClient } from './api-client.js';
+import { LocalOntologyClient } from './local-ontology.js';
+import { CacheConfig, CachedBackend, readCacheConfig } from './cache.js';
+import { ApiConfig, readApiConfig } from './config.js';
+
+export type BackendType = 'api' | 'local';
+
+export interface BackendConfig {
+  type: BackendType;
+  ontologyFile?: string;
+  /** Remote API connection; only read for the api backend */
+  api?: ApiConfig;
+  cache: CacheConfig;
+}
+
+/**
+ * Read the backend configuration from the environment
+ */
+export function readBackendConfig(env: NodeJS.ProcessEnv = process.env): BackendConfig {
+  const ontologyFile = env.HPO_ONTOLOGY_FILE?.trim() || undefined;
+  const requested = env.HPO_BACKEND?.trim().toLowerCase();
+
+  if (requested && requested !== 'api' && requested !== 'local') {
+    throw new Error(`Invalid HPO_BACKEND "${env.HPO_BACKEND}": expected "api" or "local"`);
+  }
+
+  const type: BackendType = requested === 'api' || (!requested && !ontologyFile) ? 'api' : 'local';
+
+  if (type === 'local' && !ontologyFile) {
+    throw new Error('HPO_ONTOLOGY_FILE must be set when HPO_BACKEND is "local"');
+  }
+
+  // The local backend never contacts the API, so its settings are not read or validated
+  const api = type === 'api' ? readApiConfig(env) : undefined;
+
+  // A local ontology is already held in memory, so caching mainly helps against the remote API
+  return { type, ontologyFile, api, cache: readCacheConfig(env, type === 'api') };
+}
+
+/**
+ * Create the ontology backend described by the configuration
+ */
+export function createBackend(config: BackendConfig): HPOBackend {
+  const backend = config.type === 'local'
+    ? new LocalOntologyClient(config.ontologyFile!)
+    : new HPOApiClient(config.api);
+
+  return config.cache.enabled ? new CachedBackend(backend, config.cache) : backend;
+}
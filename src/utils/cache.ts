@@ -0,0 +1,426 @@
+/**
+ * Response Cache - Caches backend responses in memory, optionally persisted to a JSON-lines file
+ *
+ * Configured through environment variables:
+ * - HPO_CACHE: "on" or "off" (default: on for the remote API, off for a local ontology file)
+ * - HPO_CACHE_FILE: path to a JSON-lines file used to persist the cache between runs (optional)
+ * - HPO_CACHE_TTL: default time-to-live in seconds for all endpoints
+ * - HPO_CACHE_TTL_<ENDPOINT>: time-to-live in seconds for one endpoint
+ *   (SEARCH, TERMS, TERM, ANCESTORS, PARENTS, CHILDREN, DESCENDANTS)
+ * - HPO_CACHE_MAX_ENTRIES: maximum number of cached responses (default: 10000)
+ *
+ * Cached entries are tagged with the ontology release reported by the backend. The
+ * release is checked again before each cached call (backends memoize the lookup) and
+ * all entries are discarded when it changes.
+ */
+
+import { appendFile, readFile, writeFile } from 'fs/promises';
+import {
+  OntologyTerm,
+  SimpleOntologyTerm,
+  SearchResult,
+  SearchParams,
+  HierarchyParams,
+  ApiResponse,
+  ApiConnectionStatus,
+  HPOBackend,
+  TermLabels,
+  TermXrefs
+} from '../types/hpo.js';
+
+export type CacheEndpoint = 'search' | 'terms' | 'term' | 'ancestors' | 'parents' | 'children' | 'descendants';
+
+const CACHE_ENDPOINTS: CacheEndpoint[] = ['search', 'terms', 'term', 'ancestors', 'parents', 'children', 'descendants'];
+
+const DEFAULT_TTL_SECONDS: Record<CacheEndpoint, number> = {
+  search: 60 * 60,
+  terms: 24 * 60 * 60,
+  term: 24 * 60 * 60,
+  ancestors: 24 * 60 * 60,
+  parents: 24 * 60 * 60,
+  children: 24 * 60 * 60,
+  descendants: 24 * 60 * 60
+};
+
+const CACHE_FORMAT_VERSION = 1;
+
+/** Superseded or evicted lines tolerated in the persisted file before it is rewritten */
+const MIN_DEAD_LINES_BEFORE_COMPACTION = 1000;
+
+export interface CacheConfig {
+  enabled: boolean;
+  file?: string;
+  ttlSeconds: Record<CacheEndpoint, number>;
+  maxEntries: number;
+}
+
+/**
+ * Hit and miss counts for one endpoint. Calls that joined an identical request already
+ * in flight are counted as shared, not as hits, since they still waited for the backend.
+ */
+export interface CacheCounters {
+  hits: number;
+  misses: number;
+  shared: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  maxEntries: number;
+  release?: string;
+  persistedTo?: string;
+  hits: number;
+  misses: number;
+  shared: number;
+  endpoints: Record<CacheEndpoint, CacheCounters & { ttlSeconds: number }>;
+}
+
+interface CacheEntry {
+  expires: number;
+  value: ApiResponse<unknown>;
+}
+
+/**
+ * Read the cache configuration from the environment; HPO_CACHE overrides the backend's default
+ */
+export function readCacheConfig(env: NodeJS.ProcessEnv = process.env, enabledByDefault = true): CacheConfig {
+  const setting = env.HPO_CACHE?.trim().toLowerCase() || (enabledByDefault ? 'on' : 'off');
+  if (setting !== 'on' && setting !== 'off') {
+    throw new Error(`Invalid HPO_CACHE "${env.HPO_CACHE}": expected "on" or "off"`);
+  }
+  const enabled = setting === 'on';
+  const defaultTtl = parseWholeNumber(env.HPO_CACHE_TTL, 'HPO_CACHE_TTL');
+
+  const ttlSeconds = { ...DEFAULT_TTL_SECONDS };
+  for (const endpoint of CACHE_ENDPOINTS) {
+    const variable = `HPO_CACHE_TTL_${endpoint.toUpperCase()}`;
+    ttlSeconds[endpoint] = parseWholeNumber(env[variable], variable) ?? defaultTtl ?? DEFAULT_TTL_SECONDS[endpoint];
+  }
+
+  const maxEntries = parseWholeNumber(env.HPO_CACHE_MAX_ENTRIES, 'HPO_CACHE_MAX_ENTRIES') ?? 10000;
+
+  return {
+    enabled,
+    file: env.HPO_CACHE_FILE?.trim() || undefined,
+    ttlSeconds,
+    maxEntries
+  };
+}
+
+/**
+ * Backend decorator that caches successful responses of another backend
+ */
+export class CachedBackend implements HPOBackend {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly pending = new Map<string, Promise<ApiResponse<unknown>>>();
+  private readonly counters = new Map<CacheEndpoint, CacheCounters>(
+    CACHE_ENDPOINTS.map(endpoint => [endpoint, { hits: 0, misses: 0, shared: 0 }])
+  );
+  private release?: string;
+  private initialization?: Promise<void>;
+  /** Entry lines in the persisted file, including superseded and evicted ones */
+  private persistedLines = 0;
+  /** Pending file writes, chained so appends never interleave with a rewrite */
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly backend: HPOBackend,
+    private readonly config: CacheConfig
+  ) {}
+
+  /**
+   * Load persisted entries and discard them if the ontology release has changed
+   */
+  initialize(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.loadPersisted();
+    }
+    return this.initialization;
+  }
+
+  async searchTerms(params: SearchParams): Promise<ApiResponse<SearchResult>> {
+    return this.cached('search', params, () => this.backend.searchTerms(params));
+  }
+
+  async getAllTerms(max?: number, offset?: number): Promise<ApiResponse<SimpleOntologyTerm[]>> {
+    return this.cached('terms', { max, offset }, () => this.backend.getAllTerms(max, offset));
+  }
+
+  async getTerm(id: string): Promise<ApiResponse<OntologyTerm>> {
+    return this.cached('term', { id: this.formatHPOId(id) }, () => this.backend.getTerm(id));
+  }
+
+  async getAncestors(params: HierarchyParams): Promise<ApiResponse<SimpleOntologyTerm[]>> {
+    return this.cached('ancestors', this.hierarchyKey(params), () => this.backend.getAncestors(params));
+  }
+
+  async getParents(params: HierarchyParams): Promise<ApiResponse<SimpleOntologyTerm[]>> {
+    return this.cached('parents', this.hierarchyKey(params), () => this.backend.getParents(params));
+  }
+
+  async getChildren(params: HierarchyParams): Promise<ApiResponse<SimpleOntologyTerm[]>> {
+    return this.cached('children', this.hierarchyKey(params), () => this.backend.getChildren(params));
+  }
+
+  async getDescendants(params: HierarchyParams): Promise<ApiResponse<SimpleOntologyTerm[]>> {
+    return this.cached('descendants', this.hierarchyKey(params), () => this.backend.getDescendants(params));
+  }
+
+  async getVersion(): Promise<string | undefined> {
+    return this.backend.getVersion?.();
+  }
+
+  async getAllTermLabels(): Promise<TermLabels[] | undefined> {
+    return this.backend.getAllTermLabels?.();
+  }
+
+  async getAllTermXrefs(): Promise<TermXrefs[] | undefined> {
+    return this.backend.getAllTermXrefs?.();
+  }
+
+  getConnectionStatus(): ApiConnectionStatus | undefined {
+    return this.backend.getConnectionStatus?.();
+  }
+
+  formatHPOId(id: string): string {
+    return this.backend.formatHPOId(id);
+  }
+
+  isValidHPOId(id: string): boolean {
+    return this.backend.isValidHPOId(id);
+  }
+
+  /**
+   * Ask the backend for the current release and discard all entries if it has changed.
+   * An unknown release (lookup failed or not supported) keeps the entries.
+   */
+  async checkRelease(): Promise<void> {
+    const current = await this.backend.getVersion?.().catch(() => undefined);
+    if (!current || current === this.release) {
+      return;
+    }
+
+    if (this.release) {
+      console.error(`HPO release changed (${this.release} → ${current}), discarding cached responses`);
+    }
+    this.release = current;
+    this.entries.clear();
+    await this.rewritePersisted();
+  }
+
+  /**
+   * Hit/miss counts and cache size
+   */
+  getStats(): CacheStats {
+    const endpoints = {} as CacheStats['endpoints'];
+    let hits = 0;
+    let misses = 0;
+    let shared = 0;
+    for (const endpoint of CACHE_ENDPOINTS) {
+      const counters = this.counters.get(endpoint)!;
+      endpoints[endpoint] = { ...counters, ttlSeconds: this.config.ttlSeconds[endpoint] };
+      hits += counters.hits;
+      misses += counters.misses;
+      shared += counters.shared;
+    }
+
+    return {
+      entries: this.entries.size,
+      maxEntries: this.config.maxEntries,
+      release: this.release,
+      persistedTo: this.config.file,
+      hits,
+      misses,
+      shared,
+      endpoints
+    };
+  }
+
+  /**
+   * Remove all cached entries and reset the counters
+   */
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.counters.forEach(counters => {
+      counters.hits = 0;
+      counters.misses = 0;
+      counters.shared = 0;
+    });
+    await this.rewritePersisted();
+  }
+
+  private hierarchyKey(params: HierarchyParams) {
+    return { id: this.formatHPOId(params.id), max: params.max, offset: params.offset };
+  }
+
+  private async cached<T>(endpoint: CacheEndpoint, params: object, fetch: () => Promise<ApiResponse<T>>): Promise<ApiResponse<T>> {
+    if (!this.config.enabled) {
+      return fetch();
+    }
+
+    await this.initialize();
+    await this.checkRelease();
+
+    const key = `${endpoint}:${JSON.stringify(params)}`;
+    const counters = this.counters.get(endpoint)!;
+    const entry = this.entries.get(key);
+
+    if (entry && entry.expires > Date.now()) {
+      counters.hits++;
+      // Re-insert to keep the most recently used entries at the end of the map
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return entry.value as ApiResponse<T>;
+    }
+
+    // Concurrent identical requests share one backend call
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      counters.shared++;
+      return inFlight as Promise<ApiResponse<T>>;
+    }
+
+    counters.misses++;
+    const request = fetch().then(async response => {
+      // Only successful responses are cached
+      if (!response.error) {
+        await this.store(key, {
+          expires: Date.now() + this.config.ttlSeconds[endpoint] * 1000,
+          value: response
+        });
+      }
+      return response;
+    }).finally(() => this.pending.delete(key));
+
+    this.pending.set(key, request);
+    return request;
+  }
+
+  private async store(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.evictOldest();
+
+    if (!this.config.file) {
+      return;
+    }
+
+    // Appending is cheap, but every miss adds a line; rewrite once the dead lines outnumber the live ones
+    const deadLines = this.persistedLines + 1 - this.entries.size;
+    if (deadLines > Math.max(MIN_DEAD_LINES_BEFORE_COMPACTION, this.entries.size)) {
+      await this.rewritePersisted();
+      return;
+    }
+
+    const file = this.config.file;
+    this.persistedLines++;
+    await this.serialized(async () => {
+      try {
+        await appendFile(file, JSON.stringify({ key, ...entry }) + '\n', 'utf-8');
+      } catch (error) {
+        console.error(`Failed to persist HPO cache entry: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+  }
+
+  private async loadPersisted(): Promise<void> {
+    const current = await this.backend.getVersion?.().catch(() => undefined);
+    this.release = current;
+
+    if (!this.config.enabled || !this.config.file) {
+      return;
+    }
+
+    let content: string;
+    try {
+      content = await readFile(this.config.file, 'utf-8');
+    } catch {
+      // No persisted cache yet
+      await this.rewritePersisted();
+      return;
+    }
+
+    const [headerLine, ...lines] = content.split('\n');
+    let header: { format?: number; release?: string } = {};
+    try {
+      header = JSON.parse(headerLine);
+    } catch {
+      // Unreadable header: start over with an empty cache
+    }
+
+    // When the release cannot be determined now, trust the one the file was written for
+    this.release = current ?? header.release;
+
+    if (header.format === CACHE_FORMAT_VERSION && header.release === this.release) {
+      const now = Date.now();
+      for (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          const { key, expires, value } = JSON.parse(line);
+          if (typeof key === 'string' && expires > now) {
+            this.entries.delete(key);
+            this.entries.set(key, { expires, value });
+          }
+        } catch {
+          // Skip partially written lines
+        }
+      }
+      this.evictOldest();
+    } else if (header.release !== this.release) {
+      console.error(`HPO release changed (${header.release || 'unknown'} → ${this.release || 'unknown'}), discarding cached responses`);
+    }
+
+    // Compact the file to the entries that are still valid
+    await this.rewritePersisted();
+  }
+
+  private async rewritePersisted(): Promise<void> {
+    if (!this.config.file) {
+      return;
+    }
+
+    const file = this.config.file;
+    const header = JSON.stringify({ format: CACHE_FORMAT_VERSION, release: this.release });
+    const lines = Array.from(this.entries.entries()).map(([key, entry]) => JSON.stringify({ key, ...entry }));
+
+    this.persistedLines = lines.length;
+    await this.serialized(async () => {
+      try {
+        await writeFile(file, [header, ...lines].join('\n') + '\n', 'utf-8');
+      } catch (error) {
+        console.error(`Failed to write HPO cache file: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+  }
+
+  /**
+   * Drop the least recently used entries beyond the size limit
+   */
+  private evictOldest(): void {
+    while (this.entries.size > this.config.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Run a file write after the ones already queued
+   */
+  private serialized(write: () => Promise<void>): Promise<void> {
+    this.writes = this.writes.then(write);
+    return this.writes;
+  }
+}
+
+function parseWholeNumber(value: string | undefined, variable: string): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${variable} "${value}": expected a non-negative whole number`);
+  }
+  return parsed;
+}
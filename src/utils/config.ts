@@ -0,0 +1,343 @@
+/**
+ * API configuration - Connection settings for the remote HPO API
+ *
+ * Settings are read from an optional JSON or YAML config file and environment
+ * variables, which take precedence:
+ * - HPO_CONFIG_FILE: path to a .json, .yaml or .yml config file
+ * - HPO_API_BASE_URL: API base URL, e.g. a mirror or local stand-in (default https://ontology.jax.org/api/hp)
+ * - HPO_API_TIMEOUT_MS: request timeout in milliseconds (default 30000)
+ * - HPO_API_USER_AGENT: User-Agent header (default HPO-MCP-Server/1.0.0)
+ * - HPO_API_HEADERS: extra request headers as a JSON object, merged over those from the file
+ * - HPO_API_PROXY: HTTP(S) proxy URL, or "none" to connect directly. Without it the
+ *   standard HTTPS_PROXY / HTTP_PROXY and NO_PROXY variables are honoured.
+ * - HPO_API_MAX_RETRIES: retries of a transient failure (default 3, 0 disables)
+ * - HPO_API_RETRY_BASE_DELAY_MS / HPO_API_RETRY_MAX_DELAY_MS: backoff window (default 500 / 10000)
+ * - HPO_API_RATE_LIMIT: requests per second across all tools (default 10, 0 disables)
+ * - HPO_API_RATE_LIMIT_BURST: requests that may be sent at once before the limit applies (default 20)
+ * - HPO_API_CIRCUIT_BREAKER_THRESHOLD: consecutive failures that open the circuit (default 5, 0 disables)
+ * - HPO_API_CIRCUIT_BREAKER_RESET_MS: how long an open circuit fails fast (default 30000)
+ * - HPO_API_RELEASE_URL: where the current HPO release is looked up (default: the latest
+ *   GitHub release of obophenotype/human-phenotype-ontology), or "none" to skip the lookup
+ * - HPO_API_RELEASE_CHECK_INTERVAL_MS: how often the release is looked up again (default 3600000)
+ *
+ * The config file holds the same settings in an "api" section:
+ *
+ *   api:
+ *     baseUrl: https://hpo-mirror.example.org/api/hp
+ *     timeoutMs: 60000
+ *     headers:
+ *       X-Api-Key: secret
+ *     proxy: http://proxy.example.org:3128
+ *     noProxy: [localhost, .example.org]
+ *     rateLimit: 5
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { isProxyBypassed } from './proxy.js';
+
+export interface ApiConfig {
+  baseUrl: string;
+  timeoutMs: number;
+  userAgent: string;
+  headers: Record<string, string>;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  /** Requests per second; 0 when rate limiting is off */
+  rateLimit: number;
+  rateLimitBurst: number;
+  /** Consecutive failures that open the circuit; 0 when the breaker is off */
+  circuitBreakerThreshold: number;
+  circuitBreakerResetMs: number;
+  /** JSON document naming the current HPO release; undefined when the release is not looked up */
+  releaseUrl?: string;
+  releaseCheckIntervalMs: number;
+  /** Proxy for requests to the base URL; undefined to connect directly */
+  proxy?: URL;
+  /** Where the proxy setting came from, for the startup summary */
+  proxySource?: string;
+  /** Proxy for release lookups, which usually go to a different host than the base URL */
+  releaseProxy?: URL;
+  /** Config file the settings were read from, if any */
+  configFile?: string;
+}
+
+export const DEFAULT_API_CONFIG: ApiConfig = {
+  baseUrl: 'https://ontology.jax.org/api/hp',
+  timeoutMs: 30000,
+  userAgent: 'HPO-MCP-Server/1.0.0',
+  headers: {},
+  maxRetries: 3,
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 10000,
+  rateLimit: 10,
+  rateLimitBurst: 20,
+  circuitBreakerThreshold: 5,
+  circuitBreakerResetMs: 30000,
+  releaseUrl: 'https://api.github.com/repos/obophenotype/human-phenotype-ontology/releases/latest',
+  releaseCheckIntervalMs: 60 * 60 * 1000
+};
+
+/**
+ * Numeric settings: config file key, environment variable, and the smallest value allowed
+ */
+const NUMERIC_SETTINGS = {
+  timeoutMs: { variable: 'HPO_API_TIMEOUT_MS', min: 1, integer: true },
+  maxRetries: { variable: 'HPO_API_MAX_RETRIES', min: 0, integer: true },
+  retryBaseDelayMs: { variable: 'HPO_API_RETRY_BASE_DELAY_MS', min: 0, integer: true },
+  retryMaxDelayMs: { variable: 'HPO_API_RETRY_MAX_DELAY_MS', min: 0, integer: true },
+  rateLimit: { variable: 'HPO_API_RATE_LIMIT', min: 0, integer: false },
+  rateLimitBurst: { variable: 'HPO_API_RATE_LIMIT_BURST', min: 1, integer: true },
+  circuitBreakerThreshold: { variable: 'HPO_API_CIRCUIT_BREAKER_THRESHOLD', min: 0, integer: true },
+  circuitBreakerResetMs: { variable: 'HPO_API_CIRCUIT_BREAKER_RESET_MS', min: 1, integer: true },
+  releaseCheckIntervalMs: { variable: 'HPO_API_RELEASE_CHECK_INTERVAL_MS', min: 1, integer: true }
+};
+
+type NumericSetting = keyof typeof NUMERIC_SETTINGS;
+
+const NUMERIC_KEYS = Object.keys(NUMERIC_SETTINGS) as NumericSetting[];
+
+const API_KEYS = ['baseUrl', 'userAgent', 'headers', 'proxy', 'noProxy', 'releaseUrl', ...NUMERIC_KEYS];
+
+// Header values that are masked when the configuration is printed
+const SENSITIVE_HEADER = /authorization|cookie|key|token|secret|password/i;
+
+/**
+ * Validated "api" section of a config file
+ */
+interface FileSettings extends Partial<Record<NumericSetting, number>> {
+  baseUrl?: string;
+  userAgent?: string;
+  headers?: Record<string, string>;
+  proxy?: string;
+  noProxy?: string[];
+  releaseUrl?: string;
+}
+
+type RawSettings = { [K in keyof FileSettings]?: unknown };
+
+/**
+ * Read and validate the API configuration from the config file and the environment
+ */
+export function readApiConfig(env: NodeJS.ProcessEnv = process.env): ApiConfig {
+  const configFile = env.HPO_CONFIG_FILE?.trim() || undefined;
+  const file: FileSettings = configFile ? readConfigFile(configFile) : {};
+  const source = (variable: string) => env[variable]?.trim() ? variable : configFile;
+
+  const baseUrl = parseUrl(
+    env.HPO_API_BASE_URL?.trim() || file.baseUrl || DEFAULT_API_CONFIG.baseUrl,
+    source('HPO_API_BASE_URL')
+  );
+  if (baseUrl.protocol !== 'http:' && baseUrl.protocol !== 'https:') {
+    throw new Error(`Invalid API base URL "${baseUrl}" in ${source('HPO_API_BASE_URL')}: expected an http:// or https:// URL`);
+  }
+
+  const numbers = Object.fromEntries(NUMERIC_KEYS.map(key => {
+    const { variable, min, integer } = NUMERIC_SETTINGS[key];
+    const raw = env[variable]?.trim() || file[key];
+    const value = raw === undefined ? DEFAULT_API_CONFIG[key] : Number(raw);
+    if (!Number.isFinite(value) || value < min || (integer && !Number.isInteger(value))) {
+      throw new Error(`Invalid ${key} "${raw}" in ${source(variable)}: expected ${integer ? 'a whole number' : 'a number'} of at least ${min}`);
+    }
+    return [key, value];
+  })) as Record<NumericSetting, number>;
+
+  const userAgent = env.HPO_API_USER_AGENT?.trim() || file.userAgent || DEFAULT_API_CONFIG.userAgent;
+
+  const headers = { ...file.headers, ...parseEnvHeaders(env.HPO_API_HEADERS) };
+
+  const proxySetting = resolveProxySetting(env, file, baseUrl, configFile);
+
+  const rawReleaseUrl = env.HPO_API_RELEASE_URL?.trim() || file.releaseUrl || DEFAULT_API_CONFIG.releaseUrl!;
+  const releaseUrl = rawReleaseUrl.toLowerCase() === 'none' ? undefined : parseUrl(rawReleaseUrl, source('HPO_API_RELEASE_URL'));
+  if (releaseUrl && releaseUrl.protocol !== 'http:' && releaseUrl.protocol !== 'https:') {
+    throw new Error(`Invalid release URL "${releaseUrl}" in ${source('HPO_API_RELEASE_URL')}: expected an http:// or https:// URL`);
+  }
+
+  return {
+    baseUrl: baseUrl.toString().replace(/\/+$/, ''),
+    ...numbers,
+    userAgent,
+    headers,
+    proxy: proxySetting?.proxy,
+    proxySource: proxySetting?.source,
+    releaseUrl: releaseUrl?.toString(),
+    releaseProxy: releaseUrl ? resolveProxySetting(env, file, releaseUrl, configFile)?.proxy : undefined,
+    configFile
+  };
+}
+
+/**
+ * Human-readable summary of the effective configuration, with secrets masked
+ */
+export function describeApiConfig(config: ApiConfig): string[] {
+  const headers = Object.entries(config.headers)
+    .map(([name, value]) => `${name}: ${SENSITIVE_HEADER.test(name) ? '***' : value}`);
+  return [
+    `config file: ${config.configFile || 'none'}`,
+    `base URL: ${config.baseUrl}`,
+    `timeout: ${config.timeoutMs} ms`,
+    `user agent: ${config.userAgent}`,
+    `extra headers: ${headers.length > 0 ? headers.join(', ') : 'none'}`,
+    `proxy: ${config.proxy ? `${maskProxy(config.proxy)} (from ${config.proxySource})` : 'none'}`,
+    `retries: ${config.maxRetries > 0 ? `up to ${config.maxRetries} (backoff ${config.retryBaseDelayMs}-${config.retryMaxDelayMs} ms, honouring Retry-After)` : 'off'}`,
+    `rate limit: ${config.rateLimit > 0 ? `${config.rateLimit} requests/s (burst ${config.rateLimitBurst})` : 'off'}`,
+    `circuit breaker: ${config.circuitBreakerThreshold > 0 ? `opens after ${config.circuitBreakerThreshold} consecutive failures for ${config.circuitBreakerResetMs} ms` : 'off'}`,
+    `release check: ${config.releaseUrl ? `${config.releaseUrl} every ${config.releaseCheckIntervalMs} ms` : 'off'}`
+  ];
+}
+
+/**
+ * Read the "api" section of a JSON or YAML config file
+ */
+function readConfigFile(path: string): FileSettings {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf-8');
+  } catch (error) {
+    throw new Error(`Cannot read HPO_CONFIG_FILE ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  let document: unknown;
+  try {
+    document = extname(path).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    // YAML errors end with a source excerpt; the first line names the problem and position
+    const message = error instanceof Error ? error.message.split('\n')[0] : error;
+    throw new Error(`Invalid config file ${path}: ${message}`);
+  }
+
+  if (document === null) {
+    return {};
+  }
+  if (!isPlainObject(document)) {
+    throw new Error(`Invalid config file ${path}: expected a mapping with an "api" section`);
+  }
+  const unknownSections = Object.keys(document).filter(key => key !== 'api');
+  if (unknownSections.length > 0) {
+    throw new Error(`Invalid config file ${path}: unknown section(s) ${unknownSections.join(', ')}; expected "api"`);
+  }
+  if (document.api === undefined || document.api === null) {
+    return {};
+  }
+  if (!isPlainObject(document.api)) {
+    throw new Error(`Invalid config file ${path}: "api" must be a mapping`);
+  }
+
+  const settings = document.api as RawSettings;
+  const unknownKeys = Object.keys(settings).filter(key => !API_KEYS.includes(key));
+  if (unknownKeys.length > 0) {
+    throw new Error(`Invalid config file ${path}: unknown api setting(s) ${unknownKeys.join(', ')}; expected ${API_KEYS.join(', ')}`);
+  }
+
+  const invalid = (key: string, expected: string) => new Error(`Invalid config file ${path}: api.${key} must be ${expected}`);
+  const optionalString = (key: keyof RawSettings) => {
+    const value = settings[key];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      throw invalid(key, 'a string');
+    }
+    return (value as string | null | undefined) || undefined;
+  };
+
+  NUMERIC_KEYS.forEach(key => {
+    if (settings[key] !== undefined && settings[key] !== null && typeof settings[key] !== 'number') {
+      throw invalid(key, 'a number');
+    }
+  });
+  if (settings.headers !== undefined && settings.headers !== null &&
+      (!isPlainObject(settings.headers) || Object.values(settings.headers).some(value => typeof value !== 'string' && typeof value !== 'number'))) {
+    throw invalid('headers', 'a mapping of header names to values');
+  }
+  if (settings.noProxy !== undefined && settings.noProxy !== null &&
+      (!Array.isArray(settings.noProxy) || settings.noProxy.some(value => typeof value !== 'string'))) {
+    throw invalid('noProxy', 'a list of host names');
+  }
+
+  return {
+    ...Object.fromEntries(NUMERIC_KEYS.flatMap(key => typeof settings[key] === 'number' ? [[key, settings[key]]] : [])),
+    baseUrl: optionalString('baseUrl'),
+    userAgent: optionalString('userAgent'),
+    headers: settings.headers
+      ? Object.fromEntries(Object.entries(settings.headers).map(([name, value]) => [name, String(value)]))
+      : undefined,
+    proxy: optionalString('proxy'),
+    releaseUrl: optionalString('releaseUrl'),
+    noProxy: (settings.noProxy as string[] | null | undefined) ?? undefined
+  };
+}
+
+/**
+ * Pick the proxy for the base URL: HPO_API_PROXY, then the config file, then the standard variables
+ */
+function resolveProxySetting(
+  env: NodeJS.ProcessEnv,
+  file: FileSettings,
+  baseUrl: URL,
+  configFile?: string
+): { proxy: URL; source: string } | undefined {
+  const standardVariable = (baseUrl.protocol === 'https:'
+    ? ['HPO_API_PROXY', 'HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy']
+    : ['HPO_API_PROXY', 'HTTP_PROXY', 'http_proxy']
+  ).find(variable => env[variable]?.trim());
+
+  const [value, source] = standardVariable === 'HPO_API_PROXY' || !file.proxy
+    ? [standardVariable && env[standardVariable]!.trim(), standardVariable]
+    : [file.proxy, configFile];
+
+  if (!value || value.toLowerCase() === 'none') {
+    return undefined;
+  }
+
+  const proxy = parseUrl(value.includes('://') ? value : `http://${value}`, source);
+  if (proxy.protocol !== 'http:' && proxy.protocol !== 'https:') {
+    throw new Error(`Invalid proxy "${value}" in ${source}: expected an http:// or https:// URL`);
+  }
+
+  const noProxy = [
+    ...(file.noProxy || []),
+    ...(env.NO_PROXY || env.no_proxy || '').split(',').map(entry => entry.trim()).filter(Boolean)
+  ];
+  if (isProxyBypassed(baseUrl, noProxy)) {
+    return undefined;
+  }
+
+  return { proxy, source: source! };
+}
+
+function parseEnvHeaders(value: string | undefined): Record<string, string> {
+  if (!value?.trim()) {
+    return {};
+  }
+  let headers: unknown;
+  try {
+    headers = JSON.parse(value);
+  } catch {
+    headers = undefined;
+  }
+  if (!isPlainObject(headers) || Object.values(headers).some(header => typeof header !== 'string')) {
+    throw new Error('Invalid HPO_API_HEADERS: expected a JSON object of header names to string values, e.g. {"X-Api-Key": "..."}');
+  }
+  return headers as Record<string, string>;
+}
+
+function parseUrl(value: string, source?: string): URL {
+  try {
+    return new URL(value);
+  } catch {
+    throw new Error(`Invalid URL "${value}"${source ? ` in ${source}` : ''}`);
+  }
+}
+
+function maskProxy(proxy: URL): string {
+  const masked = new URL(proxy.toString());
+  if (masked.password) {
+    masked.password = '***';
+  }
+  return masked.toString().replace(/\/$/, '');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,188 @@
+/**
+ * Disease Ranking - Phenotype-driven differential diagnosis
+ *
+ * Each annotated disease is scored by how well its HPO annotation profile explains
+ * the patient's observed terms: for every observed term the best Resnik match among
+ * the disease's phenotype annotations is found, and the matches are averaged.
+ * Excluded terms that the disease is annotated to (directly or through a more
+ * specific term) are subtracted as a penalty.
+ */
+
+import { SimpleOntologyTerm } from '../types/hpo.js';
+import { AnnotationStore } from './annotations.js';
+import { InformationContent, ICSource, TermClosure } from './information-content.js';
+
+export interface RankingOptions {
+  icSource?: ICSource;
+  /** Only rank diseases from this database (e.g. OMIM, ORPHA, DECIPHER) */
+  database?: string;
+  maxResults?: number;
+}
+
+/**
+ * How one observed patient term was matched against a disease
+ */
+export interface TermMatch {
+  patientTerm: SimpleOntologyTerm;
+  diseaseTerm?: SimpleOntologyTerm;
+  /** Most informative common ancestor of the patient and disease terms */
+  mica?: SimpleOntologyTerm;
+  score: number;
+}
+
+export interface RankedDisease {
+  rank: number;
+  diseaseId: string;
+  diseaseName: string;
+  score: number;
+  matchScore: number;
+  exclusionPenalty: number;
+  matches: TermMatch[];
+  /** Excluded patient terms that the disease is annotated to */
+  contradictions: SimpleOntologyTerm[];
+}
+
+export interface DiseaseRanking {
+  icSource: ICSource;
+  diseasesScored: number;
+  results: RankedDisease[];
+}
+
+interface PatientTerm {
+  closure: TermClosure;
+  /** IC of the term and each of its ancestors */
+  lineageIC: Map<string, number>;
+}
+
+export class DiseaseRanker {
+  constructor(
+    private readonly ic: InformationContent,
+    private readonly annotations: AnnotationStore
+  ) {}
+
+  /**
+   * Rank all annotated diseases against a patient's observed and excluded terms
+   */
+  async rank(observedIds: string[], excludedIds: string[] = [], options: RankingOptions = {}): Promise<DiseaseRanking> {
+    const icSource = options.icSource || 'annotations';
+    const database = options.database?.toUpperCase();
+
+    const [observed, excluded] = await Promise.all([
+      Promise.all(observedIds.map(id => this.preparePatientTerm(id, icSource))),
+      Promise.all(excludedIds.map(id => this.preparePatientTerm(id, icSource)))
+    ]);
+
+    const diseases = (await this.annotations.getDiseases())
+      .filter(disease => !database || disease.id.startsWith(`${database}:`));
+
+    const diseaseTerms = new Map(diseases.map(disease => [
+      disease.id,
+      Array.from(new Set(disease.annotations.filter(a => !a.negated && a.aspect === 'P').map(a => a.hpoId)))
+    ]));
+    const closures = await this.ic.getClosures(Array.from(new Set(Array.from(diseaseTerms.values()).flat())));
+
+    // Best match for a patient term is looked up once per distinct disease term
+    const pairScores = new Map<string, { score: number; micaId?: string }>();
+    const scorePair = (patientTerm: PatientTerm, diseaseTermId: string) => {
+      const key = `${patientTerm.closure.id}|${diseaseTermId}`;
+      let pair = pairScores.get(key);
+      if (!pair) {
+        pair = resnik(patientTerm, closures.get(diseaseTermId));
+        pairScores.set(key, pair);
+      }
+      return pair;
+    };
+
+    const scored = diseases.map(disease => {
+      const termIds = diseaseTerms.get(disease.id) || [];
+
+      const matches: TermMatch[] = observed.map(patientTerm => {
+        let best: TermMatch = { patientTerm: toSimpleTerm(patientTerm.closure), score: 0 };
+        for (const termId of termIds) {
+          const pair = scorePair(patientTerm, termId);
+          if (pair.score > best.score) {
+            const diseaseClosure = closures.get(termId)!;
+            best = {
+              patientTerm: best.patientTerm,
+              diseaseTerm: toSimpleTerm(diseaseClosure),
+              mica: pair.micaId
+                ? { id: pair.micaId, name: lineageName(patientTerm.closure, pair.micaId) }
+                : undefined,
+              score: pair.score
+            };
+          }
+        }
+        return best;
+      });
+
+      // An excluded term is contradicted when the disease is annotated to it or one of its descendants
+      const contradicted = excluded.filter(excludedTerm =>
+        termIds.some(termId => {
+          const closure = closures.get(termId);
+          return closure !== undefined
+            && (closure.id === excludedTerm.closure.id || closure.ancestors.has(excludedTerm.closure.id));
+        })
+      );
+
+      const matchScore = matches.length > 0
+        ? matches.reduce((total, match) => total + match.score, 0) / matches.length
+        : 0;
+      const exclusionPenalty = contradicted.length > 0
+        ? contradicted.reduce((total, term) => total + (term.lineageIC.get(term.closure.id) || 0), 0) / Math.max(observed.length, 1)
+        : 0;
+
+      return {
+        diseaseId: disease.id,
+        diseaseName: disease.name,
+        score: matchScore - exclusionPenalty,
+        matchScore,
+        exclusionPenalty,
+        matches,
+        contradictions: contradicted.map(term => toSimpleTerm(term.closure))
+      };
+    });
+
+    scored.sort((a, b) => b.score - a.score || a.diseaseId.localeCompare(b.diseaseId));
+
+    return {
+      icSource,
+      diseasesScored: scored.length,
+      results: scored
+        .slice(0, options.maxResults || 20)
+        .map((disease, index) => ({ rank: index + 1, ...disease }))
+    };
+  }
+
+  private async preparePatientTerm(id: string, icSource: ICSource): Promise<PatientTerm> {
+    const closure = await this.ic.getClosure(id);
+    const lineage = [closure.id, ...closure.ancestors.keys()];
+    const values = await Promise.all(lineage.map(termId => this.ic.getIC(termId, icSource)));
+    return { closure, lineageIC: new Map(lineage.map((termId, index) => [termId, values[index]])) };
+  }
+}
+
+/**
+ * Resnik similarity between a patient term and a disease term
+ */
+function resnik(patientTerm: PatientTerm, diseaseClosure: TermClosure | undefined): { score: number; micaId?: string } {
+  if (!diseaseClosure) {
+    return { score: 0 };
+  }
+
+  let best: { score: number; micaId?: string } = { score: 0 };
+  patientTerm.lineageIC.forEach((value, termId) => {
+    const shared = termId === diseaseClosure.id || diseaseClosure.ancestors.has(termId);
+    if (shared && (best.micaId === undefined || value > best.score)) {
+      best = { score: value, micaId: termId };
+    }
+  });
+  return best;
+}
+
+function lineageName(closure: TermClosure, id: string): string {
+  return id === closure.id ? closure.name : closure.ancestors.get(id) || id;
+}
+
+function toSimpleTerm(closure: TermClosure): SimpleOntologyTerm {
+  return { id: closure.id, name: closure.name };
+}
@@ -0,0 +1,240 @@
+/**
+ * Term Enrichment - Over-represented HPO terms in a study set compared with a population
+ *
+ * Items (genes or patients) are annotated to their HPO terms and, by the true-path
+ * rule, to every ancestor of those terms, using the same ancestor closures as term
+ * comparison and semantic similarity. Each term annotated in the study set is then
+ * tested with a one-sided hypergeometric test:
+ * - term-for-term: against the whole population
+ * - parent-child-union: against the items annotated to at least one parent of the
+ *   term, which removes most of the inherited significance of enriched child terms
+ * P-values are corrected for the number of terms tested.
+ */
+
+import { SimpleOntologyTerm } from '../types/hpo.js';
+import { InformationContent, HPO_ROOT_ID, TermClosure } from './information-content.js';
+
+export type EnrichmentMethod = 'term-for-term' | 'parent-child-union';
+
+export type MultipleTestingCorrection = 'bonferroni' | 'benjamini-hochberg' | 'none';
+
+export const ENRICHMENT_METHODS: EnrichmentMethod[] = ['term-for-term', 'parent-child-union'];
+
+export const CORRECTIONS: MultipleTestingCorrection[] = ['bonferroni', 'benjamini-hochberg', 'none'];
+
+/**
+ * A gene or patient and the HPO terms it is annotated to
+ */
+export interface AnnotatedItem {
+  id: string;
+  hpoIds: string[];
+}
+
+export interface EnrichmentOptions {
+  method: EnrichmentMethod;
+  correction: MultipleTestingCorrection;
+  /** Significance threshold for the corrected p-value */
+  alpha: number;
+  maxResults: number;
+}
+
+export interface EnrichedTerm extends SimpleOntologyTerm {
+  /** Study items annotated to the term */
+  studyCount: number;
+  /** Study items tested (for parent-child-union, those annotated to a parent of the term) */
+  studySize: number;
+  populationCount: number;
+  populationSize: number;
+  pValue: number;
+  adjustedPValue: number;
+  /** Fraction of study items annotated to the term divided by the population fraction */
+  foldEnrichment: number;
+  significant: boolean;
+  studyItems: string[];
+}
+
+export interface Enrichment {
+  method: EnrichmentMethod;
+  correction: MultipleTestingCorrection;
+  alpha: number;
+  studySize: number;
+  populationSize: number;
+  /** Study items that were missing from the population and added to it */
+  addedToPopulation: string[];
+  testedTerms: number;
+  significantTerms: number;
+  /** Most significant terms first, at most maxResults */
+  results: EnrichedTerm[];
+  /** Annotated HPO IDs whose ancestors could not be retrieved */
+  unknownTerms: string[];
+}
+
+export class TermEnrichment {
+  constructor(private readonly ic: InformationContent) {}
+
+  /**
+   * Test every term annotated in the study set for over-representation
+   */
+  async analyze(study: AnnotatedItem[], population: AnnotatedItem[], options: EnrichmentOptions): Promise<Enrichment> {
+    // The study set must be part of the population
+    const populationIds = new Set(population.map(item => item.id));
+    const added = study.filter(item => !populationIds.has(item.id));
+    const items = [...population, ...added];
+    const studyIds = new Set(study.map(item => item.id));
+    const inStudy = items.map(item => studyIds.has(item.id));
+
+    const annotatedIds = Array.from(new Set(items.flatMap(item => item.hpoIds)));
+    const closures = await this.ic.getClosures(annotatedIds);
+    const names = new Map<string, string>();
+    closures.forEach(closure => {
+      names.set(closure.id, closure.name);
+      closure.ancestors.forEach((name, id) => names.set(id, name));
+    });
+
+    // Items annotated to each term, directly or through a descendant
+    const itemsByTerm = new Map<string, Set<number>>();
+    items.forEach((item, index) => {
+      const terms = new Set(item.hpoIds.flatMap(id => {
+        const closure = closures.get(id);
+        return closure ? [closure.id, ...closure.ancestors.keys()] : [];
+      }));
+      terms.forEach(term => {
+        const annotated = itemsByTerm.get(term) || new Set<number>();
+        annotated.add(index);
+        itemsByTerm.set(term, annotated);
+      });
+    });
+
+    // The root annotates every item and is never enriched
+    const tested = Array.from(itemsByTerm.entries())
+      .filter(([term, annotated]) => term !== HPO_ROOT_ID && countStudy(annotated, inStudy) > 0)
+      .map(([term]) => term);
+
+    const parents = options.method === 'parent-child-union'
+      ? directParents(await this.ic.getClosures(tested))
+      : new Map<string, string[]>();
+
+    const logFactorials = logFactorialTable(items.length);
+    const results: EnrichedTerm[] = tested.map(term => {
+      const annotated = itemsByTerm.get(term)!;
+      const background = options.method === 'parent-child-union' ? parentUnion(parents.get(term) || [], itemsByTerm) : undefined;
+      const populationSize = background ? background.size : items.length;
+      const studySize = background ? countStudy(background, inStudy) : study.length;
+      const studyMembers = Array.from(annotated).filter(index => inStudy[index]);
+      const studyCount = studyMembers.length;
+
+      return {
+        id: term,
+        name: names.get(term) || term,
+        studyCount,
+        studySize,
+        populationCount: annotated.size,
+        populationSize,
+        pValue: hypergeometricUpperTail(studyCount, studySize, annotated.size, populationSize, logFactorials),
+        adjustedPValue: 1,
+        foldEnrichment: studySize > 0 && populationSize > 0
+          ? (studyCount / studySize) / (annotated.size / populationSize)
+          : 0,
+        significant: false,
+        studyItems: studyMembers.map(index => items[index].id)
+      };
+    });
+
+    const adjusted = adjustPValues(results.map(result => result.pValue), options.correction);
+    results.forEach((result, index) => {
+      result.adjustedPValue = adjusted[index];
+      result.significant = adjusted[index] <= options.alpha;
+    });
+    results.sort((a, b) => a.pValue - b.pValue || b.foldEnrichment - a.foldEnrichment || a.id.localeCompare(b.id));
+
+    return {
+      method: options.method,
+      correction: options.correction,
+      alpha: options.alpha,
+      studySize: study.length,
+      populationSize: items.length,
+      addedToPopulation: added.map(item => item.id),
+      testedTerms: results.length,
+      significantTerms: results.filter(result => result.significant).length,
+      results: results.slice(0, options.maxResults),
+      unknownTerms: annotatedIds.filter(id => !closures.has(id))
+    };
+  }
+}
+
+/**
+ * Correct p-values for multiple testing, keeping their order
+ */
+export function adjustPValues(pValues: number[], correction: MultipleTestingCorrection): number[] {
+  const m = pValues.length;
+  switch (correction) {
+    case 'none':
+      return [...pValues];
+    case 'bonferroni':
+      return pValues.map(p => Math.min(p * m, 1));
+    case 'benjamini-hochberg': {
+      // Step-up: the adjusted value of the i-th smallest p is min over j >= i of p_j * m / j
+      const order = pValues.map((p, index) => ({ p, index })).sort((a, b) => a.p - b.p);
+      const adjusted = new Array<number>(m);
+      let minimum = 1;
+      for (let rank = m; rank >= 1; rank--) {
+        const { p, index } = order[rank - 1];
+        minimum = Math.min(minimum, (p * m) / rank);
+        adjusted[index] = minimum;
+      }
+      return adjusted;
+    }
+  }
+}
+
+/**
+ * P(X >= k) for X ~ Hypergeometric(population N, K annotated, n drawn)
+ */
+function hypergeometricUpperTail(k: number, n: number, K: number, N: number, logFactorials: number[]): number {
+  const logChoose = (a: number, b: number) => logFactorials[a] - logFactorials[b] - logFactorials[a - b];
+  const logTotal = logChoose(N, n);
+  let p = 0;
+  for (let i = k; i <= Math.min(n, K); i++) {
+    p += Math.exp(logChoose(K, i) + logChoose(N - K, n - i) - logTotal);
+  }
+  return Math.min(p, 1);
+}
+
+function logFactorialTable(n: number): number[] {
+  const table = [0];
+  for (let i = 1; i <= n; i++) {
+    table.push(table[i - 1] + Math.log(i));
+  }
+  return table;
+}
+
+/**
+ * Direct parents of each term: the ancestors that are not an ancestor of another ancestor.
+ * Every ancestor of a tested term is itself tested, so its closure is in the map.
+ */
+function directParents(closures: Map<string, TermClosure>): Map<string, string[]> {
+  const parents = new Map<string, string[]>();
+  closures.forEach(closure => {
+    const ancestors = Array.from(closure.ancestors.keys());
+    parents.set(closure.id, ancestors.filter(candidate =>
+      !ancestors.some(other => other !== candidate && closures.get(other)?.ancestors.has(candidate))
+    ));
+  });
+  return parents;
+}
+
+function parentUnion(parentIds: string[], itemsByTerm: Map<string, Set<number>>): Set<number> {
+  const union = new Set<number>();
+  parentIds.forEach(parent => itemsByTerm.get(parent)?.forEach(index => union.add(index)));
+  return union;
+}
+
+function countStudy(annotated: Set<number>, inStudy: boolean[]): number {
+  let count = 0;
+  annotated.forEach(index => {
+    if (inStudy[index]) {
+      count++;
+    }
+  });
+  return count;
+}
@@ -0,0 +1,146 @@
+/**
+ * Errors - Typed failures shared by the backends, tool handlers and MCP error mapping
+ *
+ * Every backend failure is one of these categories, carried in ApiResponse.failure
+ * with its HTTP status:
+ * - not_found (404): the term or resource does not exist
+ * - invalid_id (400): the identifier is malformed
+ * - invalid_params (400): a tool argument is missing or invalid
+ * - rate_limited (429): the upstream API asked the client to slow down
+ * - timeout (504): the upstream API did not answer in time
+ * - upstream (5xx): the upstream API or ontology source is failing or unreachable
+ *
+ * Invalid arguments thrown by a tool handler are reported to MCP clients as
+ * InvalidParams protocol errors. Backend failures become tool results with isError
+ * set, whose JSON output names the category and status (see formatError in output.ts).
+ * Resource reads map not_found and invalid input to InvalidParams and the rest to
+ * InternalError (see toMcpError).
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ApiResponse } from '../types/hpo.js';
+
+export type ErrorCategory = 'not_found' | 'invalid_id' | 'invalid_params' | 'rate_limited' | 'timeout' | 'upstream';
+
+export interface ErrorDetails {
+  /** HTTP status; each class has a default */
+  status?: number;
+  /** How long the upstream API asked clients to wait (rate_limited only) */
+  retryAfterMs?: number;
+}
+
+type HPOErrorClass = new (message: string, details?: ErrorDetails) => HPOError;
+
+export abstract class HPOError extends Error {
+  abstract readonly category: ErrorCategory;
+  readonly status: number;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: ErrorDetails, defaultStatus: number) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status ?? defaultStatus;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  /**
+   * The same error with context prepended to the message, e.g. "Error retrieving X: <message>"
+   */
+  withContext(context: string): HPOError {
+    const ErrorClass = this.constructor as HPOErrorClass;
+    return new ErrorClass(`${context}: ${this.message}`, { status: this.status, retryAfterMs: this.retryAfterMs });
+  }
+}
+
+export class NotFoundError extends HPOError {
+  readonly category = 'not_found';
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details, 404);
+  }
+}
+
+export class InvalidIdError extends HPOError {
+  readonly category = 'invalid_id';
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details, 400);
+  }
+}
+
+export class InvalidParamsError extends HPOError {
+  readonly category = 'invalid_params';
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details, 400);
+  }
+}
+
+export class RateLimitedError extends HPOError {
+  readonly category = 'rate_limited';
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details, 429);
+  }
+}
+
+export class TimeoutError extends HPOError {
+  readonly category = 'timeout';
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details, 504);
+  }
+}
+
+export class UpstreamError extends HPOError {
+  readonly category = 'upstream';
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details, 502);
+  }
+}
+
+/**
+ * Failed backend response carrying a typed error
+ */
+export function failedResponse(error: unknown): ApiResponse<never> {
+  const failure = toHPOError(error);
+  return { error: failure.message, failure, status: failure.status };
+}
+
+/**
+ * Typed error of a failed backend response, with context prepended to the message
+ */
+export function responseError(response: ApiResponse<unknown>, context: string): HPOError {
+  const failure = response.failure ?? new UpstreamError(response.error || 'Unknown error', { status: response.status });
+  return failure.withContext(context);
+}
+
+/**
+ * Treat any thrown value as an HPOError; untyped errors count as upstream failures
+ */
+export function toHPOError(error: unknown): HPOError {
+  if (error instanceof HPOError) {
+    return error;
+  }
+  return new UpstreamError(error instanceof Error ? error.message : 'Unknown error occurred', { status: 500 });
+}
+
+/**
+ * Whether an error is the caller's fault and should be reported as MCP InvalidParams
+ */
+export function isInvalidParams(error: unknown): boolean {
+  return error instanceof InvalidParamsError || error instanceof InvalidIdError;
+}
+
+/**
+ * MCP protocol error for requests that cannot be answered, such as resource reads
+ */
+export function toMcpError(error: unknown): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  const failure = toHPOError(error);
+  const code = isInvalidParams(failure) || failure instanceof NotFoundError ? ErrorCode.InvalidParams : ErrorCode.InternalError;
+  return new McpError(code, failure.message, { category: failure.category, status: failure.status });
+}
@@ -0,0 +1,230 @@
+/**
+ * Subgraph Export - Renders part of the HPO hierarchy as Graphviz DOT, Mermaid or GraphML
+ *
+ * HPO terms can have several parents, so the neighbourhood of a term is a directed
+ * acyclic graph rather than a tree. The subgraph is collected breadth-first from one
+ * or more seed terms, and then every is_a edge between two collected terms is added
+ * (the induced subgraph), so terms reached along different paths are drawn once.
+ */
+
+import { ApiResponse, HPOBackend, SimpleOntologyTerm } from '../types/hpo.js';
+import { responseError } from './errors.js';
+
+export type GraphDirection = 'up' | 'down' | 'both';
+
+export type GraphFormat = 'dot' | 'mermaid' | 'graphml';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['dot', 'mermaid', 'graphml'];
+
+export interface SubgraphOptions {
+  /** up: towards the root (ancestors), down: towards leaves (descendants), both */
+  direction: GraphDirection;
+  /** Number of is_a steps to follow from the seeds */
+  depth: number;
+  /** Stop adding terms once the subgraph holds this many */
+  maxNodes: number;
+}
+
+export interface SubgraphNode extends SimpleOntologyTerm {
+  seed: boolean;
+  /** Steps from the nearest seed */
+  distance: number;
+}
+
+/**
+ * An is_a edge from a term to one of its parents
+ */
+export interface SubgraphEdge {
+  child: string;
+  parent: string;
+}
+
+export interface Subgraph {
+  nodes: SubgraphNode[];
+  edges: SubgraphEdge[];
+  /** True when maxNodes was reached before every term within the requested depth was added */
+  truncated: boolean;
+}
+
+const FETCH_BATCH_SIZE = 20;
+
+// Large enough to return every child of a term in one request
+const MAX_RELATED_RESULTS = 1000;
+
+export class SubgraphBuilder {
+  constructor(private readonly backend: HPOBackend) {}
+
+  /**
+   * Collect the subgraph around the seed terms
+   */
+  async build(seeds: SimpleOntologyTerm[], options: SubgraphOptions): Promise<Subgraph> {
+    const nodes = new Map<string, SubgraphNode>();
+    seeds.forEach(seed => nodes.set(seed.id, { ...seed, seed: true, distance: 0 }));
+
+    const parents = new Map<string, SimpleOntologyTerm[]>();
+    let frontier = seeds.map(seed => seed.id);
+    let truncated = false;
+
+    for (let distance = 1; distance <= options.depth && frontier.length > 0 && !truncated; distance++) {
+      const next: string[] = [];
+      const neighbours = await this.fetchRelated(frontier, options.direction, parents);
+
+      for (const term of neighbours) {
+        if (nodes.has(term.id)) {
+          continue;
+        }
+        if (nodes.size >= options.maxNodes) {
+          truncated = true;
+          break;
+        }
+        nodes.set(term.id, { ...term, seed: false, distance });
+        next.push(term.id);
+      }
+      frontier = next;
+    }
+
+    // Parents of every collected term give all is_a edges inside the subgraph
+    await this.fetchParents(Array.from(nodes.keys()), parents);
+    const edges: SubgraphEdge[] = [];
+    nodes.forEach((_, id) => {
+      (parents.get(id) || []).forEach(parent => {
+        if (nodes.has(parent.id)) {
+          edges.push({ child: id, parent: parent.id });
+        }
+      });
+    });
+
+    return { nodes: Array.from(nodes.values()), edges, truncated };
+  }
+
+  /**
+   * Neighbours of the frontier terms in the requested direction, in a stable order
+   */
+  private async fetchRelated(ids: string[], direction: GraphDirection, parents: Map<string, SimpleOntologyTerm[]>): Promise<SimpleOntologyTerm[]> {
+    const related: SimpleOntologyTerm[] = [];
+    if (direction !== 'down') {
+      await this.fetchParents(ids, parents);
+      ids.forEach(id => related.push(...(parents.get(id) || [])));
+    }
+    if (direction !== 'up') {
+      const children = await this.fetchBatched(ids, id => this.backend.getChildren({ id, max: MAX_RELATED_RESULTS, offset: 0 }));
+      ids.forEach(id => related.push(...(children.get(id) || [])));
+    }
+    return related;
+  }
+
+  private async fetchParents(ids: string[], parents: Map<string, SimpleOntologyTerm[]>): Promise<void> {
+    const fetched = await this.fetchBatched(
+      ids.filter(id => !parents.has(id)),
+      id => this.backend.getParents({ id, max: MAX_RELATED_RESULTS, offset: 0 })
+    );
+    fetched.forEach((terms, id) => parents.set(id, terms));
+  }
+
+  private async fetchBatched(
+    ids: string[],
+    fetch: (id: string) => Promise<ApiResponse<SimpleOntologyTerm[]>>
+  ): Promise<Map<string, SimpleOntologyTerm[]>> {
+    const result = new Map<string, SimpleOntologyTerm[]>();
+    for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+      const batch = ids.slice(i, i + FETCH_BATCH_SIZE);
+      const responses = await Promise.all(batch.map(fetch));
+      responses.forEach((response, index) => {
+        if (response.error) {
+          throw responseError(response, `Error retrieving related terms for ${batch[index]}`);
+        }
+        result.set(batch[index], response.data || []);
+      });
+    }
+    return result;
+  }
+}
+
+/**
+ * Render a subgraph in the requested text format
+ */
+export function renderSubgraph(subgraph: Subgraph, format: GraphFormat): string {
+  switch (format) {
+    case 'dot':
+      return renderDot(subgraph);
+    case 'mermaid':
+      return renderMermaid(subgraph);
+    case 'graphml':
+      return renderGraphML(subgraph);
+  }
+}
+
+/**
+ * Graphviz DOT, with the root at the top and seed terms highlighted
+ */
+function renderDot(subgraph: Subgraph): string {
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  const lines = [
+    'digraph hpo {',
+    '  rankdir=BT;',
+    '  node [shape=box, style=rounded, fontname="Helvetica"];'
+  ];
+  subgraph.nodes.forEach(node => {
+    const style = node.seed ? ', style="rounded,filled", fillcolor="#cde4ff"' : '';
+    lines.push(`  "${escape(node.id)}" [label="${escape(node.id)}\\n${escape(node.name)}"${style}];`);
+  });
+  subgraph.edges.forEach(edge => lines.push(`  "${escape(edge.child)}" -> "${escape(edge.parent)}";`));
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Mermaid flowchart, with the root at the top and seed terms highlighted
+ */
+function renderMermaid(subgraph: Subgraph): string {
+  const nodeId = (id: string) => id.replace(/[^A-Za-z0-9]/g, '_');
+  // Labels are rendered as HTML, so markup characters become Mermaid entity codes
+  const label = (value: string) => value
+    .replace(/&/g, '#amp;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;')
+    .replace(/"/g, '#quot;');
+  const lines = ['graph BT'];
+  subgraph.nodes.forEach(node => lines.push(`  ${nodeId(node.id)}["${node.id}<br/>${label(node.name)}"]`));
+  subgraph.edges.forEach(edge => lines.push(`  ${nodeId(edge.child)} --> ${nodeId(edge.parent)}`));
+  const seeds = subgraph.nodes.filter(node => node.seed);
+  if (seeds.length > 0) {
+    lines.push('  classDef seed fill:#cde4ff,stroke:#1f6feb');
+    lines.push(`  class ${seeds.map(node => nodeId(node.id)).join(',')} seed`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * GraphML with the term label, seed flag and distance as node data
+ */
+function renderGraphML(subgraph: Subgraph): string {
+  const escape = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="seed" for="node" attr.name="seed" attr.type="boolean"/>',
+    '  <key id="distance" for="node" attr.name="distance" attr.type="int"/>',
+    '  <key id="relation" for="edge" attr.name="relation" attr.type="string"/>',
+    '  <graph id="hpo" edgedefault="directed">'
+  ];
+  subgraph.nodes.forEach(node => {
+    lines.push(`    <node id="${escape(node.id)}">`);
+    lines.push(`      <data key="label">${escape(node.name)}</data>`);
+    lines.push(`      <data key="seed">${node.seed}</data>`);
+    lines.push(`      <data key="distance">${node.distance}</data>`);
+    lines.push('    </node>');
+  });
+  subgraph.edges.forEach((edge, index) => {
+    lines.push(`    <edge id="e${index}" source="${escape(edge.child)}" target="${escape(edge.parent)}">`);
+    lines.push('      <data key="relation">is_a</data>');
+    lines.push('    </edge>');
+  });
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+}
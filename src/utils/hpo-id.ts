@@ -0,0 +1,28 @@
+/**
+ * HPO ID helpers - Shared normalisation and validation of HPO identifiers
+ */
+
+/**
+ * Format HPO ID to ensure proper format (HP:XXXXXXX)
+ */
+export function formatHPOId(id: string): string {
+  // If it already starts with HP:, return as-is
+  if (id.startsWith('HP:')) {
+    return id;
+  }
+
+  // If it's just numbers, add HP: prefix
+  if (/^\d+$/.test(id)) {
+    return `HP:${id.padStart(7, '0')}`;
+  }
+
+  // Otherwise, return as-is and let the backend handle validation
+  return id;
+}
+
+/**
+ * Validate if a string looks like a valid HPO ID
+ */
+export function isValidHPOId(id: string): boolean {
+  return /^HP:\d{7}$/.test(id) || /^\d{7}$/.test(id);
+}
@@ -0,0 +1,266 @@
+/**
+ * HTTP server - Serves MCP to many concurrent clients from one process
+ *
+ * Every client session gets its own MCP server object, created by the caller's
+ * factory, so all sessions share the same handlers, backend and response cache.
+ * Endpoints:
+ * - POST/GET/DELETE /mcp: streamable HTTP (see streamable-http.ts)
+ * - GET /sse and POST /messages?sessionId=...: the older HTTP+SSE transport
+ * - GET /health: server status as JSON
+ *
+ * Sessions without requests or open connections for the idle timeout are closed,
+ * and new sessions are refused once the session limit is reached. Requests from
+ * browsers are only accepted from localhost and the allowed origins, which guards
+ * against DNS rebinding.
+ */
+
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHttpTransport } from './streamable-http.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Idle sessions are closed after this long; 0 keeps them until the client ends them */
+  sessionIdleTimeoutMs: number;
+  maxSessions: number;
+  /** Origins accepted in addition to localhost; "*" accepts any */
+  allowedOrigins: string[];
+  /** Extra fields for the health endpoint, such as the backend and ontology release */
+  getStatus?: () => Promise<Record<string, unknown>>;
+}
+
+/**
+ * A running HTTP server
+ */
+export interface HttpServerHandle {
+  /** Address the server is listening on (the port is resolved when 0 was requested) */
+  url: string;
+  close(): Promise<void>;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+interface Session<T> {
+  transport: T;
+  server: Server;
+  lastActivity: number;
+}
+
+/**
+ * Start listening for MCP clients over HTTP
+ */
+export async function startHttpServer(createServer: () => Server, options: HttpServerOptions): Promise<HttpServerHandle> {
+  const streamableSessions = new Map<string, Session<StreamableHttpTransport>>();
+  const sseSessions = new Map<string, Session<SSEServerTransport>>();
+  const startedAt = Date.now();
+
+  const sessionCount = () => streamableSessions.size + sseSessions.size;
+
+  const connect = async <T extends StreamableHttpTransport | SSEServerTransport>(transport: T, sessions: Map<string, Session<T>>) => {
+    const server = createServer();
+    sessions.set(transport.sessionId, { transport, server, lastActivity: Date.now() });
+    server.onclose = () => sessions.delete(transport.sessionId);
+    await server.connect(transport);
+  };
+
+  // An SSE session holds its event stream open and ends when the stream drops
+  const closeIdleSessions = async () => {
+    const cutoff = Date.now() - options.sessionIdleTimeoutMs;
+    const idle = Array.from(streamableSessions.values())
+      .filter(session => session.lastActivity < cutoff && !session.transport.hasOpenConnections);
+    await Promise.all(idle.map(session => session.server.close()));
+  };
+  const sweepTimer = options.sessionIdleTimeoutMs > 0
+    ? setInterval(() => {
+      closeIdleSessions().catch(error => console.error('Failed to close idle sessions:', error));
+    }, Math.min(options.sessionIdleTimeoutMs, MAX_SWEEP_INTERVAL_MS))
+    : undefined;
+  sweepTimer?.unref();
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = header(req, 'mcp-session-id');
+    const session = sessionId ? streamableSessions.get(sessionId) : undefined;
+    if (sessionId && !session) {
+      return sendJsonRpcError(res, 404, -32001, 'Session not found');
+    }
+    if (session) {
+      session.lastActivity = Date.now();
+    }
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = JSON.parse(await readBody(req));
+      } catch (error) {
+        return sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : 'invalid JSON'}`);
+      }
+
+      let transport = session?.transport;
+      if (!transport) {
+        if (!isInitializeRequest(body)) {
+          return sendJsonRpcError(res, 400, -32000, 'Bad Request: missing Mcp-Session-Id header');
+        }
+        if (sessionCount() >= options.maxSessions) {
+          return sendJsonRpcError(res, 503, -32000, `Too many sessions: the limit of ${options.maxSessions} is reached`);
+        }
+        transport = new StreamableHttpTransport();
+        await connect(transport, streamableSessions);
+      }
+
+      try {
+        transport.handlePost(body, res);
+      } catch {
+        if (!session) {
+          await streamableSessions.get(transport.sessionId)?.server.close();
+        }
+        sendJsonRpcError(res, 400, -32600, 'Invalid request: body is not a JSON-RPC message or batch');
+      }
+      return;
+    }
+
+    if (!session) {
+      return sendJsonRpcError(res, 400, -32000, 'Bad Request: missing Mcp-Session-Id header');
+    }
+    if (req.method === 'GET') {
+      return session.transport.openStream(res);
+    }
+    if (req.method === 'DELETE') {
+      await session.server.close();
+      res.writeHead(204).end();
+      return;
+    }
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    const origin = header(req, 'origin');
+    if (origin !== undefined && !isAllowedOrigin(origin, options.allowedOrigins)) {
+      res.writeHead(403).end(`Origin not allowed: ${origin}`);
+      return;
+    }
+
+    if (url.pathname === '/mcp') {
+      return handleStreamable(req, res);
+    }
+
+    if (url.pathname === '/sse' && req.method === 'GET') {
+      if (sessionCount() >= options.maxSessions) {
+        res.writeHead(503).end(`Too many sessions: the limit of ${options.maxSessions} is reached`);
+        return;
+      }
+      return connect(new SSEServerTransport('/messages', res), sseSessions);
+    }
+
+    if (url.pathname === '/messages' && req.method === 'POST') {
+      const session = sseSessions.get(url.searchParams.get('sessionId') || '');
+      if (!session) {
+        res.writeHead(404).end('Session not found');
+        return;
+      }
+      session.lastActivity = Date.now();
+      return session.transport.handlePostMessage(req, res);
+    }
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      const status = {
+        status: 'ok',
+        uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+        sessions: { streamableHttp: streamableSessions.size, sse: sseSessions.size, max: options.maxSessions },
+        ...(await options.getStatus?.())
+      };
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(status, null, 2));
+      return;
+    }
+
+    res.writeHead(404).end('Not found');
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      console.error('HTTP request error:', error);
+      if (!res.headersSent) {
+        res.writeHead(500).end(error instanceof Error ? error.message : 'Internal server error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  return {
+    url: serverUrl(httpServer, options.host),
+    close: async () => {
+      clearInterval(sweepTimer);
+      const sessions = [...streamableSessions.values(), ...sseSessions.values()];
+      await Promise.all(sessions.map(session => session.server.close()));
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  };
+}
+
+function header(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Localhost origins are always accepted; others must be listed, or the list must contain "*"
+ */
+function isAllowedOrigin(origin: string, allowedOrigins: string[]): boolean {
+  const normalized = origin.trim().replace(/\/+$/, '').toLowerCase();
+  if (allowedOrigins.includes('*') || allowedOrigins.includes(normalized)) {
+    return true;
+  }
+  try {
+    const url = new URL(normalized);
+    return (url.protocol === 'http:' || url.protocol === 'https:') && LOCAL_HOSTNAMES.has(url.hostname);
+  } catch {
+    // "null" (sandboxed or file:// pages) and anything else that is not a URL
+    return false;
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error(`request body exceeds ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * A new session must start with an initialize request, alone or in a batch
+ */
+function isInitializeRequest(body: unknown): boolean {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages.some(message => message && typeof message === 'object' && (message as { method?: unknown }).method === 'initialize');
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+function serverUrl(httpServer: HttpServer, host: string): string {
+  const address = httpServer.address();
+  const port = address && typeof address === 'object' ? address.port : '';
+  return `http://${host.includes(':') ? `[${host}]` : host}:${port}`;
+}
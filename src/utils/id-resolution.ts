@@ -0,0 +1,150 @@
+/**
+ * ID Resolution - Maps legacy HPO IDs to the current primary IDs of the served release
+ *
+ * An ID is followed through alternative IDs (terms merged into another term) and
+ * replaced_by links of obsolete terms until a current term is reached. Obsolete terms
+ * without a replacement are reported with the terms their "consider" links suggest.
+ */
+
+import { ApiResponse, HPOBackend, OntologyTerm, SimpleOntologyTerm } from '../types/hpo.js';
+import { formatHPOId, isValidHPOId } from './hpo-id.js';
+
+export type ResolutionStatus = 'current' | 'merged' | 'replaced' | 'obsolete' | 'unknown' | 'invalid';
+
+export const RESOLUTION_STATUSES: ResolutionStatus[] = ['current', 'merged', 'replaced', 'obsolete', 'unknown', 'invalid'];
+
+/**
+ * One hop from an outdated ID to the ID that supersedes it
+ */
+export interface ResolutionStep {
+  from: string;
+  to: string;
+  relation: 'alt_id' | 'replaced_by';
+}
+
+/**
+ * How a single input ID maps onto the current release
+ */
+export interface IdResolution {
+  inputId: string;
+  /** Normalised input ID (HP:XXXXXXX) */
+  id: string;
+  status: ResolutionStatus;
+  /** Current primary term, unless the ID is obsolete without replacement, unknown or invalid */
+  current?: SimpleOntologyTerm;
+  /** Hops from the input ID to the current term */
+  path: ResolutionStep[];
+  /** Suggested terms for obsolete IDs without a replacement */
+  consider: SimpleOntologyTerm[];
+  message?: string;
+}
+
+/** Replacement chains longer than this are treated as broken (guards against cycles) */
+const MAX_REPLACEMENT_HOPS = 10;
+
+/** Term lookups in flight at once, so large lists do not flood the remote API */
+const RESOLVE_CONCURRENCY = 8;
+
+type TermLookup = (id: string) => Promise<ApiResponse<OntologyTerm>>;
+
+export class IdResolver {
+  constructor(private readonly backend: HPOBackend) {}
+
+  /**
+   * Resolve a list of IDs. Results are in input order; repeated IDs are looked up once.
+   */
+  async resolve(ids: string[]): Promise<IdResolution[]> {
+    const terms = new Map<string, Promise<ApiResponse<OntologyTerm>>>();
+    const lookup = (id: string) => {
+      if (!terms.has(id)) {
+        terms.set(id, this.backend.getTerm(id));
+      }
+      return terms.get(id)!;
+    };
+
+    const unique = Array.from(new Set(ids));
+    const resolutions = new Map<string, IdResolution>();
+    let next = 0;
+    const worker = async () => {
+      while (next < unique.length) {
+        const inputId = unique[next++];
+        resolutions.set(inputId, await this.resolveOne(inputId, lookup));
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(RESOLVE_CONCURRENCY, unique.length) }, worker));
+
+    return ids.map(id => resolutions.get(id)!);
+  }
+
+  private async resolveOne(inputId: string, lookup: TermLookup): Promise<IdResolution> {
+    const id = normalizeId(inputId);
+    const resolution: IdResolution = { inputId, id, status: 'current', path: [], consider: [] };
+
+    if (!isValidHPOId(id)) {
+      resolution.status = 'invalid';
+      resolution.message = `Invalid HPO ID format (expected HP:XXXXXXX)`;
+      return resolution;
+    }
+
+    let currentId = id;
+    for (let hop = 0; hop <= MAX_REPLACEMENT_HOPS; hop++) {
+      const { data: term, error } = await lookup(currentId);
+      if (!term) {
+        if (resolution.path.length === 0) {
+          resolution.status = 'unknown';
+          resolution.message = error || 'Not found in the current release';
+        } else {
+          resolution.status = 'obsolete';
+          resolution.message = `Replacement ${currentId} could not be resolved: ${error || 'not found in the current release'}`;
+        }
+        return resolution;
+      }
+
+      if (term.id !== currentId) {
+        resolution.path.push({ from: currentId, to: term.id, relation: 'alt_id' });
+        currentId = term.id;
+      }
+
+      if (!term.isObsolete) {
+        resolution.current = { id: term.id, name: term.name };
+        resolution.status = resolution.path.length === 0 ? 'current'
+          : resolution.path.some(step => step.relation === 'replaced_by') ? 'replaced'
+          : 'merged';
+        return resolution;
+      }
+
+      if (!term.replacement) {
+        resolution.status = 'obsolete';
+        resolution.consider = await this.resolveConsider(term.consider || [], lookup);
+        resolution.message = 'Obsolete without replacement';
+        return resolution;
+      }
+
+      const replacement = normalizeId(term.replacement);
+      resolution.path.push({ from: currentId, to: replacement, relation: 'replaced_by' });
+      currentId = replacement;
+    }
+
+    resolution.status = 'obsolete';
+    resolution.message = `Replacement chain is longer than ${MAX_REPLACEMENT_HOPS} steps`;
+    return resolution;
+  }
+
+  /**
+   * Current primary terms for the "consider" suggestions of an obsolete term
+   */
+  private async resolveConsider(ids: string[], lookup: TermLookup): Promise<SimpleOntologyTerm[]> {
+    const results = await Promise.all(ids.map(id => lookup(normalizeId(id))));
+    const suggestions = new Map<string, SimpleOntologyTerm>();
+    results.forEach(({ data: term }) => {
+      if (term && !term.isObsolete) {
+        suggestions.set(term.id, { id: term.id, name: term.name });
+      }
+    });
+    return Array.from(suggestions.values());
+  }
+}
+
+function normalizeId(id: string): string {
+  return formatHPOId(id.trim());
+}
@@ -0,0 +1,174 @@
+/**
+ * Information Content - Term specificity measures for semantic similarity
+ *
+ * Information content (IC) of a term t is -log(p(t)), where p(t) is either
+ * - the fraction of all HPO terms that are t or one of its descendants, or
+ * - the fraction of annotated items (e.g. diseases) annotated to t or one of its descendants.
+ */
+
+import { HPOBackend } from '../types/hpo.js';
+import { NotFoundError, responseError } from './errors.js';
+
+export const HPO_ROOT_ID = 'HP:0000001';
+
+export type ICSource = 'descendants' | 'annotations';
+
+/**
+ * A term together with all of its ancestors
+ */
+export interface TermClosure {
+  id: string;
+  name: string;
+  ancestors: Map<string, string>;
+}
+
+/**
+ * Provides the HPO term IDs annotated to each annotated item
+ */
+export type AnnotationSource = () => Promise<string[][]>;
+
+// Large enough to return every descendant of the HPO root in one request
+const MAX_HIERARCHY_RESULTS = 50000;
+const CLOSURE_BATCH_SIZE = 20;
+
+export class InformationContent {
+  private readonly closures = new Map<string, Promise<TermClosure>>();
+  private readonly descendantCounts = new Map<string, Promise<number>>();
+  private annotationSource?: AnnotationSource;
+  private annotationFrequencies?: Promise<{ counts: Map<string, number>; total: number }>;
+
+  constructor(private readonly backend: HPOBackend) {}
+
+  /**
+   * Enable annotation-based IC. The source returns the HPO terms annotated to each
+   * item (e.g. disease); frequencies are propagated up the hierarchy on first use.
+   */
+  setAnnotationSource(source: AnnotationSource): void {
+    this.annotationSource = source;
+    this.annotationFrequencies = undefined;
+  }
+
+  hasAnnotationSource(): boolean {
+    return this.annotationSource !== undefined;
+  }
+
+  /**
+   * Get a term and all of its ancestors. Results are cached per term.
+   */
+  getClosure(id: string): Promise<TermClosure> {
+    const formattedId = this.backend.formatHPOId(id);
+    let closure = this.closures.get(formattedId);
+    if (!closure) {
+      closure = this.fetchClosure(formattedId);
+      this.closures.set(formattedId, closure);
+      closure.catch(() => this.closures.delete(formattedId));
+    }
+    return closure;
+  }
+
+  /**
+   * Get closures for many terms, fetched in small batches to avoid flooding the backend.
+   * Terms that cannot be retrieved are left out of the result.
+   */
+  async getClosures(ids: string[]): Promise<Map<string, TermClosure>> {
+    const result = new Map<string, TermClosure>();
+    for (let i = 0; i < ids.length; i += CLOSURE_BATCH_SIZE) {
+      const batch = ids.slice(i, i + CLOSURE_BATCH_SIZE);
+      const closures = await Promise.all(batch.map(id => this.getClosure(id).catch(() => undefined)));
+      closures.forEach((closure, index) => {
+        if (closure) {
+          result.set(batch[index], closure);
+        }
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Information content of a term
+   */
+  async getIC(id: string, source: ICSource = 'descendants'): Promise<number> {
+    if (source === 'annotations') {
+      const { counts, total } = await this.getAnnotationFrequencies();
+      const frequency = counts.get(this.backend.formatHPOId(id)) || 0;
+      // Terms without annotations are treated as maximally specific
+      return -Math.log(Math.max(frequency, 1) / Math.max(total, 1));
+    }
+
+    const [count, total] = await Promise.all([
+      this.getDescendantCount(id),
+      this.getDescendantCount(HPO_ROOT_ID)
+    ]);
+    return -Math.log((count + 1) / (total + 1));
+  }
+
+  private getAnnotationFrequencies(): Promise<{ counts: Map<string, number>; total: number }> {
+    if (!this.annotationSource) {
+      return Promise.reject(new Error('Annotation-based information content is unavailable: no annotation data is loaded'));
+    }
+    if (!this.annotationFrequencies) {
+      this.annotationFrequencies = this.computeAnnotationFrequencies(this.annotationSource);
+      this.annotationFrequencies.catch(() => {
+        this.annotationFrequencies = undefined;
+      });
+    }
+    return this.annotationFrequencies;
+  }
+
+  private async computeAnnotationFrequencies(source: AnnotationSource) {
+    const items = await source();
+    const termIds = Array.from(new Set(items.flat()));
+
+    const closures = await this.getClosures(termIds);
+    const lineages = new Map<string, string[]>();
+    closures.forEach((closure, id) => lineages.set(id, [closure.id, ...closure.ancestors.keys()]));
+
+    const counts = new Map<string, number>();
+    for (const item of items) {
+      const annotated = new Set(item.flatMap(id => lineages.get(id) || []));
+      annotated.forEach(id => counts.set(id, (counts.get(id) || 0) + 1));
+    }
+
+    return { counts, total: items.length };
+  }
+
+  private async fetchClosure(id: string): Promise<TermClosure> {
+    const [termResult, ancestorsResult] = await Promise.all([
+      this.backend.getTerm(id),
+      this.backend.getAncestors({ id, max: MAX_HIERARCHY_RESULTS, offset: 0 })
+    ]);
+
+    if (termResult.error || !termResult.data) {
+      throw termResult.error
+        ? responseError(termResult, `Error retrieving term ${id}`)
+        : new NotFoundError(`Error retrieving term ${id}: not found`);
+    }
+    if (ancestorsResult.error) {
+      throw responseError(ancestorsResult, `Error retrieving ancestors for ${id}`);
+    }
+
+    return {
+      id: termResult.data.id,
+      name: termResult.data.name,
+      ancestors: new Map((ancestorsResult.data || []).map(a => [a.id, a.name]))
+    };
+  }
+
+  private getDescendantCount(id: string): Promise<number> {
+    const formattedId = this.backend.formatHPOId(id);
+    let count = this.descendantCounts.get(formattedId);
+    if (!count) {
+      count = this.backend
+        .getDescendants({ id: formattedId, max: MAX_HIERARCHY_RESULTS, offset: 0 })
+        .then(result => {
+          if (result.error) {
+            throw responseError(result, `Error retrieving descendants for ${formattedId}`);
+          }
+          return (result.data || []).length;
+        });
+      this.descendantCounts.set(formattedId, count);
+      count.catch(() => this.descendantCounts.delete(formattedId));
+    }
+    return count;
+  }
+}
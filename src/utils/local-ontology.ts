@@ -0,0 +1,388 @@
+/**
+ * Local HPO Backend - Serves HPO terms from a local release file (hp.obo or hp.json)
+ * Used in place of the remote HPO API in offline or air-gapped environments
+ */
+
+import { readFile } from 'fs/promises';
+import {
+  OntologyTerm,
+  SimpleOntologyTerm,
+  SearchResult,
+  SearchTerm,
+  SearchParams,
+  HierarchyParams,
+  ApiResponse,
+  HPOBackend,
+  TermLabels,
+  TermXrefs
+} from '../types/hpo.js';
+import { ParsedTerm, parseOntology } from './ontology-parser.js';
+import { formatHPOId, isValidHPOId } from './hpo-id.js';
+import { failedResponse, InvalidIdError, NotFoundError, UpstreamError } from './errors.js';
+
+/**
+ * In-memory HPO term graph built from a parsed release file
+ */
+export class OntologyGraph {
+  readonly version?: string;
+  private readonly terms = new Map<string, ParsedTerm>();
+  private readonly alternativeIds = new Map<string, string>();
+  private readonly children = new Map<string, string[]>();
+
+  constructor(terms: ParsedTerm[], version?: string) {
+    this.version = version;
+
+    for (const term of terms) {
+      this.terms.set(term.id, term);
+      term.alternativeIds.forEach(altId => this.alternativeIds.set(altId, term.id));
+    }
+
+    for (const term of terms) {
+      for (const parentId of term.parents) {
+        const siblings = this.children.get(parentId);
+        if (siblings) {
+          siblings.push(term.id);
+        } else {
+          this.children.set(parentId, [term.id]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Number of terms in the graph, including obsolete terms
+   */
+  get size(): number {
+    return this.terms.size;
+  }
+
+  /**
+   * Look up a term by primary or alternative ID
+   */
+  getTerm(id: string): ParsedTerm | undefined {
+    return this.terms.get(id) || this.terms.get(this.alternativeIds.get(id) || '');
+  }
+
+  /**
+   * All terms in the graph, sorted by ID
+   */
+  getAllTerms(includeObsolete = false): ParsedTerm[] {
+    return Array.from(this.terms.values())
+      .filter(term => includeObsolete || !term.isObsolete)
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  getParentIds(id: string): string[] {
+    return this.getTerm(id)?.parents || [];
+  }
+
+  getChildIds(id: string): string[] {
+    const term = this.getTerm(id);
+    return term ? this.children.get(term.id) || [] : [];
+  }
+
+  /**
+   * All ancestors of a term in breadth-first order (nearest first)
+   */
+  getAncestorIds(id: string): string[] {
+    return this.traverse(id, termId => this.getParentIds(termId));
+  }
+
+  /**
+   * All descendants of a term in breadth-first order (nearest first)
+   */
+  getDescendantIds(id: string): string[] {
+    return this.traverse(id, termId => this.getChildIds(termId));
+  }
+
+  /**
+   * Convert term IDs to simple terms, skipping unknown IDs
+   */
+  toSimpleTerms(ids: string[]): SimpleOntologyTerm[] {
+    return ids
+      .map(termId => this.terms.get(termId))
+      .filter((term): term is ParsedTerm => term !== undefined)
+      .map(term => ({ id: term.id, name: term.name }));
+  }
+
+  private traverse(id: string, next: (termId: string) => string[]): string[] {
+    const start = this.getTerm(id);
+    if (!start) {
+      return [];
+    }
+
+    const visited = new Set<string>([start.id]);
+    const result: string[] = [];
+    const queue = [start.id];
+
+    while (queue.length > 0) {
+      const termId = queue.shift()!;
+      for (const relatedId of next(termId)) {
+        if (!visited.has(relatedId)) {
+          visited.add(relatedId);
+          result.push(relatedId);
+          queue.push(relatedId);
+        }
+      }
+    }
+
+    return result;
+  }
+}
+
+export class LocalOntologyClient implements HPOBackend {
+  private graphPromise?: Promise<OntologyGraph>;
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Load and parse the ontology file. The file is read once and shared by all callers.
+   */
+  load(): Promise<OntologyGraph> {
+    if (!this.graphPromise) {
+      this.graphPromise = readFile(this.filePath, 'utf-8').then(content => {
+        const parsed = parseOntology(content);
+        return new OntologyGraph(parsed.terms, parsed.version);
+      });
+      // Allow a failed load to be retried on the next request
+      this.graphPromise.catch(() => {
+        this.graphPromise = undefined;
+      });
+    }
+    return this.graphPromise;
+  }
+
+  /**
+   * Search for HPO terms by keyword, ID, or synonym
+   */
+  async searchTerms(params: SearchParams): Promise<ApiResponse<SearchResult>> {
+    try {
+      const graph = await this.load();
+      const query = params.q.trim().toLowerCase();
+      const idQuery = this.formatHPOId(params.q.trim());
+      const categories = params.category?.map(id => this.formatHPOId(id.trim()));
+
+      // Only terms within one of the category branches, when categories are given
+      const inCategory = (id: string) => !categories || categories.length === 0 ||
+        categories.includes(id) || graph.getAncestorIds(id).some(ancestor => categories.includes(ancestor));
+
+      const matches: SearchTerm[] = [];
+      for (const term of graph.getAllTerms()) {
+        const score = scoreMatch(term, query, idQuery);
+        if (score > 0 && inCategory(term.id)) {
+          matches.push({
+            id: term.id,
+            name: term.name,
+            definition: term.definition,
+            synonyms: term.synonyms,
+            score
+          });
+        }
+      }
+      matches.sort((a, b) => (b.score || 0) - (a.score || 0) || a.name.localeCompare(b.name));
+
+      const offset = params.offset || 0;
+      const max = params.max || matches.length;
+
+      return {
+        data: {
+          terms: matches.slice(offset, offset + max),
+          totalResults: matches.length
+        },
+        status: 200
+      };
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  /**
+   * Get all HPO terms with pagination
+   */
+  async getAllTerms(max?: number, offset?: number): Promise<ApiResponse<SimpleOntologyTerm[]>> {
+    try {
+      const graph = await this.load();
+      const start = offset || 0;
+      const terms = graph.getAllTerms();
+      return {
+        data: terms.slice(start, max ? start + max : undefined).map(term => ({ id: term.id, name: term.name })),
+        status: 200
+      };
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  /**
+   * Get detailed information about a specific HPO term by ID
+   */
+  async getTerm(id: string): Promise<ApiResponse<OntologyTerm>> {
+    try {
+      const graph = await this.load();
+      const formattedId = this.formatHPOId(id);
+      const term = graph.getTerm(formattedId);
+
+      if (!term) {
+        return this.notFound(formattedId);
+      }
+
+      return {
+        data: {
+          id: term.id,
+          name: term.name,
+          definition: term.definition,
+          comment: term.comment,
+          synonyms: term.synonyms,
+          xrefs: term.xrefs,
+          alternativeIds: term.alternativeIds,
+          isObsolete: term.isObsolete,
+          replacement: term.replacement,
+          consider: term.consider,
+          subset: term.subset,
+          parents: graph.toSimpleTerms(graph.getParentIds(term.id)),
+          children: graph.toSimpleTerms(graph.getChildIds(term.id))
+        },
+        status: 200
+      };
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  /**
+   * Get ancestors of an HPO term
+   */
+  async getAncestors(params: HierarchyParams): Promise<ApiResponse<SimpleOntologyTerm[]>> {
+    return this.getRelated(params, (graph, id) => graph.getAncestorIds(id));
+  }
+
+  /**
+   * Get direct parents of an HPO term
+   */
+  async getParents(params: HierarchyParams): Promise<ApiResponse<SimpleOntologyTerm[]>> {
+    return this.getRelated(params, (graph, id) => graph.getParentIds(id));
+  }
+
+  /**
+   * Get direct children of an HPO term
+   */
+  async getChildren(params: HierarchyParams): Promise<ApiResponse<SimpleOntologyTerm[]>> {
+    return this.getRelated(params, (graph, id) => graph.getChildIds(id));
+  }
+
+  /**
+   * Get all descendants of an HPO term
+   */
+  async getDescendants(params: HierarchyParams): Promise<ApiResponse<SimpleOntologyTerm[]>> {
+    return this.getRelated(params, (graph, id) => graph.getDescendantIds(id));
+  }
+
+  /**
+   * Release version declared in the ontology file
+   */
+  async getVersion(): Promise<string | undefined> {
+    return (await this.load()).version;
+  }
+
+  /**
+   * Labels and synonyms of every non-obsolete term
+   */
+  async getAllTermLabels(): Promise<TermLabels[]> {
+    return (await this.load()).getAllTerms().map(term => ({
+      id: term.id,
+      name: term.name,
+      synonyms: term.synonyms
+    }));
+  }
+
+  /**
+   * Cross-references of every non-obsolete term
+   */
+  async getAllTermXrefs(): Promise<TermXrefs[]> {
+    return (await this.load()).getAllTerms().map(term => ({
+      id: term.id,
+      name: term.name,
+      xrefs: term.xrefs
+    }));
+  }
+
+  /**
+   * Format HPO ID to ensure proper format (HP:XXXXXXX)
+   */
+  formatHPOId(id: string): string {
+    return formatHPOId(id);
+  }
+
+  /**
+   * Validate if a string looks like a valid HPO ID
+   */
+  isValidHPOId(id: string): boolean {
+    return isValidHPOId(id);
+  }
+
+  private async getRelated(
+    params: HierarchyParams,
+    related: (graph: OntologyGraph, id: string) => string[]
+  ): Promise<ApiResponse<SimpleOntologyTerm[]>> {
+    try {
+      const graph = await this.load();
+      const formattedId = this.formatHPOId(params.id);
+
+      if (!graph.getTerm(formattedId)) {
+        return this.notFound(formattedId);
+      }
+
+      const offset = params.offset || 0;
+      const ids = related(graph, formattedId);
+      return {
+        data: graph.toSimpleTerms(ids.slice(offset, params.max ? offset + params.max : undefined)),
+        status: 200
+      };
+    } catch (error) {
+      return this.errorResponse(error);
+    }
+  }
+
+  private notFound(id: string): ApiResponse<never> {
+    return failedResponse(this.isValidHPOId(id)
+      ? new NotFoundError(`HPO term ${id} not found in local ontology`)
+      : new InvalidIdError(`Invalid HPO ID format "${id}" (expected HP:XXXXXXX)`));
+  }
+
+  private errorResponse(error: unknown): ApiResponse<never> {
+    return failedResponse(new UpstreamError(
+      error instanceof Error ? `Local ontology error: ${error.message}` : 'Unknown error occurred',
+      { status: 500 }
+    ));
+  }
+}
+
+/**
+ * Rank how well a term matches a search query (0 = no match)
+ */
+function scoreMatch(term: ParsedTerm, query: string, idQuery: string): number {
+  if (term.id === idQuery || term.alternativeIds.includes(idQuery)) {
+    return 100;
+  }
+
+  const name = term.name.toLowerCase();
+  if (name === query) {
+    return 90;
+  }
+  if (name.startsWith(query)) {
+    return 70;
+  }
+  if (name.includes(query)) {
+    return 50;
+  }
+
+  const synonyms = term.synonyms.map(s => s.toLowerCase());
+  if (synonyms.includes(query)) {
+    return 40;
+  }
+  if (synonyms.some(s => s.includes(query))) {
+    return 30;
+  }
+
+  return 0;
+}
@@ -0,0 +1,390 @@
+/**
+ * HPO Ontology Parser - Reads local HPO release files (hp.obo and hp.json)
+ * Supports the OBO 1.4 flat file format and the OBO Graphs JSON format
+ */
+
+/**
+ * Term record as read from a local HPO release file
+ */
+export interface ParsedTerm {
+  id: string;
+  name: string;
+  definition?: string;
+  comment?: string;
+  synonyms: string[];
+  xrefs: string[];
+  alternativeIds: string[];
+  isObsolete: boolean;
+  replacement?: string;
+  consider: string[];
+  subset: string[];
+  parents: string[];
+}
+
+/**
+ * Parsed contents of an HPO release file
+ */
+export interface ParsedOntology {
+  version?: string;
+  terms: ParsedTerm[];
+}
+
+const OBO_PURL_PREFIX = 'http://purl.obolibrary.org/obo/';
+const OBO_IN_OWL = 'http://www.geneontology.org/formats/oboInOwl#';
+const IAO_REPLACED_BY = 'http://purl.obolibrary.org/obo/IAO_0100001';
+
+/**
+ * Parse an HPO release, detecting the format from the file contents
+ */
+export function parseOntology(content: string): ParsedOntology {
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('{')) {
+    return parseOboGraphJson(JSON.parse(trimmed));
+  }
+  return parseObo(content);
+}
+
+/**
+ * Parse an OBO 1.4 flat file (hp.obo)
+ */
+export function parseObo(content: string): ParsedOntology {
+  const terms: ParsedTerm[] = [];
+  let version: string | undefined;
+  let current: ParsedTerm | null = null;
+  let inTermStanza = false;
+
+  const flush = () => {
+    if (current && current.id.startsWith('HP:')) {
+      terms.push(current);
+    }
+    current = null;
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) {
+      continue;
+    }
+
+    if (line.startsWith('[')) {
+      flush();
+      inTermStanza = line === '[Term]';
+      if (inTermStanza) {
+        current = {
+          id: '',
+          name: '',
+          synonyms: [],
+          xrefs: [],
+          alternativeIds: [],
+          isObsolete: false,
+          consider: [],
+          subset: [],
+          parents: []
+        };
+      }
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+    const tag = line.substring(0, separator);
+    const value = stripOboComment(line.substring(separator + 1).trim());
+
+    if (!inTermStanza || !current) {
+      if (tag === 'data-version') {
+        version = normalizeVersion(value);
+      }
+      continue;
+    }
+
+    const term: ParsedTerm = current;
+    switch (tag) {
+      case 'id':
+        term.id = value;
+        break;
+      case 'name':
+        term.name = value;
+        break;
+      case 'def':
+        term.definition = readQuoted(value);
+        break;
+      case 'comment':
+        term.comment = value;
+        break;
+      case 'synonym':
+        term.synonyms.push(readQuoted(value));
+        break;
+      case 'xref':
+        term.xrefs.push(value.split(/\s/)[0]);
+        break;
+      case 'alt_id':
+        term.alternativeIds.push(value);
+        break;
+      case 'is_obsolete':
+        term.isObsolete = value === 'true';
+        break;
+      case 'replaced_by':
+        term.replacement = value;
+        break;
+      case 'consider':
+        term.consider.push(value);
+        break;
+      case 'subset':
+        term.subset.push(value);
+        break;
+      case 'is_a':
+        term.parents.push(value.split(/\s/)[0]);
+        break;
+    }
+  }
+  flush();
+
+  return { version, terms };
+}
+
+/**
+ * The parts of an OBO Graphs JSON document (hp.json) that are read
+ */
+export interface OboGraphDocument {
+  graphs: OboGraph[];
+}
+
+export interface OboGraph {
+  nodes: OboGraphNode[];
+  edges: OboGraphEdge[];
+  meta?: OboGraphMeta;
+}
+
+export interface OboGraphNode {
+  id: string;
+  lbl?: string;
+  type?: string;
+  meta?: OboGraphMeta;
+}
+
+export interface OboGraphEdge {
+  sub: string;
+  pred: string;
+  obj: string;
+}
+
+export interface OboGraphMeta {
+  version?: string;
+  definition?: { val: string };
+  comments?: string[];
+  synonyms?: { val: string }[];
+  xrefs?: { val: string }[];
+  subsets?: string[];
+  deprecated?: boolean;
+  basicPropertyValues?: { pred: string; val: string }[];
+}
+
+/**
+ * Parse an OBO Graphs JSON document (hp.json)
+ */
+export function parseOboGraphJson(document: unknown): ParsedOntology {
+  const graph = readOboGraph(document);
+  const terms = new Map<string, ParsedTerm>();
+
+  for (const node of graph.nodes) {
+    const id = toCurie(node.id);
+    if (!id.startsWith('HP:') || (node.type && node.type !== 'CLASS')) {
+      continue;
+    }
+
+    const meta = node.meta || {};
+    const propertyValues = meta.basicPropertyValues || [];
+    const valuesOf = (predicate: string) =>
+      propertyValues.filter(pv => pv.pred === predicate).map(pv => toCurie(pv.val));
+
+    terms.set(id, {
+      id,
+      name: node.lbl || '',
+      definition: meta.definition?.val,
+      comment: meta.comments && meta.comments.length > 0 ? meta.comments.join(' ') : undefined,
+      synonyms: (meta.synonyms || []).map(synonym => synonym.val),
+      xrefs: (meta.xrefs || []).map(xref => xref.val),
+      alternativeIds: valuesOf(`${OBO_IN_OWL}hasAlternativeId`),
+      isObsolete: meta.deprecated === true,
+      replacement: valuesOf(IAO_REPLACED_BY)[0],
+      consider: valuesOf(`${OBO_IN_OWL}consider`),
+      subset: (meta.subsets || []).map(subset => subset.split('#').pop() || subset),
+      parents: []
+    });
+  }
+
+  for (const edge of graph.edges) {
+    if (edge.pred !== 'is_a') {
+      continue;
+    }
+    const child = terms.get(toCurie(edge.sub));
+    const parentId = toCurie(edge.obj);
+    if (child && parentId.startsWith('HP:')) {
+      child.parents.push(parentId);
+    }
+  }
+
+  const version = graph.meta?.version
+    || (graph.meta?.basicPropertyValues || []).find(pv => pv.pred.endsWith('versionInfo'))?.val;
+
+  return { version: normalizeVersion(version), terms: Array.from(terms.values()) };
+}
+
+/**
+ * Check the shape of the first graph of an OBO Graphs document (or of a bare graph),
+ * throwing an error that names the first malformed field
+ */
+function readOboGraph(document: unknown): OboGraph {
+  const root = isRecord(document) && Array.isArray(document.graphs) ? document.graphs[0] : document;
+  const path = root === document ? '' : 'graphs[0]';
+  if (!isRecord(root) || !Array.isArray(root.nodes)) {
+    throw new Error('Invalid OBO Graphs JSON: no graph nodes found');
+  }
+
+  return {
+    nodes: root.nodes.map((node, index) => readNode(node, joinPath(path, `nodes[${index}]`))),
+    edges: readArray(root.edges, joinPath(path, 'edges'), readEdge) ?? [],
+    meta: readMeta(root.meta, joinPath(path, 'meta'))
+  };
+}
+
+function readNode(value: unknown, path: string): OboGraphNode {
+  const node = expectRecord(value, path);
+  return {
+    id: expectString(node.id, `${path}.id`),
+    lbl: optionalString(node.lbl, `${path}.lbl`),
+    type: optionalString(node.type, `${path}.type`),
+    meta: readMeta(node.meta, `${path}.meta`)
+  };
+}
+
+function readEdge(value: unknown, path: string): OboGraphEdge {
+  const edge = expectRecord(value, path);
+  return {
+    sub: expectString(edge.sub, `${path}.sub`),
+    pred: expectString(edge.pred, `${path}.pred`),
+    obj: expectString(edge.obj, `${path}.obj`)
+  };
+}
+
+function readMeta(value: unknown, path: string): OboGraphMeta | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const meta = expectRecord(value, path);
+  const readValue = (item: unknown, itemPath: string) => ({ val: expectString(expectRecord(item, itemPath).val, `${itemPath}.val`) });
+
+  if (meta.deprecated !== undefined && typeof meta.deprecated !== 'boolean') {
+    throw invalidGraph(`${path}.deprecated`, 'must be true or false');
+  }
+
+  return {
+    version: optionalString(meta.version, `${path}.version`),
+    definition: meta.definition === undefined ? undefined : readValue(meta.definition, `${path}.definition`),
+    comments: readArray(meta.comments, `${path}.comments`, expectString),
+    synonyms: readArray(meta.synonyms, `${path}.synonyms`, readValue),
+    xrefs: readArray(meta.xrefs, `${path}.xrefs`, readValue),
+    subsets: readArray(meta.subsets, `${path}.subsets`, expectString),
+    deprecated: meta.deprecated,
+    basicPropertyValues: readArray(meta.basicPropertyValues, `${path}.basicPropertyValues`, (item, itemPath) => {
+      const propertyValue = expectRecord(item, itemPath);
+      return { pred: expectString(propertyValue.pred, `${itemPath}.pred`), val: expectString(propertyValue.val, `${itemPath}.val`) };
+    })
+  };
+}
+
+function readArray<T>(value: unknown, path: string, read: (item: unknown, path: string) => T): T[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    throw invalidGraph(path, 'must be an array');
+  }
+  return value.map((item, index) => read(item, `${path}[${index}]`));
+}
+
+function expectRecord(value: unknown, path: string): Record<string, unknown> {
+  if (!isRecord(value)) {
+    throw invalidGraph(path, 'must be an object');
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw invalidGraph(path, 'must be a string');
+  }
+  return value;
+}
+
+function optionalString(value: unknown, path: string): string | undefined {
+  return value === undefined || value === null ? undefined : expectString(value, path);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, field: string): string {
+  return path ? `${path}.${field}` : field;
+}
+
+function invalidGraph(path: string, problem: string): Error {
+  return new Error(`Invalid OBO Graphs JSON: ${path} ${problem}`);
+}
+
+/**
+ * Convert an OBO PURL (http://purl.obolibrary.org/obo/HP_0000001) to a CURIE (HP:0000001)
+ */
+function toCurie(value: string): string {
+  if (value.startsWith(OBO_PURL_PREFIX)) {
+    return value.substring(OBO_PURL_PREFIX.length).replace('_', ':');
+  }
+  return value;
+}
+
+/**
+ * Reduce release identifiers such as "hp/releases/2024-01-01" or
+ * "http://purl.obolibrary.org/obo/hp/releases/2024-01-01/hp.json" to the release date
+ */
+function normalizeVersion(version: string | undefined): string | undefined {
+  if (!version) {
+    return undefined;
+  }
+  const release = version.match(/releases\/(\d{4}-\d{2}-\d{2})/);
+  return release ? release[1] : version;
+}
+
+/**
+ * Remove a trailing "! comment" from an OBO tag value
+ */
+function stripOboComment(value: string): string {
+  if (value.startsWith('"')) {
+    return value;
+  }
+  const index = value.indexOf(' ! ');
+  return index === -1 ? value : value.substring(0, index);
+}
+
+/**
+ * Read the quoted text at the start of an OBO value such as def: or synonym:
+ */
+function readQuoted(value: string): string {
+  if (!value.startsWith('"')) {
+    return value;
+  }
+  let result = '';
+  for (let i = 1; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && i + 1 < value.length) {
+      result += value[++i];
+    } else if (char === '"') {
+      break;
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
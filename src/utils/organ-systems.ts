@@ -0,0 +1,182 @@
+/**
+ * Organ Systems - Top-level branches of the Phenotypic abnormality subontology
+ *
+ * The direct children of Phenotypic abnormality (HP:0000118) group phenotypes by
+ * organ system, such as Abnormality of the nervous system (HP:0000707). The branches
+ * are read from the backend, so they follow the release being served. A branch can be
+ * named by ID, by label, or by its label without "Abnormality of (the)", such as
+ * "nervous system" or "cardiovascular system".
+ */
+
+import { HPOBackend, SimpleOntologyTerm } from '../types/hpo.js';
+import { InformationContent } from './information-content.js';
+import { responseError } from './errors.js';
+
+export const PHENOTYPIC_ABNORMALITY_ID = 'HP:0000118';
+
+export interface OrganSystem extends SimpleOntologyTerm {
+  /** Label without the "Abnormality of (the)" prefix, e.g. "nervous system" */
+  shortName: string;
+}
+
+/**
+ * The organ systems one input term belongs to (several for terms with several parents)
+ */
+export interface ClassifiedTerm extends SimpleOntologyTerm {
+  systems: string[];
+}
+
+export interface OrganSystemCount {
+  system: OrganSystem;
+  count: number;
+  terms: SimpleOntologyTerm[];
+}
+
+export interface OrganSystemClassification {
+  /** Systems with at least one term, most terms first */
+  systems: OrganSystemCount[];
+  terms: ClassifiedTerm[];
+  /** Terms outside Phenotypic abnormality, such as clinical modifiers or modes of inheritance */
+  unclassified: SimpleOntologyTerm[];
+  /** Input IDs that could not be retrieved */
+  unknown: string[];
+}
+
+/**
+ * Common names for organ systems, keyed by the branch ID they refer to
+ */
+const SYSTEM_ALIASES: Record<string, string[]> = {
+  'HP:0000478': ['ocular', 'eyes'],
+  'HP:0000598': ['ears', 'hearing'],
+  'HP:0000707': ['neurological', 'neurologic', 'neurology', 'nervous'],
+  'HP:0000818': ['endocrine'],
+  'HP:0001574': ['skin', 'dermatological'],
+  'HP:0001626': ['cardiovascular', 'cardiac', 'heart'],
+  'HP:0001871': ['blood', 'hematological', 'haematological'],
+  'HP:0001939': ['metabolic', 'metabolism'],
+  'HP:0002086': ['respiratory', 'pulmonary'],
+  'HP:0002715': ['immune', 'immunological'],
+  'HP:0003011': ['muscle', 'muscular'],
+  'HP:0025031': ['digestive', 'gastrointestinal'],
+  'HP:0033127': ['musculoskeletal', 'skeletal'],
+  'HP:0040064': ['limb']
+};
+
+// Large enough to return every branch in one request
+const MAX_BRANCHES = 100;
+
+export class OrganSystemClassifier {
+  private systems?: Promise<OrganSystem[]>;
+
+  constructor(
+    private readonly backend: HPOBackend,
+    private readonly ic: InformationContent
+  ) {}
+
+  /**
+   * The organ-system branches, sorted by label. Loaded once and shared by all callers.
+   */
+  getSystems(): Promise<OrganSystem[]> {
+    if (!this.systems) {
+      this.systems = (async () => {
+        const result = await this.backend.getChildren({ id: PHENOTYPIC_ABNORMALITY_ID, max: MAX_BRANCHES, offset: 0 });
+        if (result.error) {
+          throw responseError(result, 'Error retrieving organ systems');
+        }
+        return (result.data || [])
+          .map(term => ({ id: term.id, name: term.name, shortName: shortName(term.name) }))
+          .sort((a, b) => a.name.localeCompare(b.name));
+      })();
+      this.systems.catch(() => {
+        this.systems = undefined;
+      });
+    }
+    return this.systems;
+  }
+
+  /**
+   * Match category values to organ systems by ID, label, short name or common name
+   */
+  async resolve(values: string[]): Promise<{ systems: OrganSystem[]; invalid: string[] }> {
+    const systems = await this.getSystems();
+    const matched: OrganSystem[] = [];
+    const invalid: string[] = [];
+
+    for (const value of values) {
+      const key = normalizeName(value);
+      const id = this.backend.formatHPOId(value.trim());
+      const system = systems.find(s =>
+        s.id === id ||
+        normalizeName(s.name) === key ||
+        normalizeName(s.shortName) === key ||
+        (SYSTEM_ALIASES[s.id] || []).includes(key)
+      );
+      if (!system) {
+        invalid.push(value);
+      } else if (!matched.includes(system)) {
+        matched.push(system);
+      }
+    }
+    return { systems: matched, invalid };
+  }
+
+  /**
+   * Count the terms under each organ system
+   */
+  async classify(ids: string[]): Promise<OrganSystemClassification> {
+    const systems = await this.getSystems();
+    const closures = await this.ic.getClosures(ids);
+
+    const counts = new Map<string, OrganSystemCount>();
+    const terms: ClassifiedTerm[] = [];
+    const unclassified: SimpleOntologyTerm[] = [];
+    const seen = new Set<string>();
+
+    closures.forEach(closure => {
+      // Alternative IDs of the same term are counted once
+      if (seen.has(closure.id)) {
+        return;
+      }
+      seen.add(closure.id);
+
+      const term = { id: closure.id, name: closure.name };
+      const termSystems = systems.filter(system => system.id === closure.id || closure.ancestors.has(system.id));
+      terms.push({ ...term, systems: termSystems.map(system => system.id) });
+      if (termSystems.length === 0) {
+        unclassified.push(term);
+      }
+      termSystems.forEach(system => {
+        const entry = counts.get(system.id) || { system, count: 0, terms: [] };
+        entry.count++;
+        entry.terms.push(term);
+        counts.set(system.id, entry);
+      });
+    });
+
+    return {
+      systems: Array.from(counts.values()).sort((a, b) => b.count - a.count || a.system.name.localeCompare(b.system.name)),
+      terms,
+      unclassified,
+      unknown: ids.filter(id => !closures.has(id))
+    };
+  }
+
+  /**
+   * Keep the terms that belong to at least one of the organ systems
+   */
+  async filterTerms<T extends SimpleOntologyTerm>(terms: T[], systems: OrganSystem[]): Promise<T[]> {
+    const closures = await this.ic.getClosures(terms.map(term => term.id));
+    return terms.filter(term => {
+      const closure = closures.get(term.id);
+      return closure !== undefined && systems.some(system => system.id === closure.id || closure.ancestors.has(system.id));
+    });
+  }
+}
+
+function shortName(name: string): string {
+  return name.replace(/^Abnormality of (the )?/i, '');
+}
+
+function normalizeName(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
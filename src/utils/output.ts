@@ -0,0 +1,78 @@
+/**
+ * Tool Output - Shared helpers for rendering tool results as markdown or JSON
+ */
+
+import { PaginationInfo } from '../types/hpo.js';
+import { ErrorOutput } from '../types/output.js';
+import { HPOError, InvalidParamsError } from './errors.js';
+
+export type OutputFormat = 'markdown' | 'json';
+
+/**
+ * Result returned by every tool handler
+ */
+export interface ToolResult {
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * Read the output_format argument (default: markdown)
+ */
+export function readOutputFormat(args: { output_format?: string }): OutputFormat {
+  const value = args.output_format;
+  if (value === undefined) {
+    return 'markdown';
+  }
+  if (value !== 'markdown' && value !== 'json') {
+    throw new InvalidParamsError('output_format must be either "markdown" or "json"');
+  }
+  return value;
+}
+
+/**
+ * Successful tool result: the markdown text, or the structured data serialised as JSON
+ */
+export function formatResult(format: OutputFormat, markdown: string, data: unknown): ToolResult {
+  return {
+    content: [{
+      type: "text",
+      text: format === 'json' ? JSON.stringify(data, null, 2) : markdown
+    }]
+  };
+}
+
+/**
+ * Failed tool result: the message as text, or an ErrorOutput object as JSON.
+ * A typed cause adds its category and status to the JSON output.
+ */
+export function formatError(format: OutputFormat, message: string, cause?: unknown): ToolResult {
+  const error: ErrorOutput = { error: { message } };
+  if (cause instanceof HPOError) {
+    error.error.category = cause.category;
+    error.error.status = cause.status;
+    error.error.retryAfterMs = cause.retryAfterMs;
+  }
+  return {
+    content: [{
+      type: "text",
+      text: format === 'json' ? JSON.stringify(error, null, 2) : message
+    }],
+    isError: true
+  };
+}
+
+/**
+ * Pagination metadata for a page of results. When the backend does not report a
+ * total, totalResults counts the results seen so far and hasMore assumes a full
+ * page means more results follow.
+ */
+export function paginationInfo(offset: number, size: number, returned: number, totalResults?: number): PaginationInfo {
+  return {
+    page: Math.floor(offset / Math.max(size, 1)) + 1,
+    size,
+    totalResults: totalResults ?? offset + returned,
+    hasMore: totalResults !== undefined ? offset + returned < totalResults : returned >= size
+  };
+}
@@ -0,0 +1,390 @@
+/**
+ * Phenopackets - Import and export of GA4GH Phenopacket v2 documents
+ *
+ * Import checks every phenotypic feature against the ontology backend, flags
+ * unknown, alternative and obsolete HPO IDs (with their replacements), and fills
+ * in current term labels. Export builds a phenopacket from observed and excluded
+ * HPO terms, rejecting IDs that do not resolve to a current term.
+ */
+
+import { HPOBackend, OntologyTerm } from '../types/hpo.js';
+import {
+  OntologyClass,
+  Phenopacket,
+  PhenotypicFeature,
+  Resource,
+  Sex,
+  TimeElement
+} from '../types/phenopacket.js';
+import { formatHPOId, isValidHPOId } from './hpo-id.js';
+import { SUBONTOLOGIES } from './subontologies.js';
+
+export const PHENOPACKET_SCHEMA_VERSION = '2.0';
+
+const ONSET_ROOT_ID = SUBONTOLOGIES.onset.rootId;
+const CLINICAL_MODIFIER_ROOT_ID = SUBONTOLOGIES.modifier.rootId;
+const SEVERITY_ROOT_ID = SUBONTOLOGIES.severity.rootId;
+
+const ISO8601_DURATION = /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/;
+
+const SEXES: Sex[] = ['UNKNOWN_SEX', 'FEMALE', 'MALE', 'OTHER_SEX'];
+
+export type FeatureStatus = 'valid' | 'alternative_id' | 'obsolete' | 'not_found' | 'invalid_id';
+
+/**
+ * Validation result for one phenotypic feature of an imported phenopacket
+ */
+export interface FeatureReport {
+  index: number;
+  inputId: string;
+  /** Normalised ID (HP:XXXXXXX) */
+  id: string;
+  inputLabel?: string;
+  /** Current HPO label */
+  label?: string;
+  excluded: boolean;
+  status: FeatureStatus;
+  /** Primary term for alternative IDs, or the replacement of an obsolete term */
+  replacement?: OntologyClass;
+  issues: string[];
+}
+
+/**
+ * Result of importing a phenopacket
+ */
+export interface PhenopacketImport {
+  id?: string;
+  subject?: { id?: string; sex?: string };
+  features: FeatureReport[];
+  diseases: OntologyClass[];
+  /** HPO version declared in the phenopacket's metaData resources */
+  declaredHpoVersion?: string;
+  /** Problems with the document itself rather than with individual features */
+  issues: string[];
+  /** Copy of the phenopacket with normalised IDs and current labels */
+  phenopacket: Phenopacket;
+}
+
+/**
+ * One phenotypic feature to export
+ */
+export interface FeatureInput {
+  id: string;
+  excluded?: boolean;
+  /** HPO onset term (e.g. HP:0003593) or ISO 8601 age (e.g. P2Y6M) */
+  onset?: string;
+  /** HPO clinical modifier terms (e.g. HP:0031796 Recurrent) */
+  modifiers?: string[];
+  /** HPO severity term (e.g. HP:0012828 Severe) */
+  severity?: string;
+  description?: string;
+}
+
+export interface PhenopacketExportOptions {
+  id?: string;
+  subjectId?: string;
+  sex?: string;
+  features: FeatureInput[];
+  createdBy?: string;
+}
+
+/**
+ * Result of exporting a phenopacket
+ */
+export interface PhenopacketExport {
+  phenopacket: Phenopacket;
+  /** Non-fatal findings such as a modifier outside the Clinical modifier branch */
+  warnings: string[];
+}
+
+interface ResolvedTerm {
+  id: string;
+  term?: OntologyTerm;
+  error?: string;
+}
+
+export class PhenopacketConverter {
+  constructor(private readonly backend: HPOBackend) {}
+
+  /**
+   * Validate and enrich a phenopacket given as a JSON string or parsed object
+   */
+  async importPhenopacket(input: unknown): Promise<PhenopacketImport> {
+    const phenopacket = parsePhenopacket(input);
+    const issues: string[] = [];
+    const resolved = new Map<string, Promise<ResolvedTerm>>();
+    const resolve = (id: string) => {
+      const key = normalizeId(id);
+      if (!resolved.has(key)) {
+        resolved.set(key, this.resolveTerm(key));
+      }
+      return resolved.get(key)!;
+    };
+
+    if (typeof phenopacket.id !== 'string' || !phenopacket.id) {
+      issues.push('Missing required field "id"');
+    }
+    if (!phenopacket.metaData) {
+      issues.push('Missing required field "metaData"');
+    } else if (!String(phenopacket.metaData.phenopacketSchemaVersion || '').startsWith('2')) {
+      issues.push(`Unsupported phenopacketSchemaVersion "${phenopacket.metaData.phenopacketSchemaVersion ?? ''}" (expected 2.x)`);
+    }
+    if (phenopacket.phenotypicFeatures !== undefined && !Array.isArray(phenopacket.phenotypicFeatures)) {
+      issues.push('"phenotypicFeatures" must be an array');
+      phenopacket.phenotypicFeatures = [];
+    }
+    if (phenopacket.diseases !== undefined && !Array.isArray(phenopacket.diseases)) {
+      issues.push('"diseases" must be an array');
+      phenopacket.diseases = [];
+    }
+
+    const features = await Promise.all((phenopacket.phenotypicFeatures || []).map(async (feature, index) => {
+      const report = await this.checkFeature(feature, index, resolve);
+      await this.enrichFeature(feature, resolve);
+      return report;
+    }));
+
+    const hpoResource = phenopacket.metaData?.resources?.find(resource => resource.namespacePrefix === 'HP');
+    if (phenopacket.metaData && !hpoResource && features.length > 0) {
+      issues.push('metaData.resources does not declare the HPO resource (namespacePrefix "HP"); it has been added');
+      phenopacket.metaData.resources = [...(phenopacket.metaData.resources || []), await this.hpoResource()];
+    }
+
+    return {
+      id: phenopacket.id,
+      subject: phenopacket.subject ? { id: phenopacket.subject.id, sex: phenopacket.subject.sex } : undefined,
+      features,
+      diseases: (phenopacket.diseases || []).map(disease => disease?.term).filter(term => term && typeof term.id === 'string'),
+      declaredHpoVersion: hpoResource?.version,
+      issues,
+      phenopacket
+    };
+  }
+
+  /**
+   * Build a phenopacket from observed and excluded HPO terms
+   */
+  async exportPhenopacket(options: PhenopacketExportOptions): Promise<PhenopacketExport> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const sex = options.sex?.toUpperCase();
+    if (sex !== undefined && !SEXES.includes(sex as Sex)) {
+      errors.push(`Invalid sex "${options.sex}": expected one of ${SEXES.join(', ')}`);
+    }
+
+    const toClass = async (rawId: string, role: string, expectedRoot?: string): Promise<OntologyClass | undefined> => {
+      const resolved = await this.resolveTerm(normalizeId(rawId));
+      if (!resolved.term) {
+        errors.push(`${role} ${rawId}: ${resolved.error}`);
+        return undefined;
+      }
+      if (resolved.term.isObsolete) {
+        errors.push(`${role} ${resolved.id} (${resolved.term.name}) is obsolete${resolved.term.replacement ? `; use ${resolved.term.replacement} instead` : ''}`);
+        return undefined;
+      }
+      if (resolved.term.id !== resolved.id) {
+        warnings.push(`${role} ${resolved.id} is an alternative ID; exported as ${resolved.term.id} (${resolved.term.name})`);
+      }
+      if (expectedRoot && !(await this.isDescendantOf(resolved.term.id, expectedRoot))) {
+        warnings.push(`${role} ${resolved.term.id} (${resolved.term.name}) is not below ${expectedRoot} in the HPO hierarchy`);
+      }
+      return { id: resolved.term.id, label: resolved.term.name };
+    };
+
+    const phenotypicFeatures = await Promise.all(options.features.map(async (input): Promise<PhenotypicFeature | undefined> => {
+      const type = await toClass(input.id, input.excluded ? 'Excluded term' : 'Observed term');
+      const feature: Partial<PhenotypicFeature> = { type };
+      if (input.description) {
+        feature.description = input.description;
+      }
+      if (input.excluded) {
+        feature.excluded = true;
+      }
+      if (input.severity) {
+        feature.severity = await toClass(input.severity, 'Severity', SEVERITY_ROOT_ID);
+      }
+      if (input.modifiers && input.modifiers.length > 0) {
+        const modifiers = await Promise.all(input.modifiers.map(id => toClass(id, 'Modifier', CLINICAL_MODIFIER_ROOT_ID)));
+        feature.modifiers = modifiers.filter((modifier): modifier is OntologyClass => modifier !== undefined);
+      }
+      if (input.onset) {
+        feature.onset = await this.toOnset(input.onset.trim(), toClass);
+      }
+      return type ? feature as PhenotypicFeature : undefined;
+    }));
+
+    if (errors.length > 0) {
+      throw new Error(`Cannot build a valid phenopacket:\n${errors.map(error => `• ${error}`).join('\n')}`);
+    }
+
+    const created = new Date().toISOString();
+    const phenopacket: Phenopacket = {
+      id: options.id || `phenopacket-${created.replace(/[-:.TZ]/g, '')}`,
+      ...(options.subjectId || sex ? { subject: { id: options.subjectId || 'subject-1', ...(sex ? { sex: sex as Sex } : {}) } } : {}),
+      phenotypicFeatures: phenotypicFeatures.filter((feature): feature is PhenotypicFeature => feature !== undefined),
+      metaData: {
+        created,
+        createdBy: options.createdBy || 'hpo-mcp-server',
+        resources: [await this.hpoResource()],
+        phenopacketSchemaVersion: PHENOPACKET_SCHEMA_VERSION
+      }
+    };
+
+    return { phenopacket, warnings };
+  }
+
+  /**
+   * Onset as an ISO 8601 age, or as a term from the Onset branch
+   */
+  private async toOnset(
+    onset: string,
+    toClass: (id: string, role: string, expectedRoot?: string) => Promise<OntologyClass | undefined>
+  ): Promise<TimeElement | undefined> {
+    if (ISO8601_DURATION.test(onset)) {
+      return { age: { iso8601duration: onset } };
+    }
+    const ontologyClass = await toClass(onset, 'Onset', ONSET_ROOT_ID);
+    return ontologyClass ? { ontologyClass } : undefined;
+  }
+
+  private async checkFeature(
+    feature: PhenotypicFeature,
+    index: number,
+    resolve: (id: string) => Promise<ResolvedTerm>
+  ): Promise<FeatureReport> {
+    const inputId = typeof feature?.type?.id === 'string' ? feature.type.id : '';
+    const report: FeatureReport = {
+      index,
+      inputId,
+      id: normalizeId(inputId),
+      inputLabel: feature?.type?.label,
+      excluded: feature?.excluded === true,
+      status: 'valid',
+      issues: []
+    };
+
+    if (!inputId) {
+      report.status = 'invalid_id';
+      report.issues.push('Missing type.id');
+      return report;
+    }
+
+    const resolved = await resolve(inputId);
+    if (!resolved.term) {
+      report.status = isValidHPOId(report.id) ? 'not_found' : 'invalid_id';
+      report.issues.push(resolved.error || 'Term not found');
+      return report;
+    }
+
+    const term = resolved.term;
+    report.label = term.name;
+
+    if (term.id !== report.id) {
+      report.status = 'alternative_id';
+      report.replacement = { id: term.id, label: term.name };
+      report.issues.push(`${report.id} is an alternative ID of ${term.id} (${term.name})`);
+    } else if (term.isObsolete) {
+      report.status = 'obsolete';
+      if (term.replacement) {
+        const replacement = await resolve(term.replacement);
+        report.replacement = { id: term.replacement, label: replacement.term?.name || '' };
+        report.issues.push(`Obsolete term; replaced by ${term.replacement}${replacement.term ? ` (${replacement.term.name})` : ''}`);
+      } else {
+        report.issues.push('Obsolete term with no replacement');
+      }
+    }
+
+    if (report.inputLabel && report.inputLabel !== term.name) {
+      report.issues.push(`Label "${report.inputLabel}" differs from the current HPO label "${term.name}"`);
+    }
+
+    return report;
+  }
+
+  /**
+   * Normalise the HPO IDs of a feature and fill in current labels, in place
+   */
+  private async enrichFeature(feature: PhenotypicFeature, resolve: (id: string) => Promise<ResolvedTerm>): Promise<void> {
+    const enrich = async (ontologyClass: OntologyClass | undefined) => {
+      if (!ontologyClass || typeof ontologyClass.id !== 'string') {
+        return;
+      }
+      const id = normalizeId(ontologyClass.id);
+      if (!id.startsWith('HP:')) {
+        return;
+      }
+      ontologyClass.id = id;
+      const resolved = await resolve(id);
+      if (resolved.term && resolved.term.id === id) {
+        ontologyClass.label = resolved.term.name;
+      }
+    };
+
+    await Promise.all([
+      enrich(feature?.type),
+      enrich(feature?.severity),
+      enrich(feature?.onset?.ontologyClass),
+      enrich(feature?.resolution?.ontologyClass),
+      ...(Array.isArray(feature?.modifiers) ? feature.modifiers.map(enrich) : [])
+    ]);
+  }
+
+  private async resolveTerm(id: string): Promise<ResolvedTerm> {
+    if (!isValidHPOId(id)) {
+      return { id, error: `Invalid HPO ID format "${id}" (expected HP:XXXXXXX)` };
+    }
+    const result = await this.backend.getTerm(id);
+    if (result.error || !result.data) {
+      return { id, error: result.error || `HPO term ${id} not found` };
+    }
+    return { id, term: result.data };
+  }
+
+  private async isDescendantOf(id: string, ancestorId: string): Promise<boolean> {
+    const result = await this.backend.getAncestors({ id, max: 1000, offset: 0 });
+    return (result.data || []).some(ancestor => ancestor.id === ancestorId);
+  }
+
+  /**
+   * HPO entry for metaData.resources, tagged with the release being served
+   */
+  private async hpoResource(): Promise<Resource> {
+    const version = await this.backend.getVersion?.().catch(() => undefined);
+    return {
+      id: 'hp',
+      name: 'human phenotype ontology',
+      url: 'http://purl.obolibrary.org/obo/hp.owl',
+      version: version || 'unknown',
+      namespacePrefix: 'HP',
+      iriPrefix: 'http://purl.obolibrary.org/obo/HP_'
+    };
+  }
+}
+
+/**
+ * Parse and copy a phenopacket so enrichment does not modify the caller's object
+ */
+function parsePhenopacket(input: unknown): Phenopacket {
+  let document: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      document = JSON.parse(input);
+    } catch (error) {
+      throw new Error(`Phenopacket is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+    }
+  }
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error('Phenopacket must be a JSON object');
+  }
+  return JSON.parse(JSON.stringify(document));
+}
+
+/**
+ * Normalise an HPO CURIE, also accepting lower-case and IRI-style prefixes (hp:1250, HP_0001250)
+ */
+function normalizeId(id: string): string {
+  const trimmed = id.trim();
+  const digits = trimmed.match(/^HP[:_](\d+)$/i);
+  return formatHPOId(digits ? digits[1] : trimmed);
+}
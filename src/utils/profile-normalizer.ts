@@ -0,0 +1,208 @@
+/**
+ * Profile Normalisation - Reduces a patient HPO profile to its most specific terms
+ *
+ * IDs are first resolved to current primary IDs. The ancestor closure of every term
+ * is then fetched once, and all redundancy and contradiction checks run on these
+ * closures in memory:
+ * - an observed term is redundant when a more specific observed term implies it
+ * - an excluded term is redundant when a more general excluded term implies it
+ * - an observed term contradicts an excluded term that is the same term or one of its ancestors
+ */
+
+import { SimpleOntologyTerm } from '../types/hpo.js';
+import { IdResolver, IdResolution } from './id-resolution.js';
+import { InformationContent, TermClosure } from './information-content.js';
+
+export type DropReason = 'invalid' | 'unknown' | 'obsolete' | 'duplicate' | 'redundant';
+
+/**
+ * An input term left out of the normalised profile
+ */
+export interface DroppedTerm {
+  inputId: string;
+  /** Current term the input resolved to, if any */
+  term?: SimpleOntologyTerm;
+  excluded: boolean;
+  reason: DropReason;
+  message: string;
+  /** Terms that make this one redundant, or suggested replacements for obsolete terms */
+  related: SimpleOntologyTerm[];
+}
+
+/**
+ * An input ID that was replaced by its current primary ID
+ */
+export interface UpdatedTerm {
+  inputId: string;
+  term: SimpleOntologyTerm;
+  excluded: boolean;
+  status: 'merged' | 'replaced';
+}
+
+/**
+ * An observed term that conflicts with an excluded term
+ */
+export interface Contradiction {
+  observed: SimpleOntologyTerm;
+  excluded: SimpleOntologyTerm;
+  message: string;
+}
+
+export interface ProfileNormalization {
+  observed: SimpleOntologyTerm[];
+  excluded: SimpleOntologyTerm[];
+  updated: UpdatedTerm[];
+  dropped: DroppedTerm[];
+  contradictions: Contradiction[];
+}
+
+interface ProfileTerm {
+  inputId: string;
+  excluded: boolean;
+  closure: TermClosure;
+}
+
+export class ProfileNormalizer {
+  constructor(
+    private readonly ic: InformationContent,
+    private readonly resolver: IdResolver
+  ) {}
+
+  /**
+   * Normalise a profile of observed and excluded terms
+   */
+  async normalize(observedIds: string[], excludedIds: string[] = []): Promise<ProfileNormalization> {
+    const inputs = [
+      ...observedIds.map(inputId => ({ inputId, excluded: false })),
+      ...excludedIds.map(inputId => ({ inputId, excluded: true }))
+    ];
+    const resolutions = await this.resolver.resolve(inputs.map(input => input.inputId));
+
+    const updated: UpdatedTerm[] = [];
+    const dropped: DroppedTerm[] = [];
+    const resolved: Array<{ inputId: string; excluded: boolean; id: string }> = [];
+
+    inputs.forEach((input, index) => {
+      const resolution = resolutions[index];
+      if (!resolution.current) {
+        dropped.push(unresolvedTerm(input.inputId, input.excluded, resolution));
+        return;
+      }
+      if (resolution.status === 'merged' || resolution.status === 'replaced') {
+        updated.push({ inputId: input.inputId, term: resolution.current, excluded: input.excluded, status: resolution.status });
+      }
+      resolved.push({ ...input, id: resolution.current.id });
+    });
+
+    // One closure per distinct term; every check below works on these in memory
+    const closures = await this.ic.getClosures(Array.from(new Set(resolved.map(term => term.id))));
+
+    const seen = new Map<string, ProfileTerm>();
+    const terms: ProfileTerm[] = [];
+    for (const input of resolved) {
+      const closure = closures.get(input.id);
+      if (!closure) {
+        dropped.push({
+          inputId: input.inputId,
+          excluded: input.excluded,
+          reason: 'unknown',
+          message: `Ancestors of ${input.id} could not be retrieved`,
+          related: []
+        });
+        continue;
+      }
+
+      const key = `${input.excluded ? 'excluded' : 'observed'}:${closure.id}`;
+      const first = seen.get(key);
+      if (first) {
+        dropped.push({
+          inputId: input.inputId,
+          term: toSimpleTerm(closure),
+          excluded: input.excluded,
+          reason: 'duplicate',
+          message: first.inputId === input.inputId
+            ? 'Listed more than once'
+            : `Same term as ${first.inputId}`,
+          related: []
+        });
+        continue;
+      }
+
+      const term = { ...input, closure };
+      seen.set(key, term);
+      terms.push(term);
+    }
+
+    const observed = terms.filter(term => !term.excluded);
+    const excluded = terms.filter(term => term.excluded);
+
+    // Observed terms implied by a more specific observed term
+    const keptObserved = observed.filter(term => !observed.some(other => other.closure.ancestors.has(term.closure.id)));
+    observed.filter(term => !keptObserved.includes(term)).forEach(term => {
+      const implyingTerms = keptObserved.filter(other => other.closure.ancestors.has(term.closure.id));
+      dropped.push(redundantTerm(term, implyingTerms, 'Implied by the more specific observed'));
+    });
+
+    // Excluded terms implied by the exclusion of a more general term
+    const keptExcluded = excluded.filter(term => !excluded.some(other => term.closure.ancestors.has(other.closure.id)));
+    excluded.filter(term => !keptExcluded.includes(term)).forEach(term => {
+      const implyingTerms = keptExcluded.filter(other => term.closure.ancestors.has(other.closure.id));
+      dropped.push(redundantTerm(term, implyingTerms, 'Implied by the more general excluded'));
+    });
+
+    const contradictions: Contradiction[] = [];
+    for (const observedTerm of observed) {
+      for (const excludedTerm of excluded) {
+        const observedId = observedTerm.closure.id;
+        const excludedId = excludedTerm.closure.id;
+        if (observedId === excludedId) {
+          contradictions.push({
+            observed: toSimpleTerm(observedTerm.closure),
+            excluded: toSimpleTerm(excludedTerm.closure),
+            message: `${observedId} is both observed and excluded`
+          });
+        } else if (observedTerm.closure.ancestors.has(excludedId)) {
+          contradictions.push({
+            observed: toSimpleTerm(observedTerm.closure),
+            excluded: toSimpleTerm(excludedTerm.closure),
+            message: `${observedId} is observed, but its ancestor ${excludedId} is excluded`
+          });
+        }
+      }
+    }
+
+    return {
+      observed: keptObserved.map(term => toSimpleTerm(term.closure)),
+      excluded: keptExcluded.map(term => toSimpleTerm(term.closure)),
+      updated,
+      dropped,
+      contradictions
+    };
+  }
+}
+
+function unresolvedTerm(inputId: string, excluded: boolean, resolution: IdResolution): DroppedTerm {
+  return {
+    inputId,
+    excluded,
+    reason: resolution.status === 'invalid' || resolution.status === 'obsolete' ? resolution.status : 'unknown',
+    message: resolution.message || 'Could not be resolved',
+    related: resolution.consider
+  };
+}
+
+function redundantTerm(term: ProfileTerm, implyingTerms: ProfileTerm[], message: string): DroppedTerm {
+  const related = implyingTerms.map(other => toSimpleTerm(other.closure));
+  return {
+    inputId: term.inputId,
+    term: toSimpleTerm(term.closure),
+    excluded: term.excluded,
+    reason: 'redundant',
+    message: `${message} ${related.length === 1 ? 'term' : 'terms'} ${related.map(t => t.id).join(', ')}`,
+    related
+  };
+}
+
+function toSimpleTerm(closure: TermClosure): SimpleOntologyTerm {
+  return { id: closure.id, name: closure.name };
+}
@@ -0,0 +1,194 @@
+/**
+ * Resilience - Retry backoff, client-side rate limiting and a circuit breaker for the remote API
+ *
+ * - Transient failures (network errors, timeouts, 429, 502, 503, 504) are retried with
+ *   exponential backoff and full jitter; a Retry-After header sets the minimum delay.
+ * - A token bucket shared by every request keeps concurrent fan-outs under a request
+ *   rate, and is paused for everyone when the API answers 429 with Retry-After.
+ * - A circuit breaker opens after consecutive failures, failing fast until a reset
+ *   period has passed, then lets one trial request through (half-open).
+ */
+
+import { CircuitState, CircuitStatus, RateLimitStatus } from '../types/hpo.js';
+
+// A Retry-After longer than this is not waited for; the request fails instead
+export const MAX_RETRY_AFTER_MS = 60000;
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+/**
+ * Whether a response status marks a failure that may succeed when repeated
+ */
+export function isTransientStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Delay before retry number attempt + 1: full jitter over an exponentially growing window
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const window = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * window);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown, now = Date.now()): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Token bucket holding up to `burst` tokens, refilled at `requestsPerSecond`.
+ * Waiting callers are served in arrival order.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private readonly queue: Array<() => void> = [];
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly requestsPerSecond: number,
+    private readonly burst: number
+  ) {
+    this.tokens = burst;
+  }
+
+  /**
+   * Wait until a request may be sent
+   */
+  take(): Promise<void> {
+    return new Promise(resolve => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+  }
+
+  /**
+   * Hold every request back for a while, e.g. after the API answered 429 with Retry-After
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.drain();
+  }
+
+  getStatus(): RateLimitStatus {
+    this.refill();
+    return {
+      requestsPerSecond: this.requestsPerSecond,
+      burst: this.burst,
+      availableTokens: Math.floor(this.tokens),
+      queued: this.queue.length,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : undefined
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      return;
+    }
+    this.refill();
+    const now = Date.now();
+    while (this.queue.length > 0 && now >= this.pausedUntil && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.queue.shift()!();
+    }
+    if (this.queue.length > 0) {
+      const refillWait = ((1 - this.tokens) / this.requestsPerSecond) * 1000;
+      const wait = Math.max(this.pausedUntil - now, refillWait, 1);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, Math.ceil(wait));
+    }
+  }
+}
+
+/**
+ * Circuit breaker counting consecutive failures of the upstream API
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private lastError?: string;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly resetTimeoutMs: number
+  ) {}
+
+  /**
+   * Whether a request may be sent now. In the open state the first caller after
+   * the reset period becomes the half-open trial; everyone else is rejected.
+   */
+  allowRequest(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.state === 'open' && Date.now() >= this.openedAt! + this.resetTimeoutMs) {
+      this.state = 'half-open';
+      this.trialInFlight = false;
+    }
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(message: string): void {
+    this.consecutiveFailures++;
+    this.lastError = message;
+    this.trialInFlight = false;
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  getStatus(): CircuitStatus {
+    // Report an expired open period as half-open, which is what the next request will see
+    const state = this.state === 'open' && Date.now() >= this.openedAt! + this.resetTimeoutMs ? 'half-open' : this.state;
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.failureThreshold,
+      resetTimeoutMs: this.resetTimeoutMs,
+      openedAt: this.openedAt !== undefined ? new Date(this.openedAt).toISOString() : undefined,
+      nextAttemptAt: this.state === 'open' ? new Date(this.openedAt! + this.resetTimeoutMs).toISOString() : undefined,
+      lastError: this.lastError
+    };
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Schema validation - Checks tool arguments against the tools' JSON Schema input schemas
+ *
+ * Supports the subset of JSON Schema the tool definitions use: type (single or a list),
+ * enum, minimum/maximum, minLength/maxLength, minItems/maxItems, items, properties,
+ * required and oneOf. Unknown properties are passed through unchanged.
+ *
+ * Arguments are coerced where the intent is unambiguous, for clients that send every
+ * value as a string: "20" becomes 20 for number and integer fields, and "true"/"false"
+ * become booleans. Null optional properties are treated as absent.
+ */
+
+import { InvalidParamsError } from './errors.js';
+
+export type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+
+export interface JsonSchema {
+  type?: SchemaType | readonly SchemaType[];
+  description?: string;
+  enum?: readonly string[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: JsonSchema;
+  properties?: Readonly<Record<string, JsonSchema>>;
+  required?: readonly string[];
+  oneOf?: readonly JsonSchema[];
+}
+
+/**
+ * Type of the value validateArguments returns for a schema declared "as const":
+ * enums become unions of their values, and properties not listed in required are optional
+ */
+export type SchemaValue<S> =
+  S extends { oneOf: readonly (infer Alternative)[] } ? SchemaValue<Alternative> :
+  S extends { enum: readonly (infer Value)[] } ? Value :
+  S extends { type: infer Type } ? TypeValue<Type extends readonly (infer Each)[] ? Each : Type, S> :
+  unknown;
+
+type TypeValue<Type, S> =
+  Type extends 'string' ? string :
+  Type extends 'number' | 'integer' ? number :
+  Type extends 'boolean' ? boolean :
+  Type extends 'array' ? (S extends { items: infer Items } ? SchemaValue<Items>[] : unknown[]) :
+  Type extends 'object' ? (S extends { properties: infer Properties } ? ObjectValue<Properties, S> : Record<string, unknown>) :
+  unknown;
+
+type RequiredKeys<S> = S extends { required: readonly (infer Key)[] } ? Key : never;
+
+type ObjectValue<Properties, S> = Simplify<{
+  [K in keyof Properties as K extends RequiredKeys<S> ? K : never]: SchemaValue<Properties[K]>;
+} & {
+  [K in keyof Properties as K extends RequiredKeys<S> ? never : K]?: SchemaValue<Properties[K]>;
+}>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+const NUMERIC_STRING = /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Validate tool arguments against an object schema, returning the coerced arguments.
+ * Throws InvalidParamsError naming the offending field, e.g. "max must be at most 100".
+ */
+export function validateArguments(schema: JsonSchema, args: unknown): Record<string, unknown> {
+  return validateValue(schema, args ?? {}, '') as Record<string, unknown>;
+}
+
+function validateValue(schema: JsonSchema, value: unknown, path: string): unknown {
+  if (schema.oneOf) {
+    return validateOneOf(schema.oneOf, value, path);
+  }
+
+  const types = schemaTypes(schema);
+  const coerced = types.length > 0 ? coerceType(types, value, path) : value;
+
+  if (schema.enum && !schema.enum.includes(coerced as string)) {
+    throw invalid(path, `must be one of ${schema.enum.map(v => `"${v}"`).join(', ')}`);
+  }
+
+  if (typeof coerced === 'number') {
+    if (schema.minimum !== undefined && coerced < schema.minimum) {
+      throw invalid(path, `must be at least ${schema.minimum} (got ${coerced})`);
+    }
+    if (schema.maximum !== undefined && coerced > schema.maximum) {
+      throw invalid(path, `must be at most ${schema.maximum} (got ${coerced})`);
+    }
+  }
+
+  if (typeof coerced === 'string') {
+    if (schema.minLength !== undefined && coerced.length < schema.minLength) {
+      throw invalid(path, schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters long`);
+    }
+    if (schema.maxLength !== undefined && coerced.length > schema.maxLength) {
+      throw invalid(path, `must be at most ${schema.maxLength} characters long (got ${coerced.length})`);
+    }
+  }
+
+  if (Array.isArray(coerced)) {
+    return validateArray(schema, coerced, path);
+  }
+
+  if (isPlainObject(coerced) && schema.properties) {
+    return validateObject(schema, coerced, path);
+  }
+
+  return coerced;
+}
+
+function validateArray(schema: JsonSchema, value: unknown[], path: string): unknown[] {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    throw invalid(path, schema.minItems === 1 ? 'must not be empty' : `must contain at least ${schema.minItems} items`);
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    throw invalid(path, `must contain at most ${schema.maxItems} items (got ${value.length})`);
+  }
+  return schema.items ? value.map((item, index) => validateValue(schema.items!, item, `${path}[${index}]`)) : value;
+}
+
+function validateObject(schema: JsonSchema, value: Record<string, unknown>, path: string): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...value };
+
+  for (const name of schema.required ?? []) {
+    if (value[name] === undefined || value[name] === null) {
+      throw invalid(join(path, name), 'is required');
+    }
+  }
+
+  for (const [name, propertySchema] of Object.entries(schema.properties ?? {})) {
+    if (value[name] === undefined || value[name] === null) {
+      delete result[name];
+      continue;
+    }
+    result[name] = validateValue(propertySchema, value[name], join(path, name));
+  }
+
+  return result;
+}
+
+/**
+ * Validate against the alternative whose type matches the value, so a mistake inside
+ * an object alternative is reported precisely rather than as "matches no alternative"
+ */
+function validateOneOf(alternatives: readonly JsonSchema[], value: unknown, path: string): unknown {
+  const candidates = alternatives.filter(alternative => {
+    const types = schemaTypes(alternative);
+    return types.length === 0 || types.some(type => matchesType(type, value));
+  });
+
+  if (candidates.length === 0) {
+    const expected = alternatives.flatMap(schemaTypes).map(describeType);
+    throw invalid(path, `must be ${[...new Set(expected)].join(' or ')}`);
+  }
+
+  let firstError: unknown;
+  for (const candidate of candidates) {
+    try {
+      return validateValue(candidate, value, path);
+    } catch (error) {
+      firstError ??= error;
+    }
+  }
+  throw firstError;
+}
+
+/**
+ * Check the value has one of the allowed types, converting strings where that is unambiguous
+ */
+function coerceType(types: readonly SchemaType[], value: unknown, path: string): unknown {
+  if (types.some(type => matchesType(type, value))) {
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    const text = value.trim();
+    if ((types.includes('number') || types.includes('integer')) && NUMERIC_STRING.test(text)) {
+      const number = Number(text);
+      if (types.includes('number') || Number.isInteger(number)) {
+        return number;
+      }
+    }
+    if (types.includes('boolean') && (text === 'true' || text === 'false')) {
+      return text === 'true';
+    }
+  }
+
+  if (types.includes('integer') && typeof value === 'number' && Number.isFinite(value)) {
+    throw invalid(path, `must be a whole number (got ${value})`);
+  }
+  throw invalid(path, `must be ${types.map(describeType).join(' or ')}`);
+}
+
+function matchesType(type: SchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+  }
+}
+
+function describeType(type: SchemaType): string {
+  switch (type) {
+    case 'integer':
+      return 'a whole number';
+    case 'array':
+      return 'an array';
+    case 'object':
+      return 'an object';
+    default:
+      return `a ${type}`;
+  }
+}
+
+function schemaTypes(schema: JsonSchema): readonly SchemaType[] {
+  if (schema.type === undefined) {
+    return [];
+  }
+  return typeof schema.type === 'string' ? [schema.type] : schema.type;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
+
+function invalid(path: string, problem: string): InvalidParamsError {
+  return new InvalidParamsError(path ? `${path} ${problem}` : `Arguments ${problem}`);
+}
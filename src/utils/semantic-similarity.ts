@@ -0,0 +1,165 @@
+/**
+ * Semantic Similarity - Information-content-based similarity between HPO terms
+ */
+
+import { SimpleOntologyTerm } from '../types/hpo.js';
+import { InformationContent, ICSource, TermClosure } from './information-content.js';
+
+/**
+ * Pairwise similarity scores between two HPO terms
+ */
+export interface TermSimilarity {
+  term1: SimpleOntologyTerm & { ic: number };
+  term2: SimpleOntologyTerm & { ic: number };
+  /** Most informative common ancestor */
+  mica?: SimpleOntologyTerm & { ic: number };
+  commonAncestorCount: number;
+  resnik: number;
+  lin: number;
+  /** Jiang-Conrath distance: IC(t1) + IC(t2) - 2 * IC(MICA) */
+  jiangConrathDistance: number;
+  /** Jiang-Conrath similarity: 1 / (1 + distance) */
+  jiangConrath: number;
+}
+
+export type SimilarityMetric = 'resnik' | 'lin' | 'jiang_conrath';
+
+/**
+ * Best-matching term in the other profile for one term of a profile
+ */
+export interface BestMatch {
+  term: SimpleOntologyTerm;
+  match: SimpleOntologyTerm;
+  score: number;
+}
+
+/**
+ * Similarity between two phenotype profiles (sets of HPO terms)
+ */
+export interface ProfileSimilarity {
+  metric: SimilarityMetric;
+  /** Symmetric best-match-average over the terms of both profiles */
+  bestMatchAverage: number;
+  /** Highest pairwise score between any two terms */
+  maximum: number;
+  /** Mean of the two directional best-match averages */
+  funSimAvg: number;
+  bestMatches1: BestMatch[];
+  bestMatches2: BestMatch[];
+}
+
+export class SemanticSimilarity {
+  constructor(private readonly ic: InformationContent) {}
+
+  /**
+   * Compute Resnik, Lin and Jiang-Conrath similarity between two terms
+   */
+  async compare(id1: string, id2: string, source: ICSource = 'descendants'): Promise<TermSimilarity> {
+    const [closure1, closure2] = await Promise.all([
+      this.ic.getClosure(id1),
+      this.ic.getClosure(id2)
+    ]);
+
+    const common = commonAncestors(closure1, closure2);
+    const [ic1, ic2, commonIC] = await Promise.all([
+      this.ic.getIC(closure1.id, source),
+      this.ic.getIC(closure2.id, source),
+      Promise.all(common.map(term => this.ic.getIC(term.id, source)))
+    ]);
+
+    let mica: (SimpleOntologyTerm & { ic: number }) | undefined;
+    common.forEach((term, index) => {
+      if (!mica || commonIC[index] > mica.ic) {
+        mica = { ...term, ic: commonIC[index] };
+      }
+    });
+
+    const resnik = mica?.ic || 0;
+    const lin = ic1 + ic2 > 0 ? (2 * resnik) / (ic1 + ic2) : 1;
+    const jiangConrathDistance = Math.max(ic1 + ic2 - 2 * resnik, 0);
+
+    return {
+      term1: { id: closure1.id, name: closure1.name, ic: ic1 },
+      term2: { id: closure2.id, name: closure2.name, ic: ic2 },
+      mica,
+      commonAncestorCount: common.length,
+      resnik,
+      lin,
+      jiangConrathDistance,
+      jiangConrath: 1 / (1 + jiangConrathDistance)
+    };
+  }
+
+  /**
+   * Compare two phenotype profiles using best-match-average, maximum and funSimAvg
+   */
+  async compareProfiles(
+    profile1: string[],
+    profile2: string[],
+    metric: SimilarityMetric = 'resnik',
+    source: ICSource = 'descendants'
+  ): Promise<ProfileSimilarity> {
+    if (profile1.length === 0 || profile2.length === 0) {
+      throw new Error('Both profiles must contain at least one term');
+    }
+
+    const pairs = await Promise.all(
+      profile1.map(id1 => Promise.all(profile2.map(id2 => this.compare(id1, id2, source))))
+    );
+    const scores = pairs.map(row => row.map(pair => scoreOf(pair, metric)));
+
+    const bestMatches1: BestMatch[] = pairs.map((row, i) => {
+      const j = indexOfMax(scores[i]);
+      return { term: toSimpleTerm(row[j].term1), match: toSimpleTerm(row[j].term2), score: scores[i][j] };
+    });
+
+    const bestMatches2: BestMatch[] = profile2.map((_, j) => {
+      const column = scores.map(row => row[j]);
+      const i = indexOfMax(column);
+      return { term: toSimpleTerm(pairs[i][j].term2), match: toSimpleTerm(pairs[i][j].term1), score: column[i] };
+    });
+
+    const sum1 = bestMatches1.reduce((total, m) => total + m.score, 0);
+    const sum2 = bestMatches2.reduce((total, m) => total + m.score, 0);
+
+    return {
+      metric,
+      bestMatchAverage: (sum1 + sum2) / (bestMatches1.length + bestMatches2.length),
+      maximum: Math.max(...scores.flat()),
+      funSimAvg: (sum1 / bestMatches1.length + sum2 / bestMatches2.length) / 2,
+      bestMatches1,
+      bestMatches2
+    };
+  }
+}
+
+function scoreOf(similarity: TermSimilarity, metric: SimilarityMetric): number {
+  switch (metric) {
+    case 'lin':
+      return similarity.lin;
+    case 'jiang_conrath':
+      return similarity.jiangConrath;
+    default:
+      return similarity.resnik;
+  }
+}
+
+function indexOfMax(values: number[]): number {
+  return values.reduce((best, value, index) => (value > values[best] ? index : best), 0);
+}
+
+function toSimpleTerm(term: SimpleOntologyTerm): SimpleOntologyTerm {
+  return { id: term.id, name: term.name };
+}
+
+/**
+ * Common ancestors of two terms, where each term counts as its own ancestor
+ */
+function commonAncestors(closure1: TermClosure, closure2: TermClosure): SimpleOntologyTerm[] {
+  const lineage1 = new Map(closure1.ancestors).set(closure1.id, closure1.name);
+  const lineage2 = new Map(closure2.ancestors).set(closure2.id, closure2.name);
+
+  return Array.from(lineage1.entries())
+    .filter(([id]) => lineage2.has(id))
+    .map(([id, name]) => ({ id, name }));
+}
@@ -0,0 +1,120 @@
+/**
+ * Streamable HTTP transport - One MCP session over plain HTTP requests
+ *
+ * The client POSTs JSON-RPC messages to a single endpoint and receives the responses
+ * to its requests as the JSON body of the same HTTP response. Server-initiated
+ * messages (notifications and requests) are sent on an optional event stream the
+ * client opens with GET. The session is identified by the Mcp-Session-Id header.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { ServerResponse } from 'node:http';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+
+type RequestId = string | number;
+
+/**
+ * An HTTP response waiting for the responses to the requests its POST carried
+ */
+interface PendingPost {
+  res: ServerResponse;
+  ids: RequestId[];
+  batch: boolean;
+  responses: Map<RequestId, JSONRPCMessage>;
+}
+
+export class StreamableHttpTransport implements Transport {
+  readonly sessionId = randomUUID();
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private readonly pending = new Map<RequestId, PendingPost>();
+  private stream?: ServerResponse;
+  private closed = false;
+
+  async start(): Promise<void> {}
+
+  /**
+   * Whether an event stream is open or a POST is waiting for responses
+   */
+  get hasOpenConnections(): boolean {
+    return this.stream !== undefined || this.pending.size > 0;
+  }
+
+  /**
+   * Handle the parsed body of a POST: one JSON-RPC message or a batch.
+   * Throws when a message is not valid JSON-RPC, before any message is processed.
+   */
+  handlePost(body: unknown, res: ServerResponse): void {
+    const batch = Array.isArray(body);
+    const messages = (batch ? body : [body]).map(message => JSONRPCMessageSchema.parse(message));
+    const ids = messages.flatMap(message => 'method' in message && 'id' in message ? [message.id] : []);
+
+    if (ids.length === 0) {
+      // Only notifications and responses: nothing to wait for
+      res.writeHead(202, { 'Mcp-Session-Id': this.sessionId }).end();
+    } else {
+      const post: PendingPost = { res, ids, batch, responses: new Map() };
+      ids.forEach(id => this.pending.set(id, post));
+      res.on('close', () => ids.forEach(id => this.pending.get(id) === post && this.pending.delete(id)));
+    }
+
+    messages.forEach(message => this.onmessage?.(message));
+  }
+
+  /**
+   * Open the event stream for server-initiated messages (one per session)
+   */
+  openStream(res: ServerResponse): void {
+    if (this.stream) {
+      res.writeHead(409).end('An event stream is already open for this session');
+      return;
+    }
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'Mcp-Session-Id': this.sessionId
+    });
+    this.stream = res;
+    res.on('close', () => {
+      if (this.stream === res) {
+        this.stream = undefined;
+      }
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if ('id' in message && ('result' in message || 'error' in message)) {
+      const post = this.pending.get(message.id);
+      if (!post) {
+        return;
+      }
+      this.pending.delete(message.id);
+      post.responses.set(message.id, message);
+      if (post.responses.size === post.ids.length) {
+        const responses = post.ids.map(id => post.responses.get(id));
+        post.res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': this.sessionId });
+        post.res.end(JSON.stringify(post.batch ? responses : responses[0]));
+      }
+      return;
+    }
+
+    // Without an open stream there is no channel for server-initiated messages
+    this.stream?.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.stream?.end();
+    this.stream = undefined;
+    new Set(this.pending.values()).forEach(post => post.res.writeHead(503).end('Session closed'));
+    this.pending.clear();
+    this.onclose?.();
+  }
+}
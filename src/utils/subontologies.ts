@@ -0,0 +1,185 @@
+/**
+ * Sub-ontologies - Branches of HPO outside Phenotypic abnormality
+ *
+ * Besides phenotypic abnormalities, HPO has separate branches for the mode of
+ * inheritance, the frequency of a phenotype and clinical modifiers, which include
+ * onset, severity and laterality. A value for each is only meaningful when it comes
+ * from the right branch, e.g. a frequency must be a term below Frequency (HP:0040279).
+ * Values are resolved to current IDs first and then checked against the branch root.
+ */
+
+import { HPOBackend, PhenotypeObservation, SimpleOntologyTerm, Subontology } from '../types/hpo.js';
+import { IdResolver, IdResolution } from './id-resolution.js';
+import { InformationContent } from './information-content.js';
+import { responseError } from './errors.js';
+
+export interface SubontologyInfo {
+  rootId: string;
+  name: string;
+  description: string;
+}
+
+/**
+ * Root term of each sub-ontology. Severity and laterality lie within Clinical
+ * modifier, and onset lies within it in current releases.
+ */
+export const SUBONTOLOGIES: Record<Subontology, SubontologyInfo> = {
+  phenotype: { rootId: 'HP:0000118', name: 'Phenotypic abnormality', description: 'Clinical abnormalities' },
+  inheritance: { rootId: 'HP:0000005', name: 'Mode of inheritance', description: 'Modes of inheritance, e.g. autosomal dominant' },
+  onset: { rootId: 'HP:0003674', name: 'Onset', description: 'Age at which a phenotype first appears' },
+  frequency: { rootId: 'HP:0040279', name: 'Frequency', description: 'How often a phenotype occurs in patients with a disease' },
+  modifier: { rootId: 'HP:0012823', name: 'Clinical modifier', description: 'Terms that qualify a phenotype, e.g. recurrent or progressive' },
+  severity: { rootId: 'HP:0012824', name: 'Severity', description: 'Degree of a phenotype, from borderline to profound' },
+  laterality: { rootId: 'HP:0012831', name: 'Laterality', description: 'Side of the body affected' }
+};
+
+export const SUBONTOLOGY_NAMES = Object.keys(SUBONTOLOGIES) as Subontology[];
+
+/**
+ * Whether one value belongs to the expected sub-ontology
+ */
+export interface SubontologyCheck {
+  inputId: string;
+  subontology: Subontology;
+  /** Current term the value resolved to, if any */
+  term?: SimpleOntologyTerm;
+  valid: boolean;
+  /** Sub-ontologies the term lies in, most specific first */
+  belongsTo: Subontology[];
+  message?: string;
+}
+
+/**
+ * Qualifiers of an observation, as HPO IDs
+ */
+export interface ObservationInput {
+  term: string;
+  excluded?: boolean;
+  onset?: string;
+  frequency?: string;
+  severity?: string;
+  laterality?: string;
+  modifiers?: string[];
+}
+
+export interface ObservationValidation {
+  valid: boolean;
+  /** The structured observation, when every value is valid */
+  observation?: PhenotypeObservation;
+  /** One check per value, labelled with the observation field it came from */
+  checks: Array<SubontologyCheck & { field: string }>;
+}
+
+// Large enough to return every term of the largest sub-ontology in one request
+const MAX_SUBONTOLOGY_TERMS = 50000;
+
+// Narrower branches first, so a severity term is reported as severity rather than modifier
+const SPECIFICITY_ORDER: Subontology[] = ['severity', 'laterality', 'onset', 'frequency', 'inheritance', 'modifier', 'phenotype'];
+
+export class SubontologyValidator {
+  constructor(
+    private readonly backend: HPOBackend,
+    private readonly ic: InformationContent,
+    private readonly resolver: IdResolver
+  ) {}
+
+  /**
+   * All terms below the root of a sub-ontology, nearest first
+   */
+  async listTerms(subontology: Subontology): Promise<SimpleOntologyTerm[]> {
+    const { rootId } = SUBONTOLOGIES[subontology];
+    const result = await this.backend.getDescendants({ id: rootId, max: MAX_SUBONTOLOGY_TERMS, offset: 0 });
+    if (result.error) {
+      throw responseError(result, `Error retrieving terms below ${rootId}`);
+    }
+    return result.data || [];
+  }
+
+  /**
+   * Check that each ID is a current term below the root of the sub-ontology
+   */
+  async check(ids: string[], subontology: Subontology): Promise<SubontologyCheck[]> {
+    const resolutions = await this.resolver.resolve(ids);
+    const currentIds = Array.from(new Set(resolutions.flatMap(resolution => resolution.current ? [resolution.current.id] : [])));
+    const closures = await this.ic.getClosures(currentIds);
+
+    return resolutions.map(resolution => {
+      const check: SubontologyCheck = { inputId: resolution.inputId, subontology, valid: false, belongsTo: [] };
+      if (resolution.status !== 'current' && resolution.status !== 'merged') {
+        return { ...check, term: resolution.current, message: unresolvedMessage(resolution) };
+      }
+
+      const closure = closures.get(resolution.current!.id);
+      if (!closure) {
+        return { ...check, term: resolution.current, message: `Ancestors of ${resolution.current!.id} could not be retrieved` };
+      }
+
+      const term = { id: closure.id, name: closure.name };
+      const belongsTo = SPECIFICITY_ORDER.filter(name =>
+        closure.id !== SUBONTOLOGIES[name].rootId && closure.ancestors.has(SUBONTOLOGIES[name].rootId)
+      );
+      const expected = SUBONTOLOGIES[subontology];
+      const merged = resolution.status === 'merged' ? `${resolution.inputId} is an alternative ID of ${term.id}. ` : '';
+
+      if (closure.id === expected.rootId) {
+        return { ...check, term, belongsTo, message: `${term.id} is the root of the ${expected.name} sub-ontology; use one of the more specific terms below it` };
+      }
+      if (!belongsTo.includes(subontology)) {
+        const actual = belongsTo.length > 0 ? `; it belongs to ${SUBONTOLOGIES[belongsTo[0]].name} (${SUBONTOLOGIES[belongsTo[0]].rootId})` : '';
+        return { ...check, term, belongsTo, message: `${merged}${term.id} (${term.name}) is not below ${expected.name} (${expected.rootId})${actual}` };
+      }
+      return { ...check, term, belongsTo, valid: true, message: merged ? merged.trim() : undefined };
+    });
+  }
+
+  /**
+   * Validate every value of an observation against its sub-ontology and build the structured record
+   */
+  async validateObservation(input: ObservationInput): Promise<ObservationValidation> {
+    const values: Array<{ field: string; id: string; subontology: Subontology }> = [
+      { field: 'term', id: input.term, subontology: 'phenotype' }
+    ];
+    (['onset', 'frequency', 'severity', 'laterality'] as const).forEach(field => {
+      const id = input[field];
+      if (id) {
+        values.push({ field, id, subontology: field });
+      }
+    });
+    (input.modifiers || []).forEach((id, index) => values.push({ field: `modifiers[${index}]`, id, subontology: 'modifier' }));
+
+    const checks = await Promise.all(values.map(async value => ({
+      field: value.field,
+      ...(await this.check([value.id], value.subontology))[0]
+    })));
+
+    const valid = checks.every(check => check.valid);
+    if (!valid) {
+      return { valid, checks };
+    }
+
+    const termFor = (field: string) => checks.find(check => check.field === field)?.term;
+    return {
+      valid,
+      checks,
+      observation: {
+        term: termFor('term')!,
+        excluded: input.excluded === true,
+        onset: termFor('onset'),
+        frequency: termFor('frequency'),
+        severity: termFor('severity'),
+        laterality: termFor('laterality'),
+        modifiers: checks.filter(check => check.field.startsWith('modifiers')).map(check => check.term!)
+      }
+    };
+  }
+}
+
+function unresolvedMessage(resolution: IdResolution): string {
+  if (resolution.status === 'replaced' && resolution.current) {
+    return `${resolution.inputId} is obsolete; use ${resolution.current.id} (${resolution.current.name}) instead`;
+  }
+  const consider = resolution.consider.length > 0
+    ? `; consider ${resolution.consider.map(term => `${term.id} (${term.name})`).join(', ')}`
+    : '';
+  return `${resolution.inputId}: ${resolution.message || 'Could not be resolved'}${consider}`;
+}
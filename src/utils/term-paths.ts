@@ -0,0 +1,126 @@
+/**
+ * Term Paths - Root-to-term paths through the HPO hierarchy
+ *
+ * A term with several parents is reachable from the root along several paths of
+ * different lengths. The ancestor DAG of the term is collected by walking its parent
+ * relations, and the paths, their number and the minimum and maximum depth are
+ * computed on that DAG. Paths are enumerated best-first, so when only some are
+ * requested they are the shortest ones.
+ */
+
+import { HPOBackend, SimpleOntologyTerm } from '../types/hpo.js';
+import { SubgraphBuilder } from './graph-export.js';
+
+export interface TermPaths {
+  term: SimpleOntologyTerm;
+  /** Root-to-term paths, shortest first (at most maxPaths) */
+  paths: SimpleOntologyTerm[][];
+  /** Number of distinct root-to-term paths */
+  pathCount: number;
+  /** True when pathCount exceeds the number of paths returned */
+  truncated: boolean;
+  /** Number of is_a steps from the root along the shortest and longest path */
+  minDepth: number;
+  maxDepth: number;
+}
+
+/**
+ * Path from some ancestor down to the term, with the length of its shortest completion to the root
+ */
+interface PartialPath {
+  ids: string[];
+  length: number;
+}
+
+// Deeper than any HPO branch, so the walk always reaches the root
+const MAX_HIERARCHY_DEPTH = 100;
+const MAX_ANCESTOR_TERMS = 10000;
+
+export class TermPathFinder {
+  private readonly subgraphs: SubgraphBuilder;
+
+  constructor(backend: HPOBackend) {
+    this.subgraphs = new SubgraphBuilder(backend);
+  }
+
+  /**
+   * Enumerate the paths from the root to a term
+   */
+  async getPaths(term: SimpleOntologyTerm, maxPaths = Infinity): Promise<TermPaths> {
+    const dag = await this.subgraphs.build([term], {
+      direction: 'up',
+      depth: MAX_HIERARCHY_DEPTH,
+      maxNodes: MAX_ANCESTOR_TERMS
+    });
+    if (dag.truncated) {
+      throw new Error(`${term.id} has more than ${MAX_ANCESTOR_TERMS} ancestors`);
+    }
+
+    const terms = new Map(dag.nodes.map(node => [node.id, { id: node.id, name: node.name }]));
+    const parents = new Map<string, string[]>();
+    dag.edges.forEach(edge => parents.set(edge.child, [...(parents.get(edge.child) || []), edge.parent]));
+
+    // Depths and path counts per term, computed once per term from its parents
+    const stats = new Map<string, { min: number; max: number; count: number }>();
+    const measure = (id: string): { min: number; max: number; count: number } => {
+      const known = stats.get(id);
+      if (known) {
+        return known;
+      }
+      const parentIds = parents.get(id) || [];
+      const result = parentIds.length === 0
+        ? { min: 0, max: 0, count: 1 }
+        : parentIds.map(measure).reduce(
+          (acc, parent) => ({
+            min: Math.min(acc.min, parent.min + 1),
+            max: Math.max(acc.max, parent.max + 1),
+            count: acc.count + parent.count
+          }),
+          { min: Infinity, max: 0, count: 0 }
+        );
+      stats.set(id, result);
+      return result;
+    };
+    const { min, max, count } = measure(term.id);
+
+    // Best-first search upwards: a partial path is ranked by its length so far plus the
+    // shortest distance from its top term to the root, so complete paths come out shortest first
+    const paths: SimpleOntologyTerm[][] = [];
+    const queue: PartialPath[] = [{ ids: [term.id], length: min }];
+    while (queue.length > 0 && paths.length < maxPaths) {
+      const { ids } = queue.shift()!;
+      const parentIds = [...(parents.get(ids[0]) || [])].sort((a, b) => a.localeCompare(b));
+      if (parentIds.length === 0) {
+        paths.push(ids.map(pathId => terms.get(pathId)!));
+        continue;
+      }
+      parentIds.forEach(parentId => enqueue(queue, { ids: [parentId, ...ids], length: ids.length + measure(parentId).min }));
+    }
+
+    return {
+      term,
+      paths,
+      pathCount: count,
+      truncated: count > paths.length,
+      minDepth: min,
+      maxDepth: max
+    };
+  }
+}
+
+/**
+ * Insert a partial path after those that are no longer, keeping the queue ordered
+ */
+function enqueue(queue: PartialPath[], path: PartialPath): void {
+  let low = 0;
+  let high = queue.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (queue[middle].length <= path.length) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  queue.splice(low, 0, path);
+}
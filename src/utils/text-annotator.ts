@@ -0,0 +1,331 @@
+/**
+ * Text Annotator - Recognises HPO terms in clinical free text
+ *
+ * Term labels and synonyms are indexed as sequences of stemmed words in a trie.
+ * The text is split into sentences and words, and the longest label or synonym
+ * starting at each word is matched. A match is negated when a negation cue
+ * ("no", "denies", "negative for", ...) precedes it in the same clause without
+ * an intervening "but"/"however", or a cue such as "was ruled out" follows it.
+ * A comma, semicolon or colon ends the reach of a cue ("no fever, seizures present").
+ *
+ * Matching uses the labels of the ontology backend and needs no network access,
+ * but requires a backend that holds the full ontology (a local HPO release file).
+ */
+
+import { HPOBackend, TermLabels } from '../types/hpo.js';
+
+/**
+ * A term matched by a span of text
+ */
+export interface TextMatch {
+  id: string;
+  name: string;
+  /** The label or synonym that matched */
+  matchedLabel: string;
+  matchType: 'label' | 'synonym';
+  /** 0-1: exact label matches score highest, stemmed synonym matches lowest */
+  confidence: number;
+}
+
+/**
+ * A span of text recognised as one or more HPO terms
+ */
+export interface TextAnnotation {
+  /** Character offsets of the span (end is exclusive) */
+  start: number;
+  end: number;
+  text: string;
+  negated: boolean;
+  /** Negation cue that applies to the span, when negated */
+  negationCue?: string;
+  /** Matching terms, best first (several terms may share a synonym) */
+  matches: TextMatch[];
+}
+
+interface Token {
+  text: string;
+  normalized: string;
+  stem: string;
+  start: number;
+  end: number;
+}
+
+interface LexiconEntry {
+  id: string;
+  name: string;
+  label: string;
+  matchType: 'label' | 'synonym';
+  /** Normalised (unstemmed) words of the label, to tell exact from stemmed matches */
+  words: string[];
+}
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  entries: LexiconEntry[];
+}
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'in', 'on', 'to', 'with', 'or', 'at', 'by', 'for']);
+
+const PRE_NEGATION_CUES = [
+  'no', 'not', "don't", "doesn't", "didn't", 'without', 'denies', 'denied', 'deny', 'never',
+  'absence of', 'negative for', 'free of', 'rule out', 'ruled out'
+].map(cue => cue.split(' '));
+
+const POST_NEGATION_CUES = [
+  'was ruled out', 'were ruled out', 'ruled out', 'is absent', 'are absent', 'was absent',
+  'were absent', 'absent', 'not seen', 'not present', 'was excluded', 'were excluded', 'excluded'
+].map(cue => cue.split(' '));
+
+const NEGATION_TERMINATORS = new Set(['but', 'however', 'although', 'though', 'except', 'apart', 'aside', 'yet', 'which', 'who']);
+
+/** Punctuation a negation cue does not reach across */
+const CLAUSE_PUNCTUATION = /[,;:]/;
+
+/** Number of words a preceding negation cue reaches forward */
+const NEGATION_WINDOW = 5;
+
+/** Single-word labels shorter than this are too ambiguous to match (e.g. "MR") */
+const MIN_SINGLE_WORD_LENGTH = 3;
+
+export class TextAnnotator {
+  private trie?: Promise<TrieNode>;
+
+  constructor(private readonly backend: HPOBackend) {}
+
+  /**
+   * Find HPO terms mentioned in the text
+   */
+  async annotate(text: string): Promise<TextAnnotation[]> {
+    const trie = await this.load();
+    const annotations: TextAnnotation[] = [];
+
+    for (const sentence of splitSentences(text)) {
+      const tokens = tokenize(sentence.text, sentence.start);
+      const content = tokens.filter(token => !STOP_WORDS.has(token.normalized));
+
+      let i = 0;
+      while (i < content.length) {
+        const match = longestMatch(trie, content, i);
+        if (!match) {
+          i++;
+          continue;
+        }
+
+        const first = content[i];
+        const last = content[i + match.length - 1];
+        const spanTokens = content.slice(i, i + match.length);
+        const negationCue = findNegation(text, tokens, tokens.indexOf(first), tokens.indexOf(last));
+
+        annotations.push({
+          start: first.start,
+          end: last.end,
+          text: text.substring(first.start, last.end),
+          negated: negationCue !== undefined,
+          negationCue,
+          matches: rankMatches(match.entries, spanTokens)
+        });
+        i += match.length;
+      }
+    }
+
+    return annotations;
+  }
+
+  /**
+   * Build the label index. Built once and shared by all callers.
+   */
+  private load(): Promise<TrieNode> {
+    if (!this.trie) {
+      this.trie = (async () => {
+        const terms = await this.backend.getAllTermLabels?.();
+        if (!terms) {
+          throw new Error('Text annotation requires a local HPO release: set HPO_ONTOLOGY_FILE to the path of hp.obo or hp.json');
+        }
+        return buildTrie(terms);
+      })();
+      this.trie.catch(() => {
+        this.trie = undefined;
+      });
+    }
+    return this.trie;
+  }
+}
+
+function buildTrie(terms: TermLabels[]): TrieNode {
+  const root: TrieNode = { children: new Map(), entries: [] };
+
+  const add = (term: TermLabels, label: string, matchType: 'label' | 'synonym') => {
+    const tokens = tokenize(label, 0).filter(token => !STOP_WORDS.has(token.normalized));
+    if (tokens.length === 0 || (tokens.length === 1 && tokens[0].normalized.length < MIN_SINGLE_WORD_LENGTH)) {
+      return;
+    }
+
+    let node = root;
+    for (const token of tokens) {
+      let child = node.children.get(token.stem);
+      if (!child) {
+        child = { children: new Map(), entries: [] };
+        node.children.set(token.stem, child);
+      }
+      node = child;
+    }
+    if (!node.entries.some(entry => entry.id === term.id && entry.matchType === matchType)) {
+      node.entries.push({ id: term.id, name: term.name, label, matchType, words: tokens.map(token => token.normalized) });
+    }
+  };
+
+  for (const term of terms) {
+    add(term, term.name, 'label');
+    term.synonyms.forEach(synonym => add(term, synonym, 'synonym'));
+  }
+
+  return root;
+}
+
+/**
+ * Longest label or synonym that starts at the given token
+ */
+function longestMatch(trie: TrieNode, tokens: Token[], start: number): { length: number; entries: LexiconEntry[] } | undefined {
+  let node = trie;
+  let best: { length: number; entries: LexiconEntry[] } | undefined;
+
+  for (let i = start; i < tokens.length; i++) {
+    const next = node.children.get(tokens[i].stem);
+    if (!next) {
+      break;
+    }
+    node = next;
+    if (node.entries.length > 0) {
+      best = { length: i - start + 1, entries: node.entries };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Score the terms matched by a span. A term matched by both its label and a synonym is listed once.
+ */
+function rankMatches(entries: LexiconEntry[], tokens: Token[]): TextMatch[] {
+  const words = tokens.map(token => token.normalized).join(' ');
+  const byTerm = new Map<string, TextMatch>();
+
+  for (const entry of entries) {
+    const exact = entry.words.join(' ') === words;
+    const confidence = entry.matchType === 'label'
+      ? (exact ? 1 : 0.9)
+      : (exact ? 0.85 : 0.75);
+    const existing = byTerm.get(entry.id);
+    if (!existing || existing.confidence < confidence) {
+      byTerm.set(entry.id, {
+        id: entry.id,
+        name: entry.name,
+        matchedLabel: entry.label,
+        matchType: entry.matchType,
+        confidence
+      });
+    }
+  }
+
+  return Array.from(byTerm.values()).sort((a, b) => b.confidence - a.confidence || a.id.localeCompare(b.id));
+}
+
+/**
+ * Negation cue applying to the tokens first..last of a sentence, if any
+ */
+function findNegation(text: string, tokens: Token[], first: number, last: number): string | undefined {
+  const separated = (index: number) => CLAUSE_PUNCTUATION.test(text.substring(tokens[index].end, tokens[index + 1].start));
+
+  // Cue before the span, e.g. "no history of seizures or ataxia"
+  for (let i = first - 1; i >= 0 && first - i <= NEGATION_WINDOW + 3; i--) {
+    if (separated(i) || NEGATION_TERMINATORS.has(tokens[i].normalized)) {
+      break;
+    }
+    for (const cue of PRE_NEGATION_CUES) {
+      const cueEnd = i + cue.length;
+      if (cueEnd <= first && first - cueEnd < NEGATION_WINDOW && matchesAt(tokens, i, cue)) {
+        return cue.join(' ');
+      }
+    }
+  }
+
+  // Cue right after the span, e.g. "cardiomyopathy was ruled out"
+  if (last + 1 < tokens.length && separated(last)) {
+    return undefined;
+  }
+  for (const cue of POST_NEGATION_CUES) {
+    if (matchesAt(tokens, last + 1, cue)) {
+      return cue.join(' ');
+    }
+  }
+
+  return undefined;
+}
+
+function matchesAt(tokens: Token[], index: number, words: string[]): boolean {
+  return index + words.length <= tokens.length && words.every((word, offset) => tokens[index + offset].normalized === word);
+}
+
+/**
+ * Split text into sentences (and clauses ending in ";" or a line break), keeping offsets
+ */
+function splitSentences(text: string): Array<{ text: string; start: number }> {
+  const sentences: Array<{ text: string; start: number }> = [];
+  const boundary = /[.!?;:\n]+(?:\s|$)|\n/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    sentences.push({ text: text.substring(start, match.index), start });
+    start = match.index + match[0].length;
+  }
+  sentences.push({ text: text.substring(start), start });
+
+  return sentences.filter(sentence => sentence.text.trim().length > 0);
+}
+
+function tokenize(text: string, offset: number): Token[] {
+  const tokens: Token[] = [];
+  const word = /[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu;
+  let match: RegExpExecArray | null;
+
+  while ((match = word.exec(text)) !== null) {
+    const normalized = match[0].toLowerCase().replace(/'s$/, '');
+    tokens.push({
+      text: match[0],
+      normalized,
+      stem: stem(normalized),
+      start: offset + match.index,
+      end: offset + match.index + match[0].length
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Light suffix stemmer that conflates plurals and common adjectival/verbal endings
+ * (seizures → seizur, seizure → seizur, dilated → dilat, dilatation → dilat)
+ */
+function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) {
+    return word;
+  }
+
+  let result = word;
+  if (result.endsWith('ies') && result.length > 4) {
+    result = result.slice(0, -3) + 'y';
+  } else if (result.endsWith('sses')) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('s') && !result.endsWith('ss') && !result.endsWith('us') && !result.endsWith('is')) {
+    result = result.slice(0, -1);
+  }
+
+  for (const suffix of ['ations', 'ation', 'ically', 'ical', 'ing', 'ed', 'al', 'ic', 'ly', 'e', 'y']) {
+    if (result.endsWith(suffix) && result.length - suffix.length >= 4) {
+      return result.slice(0, -suffix.length);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,308 @@
+/**
+ * HPO Translations - Translated term labels, definitions and synonyms from HPO Babelon files
+ *
+ * Configured through environment variables:
+ * - HPO_TRANSLATIONS_DIR: directory containing HPO translation files named hp-<language>.babelon.tsv
+ *   (e.g. hp-de.babelon.tsv, hp-fr.babelon.tsv)
+ *
+ * Each language file is read the first time the language is requested.
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { Language, Translation, TranslationStatus } from '../types/hpo.js';
+import { InvalidParamsError } from './errors.js';
+
+export interface TranslationConfig {
+  directory?: string;
+}
+
+/**
+ * A translation language available in the configured directory
+ */
+export interface TranslationLanguage {
+  language: Language;
+  file: string;
+}
+
+/**
+ * Number of translated terms in a language, broken down by translation status
+ */
+export interface LanguageSummary extends TranslationLanguage {
+  terms: number;
+  statuses: Record<string, number>;
+}
+
+interface TermTranslation {
+  englishName?: string;
+  name?: string;
+  definition?: string;
+  synonyms: string[];
+  status?: string;
+}
+
+interface LanguageIndex {
+  terms: Map<string, TermTranslation>;
+}
+
+/**
+ * Babelon translation status codes
+ */
+export const TRANSLATION_STATUSES: Record<string, string> = {
+  OFFICIAL: 'Official',
+  CANDIDATE: 'Candidate',
+  NOT_TRANSLATED: 'Not translated'
+};
+
+/**
+ * Names of the languages HPO publishes translations for
+ */
+const LANGUAGE_NAMES: Record<string, string> = {
+  cs: 'Czech',
+  de: 'German',
+  es: 'Spanish',
+  fr: 'French',
+  it: 'Italian',
+  ja: 'Japanese',
+  nl: 'Dutch',
+  nna: 'Nyangumarta',
+  pt: 'Portuguese',
+  ru: 'Russian',
+  tr: 'Turkish',
+  zh: 'Chinese'
+};
+
+const TRANSLATION_FILE_PATTERN = /^hp-([A-Za-z]{2,3}(?:[-_][A-Za-z]+)?)\.babelon\.tsv$/;
+
+/**
+ * Read the translation configuration from the environment
+ */
+export function readTranslationConfig(env: NodeJS.ProcessEnv = process.env): TranslationConfig {
+  return {
+    directory: env.HPO_TRANSLATIONS_DIR?.trim() || undefined
+  };
+}
+
+export class TranslationStore {
+  private languages?: Promise<Map<string, TranslationLanguage>>;
+  private readonly indexes = new Map<string, Promise<LanguageIndex>>();
+
+  constructor(private readonly config: TranslationConfig = {}) {}
+
+  hasTranslations(): boolean {
+    return this.config.directory !== undefined;
+  }
+
+  /**
+   * Languages with a translation file in the configured directory
+   */
+  async getLanguages(): Promise<TranslationLanguage[]> {
+    return Array.from((await this.loadLanguages()).values());
+  }
+
+  /**
+   * Load every language file and count translated terms per status
+   */
+  async getLanguageSummaries(): Promise<LanguageSummary[]> {
+    const languages = await this.getLanguages();
+    return Promise.all(languages.map(async language => {
+      const index = await this.loadLanguage(language.language.code);
+      const statuses: Record<string, number> = {};
+      let terms = 0;
+      index.terms.forEach(term => {
+        if (term.name) {
+          terms++;
+          const status = term.status || 'UNKNOWN';
+          statuses[status] = (statuses[status] || 0) + 1;
+        }
+      });
+      return { ...language, terms, statuses };
+    }));
+  }
+
+  /**
+   * Resolve a language code (e.g. "de" or "DE") to an available language.
+   * Returns undefined for English, which needs no translation.
+   */
+  async resolveLanguage(code: string): Promise<Language | undefined> {
+    const normalized = normalizeLanguageCode(code);
+    if (normalized === 'en') {
+      return undefined;
+    }
+
+    const languages = await this.loadLanguages();
+    const language = languages.get(normalized);
+    if (!language) {
+      const available = Array.from(languages.keys()).sort().join(', ');
+      throw new InvalidParamsError(`Language "${code}" is not available. Available languages: ${available || 'none'}`);
+    }
+    return language.language;
+  }
+
+  /**
+   * Translation of one term. Terms without a translated label get a NOT_TRANSLATED status
+   * so callers can fall back to English.
+   */
+  async getTranslation(id: string, language: Language): Promise<Translation> {
+    const index = await this.loadLanguage(language.code);
+    const term = index.terms.get(id);
+    if (!term || !term.name) {
+      return { language, synonyms: [], status: notTranslatedStatus() };
+    }
+
+    return {
+      language,
+      name: term.name,
+      definition: term.definition,
+      synonyms: term.synonyms,
+      status: term.status
+        ? { code: term.status, name: TRANSLATION_STATUSES[term.status] || term.status }
+        : undefined
+    };
+  }
+
+  /**
+   * Terms whose translated label or synonyms contain the query, with their English labels
+   */
+  async searchTranslations(query: string, language: Language): Promise<Array<{ id: string; englishName?: string; score: number }>> {
+    const index = await this.loadLanguage(language.code);
+    const normalizedQuery = query.trim().toLowerCase();
+    const matches: Array<{ id: string; englishName?: string; score: number }> = [];
+
+    index.terms.forEach((term, id) => {
+      if (!term.name) {
+        return;
+      }
+      const name = term.name.toLowerCase();
+      const synonyms = term.synonyms.map(s => s.toLowerCase());
+      const score = name === normalizedQuery ? 90
+        : name.startsWith(normalizedQuery) ? 70
+        : name.includes(normalizedQuery) ? 50
+        : synonyms.includes(normalizedQuery) ? 40
+        : synonyms.some(s => s.includes(normalizedQuery)) ? 30
+        : 0;
+      if (score > 0) {
+        matches.push({ id, englishName: term.englishName, score });
+      }
+    });
+
+    return matches.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  }
+
+  private loadLanguages(): Promise<Map<string, TranslationLanguage>> {
+    if (!this.config.directory) {
+      return Promise.reject(new Error('Translations are not configured: set HPO_TRANSLATIONS_DIR to the directory containing hp-<language>.babelon.tsv files'));
+    }
+    if (!this.languages) {
+      const directory = this.config.directory;
+      this.languages = readdir(directory).then(files => {
+        const languages = new Map<string, TranslationLanguage>();
+        files.sort().forEach(file => {
+          const match = file.match(TRANSLATION_FILE_PATTERN);
+          if (match) {
+            const code = normalizeLanguageCode(match[1]);
+            languages.set(code, {
+              language: { code, name: LANGUAGE_NAMES[code.split('-')[0]] || code },
+              file: join(directory, file)
+            });
+          }
+        });
+        return languages;
+      });
+      this.languages.catch(() => {
+        this.languages = undefined;
+      });
+    }
+    return this.languages;
+  }
+
+  private loadLanguage(code: string): Promise<LanguageIndex> {
+    let index = this.indexes.get(code);
+    if (!index) {
+      index = this.loadLanguages().then(languages => {
+        const language = languages.get(code);
+        if (!language) {
+          throw new Error(`Language "${code}" is not available`);
+        }
+        return readFile(language.file, 'utf-8').then(parseBabelon);
+      });
+      this.indexes.set(code, index);
+      index.catch(() => {
+        this.indexes.delete(code);
+      });
+    }
+    return index;
+  }
+}
+
+/**
+ * Parse a Babelon TSV file (one translated value per line: subject_id, predicate_id,
+ * source_value, translation_value, translation_status, ...)
+ */
+function parseBabelon(content: string): LanguageIndex {
+  const terms = new Map<string, TermTranslation>();
+  let columns: Map<string, number> | undefined;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith('#')) {
+      continue;
+    }
+
+    const fields = line.split('\t');
+    if (!columns) {
+      columns = new Map(fields.map((name, index) => [name.trim().toLowerCase(), index]));
+      continue;
+    }
+
+    const field = (name: string) => {
+      const index = columns!.get(name);
+      const value = index === undefined ? undefined : fields[index]?.trim();
+      return value ? value : undefined;
+    };
+
+    const id = field('subject_id');
+    const predicate = field('predicate_id');
+    if (!id || !predicate || !id.startsWith('HP:')) {
+      continue;
+    }
+
+    const status = field('translation_status')?.toUpperCase();
+    const value = field('translation_value');
+    let term = terms.get(id);
+    if (!term) {
+      term = { synonyms: [] };
+      terms.set(id, term);
+    }
+
+    if (isLabelPredicate(predicate)) {
+      term.englishName = field('source_value');
+      if (value && status !== 'NOT_TRANSLATED') {
+        term.name = value;
+        term.status = status;
+      }
+    } else if (!value || status === 'NOT_TRANSLATED') {
+      continue;
+    } else if (predicate.endsWith('IAO:0000115') || predicate.endsWith('IAO_0000115')) {
+      term.definition = value;
+    } else if (predicate.includes('Synonym')) {
+      term.synonyms.push(value);
+    }
+  }
+
+  return { terms };
+}
+
+/**
+ * Status reported when a term has no translation and the English text is shown instead
+ */
+function notTranslatedStatus(): TranslationStatus {
+  return { code: 'NOT_TRANSLATED', name: TRANSLATION_STATUSES.NOT_TRANSLATED };
+}
+
+function isLabelPredicate(predicate: string): boolean {
+  return predicate === 'rdfs:label' || predicate.endsWith('#label');
+}
+
+function normalizeLanguageCode(code: string): string {
+  return code.trim().toLowerCase().replace('_', '-');
+}
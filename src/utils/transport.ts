@@ -0,0 +1,95 @@
+/**
+ * Transport selection - Serves MCP over stdio (one client per process) or HTTP
+ * (many concurrent clients sharing one server, backend and cache)
+ *
+ * Configured through command-line flags, which take precedence, or environment variables:
+ * - --transport stdio|http, or --http (HPO_TRANSPORT): "stdio" (default) or "http"
+ * - --host (HPO_HTTP_HOST): interface to listen on in HTTP mode (default 127.0.0.1)
+ * - --port (HPO_HTTP_PORT): port to listen on in HTTP mode (default 3000)
+ * - --session-timeout (HPO_HTTP_SESSION_TIMEOUT): seconds an idle HTTP session is kept (default 1800, 0 keeps them)
+ * - --max-sessions (HPO_HTTP_MAX_SESSIONS): maximum number of open HTTP sessions (default 100)
+ * - --allowed-origins (HPO_HTTP_ALLOWED_ORIGINS): comma-separated browser origins accepted besides localhost, or "*"
+ */
+
+export type TransportType = 'stdio' | 'http';
+
+export interface TransportConfig {
+  type: TransportType;
+  host: string;
+  port: number;
+  /** Idle sessions are closed after this long; 0 keeps them until the client ends them */
+  sessionIdleTimeoutMs: number;
+  maxSessions: number;
+  /** Origins accepted in addition to localhost; "*" accepts any */
+  allowedOrigins: string[];
+}
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 3000;
+const DEFAULT_SESSION_TIMEOUT_SECONDS = 1800;
+const DEFAULT_MAX_SESSIONS = 100;
+
+/**
+ * Read the transport configuration from command-line arguments and the environment
+ */
+export function readTransportConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): TransportConfig {
+  const flags = parseFlags(argv);
+
+  const requested = (flags.get('transport') ?? env.HPO_TRANSPORT)?.trim().toLowerCase();
+  if (requested && requested !== 'stdio' && requested !== 'http') {
+    throw new Error(`Invalid transport "${requested}": expected "stdio" or "http"`);
+  }
+  const type: TransportType = flags.has('http') ? 'http' : (requested as TransportType | undefined) || 'stdio';
+
+  const host = (flags.get('host') ?? env.HPO_HTTP_HOST)?.trim() || DEFAULT_HOST;
+
+  const rawPort = (flags.get('port') ?? env.HPO_HTTP_PORT)?.trim();
+  const port = rawPort ? Number(rawPort) : DEFAULT_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port "${rawPort}": expected a number between 0 and 65535`);
+  }
+
+  const rawTimeout = (flags.get('session-timeout') ?? env.HPO_HTTP_SESSION_TIMEOUT)?.trim();
+  const timeoutSeconds = rawTimeout ? Number(rawTimeout) : DEFAULT_SESSION_TIMEOUT_SECONDS;
+  if (!Number.isFinite(timeoutSeconds) || timeoutSeconds < 0) {
+    throw new Error(`Invalid HTTP session timeout "${rawTimeout}": expected a number of seconds, 0 or more`);
+  }
+
+  const rawMaxSessions = (flags.get('max-sessions') ?? env.HPO_HTTP_MAX_SESSIONS)?.trim();
+  const maxSessions = rawMaxSessions ? Number(rawMaxSessions) : DEFAULT_MAX_SESSIONS;
+  if (!Number.isInteger(maxSessions) || maxSessions < 1) {
+    throw new Error(`Invalid HTTP session limit "${rawMaxSessions}": expected a positive integer`);
+  }
+
+  const allowedOrigins = ((flags.get('allowed-origins') ?? env.HPO_HTTP_ALLOWED_ORIGINS) || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, '').toLowerCase())
+    .filter(Boolean);
+
+  return { type, host, port, sessionIdleTimeoutMs: timeoutSeconds * 1000, maxSessions, allowedOrigins };
+}
+
+/**
+ * Parse "--name value", "--name=value" and bare "--name" flags
+ */
+function parseFlags(argv: string[]): Map<string, string> {
+  const flags = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--([a-z-]+)(?:=(.*))?$/);
+    if (!match) {
+      continue;
+    }
+    const [, name, inlineValue] = match;
+    if (inlineValue !== undefined) {
+      flags.set(name, inlineValue);
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      flags.set(name, argv[++i]);
+    } else {
+      flags.set(name, '');
+    }
+  }
+  return flags;
+}
@@ -0,0 +1,185 @@
+/**
+ * Cross-ontology Mapping - Maps codes of other vocabularies (UMLS, SNOMED CT, MeSH, ICD)
+ * to HPO terms and back, using the database cross-references (xrefs) of each term
+ *
+ * Mapping HPO terms to other vocabularies reads the xrefs of the requested terms.
+ * The reverse direction needs an index over the xrefs of every term, which is built
+ * the first time it is used and requires a backend that holds the full ontology.
+ */
+
+import { HPOBackend, SimpleOntologyTerm, TermXrefs } from '../types/hpo.js';
+
+/**
+ * An HPO term found through one of its cross-references
+ */
+export interface XrefMatch extends SimpleOntologyTerm {
+  /** The cross-reference that matched, as written in the ontology */
+  xref: string;
+}
+
+/**
+ * The cross-references of a term to one vocabulary
+ */
+export interface XrefGroup {
+  prefix: string;
+  vocabulary: string;
+  codes: string[];
+}
+
+/**
+ * Names of the vocabularies HPO terms commonly cross-reference, in display order
+ */
+export const VOCABULARIES: Record<string, string> = {
+  UMLS: 'UMLS',
+  SNOMEDCT_US: 'SNOMED CT',
+  MSH: 'MeSH',
+  'ICD-10': 'ICD-10',
+  'ICD-9': 'ICD-9',
+  NCIT: 'NCI Thesaurus',
+  MEDDRA: 'MedDRA',
+  EPCC: 'European Paediatric Cardiac Code',
+  Fyler: 'Fyler'
+};
+
+/**
+ * Other spellings of vocabulary prefixes, keyed by their normalised form
+ */
+const PREFIX_ALIASES: Record<string, string> = {
+  CUI: 'UMLS',
+  UMLSCUI: 'UMLS',
+  SNOMED: 'SNOMEDCT_US',
+  SNOMEDCT: 'SNOMEDCT_US',
+  SCTID: 'SNOMEDCT_US',
+  SCT: 'SNOMEDCT_US',
+  MESH: 'MSH',
+  ICD10: 'ICD-10',
+  ICD10CM: 'ICD-10',
+  ICD9: 'ICD-9',
+  ICD9CM: 'ICD-9',
+  NCI: 'NCIT'
+};
+
+interface XrefIndexData {
+  /** Matches keyed by "PREFIX:CODE" with a canonical prefix and upper-case code */
+  byXref: Map<string, XrefMatch[]>;
+  /** Matches keyed by upper-case code alone, for codes given without a prefix */
+  byCode: Map<string, XrefMatch[]>;
+}
+
+export class XrefIndex {
+  private index?: Promise<XrefIndexData>;
+
+  constructor(private readonly backend: HPOBackend) {}
+
+  /**
+   * HPO terms cross-referencing a code. A code without a prefix (e.g. "C0036572")
+   * is looked up in the given vocabulary, or in every vocabulary when none is given.
+   */
+  async findTerms(code: string, vocabulary?: string): Promise<XrefMatch[]> {
+    const index = await this.load();
+    const { prefix, code: value } = splitXref(code.trim());
+    const resolvedPrefix = prefix || vocabulary;
+
+    return resolvedPrefix
+      ? index.byXref.get(xrefKey(resolvedPrefix, value)) || []
+      : index.byCode.get(value.toUpperCase()) || [];
+  }
+
+  /**
+   * Build the reverse index. Built once and shared by all callers.
+   */
+  private load(): Promise<XrefIndexData> {
+    if (!this.index) {
+      this.index = (async () => {
+        const terms = await this.backend.getAllTermXrefs?.();
+        if (!terms) {
+          throw new Error('Mapping codes to HPO requires a local HPO release: set HPO_ONTOLOGY_FILE to the path of hp.obo or hp.json');
+        }
+        return buildIndex(terms);
+      })();
+      this.index.catch(() => {
+        this.index = undefined;
+      });
+    }
+    return this.index;
+  }
+}
+
+/**
+ * Group cross-references by vocabulary, optionally keeping only some vocabularies
+ */
+export function groupXrefs(xrefs: string[], vocabularies?: string[]): XrefGroup[] {
+  const wanted = vocabularies?.map(canonicalPrefix);
+  const groups = new Map<string, XrefGroup>();
+
+  for (const xref of xrefs) {
+    const { prefix, code } = splitXref(xref);
+    const canonical = canonicalPrefix(prefix);
+    if (!prefix || (wanted && !wanted.includes(canonical))) {
+      continue;
+    }
+    let group = groups.get(canonical);
+    if (!group) {
+      group = { prefix, vocabulary: VOCABULARIES[canonical] || prefix, codes: [] };
+      groups.set(canonical, group);
+    }
+    group.codes.push(code);
+  }
+
+  const order = Object.keys(VOCABULARIES);
+  const rank = (prefix: string) => {
+    const position = order.indexOf(canonicalPrefix(prefix));
+    return position === -1 ? order.length : position;
+  };
+  return Array.from(groups.values()).sort((a, b) => rank(a.prefix) - rank(b.prefix) || a.prefix.localeCompare(b.prefix));
+}
+
+/**
+ * Canonical form of a vocabulary prefix (e.g. "snomed", "SNOMEDCT" and "SNOMEDCT_US" become "SNOMEDCT_US")
+ */
+export function canonicalPrefix(prefix: string): string {
+  const normalized = prefix.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (PREFIX_ALIASES[normalized]) {
+    return PREFIX_ALIASES[normalized];
+  }
+  const known = Object.keys(VOCABULARIES).find(key => key.toUpperCase().replace(/[^A-Z0-9]/g, '') === normalized);
+  return known || prefix.toUpperCase();
+}
+
+function buildIndex(terms: TermXrefs[]): XrefIndexData {
+  const byXref = new Map<string, XrefMatch[]>();
+  const byCode = new Map<string, XrefMatch[]>();
+  const add = (map: Map<string, XrefMatch[]>, key: string, match: XrefMatch) => {
+    const matches = map.get(key);
+    if (!matches) {
+      map.set(key, [match]);
+    } else if (!matches.some(existing => existing.id === match.id && existing.xref === match.xref)) {
+      matches.push(match);
+    }
+  };
+
+  for (const term of terms) {
+    for (const xref of term.xrefs) {
+      const { prefix, code } = splitXref(xref);
+      if (!prefix || !code) {
+        continue;
+      }
+      const match: XrefMatch = { id: term.id, name: term.name, xref };
+      add(byXref, xrefKey(prefix, code), match);
+      add(byCode, code.toUpperCase(), match);
+    }
+  }
+
+  return { byXref, byCode };
+}
+
+function splitXref(xref: string): { prefix: string; code: string } {
+  const separator = xref.indexOf(':');
+  return separator === -1
+    ? { prefix: '', code: xref }
+    : { prefix: xref.substring(0, separator), code: xref.substring(separator + 1) };
+}
+
+function xrefKey(prefix: string, code: string): string {
+  return `${canonicalPrefix(prefix)}:${code.toUpperCase()}`;
+}
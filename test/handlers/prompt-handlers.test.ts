@@ -0,0 +1,119 @@
+import { fileURLToPath } from 'node:url';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { describe, expect, it } from 'vitest';
+import { HPOHandlers } from '../../src/handlers/hpo-handlers.js';
+import { HPOPromptHandlers } from '../../src/handlers/prompt-handlers.js';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-mini.obo', import.meta.url));
+
+const prompts = new HPOPromptHandlers(new HPOHandlers(new LocalOntologyClient(ONTOLOGY_FILE)));
+
+const ORGAN_SYSTEMS = [
+  'Direct children of HP:0000118:',
+  '',
+  '• HP:0000707: Abnormality of the nervous system',
+  '• HP:0001626: Abnormality of the cardiovascular system'
+].join('\n');
+
+async function promptText(name: string, args: Record<string, string>) {
+  const { messages } = await prompts.getPrompt(name, args);
+
+  expect(messages).toHaveLength(1);
+  expect(messages[0]).toMatchObject({ role: 'user', content: { type: 'text' } });
+  return messages[0].content.text;
+}
+
+describe('HPOPromptHandlers.listPrompts', () => {
+  it('declares every prompt with its required arguments', () => {
+    const listed = prompts.listPrompts().prompts.map(prompt => ({
+      name: prompt.name,
+      required: prompt.arguments.filter(arg => arg.required).map(arg => arg.name)
+    }));
+
+    expect(listed).toEqual([
+      { name: 'encode_clinical_note', required: ['note'] },
+      { name: 'refine_phenotype', required: ['term_id'] },
+      { name: 'summarize_profile_by_organ_system', required: ['hpo_ids'] }
+    ]);
+  });
+});
+
+describe('HPOPromptHandlers.getPrompt', () => {
+  describe('encode_clinical_note', () => {
+    it('embeds the note and the live organ system branches', async () => {
+      const text = await promptText('encode_clinical_note', { note: '  Febrile seizures since 6 months.  ' });
+
+      expect(text).toContain('**Clinical note:**\nFebrile seizures since 6 months.\n\n');
+      expect(text).toContain(ORGAN_SYSTEMS);
+      expect(text).toContain('4. List findings the note explicitly rules out');
+    });
+
+    it('leaves out excluded findings when asked to', async () => {
+      expect(await promptText('encode_clinical_note', { note: 'Seizures', include_excluded: 'No' })).not.toContain('rules out');
+    });
+  });
+
+  describe('refine_phenotype', () => {
+    it('embeds the term and its children, with the clinical context', async () => {
+      const { description } = await prompts.getPrompt('refine_phenotype', { term_id: 'HP:0001250' });
+      const text = await promptText('refine_phenotype', { term_id: 'HP:0001250', clinical_context: 'Seizures only with fever' });
+
+      expect(description).toBe('Refine HP:0001250 into more specific child terms');
+      expect(text).toContain('**Current term:**\n**HPO Term: HP:0001250**\n**Name:** Seizure');
+      expect(text).toContain([
+        '**More specific child terms:**',
+        'Direct children of HP:0001250:',
+        '',
+        '• HP:0002069: Bilateral tonic-clonic seizure',
+        '• HP:0002373: Febrile seizure'
+      ].join('\n'));
+      expect(text).toContain('**Clinical context:**\nSeizures only with fever');
+    });
+
+    it('rejects a term that cannot be retrieved', async () => {
+      await expect(prompts.getPrompt('refine_phenotype', { term_id: 'HP:9999999' })).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message: expect.stringContaining('HPO term HP:9999999 not found')
+      });
+    });
+  });
+
+  describe('summarize_profile_by_organ_system', () => {
+    it('embeds each term of the profile, noting the ones that cannot be retrieved', async () => {
+      const { description } = await prompts.getPrompt('summarize_profile_by_organ_system', { hpo_ids: 'HP:0001250; HP:0001631' });
+      const text = await promptText('summarize_profile_by_organ_system', { hpo_ids: 'HP:0001250, HP:9999999' });
+
+      expect(description).toBe('Summarise a 2-term HPO profile by organ system');
+      expect(text).toContain(ORGAN_SYSTEMS);
+      expect(text).toContain('**HPO Term: HP:0001250**\n**Name:** Seizure');
+      expect(text).toContain('HP:9999999: could not be retrieved (Error retrieving HPO term HP:9999999');
+    });
+
+    it('limits the size of the profile', async () => {
+      const ids = Array.from({ length: 51 }, () => 'HP:0001250').join(',');
+
+      await expect(prompts.getPrompt('summarize_profile_by_organ_system', { hpo_ids: ids })).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message: expect.stringContaining('A profile can contain at most 50 terms')
+      });
+    });
+  });
+
+  it('requires the required arguments to be non-blank', async () => {
+    for (const [name, arg] of [['encode_clinical_note', 'note'], ['refine_phenotype', 'term_id'], ['summarize_profile_by_organ_system', 'hpo_ids']]) {
+      await expect(prompts.getPrompt(name, { [arg]: '  ' })).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message: expect.stringContaining(`Argument "${arg}" is required`)
+      });
+    }
+    await expect(prompts.getPrompt('refine_phenotype')).rejects.toThrow('Argument "term_id" is required');
+  });
+
+  it('rejects an unknown prompt', async () => {
+    await expect(prompts.getPrompt('diagnose')).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining('Unknown prompt: diagnose')
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { fileURLToPath } from 'node:url';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { describe, expect, it } from 'vitest';
+import { HPOHandlers } from '../../src/handlers/hpo-handlers.js';
+import { HPOResourceHandlers } from '../../src/handlers/resource-handlers.js';
+import { HPOBackend } from '../../src/types/hpo.js';
+import { failedResponse, UpstreamError } from '../../src/utils/errors.js';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-mini.obo', import.meta.url));
+
+const backend = new LocalOntologyClient(ONTOLOGY_FILE);
+const resources = new HPOResourceHandlers(backend, new HPOHandlers(backend));
+
+const text = async (uri: string) => (await resources.readResource(uri)).contents[0].text;
+
+describe('HPOResourceHandlers.listResources', () => {
+  it('lists every current term as a markdown resource', async () => {
+    const { resources: listed, nextCursor } = await resources.listResources();
+
+    expect(listed).toHaveLength(10);
+    expect(listed).toContainEqual({ uri: 'hpo://term/HP:0001250', name: 'HP:0001250: Seizure', mimeType: 'text/markdown' });
+    expect(listed.map(resource => resource.uri)).not.toContain('hpo://term/HP:0001251');
+    expect(nextCursor).toBeUndefined();
+  });
+
+  it('starts the page at the cursor offset', async () => {
+    const all = await resources.listResources();
+    const page = await resources.listResources('8');
+
+    expect(page.resources).toEqual(all.resources.slice(8));
+  });
+
+  it('rejects a cursor that is not an offset', async () => {
+    for (const cursor of ['-1', 'abc', '1.5']) {
+      await expect(resources.listResources(cursor)).rejects.toMatchObject({ code: ErrorCode.InvalidParams, message: expect.stringContaining(`Invalid cursor: ${cursor}`) });
+    }
+  });
+
+  it('reports a failing backend as an internal error', async () => {
+    const failing = {
+      getAllTerms: async () => failedResponse(new UpstreamError('HPO API returned 502', { status: 502 }))
+    } as unknown as HPOBackend;
+    const handlers = new HPOResourceHandlers(failing, new HPOHandlers(failing));
+
+    await expect(handlers.listResources()).rejects.toMatchObject({
+      code: ErrorCode.InternalError,
+      message: expect.stringContaining('Error listing HPO terms: HPO API returned 502'),
+      data: { category: 'upstream', status: 502 }
+    });
+  });
+});
+
+describe('HPOResourceHandlers.listResourceTemplates', () => {
+  it('offers the term document and both hierarchy views', () => {
+    expect(resources.listResourceTemplates().resourceTemplates.map(template => template.uriTemplate)).toEqual([
+      'hpo://term/{id}',
+      'hpo://term/{id}/ancestors',
+      'hpo://term/{id}/descendants'
+    ]);
+  });
+});
+
+describe('HPOResourceHandlers.readResource', () => {
+  it('renders the term document under the requested URI', async () => {
+    const result = await resources.readResource('hpo://term/HP:0001250');
+
+    expect(result.contents).toEqual([{ uri: 'hpo://term/HP:0001250', mimeType: 'text/markdown', text: expect.any(String) }]);
+    expect(result.contents[0].text).toContain('**Name:** Seizure');
+    expect(result.contents[0].text).toContain('**Alternative IDs:** HP:0002279');
+    expect(result.contents[0].text).toContain('• HP:0002373: Febrile seizure');
+  });
+
+  it('accepts percent-encoded and short IDs', async () => {
+    expect(await text('hpo://term/HP%3A0001250')).toContain('**HPO Term: HP:0001250**');
+    expect(await text('hpo://term/1250')).toContain('**HPO Term: HP:0001250**');
+  });
+
+  it('lists the ancestors and descendants of a term', async () => {
+    expect(await text('hpo://term/HP:0001250/ancestors')).toBe([
+      '**Ancestors of HP:0001250: Seizure** (3 terms)',
+      '',
+      '• HP:0000707: Abnormality of the nervous system',
+      '• HP:0000118: Phenotypic abnormality',
+      '• HP:0000001: All'
+    ].join('\n'));
+    expect(await text('hpo://term/HP:0001250/descendants')).toBe([
+      '**Descendants of HP:0001250: Seizure** (2 terms)',
+      '',
+      '• HP:0002069: Bilateral tonic-clonic seizure',
+      '• HP:0002373: Febrile seizure'
+    ].join('\n'));
+    expect(await text('hpo://term/HP:0001631/descendants')).toBe('**Descendants of HP:0001631: Atrial septal defect** (0 terms)\n\nNo descendants found');
+  });
+
+  it('maps unknown terms and malformed IDs to invalid params with their category', async () => {
+    for (const uri of ['hpo://term/HP:9999999', 'hpo://term/HP:9999999/ancestors']) {
+      await expect(resources.readResource(uri)).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message: expect.stringContaining('HPO term HP:9999999 not found'),
+        data: { category: 'not_found', status: 404 }
+      });
+    }
+    await expect(resources.readResource('hpo://term/seizure')).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      data: { category: 'invalid_id', status: 400 }
+    });
+  });
+
+  it('rejects URIs outside the term templates', async () => {
+    for (const uri of ['hpo://x', 'hpo://term/HP:0001250/children', 'https://hpo.jax.org/term/HP:0001250']) {
+      const error = await resources.readResource(uri).catch(e => e);
+
+      expect(error).toBeInstanceOf(McpError);
+      expect(error).toMatchObject({ code: ErrorCode.InvalidParams, message: expect.stringContaining(`Unknown resource URI: ${uri}`) });
+    }
+  });
+});
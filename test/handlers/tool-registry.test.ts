@@ -0,0 +1,178 @@
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { HPOHandlers } from '../../src/handlers/hpo-handlers.js';
+import { HPOToolRegistry, TOOL_DEFINITIONS } from '../../src/handlers/tool-registry.js';
+import type {
+  BatchOutput,
+  DiseaseRankingOutput,
+  DiseaseTermsOutput,
+  ErrorOutput,
+  HierarchyOutput,
+  SearchOutput,
+  TermOutput,
+  TermPathOutput
+} from '../../src/types/output.js';
+import { AnnotationStore } from '../../src/utils/annotations.js';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+import { validateArguments } from '../../src/utils/schema.js';
+
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-mini.obo', import.meta.url));
+const HPOA_FILE = fileURLToPath(new URL('../fixtures/phenotype-mini.hpoa', import.meta.url));
+
+describe('tool input schemas', () => {
+  it('rejects oversized profiles before any similarity is computed', () => {
+    const compare = TOOL_DEFINITIONS.find(tool => tool.name === 'compare_hpo_profiles')!;
+    const profile = Array.from({ length: 201 }, (_, i) => `HP:${String(i).padStart(7, '0')}`);
+
+    expect(() => validateArguments(compare.inputSchema, { profile1: profile, profile2: ['HP:0001250'] }))
+      .toThrow('profile1 must contain at most 200 items (got 201)');
+  });
+});
+
+describe('JSON output', () => {
+  const registry = new HPOToolRegistry(new HPOHandlers(
+    new LocalOntologyClient(ONTOLOGY_FILE),
+    new AnnotationStore({ hpoaFile: HPOA_FILE })
+  ));
+
+  /**
+   * Call a tool with output_format "json" and parse its single text block
+   */
+  async function callJson<T>(name: string, args: Record<string, unknown>, isError?: true): Promise<T> {
+    const result = await registry.callTool(name, { ...args, output_format: 'json' });
+
+    expect(result.isError).toBe(isError);
+    expect(result.content).toHaveLength(1);
+    return JSON.parse(result.content[0].text) as T;
+  }
+
+  const SEIZURE = { id: 'HP:0001250', name: 'Seizure' };
+  const FEBRILE_SEIZURE = { id: 'HP:0002373', name: 'Febrile seizure' };
+  const BILATERAL_SEIZURE = { id: 'HP:0002069', name: 'Bilateral tonic-clonic seizure' };
+
+  it('get_hpo_term returns the full term', async () => {
+    const output = await callJson<TermOutput>('get_hpo_term', { id: 'HP:0001250' });
+
+    expect(output).toEqual({
+      term: {
+        ...SEIZURE,
+        synonyms: ['Epileptic seizure', 'Seizures'],
+        xrefs: ['MSH:D012640', 'SNOMEDCT_US:91175000', 'UMLS:C0036572'],
+        alternativeIds: ['HP:0002279'],
+        isObsolete: false,
+        consider: [],
+        subset: [],
+        parents: [{ id: 'HP:0000707', name: 'Abnormality of the nervous system' }],
+        children: [BILATERAL_SEIZURE, FEBRILE_SEIZURE]
+      }
+    });
+  });
+
+  it('search_hpo_terms returns scored terms with pagination', async () => {
+    const output = await callJson<SearchOutput>('search_hpo_terms', { query: 'seizure', max: 2 });
+
+    expect(output.query).toBe('seizure');
+    expect(output.terms).toHaveLength(2);
+    expect(output.terms[0]).toEqual({ ...SEIZURE, synonyms: ['Epileptic seizure', 'Seizures'], score: expect.any(Number) });
+    expect(output.terms[0].score).toBeGreaterThan(output.terms[1].score!);
+    expect(output.pagination).toEqual({ page: 1, size: 2, totalResults: 3, hasMore: true });
+  });
+
+  it('get_hpo_children names the relation and pages the terms', async () => {
+    const output = await callJson<HierarchyOutput>('get_hpo_children', { id: '1250' });
+
+    expect(output).toEqual({
+      id: 'HP:0001250',
+      relation: 'children',
+      terms: [BILATERAL_SEIZURE, FEBRILE_SEIZURE],
+      pagination: { page: 1, size: 20, totalResults: 2, hasMore: false }
+    });
+  });
+
+  it('get_hpo_term_path lists the paths from the root with their depths', async () => {
+    const output = await callJson<TermPathOutput>('get_hpo_term_path', { id: 'HP:0002373' });
+
+    expect(output).toEqual({
+      term: FEBRILE_SEIZURE,
+      paths: [[
+        { id: 'HP:0000001', name: 'All' },
+        { id: 'HP:0000118', name: 'Phenotypic abnormality' },
+        { id: 'HP:0000707', name: 'Abnormality of the nervous system' },
+        SEIZURE,
+        FEBRILE_SEIZURE
+      ]],
+      pathCount: 1,
+      truncated: false,
+      minDepth: 4,
+      maxDepth: 4
+    });
+  });
+
+  it('batch_get_hpo_terms separates the terms found from the failed ones', async () => {
+    const output = await callJson<BatchOutput>('batch_get_hpo_terms', { ids: ['HP:0001250', 'HP:9999999'] });
+
+    expect(output.requested).toBe(2);
+    expect(output.terms.map(term => term.id)).toEqual(['HP:0001250']);
+    expect(output.failed).toEqual([{ id: 'HP:9999999', error: expect.stringContaining('HP:9999999 not found') }]);
+  });
+
+  it('rank_diseases_by_phenotype explains the ranking and lists unresolved terms', async () => {
+    const output = await callJson<DiseaseRankingOutput>('rank_diseases_by_phenotype', {
+      hpo_ids: ['HP:0002373', 'HP:9999999'],
+      max_results: 1
+    });
+
+    expect(output).toMatchObject({ icSource: 'annotations', diseasesScored: 4 });
+    expect(output.results).toEqual([{
+      rank: 1,
+      diseaseId: 'OMIM:121210',
+      diseaseName: 'Febrile seizures, familial, 1',
+      score: expect.any(Number),
+      matchScore: expect.any(Number),
+      exclusionPenalty: 0,
+      matches: [{ patientTerm: FEBRILE_SEIZURE, diseaseTerm: FEBRILE_SEIZURE, mica: FEBRILE_SEIZURE, score: expect.any(Number) }],
+      contradictions: []
+    }]);
+    expect(output.unresolved).toEqual([{ id: 'HP:9999999', error: expect.stringContaining('not found') }]);
+  });
+
+  it('get_disease_hpo_terms returns null for a disease without annotations', async () => {
+    const annotated = await callJson<DiseaseTermsOutput>('get_disease_hpo_terms', { disease_id: 'OMIM:108800' });
+    const missing = await callJson<DiseaseTermsOutput>('get_disease_hpo_terms', { disease_id: 'OMIM:999999' });
+
+    expect(annotated.disease).toEqual({ id: 'OMIM:108800', name: 'Atrial septal defect 1' });
+    expect(annotated.annotations).toEqual([expect.objectContaining({ hpoId: 'HP:0001631', hpoName: 'Atrial septal defect', aspect: 'P', negated: false })]);
+    expect(missing).toEqual({ disease: null, annotations: [] });
+  });
+
+  describe('errors', () => {
+    it('report the category and status of a typed failure', async () => {
+      expect(await callJson<ErrorOutput>('get_hpo_term', { id: 'HP:9999999' }, true)).toEqual({
+        error: {
+          message: 'Error retrieving HPO term HP:9999999: HPO term HP:9999999 not found in local ontology',
+          category: 'not_found',
+          status: 404
+        }
+      });
+      expect(await callJson<ErrorOutput>('get_hpo_term', { id: 'seizure' }, true)).toEqual({
+        error: {
+          message: expect.stringContaining('Invalid HPO ID format "seizure"'),
+          category: 'invalid_id',
+          status: 400
+        }
+      });
+    });
+
+    it('carry only the message when the cause is not typed', async () => {
+      const output = await callJson<ErrorOutput>('get_hpo_term_genes', { id: 'HP:0001631' }, true);
+
+      expect(output).toEqual({ error: { message: expect.stringContaining('set HPO_GENES_TO_PHENOTYPE_FILE') } });
+    });
+  });
+
+  it('is markdown unless JSON is requested', async () => {
+    const result = await registry.callTool('get_hpo_term', { id: 'HP:0001250' });
+
+    expect(result.content[0].text).toMatch(/^\*\*HPO Term: HP:0001250\*\*/);
+  });
+});
@@ -0,0 +1,121 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AnnotationStore, readAnnotationConfig } from '../../src/utils/annotations.js';
+
+const HPOA_FILE = fileURLToPath(new URL('../fixtures/phenotype-mini.hpoa', import.meta.url));
+const GENES_FILE = fileURLToPath(new URL('../fixtures/genes_to_phenotype-mini.txt', import.meta.url));
+
+describe('readAnnotationConfig', () => {
+  it('reads the file paths from the environment, ignoring blank values', () => {
+    expect(readAnnotationConfig({ HPO_HPOA_FILE: ' /data/phenotype.hpoa ', HPO_GENES_TO_PHENOTYPE_FILE: ' ' })).toEqual({
+      hpoaFile: '/data/phenotype.hpoa',
+      genesFile: undefined
+    });
+  });
+});
+
+describe('AnnotationStore disease annotations', () => {
+  const store = new AnnotationStore({ hpoaFile: HPOA_FILE });
+
+  it('groups annotations by disease and reads the file version', async () => {
+    expect(await store.loadDiseaseSummary()).toEqual({ diseases: 4, version: '2024-04-26' });
+    expect((await store.getDiseases()).map(disease => disease.id)).toEqual(['OMIM:607208', 'OMIM:108800', 'OMIM:121210', 'ORPHA:3451']);
+  });
+
+  it('reads every column of an annotation', async () => {
+    const dravet = await store.getDisease('OMIM:607208');
+
+    expect(dravet?.name).toBe('Dravet syndrome');
+    expect(dravet?.annotations).toHaveLength(5);
+    expect(dravet?.annotations.find(a => a.hpoId === 'HP:0001249')).toEqual({
+      diseaseId: 'OMIM:607208',
+      diseaseName: 'Dravet syndrome',
+      hpoId: 'HP:0001249',
+      negated: false,
+      reference: 'PMID:12345678',
+      evidence: 'PCS',
+      onset: undefined,
+      frequency: '3/5',
+      sex: undefined,
+      modifiers: ['HP:0031796', 'HP:0012828'],
+      aspect: 'P'
+    });
+    expect(dravet?.annotations.find(a => a.hpoId === 'HP:0001631')?.negated).toBe(true);
+    expect(dravet?.annotations.find(a => a.hpoId === 'HP:0000006')?.aspect).toBe('I');
+  });
+
+  it('normalises disease ID spellings', async () => {
+    expect((await store.getDisease(' omim:108800 '))?.name).toBe('Atrial septal defect 1');
+    expect((await store.getDisease('ORPHANET:3451'))?.name).toBe('West syndrome');
+    expect(await store.getDisease('OMIM:999999')).toBeUndefined();
+  });
+
+  it('finds the annotations made directly to terms', async () => {
+    const annotations = await store.getDiseaseAnnotationsForTerms(['HP:0002373', 'HP:0001250']);
+
+    expect(annotations.map(a => `${a.diseaseId} ${a.hpoId}`)).toEqual([
+      'OMIM:607208 HP:0002373',
+      'OMIM:121210 HP:0002373',
+      'ORPHA:3451 HP:0001250'
+    ]);
+  });
+
+  it('explains how to configure a missing file', async () => {
+    const unconfigured = new AnnotationStore();
+
+    expect(unconfigured.hasDiseaseAnnotations()).toBe(false);
+    await expect(unconfigured.getDiseases()).rejects.toThrow('set HPO_HPOA_FILE');
+  });
+});
+
+describe('AnnotationStore gene annotations', () => {
+  const store = new AnnotationStore({ genesFile: GENES_FILE });
+
+  it('looks genes up by symbol, in any case, or by NCBI gene ID', async () => {
+    expect(await store.loadGeneSummary()).toEqual({ genes: 3 });
+    expect((await store.getGene('scn1a'))?.id).toBe('NCBIGene:6323');
+    expect((await store.getGene('6323'))?.symbol).toBe('SCN1A');
+    expect((await store.getGene('NCBIGene:4863'))?.symbol).toBe('NKX2-5');
+    expect(await store.getGene('BRCA1')).toBeUndefined();
+  });
+
+  it('reads the annotation columns, treating "-" as missing', async () => {
+    const annotations = await store.getGeneAnnotationsForTerms(['HP:0001631']);
+
+    expect(annotations).toEqual([
+      { geneId: 'NCBIGene:4863', geneSymbol: 'NKX2-5', hpoId: 'HP:0001631', hpoName: 'Atrial septal defect', frequency: 'HP:0040280', diseaseId: 'OMIM:108800' },
+      { geneId: 'NCBIGene:8516', geneSymbol: 'ITGA8', hpoId: 'HP:0001631', hpoName: 'Atrial septal defect', frequency: undefined, diseaseId: 'ORPHA:99' }
+    ]);
+  });
+
+  describe('legacy format', () => {
+    let directory: string;
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('reads the "#Format:" layout of older releases', async () => {
+      directory = await mkdtemp(join(tmpdir(), 'hpo-annotations-'));
+      const file = join(directory, 'genes_to_phenotype.txt');
+      await writeFile(file, [
+        '#Format: entrez-gene-id<tab>entrez-gene-symbol<tab>HPO-Term-ID<tab>HPO-Term-Name<tab>Frequency-Raw<tab>Frequency-HPO<tab>Additional Info from G-D source<tab>G-D source<tab>disease-ID for link',
+        ['6323', 'SCN1A', 'HP:0002373', 'Febrile seizure', '-', 'HP:0040281', '-', 'mim2gene', 'OMIM:607208'].join('\t')
+      ].join('\n'));
+
+      const legacy = new AnnotationStore({ genesFile: file });
+
+      expect(await legacy.getGeneAnnotationsForTerms(['HP:0002373'])).toEqual([{
+        geneId: 'NCBIGene:6323',
+        geneSymbol: 'SCN1A',
+        hpoId: 'HP:0002373',
+        hpoName: 'Febrile seizure',
+        frequency: 'HP:0040281',
+        diseaseId: 'OMIM:607208'
+      }]);
+    });
+  });
+});
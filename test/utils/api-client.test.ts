@@ -0,0 +1,261 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AxiosError, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { HPOApiClient, describeError } from '../../src/utils/api-client.js';
+import { DEFAULT_API_CONFIG } from '../../src/utils/config.js';
+import {
+  InvalidIdError,
+  InvalidParamsError,
+  NotFoundError,
+  RateLimitedError,
+  TimeoutError,
+  UpstreamError
+} from '../../src/utils/errors.js';
+
+interface Reply {
+  status: number;
+  headers?: Record<string, string>;
+}
+
+describe('HPOApiClient retries', () => {
+  // Replies for the next requests, in order; afterwards the term is returned
+  let replies: Reply[] = [];
+  let received: number[] = [];
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      received.push(Date.now());
+      const reply = replies.shift() ?? { status: 200 };
+      response.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+      response.end(JSON.stringify(reply.status === 200 ? { id: 'HP:0001250', name: 'Seizure' } : { message: `status ${reply.status}` }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/hp`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    replies = [];
+    received = [];
+  });
+
+  const client = (overrides: Partial<typeof DEFAULT_API_CONFIG> = {}) => new HPOApiClient({
+    ...DEFAULT_API_CONFIG,
+    baseUrl,
+    releaseUrl: undefined,
+    retryBaseDelayMs: 1,
+    retryMaxDelayMs: 5,
+    ...overrides
+  });
+
+  it('retries transient failures with backoff until a request succeeds', async () => {
+    replies = [{ status: 503 }, { status: 502 }];
+    const api = client();
+
+    const result = await api.getTerm('HP:0001250');
+
+    expect(result.data?.name).toBe('Seizure');
+    expect(api.getConnectionStatus()).toMatchObject({ requests: 3, retries: 2, failures: 0 });
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    replies = [{ status: 503 }, { status: 503 }, { status: 503 }];
+    const api = client({ maxRetries: 2 });
+
+    const result = await api.getTerm('HP:0001250');
+
+    expect(result.failure).toBeInstanceOf(UpstreamError);
+    expect(result.status).toBe(503);
+    expect(api.getConnectionStatus()).toMatchObject({ requests: 3, retries: 2, failures: 1 });
+  });
+
+  it('does not retry errors that will not go away', async () => {
+    replies = [{ status: 404 }];
+    const api = client();
+
+    const result = await api.getTerm('HP:0001250');
+
+    expect(result.failure).toBeInstanceOf(NotFoundError);
+    expect(api.getConnectionStatus()).toMatchObject({ requests: 1, retries: 0 });
+  });
+
+  it('waits at least as long as Retry-After asks', async () => {
+    replies = [{ status: 429, headers: { 'Retry-After': '1' } }];
+    const api = client({ retryBaseDelayMs: 0, retryMaxDelayMs: 0 });
+
+    const result = await api.getTerm('HP:0001250');
+
+    expect(result.data?.name).toBe('Seizure');
+    expect(received).toHaveLength(2);
+    expect(received[1] - received[0]).toBeGreaterThanOrEqual(950);
+  });
+
+  it('pauses every request after a 429 with Retry-After', async () => {
+    replies = [{ status: 429, headers: { 'Retry-After': '1' } }];
+    const api = client({ retryBaseDelayMs: 0, retryMaxDelayMs: 0 });
+
+    const first = api.getTerm('HP:0001250');
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(api.getConnectionStatus().rateLimit?.pausedUntil).toBeDefined();
+    const started = Date.now();
+    await api.getTerm('HP:0001250');
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(800);
+    await first;
+  });
+
+  it('fails immediately when Retry-After is longer than it is worth waiting', async () => {
+    replies = [{ status: 429, headers: { 'Retry-After': '120' } }];
+    const api = client();
+
+    const result = await api.getTerm('HP:0001250');
+
+    expect(result.failure).toBeInstanceOf(RateLimitedError);
+    expect(result.failure?.retryAfterMs).toBe(120000);
+    expect(received).toHaveLength(1);
+  });
+
+  it('fails fast once the circuit breaker opens', async () => {
+    replies = [{ status: 503 }, { status: 503 }];
+    const api = client({ maxRetries: 0, circuitBreakerThreshold: 2 });
+
+    await api.getTerm('HP:0001250');
+    await api.getTerm('HP:0001250');
+    const result = await api.getTerm('HP:0001250');
+
+    expect(result.error).toMatch(/HPO API is unavailable: 2 consecutive requests failed/);
+    expect(received).toHaveLength(2);
+    expect(api.getConnectionStatus()).toMatchObject({ rejected: 1, circuit: { state: 'open' } });
+  });
+});
+
+describe('HPOApiClient connection failures', () => {
+  const client = (baseUrl: string, timeoutMs = DEFAULT_API_CONFIG.timeoutMs) => new HPOApiClient({
+    ...DEFAULT_API_CONFIG,
+    baseUrl,
+    releaseUrl: undefined,
+    timeoutMs,
+    maxRetries: 0
+  });
+
+  it('reports a refused connection as an unavailable upstream', async () => {
+    // Take a free port and close it again, so nothing is listening there
+    const closed = http.createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise(resolve => closed.close(resolve));
+
+    const result = await client(`http://127.0.0.1:${port}/api/hp`).getTerm('HP:0001250');
+
+    expect(result.failure).toBeInstanceOf(UpstreamError);
+    expect(result.status).toBe(503);
+    expect(result.error).toMatch(/not responding/);
+  });
+
+  it('reports a request that outlasts the timeout as a timeout', async () => {
+    const silent = http.createServer(() => {});
+    await new Promise<void>(resolve => silent.listen(0, '127.0.0.1', resolve));
+    const port = (silent.address() as AddressInfo).port;
+
+    try {
+      const result = await client(`http://127.0.0.1:${port}/api/hp`, 50).getTerm('HP:0001250');
+
+      expect(result.failure).toBeInstanceOf(TimeoutError);
+      expect(result.status).toBe(504);
+      expect(result.error).toBe('HPO API did not respond within 50 ms');
+    } finally {
+      silent.closeAllConnections();
+      silent.close();
+    }
+  });
+
+  it('rejects a malformed ID before any request is made', async () => {
+    const result = await client('http://127.0.0.1:9/api/hp').getTerm('seizure');
+
+    expect(result.failure).toBeInstanceOf(InvalidIdError);
+    expect(result.status).toBe(400);
+  });
+});
+
+describe('describeError', () => {
+  const config = { headers: new AxiosHeaders(), timeout: 1000 } as InternalAxiosRequestConfig;
+
+  const httpError = (status: number, data: unknown = {}) => new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, {}, {
+    status,
+    statusText: '',
+    data,
+    headers: {},
+    config
+  });
+
+  it('maps a 404 to not_found', () => {
+    const error = describeError(httpError(404, { message: 'Term not found' }));
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toMatchObject({ category: 'not_found', status: 404, message: 'HPO API Error (404): Term not found' });
+  });
+
+  it('maps 400 and 422 to invalid_params, keeping the status', () => {
+    expect(describeError(httpError(400))).toMatchObject({ category: 'invalid_params', status: 400 });
+    expect(describeError(httpError(422))).toBeInstanceOf(InvalidParamsError);
+    expect(describeError(httpError(422)).status).toBe(422);
+  });
+
+  it('maps a 429 to rate_limited with the requested wait', () => {
+    const error = describeError(httpError(429), 30000);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error).toMatchObject({ category: 'rate_limited', status: 429, retryAfterMs: 30000 });
+  });
+
+  it('maps 408 and 504 responses to timeout', () => {
+    expect(describeError(httpError(408))).toMatchObject({ category: 'timeout', status: 408 });
+    expect(describeError(httpError(504))).toBeInstanceOf(TimeoutError);
+  });
+
+  it('maps other error statuses to upstream, falling back to the axios message when the body has none', () => {
+    const error = describeError(httpError(500, 'Internal Server Error'));
+
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(error).toMatchObject({ category: 'upstream', status: 500, message: 'HPO API Error (500): Request failed with status code 500' });
+    expect(describeError(httpError(503))).toMatchObject({ category: 'upstream', status: 503 });
+  });
+
+  it('maps aborted and timed-out requests to timeout', () => {
+    for (const code of [AxiosError.ECONNABORTED, AxiosError.ETIMEDOUT]) {
+      const error = describeError(new AxiosError('timeout of 1000ms exceeded', code, config, {}));
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error).toMatchObject({ status: 504, message: 'HPO API did not respond within 1000 ms' });
+    }
+  });
+
+  it('maps a request without a response to an unavailable upstream', () => {
+    const error = describeError(new AxiosError('connect ECONNREFUSED 127.0.0.1:9', 'ECONNREFUSED', config, {}));
+
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(error.status).toBe(503);
+  });
+
+  it('maps errors raised before sending, and non-axios errors, to upstream 500', () => {
+    expect(describeError(new AxiosError('Invalid URL', AxiosError.ERR_INVALID_URL, config))).toMatchObject({
+      category: 'upstream',
+      status: 500,
+      message: 'Request error: Invalid URL'
+    });
+    expect(describeError(new Error('boom'))).toMatchObject({ category: 'upstream', status: 500, message: 'boom' });
+    expect(describeError('boom')).toMatchObject({ category: 'upstream', status: 500, message: 'boom' });
+  });
+
+  it('passes typed errors through unchanged', () => {
+    const error = new NotFoundError('Term HP:9999999 not found');
+
+    expect(describeError(error)).toBe(error);
+  });
+});
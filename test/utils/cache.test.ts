@@ -0,0 +1,248 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { CacheConfig, CachedBackend, readCacheConfig } from '../../src/utils/cache.js';
+import { HPOApiClient } from '../../src/utils/api-client.js';
+import { DEFAULT_API_CONFIG } from '../../src/utils/config.js';
+import { ApiResponse, HPOBackend, OntologyTerm, SearchResult, SimpleOntologyTerm } from '../../src/types/hpo.js';
+
+const noTerms = (): ApiResponse<SimpleOntologyTerm[]> => ({ data: [], status: 200 });
+
+/**
+ * Backend that counts getTerm calls and reports whatever release the test sets
+ */
+class FakeBackend implements HPOBackend {
+  release?: string = '2024-04-26';
+  termCalls = 0;
+
+  async getTerm(id: string): Promise<ApiResponse<OntologyTerm>> {
+    this.termCalls++;
+    return { data: { id, name: `${id} (${this.release})` }, status: 200 };
+  }
+
+  async getVersion(): Promise<string | undefined> {
+    return this.release;
+  }
+
+  searchTerms = async (): Promise<ApiResponse<SearchResult>> => ({ data: { terms: [], totalResults: 0 }, status: 200 });
+  getAllTerms = async () => noTerms();
+  getAncestors = async () => noTerms();
+  getParents = async () => noTerms();
+  getChildren = async () => noTerms();
+  getDescendants = async () => noTerms();
+  formatHPOId = (id: string) => id;
+  isValidHPOId = () => true;
+}
+
+const config = (overrides: Partial<CacheConfig> = {}): CacheConfig => ({ ...readCacheConfig({}), ...overrides });
+
+describe('readCacheConfig', () => {
+  it('caches by default unless the backend opts out', () => {
+    expect(readCacheConfig({}).enabled).toBe(true);
+    expect(readCacheConfig({}, false).enabled).toBe(false);
+    expect(readCacheConfig({ HPO_CACHE: 'on' }, false).enabled).toBe(true);
+    expect(readCacheConfig({ HPO_CACHE: 'off' }).enabled).toBe(false);
+  });
+
+  it('rejects other HPO_CACHE values', () => {
+    expect(() => readCacheConfig({ HPO_CACHE: 'yes' })).toThrow('Invalid HPO_CACHE "yes"');
+  });
+});
+
+describe('CachedBackend', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'hpo-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('serves repeated calls from the cache', async () => {
+    const backend = new FakeBackend();
+    const cache = new CachedBackend(backend, config());
+
+    await cache.getTerm('HP:0001250');
+    await cache.getTerm('HP:0001250');
+
+    expect(backend.termCalls).toBe(1);
+    expect(cache.getStats()).toMatchObject({ entries: 1, hits: 1, misses: 1, shared: 0, release: '2024-04-26' });
+  });
+
+  it('counts calls that join an in-flight request as shared, not as hits', async () => {
+    const backend = new FakeBackend();
+    const cache = new CachedBackend(backend, config());
+
+    await Promise.all([cache.getTerm('HP:0001250'), cache.getTerm('HP:0001250'), cache.getTerm('HP:0001250')]);
+
+    expect(backend.termCalls).toBe(1);
+    expect(cache.getStats()).toMatchObject({ hits: 0, misses: 1, shared: 2 });
+    expect(cache.getStats().endpoints.term).toMatchObject({ hits: 0, misses: 1, shared: 2 });
+  });
+
+  it('discards cached entries when the release changes', async () => {
+    const backend = new FakeBackend();
+    const cache = new CachedBackend(backend, config());
+    await cache.getTerm('HP:0001250');
+
+    backend.release = '2024-08-13';
+    const result = await cache.getTerm('HP:0001250');
+
+    expect(backend.termCalls).toBe(2);
+    expect(result.data?.name).toBe('HP:0001250 (2024-08-13)');
+    expect(cache.getStats()).toMatchObject({ entries: 1, release: '2024-08-13' });
+  });
+
+  it('keeps cached entries while the release is unknown', async () => {
+    const backend = new FakeBackend();
+    const cache = new CachedBackend(backend, config());
+    await cache.getTerm('HP:0001250');
+
+    backend.release = undefined;
+    await cache.getTerm('HP:0001250');
+
+    expect(backend.termCalls).toBe(1);
+    expect(cache.getStats().release).toBe('2024-04-26');
+  });
+
+  it('discards a persisted cache written for an older release', async () => {
+    const file = join(directory, 'cache.jsonl');
+    const backend = new FakeBackend();
+    await new CachedBackend(backend, config({ file })).getTerm('HP:0001250');
+
+    // Same release: the persisted entry is reused
+    await new CachedBackend(backend, config({ file })).getTerm('HP:0001250');
+    expect(backend.termCalls).toBe(1);
+
+    backend.release = '2024-08-13';
+    await new CachedBackend(backend, config({ file })).getTerm('HP:0001250');
+    expect(backend.termCalls).toBe(2);
+
+    const [header, ...lines] = (await readFile(file, 'utf-8')).trim().split('\n');
+    expect(JSON.parse(header).release).toBe('2024-08-13');
+    expect(lines.map(line => JSON.parse(line).value.data.name)).toEqual(['HP:0001250 (2024-08-13)']);
+  });
+
+  it('discards persisted entries when the release changes while running', async () => {
+    const file = join(directory, 'cache.jsonl');
+    const backend = new FakeBackend();
+    const cache = new CachedBackend(backend, config({ file }));
+    await cache.getTerm('HP:0001250');
+    await cache.getTerm('HP:0000118');
+
+    backend.release = '2024-08-13';
+    await cache.checkRelease();
+
+    expect(cache.getStats().entries).toBe(0);
+    const [header, ...lines] = (await readFile(file, 'utf-8')).trim().split('\n');
+    expect(JSON.parse(header).release).toBe('2024-08-13');
+    expect(lines).toEqual([]);
+  });
+
+  it('compacts the persisted file once evicted lines pile up', async () => {
+    const file = join(directory, 'cache.jsonl');
+    const backend = new FakeBackend();
+    const cache = new CachedBackend(backend, config({ file, maxEntries: 10 }));
+
+    for (let i = 0; i < 1500; i++) {
+      await cache.getTerm(`HP:${String(i).padStart(7, '0')}`);
+    }
+
+    // Header, at most 1000 dead lines and the 10 live entries
+    const lines = (await readFile(file, 'utf-8')).trim().split('\n');
+    expect(lines.length).toBeLessThanOrEqual(1 + 1000 + 10);
+    expect(lines.length).toBeLessThan(1500);
+
+    const reloaded = new CachedBackend(backend, config({ file, maxEntries: 10 }));
+    await reloaded.getTerm('HP:0001499');
+    expect(reloaded.getStats()).toMatchObject({ entries: 10, hits: 1 });
+  });
+});
+
+describe('HPOApiClient.getVersion', () => {
+  let tag = 'v2024-04-26';
+  let releaseAvailable = true;
+  let releaseRequests = 0;
+  let termRequests = 0;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      response.setHeader('Content-Type', 'application/json');
+      if (request.url === '/releases/latest') {
+        releaseRequests++;
+        response.statusCode = releaseAvailable ? 200 : 503;
+        response.end(JSON.stringify({ tag_name: tag }));
+      } else {
+        termRequests++;
+        response.end(JSON.stringify({ id: 'HP:0001250', name: `Seizure ${termRequests}` }));
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    tag = 'v2024-04-26';
+    releaseAvailable = true;
+    releaseRequests = 0;
+    termRequests = 0;
+  });
+
+  const client = (overrides: Partial<typeof DEFAULT_API_CONFIG> = {}) => new HPOApiClient({
+    ...DEFAULT_API_CONFIG,
+    baseUrl: `${baseUrl}/api/hp`,
+    releaseUrl: `${baseUrl}/releases/latest`,
+    maxRetries: 0,
+    ...overrides
+  });
+
+  it('reads the release from the release tag and looks it up once per interval', async () => {
+    const api = client();
+
+    expect(await Promise.all([api.getVersion(), api.getVersion()])).toEqual(['2024-04-26', '2024-04-26']);
+    tag = 'v2024-08-13';
+    expect(await api.getVersion()).toBe('2024-04-26');
+    expect(releaseRequests).toBe(1);
+  });
+
+  it('keeps the last known release when the lookup fails', async () => {
+    const api = client({ releaseCheckIntervalMs: 1 });
+    expect(await api.getVersion()).toBe('2024-04-26');
+
+    releaseAvailable = false;
+    tag = 'v2024-08-13';
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    expect(await api.getVersion()).toBe('2024-04-26');
+    expect(releaseRequests).toBe(2);
+  });
+
+  it('reports no release when the lookup is disabled', async () => {
+    expect(await client({ releaseUrl: undefined }).getVersion()).toBeUndefined();
+    expect(releaseRequests).toBe(0);
+  });
+
+  it('lets the cache discard API responses from an older release', async () => {
+    const cache = new CachedBackend(client({ releaseCheckIntervalMs: 1 }), config());
+    expect((await cache.getTerm('HP:0001250')).data?.name).toBe('Seizure 1');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect((await cache.getTerm('HP:0001250')).data?.name).toBe('Seizure 1');
+
+    tag = 'v2024-08-13';
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    expect((await cache.getTerm('HP:0001250')).data?.name).toBe('Seizure 2');
+    expect(cache.getStats().release).toBe('2024-08-13');
+  });
+});
@@ -0,0 +1,123 @@
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { AnnotationStore } from '../../src/utils/annotations.js';
+import { DiseaseRanker } from '../../src/utils/disease-ranking.js';
+import { InformationContent } from '../../src/utils/information-content.js';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-mini.obo', import.meta.url));
+const HPOA_FILE = fileURLToPath(new URL('../fixtures/phenotype-mini.hpoa', import.meta.url));
+
+// Descendant-based IC in the fixture, which has 9 terms below the root
+const IC = {
+  phenotypicAbnormality: Math.log(10 / 9),
+  nervousSystem: Math.log(10 / 5),
+  seizure: Math.log(10 / 3),
+  leaf: Math.log(10)
+};
+
+const FEBRILE_SEIZURE = 'HP:0002373';
+const INTELLECTUAL_DISABILITY = 'HP:0001249';
+
+function ranker() {
+  const annotations = new AnnotationStore({ hpoaFile: HPOA_FILE });
+  const ic = new InformationContent(new LocalOntologyClient(ONTOLOGY_FILE));
+  ic.setAnnotationSource(async () =>
+    (await annotations.getDiseases()).map(disease =>
+      disease.annotations.filter(a => !a.negated && a.aspect === 'P').map(a => a.hpoId)
+    )
+  );
+  return new DiseaseRanker(ic, annotations);
+}
+
+describe('DiseaseRanker', () => {
+  const diseases = ranker();
+
+  it('ranks diseases by the average best match of the observed terms', async () => {
+    const ranking = await diseases.rank([FEBRILE_SEIZURE, INTELLECTUAL_DISABILITY], [], { icSource: 'descendants' });
+
+    expect(ranking.icSource).toBe('descendants');
+    expect(ranking.diseasesScored).toBe(4);
+    expect(ranking.results.map(disease => [disease.rank, disease.diseaseId])).toEqual([
+      [1, 'OMIM:607208'],
+      [2, 'ORPHA:3451'],
+      [3, 'OMIM:121210'],
+      [4, 'OMIM:108800']
+    ]);
+    expect(ranking.results.map(disease => disease.score)).toEqual([
+      expect.closeTo(IC.leaf, 10),
+      expect.closeTo((IC.seizure + IC.leaf) / 2, 10),
+      expect.closeTo((IC.leaf + IC.nervousSystem) / 2, 10),
+      expect.closeTo(IC.phenotypicAbnormality, 10)
+    ]);
+  });
+
+  it('explains each match with the disease term and the most informative common ancestor', async () => {
+    const ranking = await diseases.rank([FEBRILE_SEIZURE, INTELLECTUAL_DISABILITY], [], { icSource: 'descendants' });
+    const west = ranking.results.find(disease => disease.diseaseId === 'ORPHA:3451')!;
+
+    expect(west.diseaseName).toBe('West syndrome');
+    expect(west.matches).toEqual([
+      {
+        patientTerm: { id: FEBRILE_SEIZURE, name: 'Febrile seizure' },
+        diseaseTerm: { id: 'HP:0001250', name: 'Seizure' },
+        mica: { id: 'HP:0001250', name: 'Seizure' },
+        score: expect.closeTo(IC.seizure, 10)
+      },
+      {
+        patientTerm: { id: INTELLECTUAL_DISABILITY, name: 'Intellectual disability' },
+        diseaseTerm: { id: INTELLECTUAL_DISABILITY, name: 'Intellectual disability' },
+        mica: { id: INTELLECTUAL_DISABILITY, name: 'Intellectual disability' },
+        score: expect.closeTo(IC.leaf, 10)
+      }
+    ]);
+  });
+
+  it('penalises diseases annotated to an excluded term or one of its descendants', async () => {
+    const ranking = await diseases.rank([INTELLECTUAL_DISABILITY], ['HP:0001250'], { icSource: 'descendants' });
+    const byId = new Map(ranking.results.map(disease => [disease.diseaseId, disease]));
+
+    // Dravet syndrome is annotated to two kinds of seizure, West syndrome to Seizure itself
+    for (const id of ['OMIM:607208', 'ORPHA:3451', 'OMIM:121210']) {
+      expect(byId.get(id)!.contradictions).toEqual([{ id: 'HP:0001250', name: 'Seizure' }]);
+      expect(byId.get(id)!.exclusionPenalty).toBeCloseTo(IC.seizure);
+      expect(byId.get(id)!.score).toBeCloseTo(byId.get(id)!.matchScore - IC.seizure);
+    }
+    expect(byId.get('OMIM:108800')).toMatchObject({ contradictions: [], exclusionPenalty: 0 });
+    expect(byId.get('OMIM:108800')!.score).toBe(byId.get('OMIM:108800')!.matchScore);
+  });
+
+  it('ignores negated and non-phenotype annotations', async () => {
+    // Dravet syndrome is annotated NOT Atrial septal defect, and to an inheritance term
+    const ranking = await diseases.rank(['HP:0001631'], ['HP:0001631'], { icSource: 'descendants' });
+    const dravet = ranking.results.find(disease => disease.diseaseId === 'OMIM:607208')!;
+
+    expect(dravet.contradictions).toEqual([]);
+    expect(dravet.matches[0].diseaseTerm?.id).not.toBe('HP:0001631');
+  });
+
+  it('restricts the ranking to one database and limits the results', async () => {
+    const omim = await diseases.rank([FEBRILE_SEIZURE], [], { icSource: 'descendants', database: 'omim' });
+    expect(omim.diseasesScored).toBe(3);
+    expect(omim.results.every(disease => disease.diseaseId.startsWith('OMIM:'))).toBe(true);
+
+    const top = await diseases.rank([FEBRILE_SEIZURE], [], { icSource: 'descendants', maxResults: 2 });
+    expect(top.diseasesScored).toBe(4);
+    expect(top.results).toHaveLength(2);
+  });
+
+  it('uses annotation frequencies for IC by default, breaking ties by disease ID', async () => {
+    const ranking = await diseases.rank([FEBRILE_SEIZURE]);
+
+    // Two of the four diseases are annotated to Febrile seizure
+    expect(ranking.icSource).toBe('annotations');
+    expect(ranking.results.slice(0, 2).map(disease => [disease.diseaseId, disease.score])).toEqual([
+      ['OMIM:121210', expect.closeTo(Math.log(2), 10)],
+      ['OMIM:607208', expect.closeTo(Math.log(2), 10)]
+    ]);
+  });
+
+  it('rejects unknown patient terms', async () => {
+    await expect(diseases.rank(['HP:9999999'], [], { icSource: 'descendants' })).rejects.toThrow('HP:9999999');
+  });
+});
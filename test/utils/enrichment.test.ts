@@ -0,0 +1,146 @@
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { AnnotatedItem, EnrichmentOptions, TermEnrichment, adjustPValues } from '../../src/utils/enrichment.js';
+import { InformationContent } from '../../src/utils/information-content.js';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-mini.obo', import.meta.url));
+
+function choose(n: number, k: number): number {
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return result;
+}
+
+/**
+ * P(X >= k) for X ~ Hypergeometric(N, K, n), summed exactly
+ */
+function upperTail(k: number, n: number, K: number, N: number): number {
+  let p = 0;
+  for (let i = k; i <= Math.min(n, K); i++) {
+    p += (choose(K, i) * choose(N - K, n - i)) / choose(N, n);
+  }
+  return p;
+}
+
+const patient = (id: string, ...hpoIds: string[]): AnnotatedItem => ({ id, hpoIds });
+
+// Three of the four study patients have a kind of seizure; one of the six others does
+const study = [
+  patient('S1', 'HP:0002069'),
+  patient('S2', 'HP:0002373'),
+  patient('S3', 'HP:0002069'),
+  patient('S4', 'HP:0001631')
+];
+const others = [
+  patient('P5', 'HP:0001249'),
+  patient('P6', 'HP:0001631'),
+  patient('P7', 'HP:0001627'),
+  patient('P8', 'HP:0001250'),
+  patient('P9', 'HP:0001249'),
+  patient('P10', 'HP:0001631')
+];
+
+const options = (overrides: Partial<EnrichmentOptions> = {}): EnrichmentOptions => ({
+  method: 'term-for-term',
+  correction: 'none',
+  alpha: 0.05,
+  maxResults: 100,
+  ...overrides
+});
+
+describe('TermEnrichment', () => {
+  const enrichment = new TermEnrichment(new InformationContent(new LocalOntologyClient(ONTOLOGY_FILE)));
+
+  it('tests every term annotated in the study set against the population', async () => {
+    const result = await enrichment.analyze(study, [...study, ...others], options());
+    const byId = new Map(result.results.map(term => [term.id, term]));
+
+    expect(result.studySize).toBe(4);
+    expect(result.populationSize).toBe(10);
+    // Ancestors count through the true-path rule; the root is never tested
+    expect(Array.from(byId.keys()).sort()).toEqual([
+      'HP:0000118', 'HP:0000707', 'HP:0001250', 'HP:0001626', 'HP:0001627', 'HP:0001631', 'HP:0002069', 'HP:0002373'
+    ]);
+
+    expect(byId.get('HP:0001250')).toMatchObject({ name: 'Seizure', studyCount: 3, studySize: 4, populationCount: 4, populationSize: 10 });
+    expect(byId.get('HP:0001250')!.pValue).toBeCloseTo(upperTail(3, 4, 4, 10), 12);
+    expect(byId.get('HP:0001250')!.foldEnrichment).toBeCloseTo((3 / 4) / (4 / 10));
+    expect(byId.get('HP:0001250')!.studyItems).toEqual(['S1', 'S2', 'S3']);
+
+    expect(byId.get('HP:0000707')!.populationCount).toBe(6);
+    expect(byId.get('HP:0000707')!.pValue).toBeCloseTo(upperTail(3, 4, 6, 10), 12);
+    expect(byId.get('HP:0002069')!.pValue).toBeCloseTo(upperTail(2, 4, 2, 10), 12);
+    // Annotated to every item: no over-representation is possible
+    expect(byId.get('HP:0000118')!.pValue).toBeCloseTo(1, 12);
+  });
+
+  it('sorts the results by p-value and limits them', async () => {
+    const result = await enrichment.analyze(study, [...study, ...others], options({ maxResults: 3 }));
+
+    expect(result.testedTerms).toBe(8);
+    expect(result.results).toHaveLength(3);
+    expect(result.results[0].id).toBe('HP:0001250');
+    const pValues = result.results.map(term => term.pValue);
+    expect(pValues).toEqual([...pValues].sort((a, b) => a - b));
+  });
+
+  it('tests each term against the items annotated to its parents with parent-child-union', async () => {
+    const result = await enrichment.analyze(study, [...study, ...others], options({ method: 'parent-child-union' }));
+    const tonicClonic = result.results.find(term => term.id === 'HP:0002069')!;
+
+    // The background is the four patients with a seizure, three of them in the study set
+    expect(tonicClonic).toMatchObject({ studyCount: 2, studySize: 3, populationCount: 2, populationSize: 4 });
+    expect(tonicClonic.pValue).toBeCloseTo(upperTail(2, 3, 2, 4), 12);
+  });
+
+  it('applies the multiple-testing correction and significance threshold', async () => {
+    const uncorrected = await enrichment.analyze(study, [...study, ...others], options({ alpha: 0.5 }));
+    const corrected = await enrichment.analyze(study, [...study, ...others], options({ alpha: 0.5, correction: 'bonferroni' }));
+
+    corrected.results.forEach(term => {
+      expect(term.adjustedPValue).toBeCloseTo(Math.min(term.pValue * corrected.testedTerms, 1), 12);
+      expect(term.significant).toBe(term.adjustedPValue <= 0.5);
+    });
+    expect(corrected.significantTerms).toBeLessThan(uncorrected.significantTerms);
+  });
+
+  it('adds study items missing from the population', async () => {
+    const result = await enrichment.analyze(study, others, options());
+
+    expect(result.addedToPopulation).toEqual(['S1', 'S2', 'S3', 'S4']);
+    expect(result.populationSize).toBe(10);
+  });
+
+  it('reports annotated terms that are not in the ontology', async () => {
+    const result = await enrichment.analyze([patient('S1', 'HP:0001250', 'HP:9999999')], others, options());
+
+    expect(result.unknownTerms).toEqual(['HP:9999999']);
+  });
+});
+
+describe('adjustPValues', () => {
+  const pValues = [0.01, 0.04, 0.03, 0.5];
+
+  it('leaves p-values unchanged without correction', () => {
+    expect(adjustPValues(pValues, 'none')).toEqual(pValues);
+  });
+
+  it('multiplies by the number of tests with Bonferroni, capped at 1', () => {
+    const adjusted = adjustPValues(pValues, 'bonferroni');
+    [0.04, 0.16, 0.12, 1].forEach((expected, index) => expect(adjusted[index]).toBeCloseTo(expected, 12));
+  });
+
+  it('controls the false discovery rate with Benjamini-Hochberg, keeping the input order', () => {
+    // Sorted: 0.01·4/1 = 0.04, 0.03·4/2 = 0.06, 0.04·4/3 ≈ 0.0533, 0.5·4/4 = 0.5; then the running minimum from the top
+    const adjusted = adjustPValues(pValues, 'benjamini-hochberg');
+    [0.04, 0.16 / 3, 0.16 / 3, 0.5].forEach((expected, index) => expect(adjusted[index]).toBeCloseTo(expected, 12));
+  });
+
+  it('handles ties and an empty list', () => {
+    expect(adjustPValues([0.02, 0.02], 'benjamini-hochberg')).toEqual([0.02, 0.02]);
+    expect(adjustPValues([], 'benjamini-hochberg')).toEqual([]);
+  });
+});
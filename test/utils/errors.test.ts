@@ -0,0 +1,92 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { describe, expect, it } from 'vitest';
+import {
+  InvalidIdError,
+  InvalidParamsError,
+  NotFoundError,
+  RateLimitedError,
+  TimeoutError,
+  UpstreamError,
+  failedResponse,
+  responseError,
+  toHPOError,
+  toMcpError
+} from '../../src/utils/errors.js';
+
+describe('HPOError', () => {
+  it('gives each category its default status, which details can override', () => {
+    expect([
+      new NotFoundError('x'),
+      new InvalidIdError('x'),
+      new InvalidParamsError('x'),
+      new RateLimitedError('x'),
+      new TimeoutError('x'),
+      new UpstreamError('x')
+    ].map(error => [error.name, error.category, error.status])).toEqual([
+      ['NotFoundError', 'not_found', 404],
+      ['InvalidIdError', 'invalid_id', 400],
+      ['InvalidParamsError', 'invalid_params', 400],
+      ['RateLimitedError', 'rate_limited', 429],
+      ['TimeoutError', 'timeout', 504],
+      ['UpstreamError', 'upstream', 502]
+    ]);
+    expect(new UpstreamError('x', { status: 503 }).status).toBe(503);
+  });
+
+  it('keeps the class, status and wait when context is added', () => {
+    const error = new RateLimitedError('Too many requests', { retryAfterMs: 5000 }).withContext('Error retrieving HP:0001250');
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error).toMatchObject({ message: 'Error retrieving HP:0001250: Too many requests', status: 429, retryAfterMs: 5000 });
+  });
+});
+
+describe('backend responses', () => {
+  it('wraps a thrown error in a failed response', () => {
+    const timeout = new TimeoutError('HPO API did not respond within 50 ms');
+
+    expect(failedResponse(timeout)).toEqual({ error: timeout.message, failure: timeout, status: 504 });
+    expect(failedResponse(new Error('boom'))).toMatchObject({ error: 'boom', status: 500, failure: { category: 'upstream' } });
+  });
+
+  it('treats untyped errors as upstream failures', () => {
+    expect(toHPOError(new Error('boom'))).toMatchObject({ category: 'upstream', status: 500, message: 'boom' });
+    expect(toHPOError('boom').message).toBe('Unknown error occurred');
+  });
+
+  it('builds an error with context from a failed response, typed or not', () => {
+    const typed = responseError({ error: 'Term not found', failure: new NotFoundError('Term not found'), status: 404 }, 'Error retrieving HP:9999999');
+    expect(typed).toBeInstanceOf(NotFoundError);
+    expect(typed.message).toBe('Error retrieving HP:9999999: Term not found');
+
+    const untyped = responseError({ error: 'Bad gateway', status: 502 }, 'Error searching');
+    expect(untyped).toBeInstanceOf(UpstreamError);
+    expect(untyped).toMatchObject({ message: 'Error searching: Bad gateway', status: 502 });
+  });
+});
+
+describe('toMcpError', () => {
+  it('reports invalid input and missing terms as InvalidParams', () => {
+    for (const error of [new InvalidParamsError('max must be at most 100'), new InvalidIdError('Invalid HPO ID'), new NotFoundError('Term not found')]) {
+      const mcpError = toMcpError(error);
+
+      expect(mcpError).toBeInstanceOf(McpError);
+      expect(mcpError.code).toBe(ErrorCode.InvalidParams);
+      expect(mcpError.message).toContain(error.message);
+      expect(mcpError.data).toEqual({ category: error.category, status: error.status });
+    }
+  });
+
+  it('reports upstream failures, timeouts, rate limiting and untyped errors as InternalError', () => {
+    for (const error of [new UpstreamError('down'), new TimeoutError('slow'), new RateLimitedError('busy'), new Error('boom')]) {
+      expect(toMcpError(error).code).toBe(ErrorCode.InternalError);
+    }
+    expect(toMcpError(new Error('boom')).data).toEqual({ category: 'upstream', status: 500 });
+  });
+
+  it('passes MCP errors through unchanged', () => {
+    const error = new McpError(ErrorCode.MethodNotFound, 'Unknown tool');
+
+    expect(toMcpError(error)).toBe(error);
+  });
+});
@@ -0,0 +1,105 @@
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+import { renderSubgraph, Subgraph, SubgraphBuilder } from '../../src/utils/graph-export.js';
+
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-mini.obo', import.meta.url));
+const MULTI_PARENT_FILE = fileURLToPath(new URL('../fixtures/hp-multi-parent.obo', import.meta.url));
+
+const SEIZURE = { id: 'HP:0001250', name: 'Seizure' };
+
+const edges = (subgraph: Subgraph) => subgraph.edges.map(edge => `${edge.child} -> ${edge.parent}`);
+
+describe('SubgraphBuilder', () => {
+  const builder = new SubgraphBuilder(new LocalOntologyClient(ONTOLOGY_FILE));
+
+  it('collects parents and children of the seeds, with their distance', async () => {
+    const subgraph = await builder.build([SEIZURE], { direction: 'both', depth: 1, maxNodes: 50 });
+
+    expect(subgraph.nodes).toEqual([
+      { ...SEIZURE, seed: true, distance: 0 },
+      { id: 'HP:0000707', name: 'Abnormality of the nervous system', seed: false, distance: 1 },
+      { id: 'HP:0002069', name: 'Bilateral tonic-clonic seizure', seed: false, distance: 1 },
+      { id: 'HP:0002373', name: 'Febrile seizure', seed: false, distance: 1 }
+    ]);
+    expect(edges(subgraph)).toEqual(['HP:0001250 -> HP:0000707', 'HP:0002069 -> HP:0001250', 'HP:0002373 -> HP:0001250']);
+    expect(subgraph.truncated).toBe(false);
+  });
+
+  it('follows one direction up to the requested depth', async () => {
+    const up = await builder.build([SEIZURE], { direction: 'up', depth: 2, maxNodes: 50 });
+    const down = await builder.build([{ id: 'HP:0001626', name: 'Abnormality of the cardiovascular system' }], { direction: 'down', depth: 5, maxNodes: 50 });
+
+    expect(up.nodes.map(node => node.id)).toEqual(['HP:0001250', 'HP:0000707', 'HP:0000118']);
+    expect(down.nodes.map(node => [node.id, node.distance])).toEqual([['HP:0001626', 0], ['HP:0001627', 1], ['HP:0001631', 2]]);
+  });
+
+  it('stops at the node limit and reports the subgraph as truncated', async () => {
+    const subgraph = await builder.build([{ id: 'HP:0000707', name: 'Abnormality of the nervous system' }], { direction: 'down', depth: 5, maxNodes: 3 });
+
+    expect(subgraph.nodes).toHaveLength(3);
+    expect(subgraph.truncated).toBe(true);
+  });
+
+  it('adds every is_a edge between collected terms, drawing shared ancestors once', async () => {
+    const multiParent = new SubgraphBuilder(new LocalOntologyClient(MULTI_PARENT_FILE));
+
+    const subgraph = await multiParent.build([{ id: 'HP:0000252', name: 'Microcephaly' }], { direction: 'up', depth: 3, maxNodes: 50 });
+
+    expect(new Set(subgraph.nodes.map(node => node.id)).size).toBe(subgraph.nodes.length);
+    expect(edges(subgraph)).toContain('HP:0000252 -> HP:0012443');
+    expect(edges(subgraph)).toContain('HP:0000252 -> HP:0000240');
+    // Skull morphology is collected at distance 3 through calvarial morphology, yet its edge to the head is drawn
+    expect(edges(subgraph)).toContain('HP:0000929 -> HP:0000234');
+    expect(edges(subgraph).filter(edge => edge.endsWith('HP:0000118'))).toEqual(['HP:0000707 -> HP:0000118', 'HP:0000152 -> HP:0000118']);
+  });
+});
+
+describe('renderSubgraph', () => {
+  const subgraph: Subgraph = {
+    nodes: [
+      { id: 'HP:0000001', name: 'Height <3rd "centile" & falling \\ R', seed: true, distance: 0 },
+      { id: 'HP:0000002', name: 'Parent', seed: false, distance: 1 }
+    ],
+    edges: [{ child: 'HP:0000001', parent: 'HP:0000002' }],
+    truncated: false
+  };
+
+  it('renders DOT, escaping quotes and backslashes in labels', () => {
+    expect(renderSubgraph(subgraph, 'dot')).toBe([
+      'digraph hpo {',
+      '  rankdir=BT;',
+      '  node [shape=box, style=rounded, fontname="Helvetica"];',
+      '  "HP:0000001" [label="HP:0000001\\nHeight <3rd \\"centile\\" & falling \\\\ R", style="rounded,filled", fillcolor="#cde4ff"];',
+      '  "HP:0000002" [label="HP:0000002\\nParent"];',
+      '  "HP:0000001" -> "HP:0000002";',
+      '}'
+    ].join('\n'));
+  });
+
+  it('renders Mermaid, with safe node IDs and markup characters as entity codes', () => {
+    expect(renderSubgraph(subgraph, 'mermaid')).toBe([
+      'graph BT',
+      '  HP_0000001["HP:0000001<br/>Height #lt;3rd #quot;centile#quot; #amp; falling \\ R"]',
+      '  HP_0000002["HP:0000002<br/>Parent"]',
+      '  HP_0000001 --> HP_0000002',
+      '  classDef seed fill:#cde4ff,stroke:#1f6feb',
+      '  class HP_0000001 seed'
+    ].join('\n'));
+  });
+
+  it('renders GraphML, escaping XML special characters', () => {
+    const graphml = renderSubgraph(subgraph, 'graphml');
+
+    expect(graphml).toContain([
+      '    <node id="HP:0000001">',
+      '      <data key="label">Height &lt;3rd &quot;centile&quot; &amp; falling \\ R</data>',
+      '      <data key="seed">true</data>',
+      '      <data key="distance">0</data>',
+      '    </node>'
+    ].join('\n'));
+    expect(graphml).toContain('<edge id="e0" source="HP:0000001" target="HP:0000002">');
+    expect(graphml.startsWith('<?xml version="1.0" encoding="UTF-8"?>')).toBe(true);
+    expect(graphml.endsWith('</graphml>')).toBe(true);
+  });
+});
@@ -0,0 +1,234 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import { HttpServerHandle, HttpServerOptions, startHttpServer } from '../../src/utils/http-server.js';
+
+const initialize = (id: number | string = 1) => ({
+  jsonrpc: '2.0',
+  id,
+  method: 'initialize',
+  params: {
+    protocolVersion: LATEST_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' }
+  }
+});
+
+const ping = (id: number | string) => ({ jsonrpc: '2.0', id, method: 'ping' });
+
+const createServer = () => new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: {} });
+
+describe('startHttpServer', () => {
+  let handle: HttpServerHandle | undefined;
+
+  afterEach(async () => {
+    await handle?.close();
+    handle = undefined;
+  });
+
+  const start = async (overrides: Partial<HttpServerOptions> = {}) => {
+    handle = await startHttpServer(createServer, {
+      host: '127.0.0.1',
+      port: 0,
+      sessionIdleTimeoutMs: 0,
+      maxSessions: 10,
+      allowedOrigins: [],
+      ...overrides
+    });
+    return handle.url;
+  };
+
+  const post = (url: string, body: unknown, headers: Record<string, string> = {}) => fetch(`${url}/mcp`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+
+  const openSession = async (url: string) => {
+    const response = await post(url, initialize());
+    return response.headers.get('mcp-session-id')!;
+  };
+
+  const health = async (url: string) => (await fetch(`${url}/health`)).json();
+
+  describe('streamable HTTP', () => {
+    it('starts a session with an initialize request', async () => {
+      const url = await start();
+
+      const response = await post(url, initialize());
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('mcp-session-id')).toMatch(/^[0-9a-f-]{36}$/);
+      const body = await response.json();
+      expect(body).toMatchObject({ jsonrpc: '2.0', id: 1, result: { serverInfo: { name: 'test-server' } } });
+      expect(await health(url)).toMatchObject({ status: 'ok', sessions: { streamableHttp: 1, sse: 0 } });
+    });
+
+    it('routes later requests to the session named by Mcp-Session-Id', async () => {
+      const url = await start();
+      const sessionId = await openSession(url);
+
+      const response = await post(url, ping('p1'), { 'Mcp-Session-Id': sessionId });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('mcp-session-id')).toBe(sessionId);
+      expect(await response.json()).toEqual({ jsonrpc: '2.0', id: 'p1', result: {} });
+    });
+
+    it('answers a batch in request order and accepts notifications without a body', async () => {
+      const url = await start();
+      const sessionId = await openSession(url);
+
+      const batch = await post(url, [ping(2), ping(1)], { 'Mcp-Session-Id': sessionId });
+      expect((await batch.json()).map((response: { id: number }) => response.id)).toEqual([2, 1]);
+
+      const notification = await post(url, { jsonrpc: '2.0', method: 'notifications/initialized' }, { 'Mcp-Session-Id': sessionId });
+      expect(notification.status).toBe(202);
+    });
+
+    it('ends a session with DELETE', async () => {
+      const url = await start();
+      const sessionId = await openSession(url);
+
+      const response = await fetch(`${url}/mcp`, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+
+      expect(response.status).toBe(204);
+      expect(await health(url)).toMatchObject({ sessions: { streamableHttp: 0 } });
+      expect((await post(url, ping(1), { 'Mcp-Session-Id': sessionId })).status).toBe(404);
+    });
+
+    it('rejects an unknown session id', async () => {
+      const url = await start();
+
+      const response = await post(url, ping(1), { 'Mcp-Session-Id': 'no-such-session' });
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toMatchObject({ error: { code: -32001, message: 'Session not found' } });
+    });
+
+    it('rejects a POST without a session unless it initializes one', async () => {
+      const url = await start();
+
+      const response = await post(url, ping(1));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: { message: 'Bad Request: missing Mcp-Session-Id header' } });
+      expect(await health(url)).toMatchObject({ sessions: { streamableHttp: 0 } });
+    });
+
+    it('rejects a body that is not JSON or not JSON-RPC', async () => {
+      const url = await start();
+
+      const parseError = await fetch(`${url}/mcp`, { method: 'POST', body: '{' });
+      expect(parseError.status).toBe(400);
+      expect(await parseError.json()).toMatchObject({ error: { code: -32700 } });
+
+      const sessionId = await openSession(url);
+      const invalid = await post(url, { hello: 'world' }, { 'Mcp-Session-Id': sessionId });
+      expect(invalid.status).toBe(400);
+      expect(await invalid.json()).toMatchObject({ error: { code: -32600 } });
+    });
+
+    it('closes sessions that stay idle for the timeout', async () => {
+      const url = await start({ sessionIdleTimeoutMs: 50 });
+      await openSession(url);
+
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(await health(url)).toMatchObject({ sessions: { streamableHttp: 0 } });
+    });
+
+    it('refuses new sessions beyond the limit', async () => {
+      const url = await start({ maxSessions: 1 });
+      await openSession(url);
+
+      const response = await post(url, initialize());
+
+      expect(response.status).toBe(503);
+      expect(await response.json()).toMatchObject({ error: { message: 'Too many sessions: the limit of 1 is reached' } });
+    });
+  });
+
+  describe('HTTP+SSE', () => {
+    it('opens a session with GET /sse and answers messages on the stream', async () => {
+      const url = await start();
+      const controller = new AbortController();
+      const stream = await fetch(`${url}/sse`, { signal: controller.signal });
+      const reader = stream.body!.getReader();
+      const decoder = new TextDecoder();
+      let received = '';
+      const readUntil = async (text: string) => {
+        while (!received.includes(text)) {
+          const { value, done } = await reader.read();
+          if (done) {
+            throw new Error(`stream ended before "${text}"`);
+          }
+          received += decoder.decode(value, { stream: true });
+        }
+      };
+
+      await readUntil('\n\n');
+      const endpoint = received.match(/event: endpoint\ndata: (\S+)/)![1];
+      expect(endpoint).toMatch(/^\/messages\?sessionId=/);
+      expect(await health(url)).toMatchObject({ sessions: { sse: 1 } });
+
+      const response = await fetch(`${url}${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(initialize(7))
+      });
+      expect(response.status).toBe(202);
+      await readUntil('"id":7');
+      expect(received).toContain('"serverInfo"');
+
+      controller.abort();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(await health(url)).toMatchObject({ sessions: { sse: 0 } });
+    });
+
+    it('rejects messages for an unknown session', async () => {
+      const url = await start();
+
+      const response = await fetch(`${url}/messages?sessionId=no-such-session`, { method: 'POST', body: '{}' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('origin check', () => {
+    it('accepts requests without an Origin header and from localhost', async () => {
+      const url = await start();
+
+      expect((await post(url, initialize())).status).toBe(200);
+      expect((await post(url, initialize(), { Origin: 'http://localhost:5173' })).status).toBe(200);
+    });
+
+    it('rejects other origins unless they are allowed', async () => {
+      const url = await start({ allowedOrigins: ['https://lab.example.org'] });
+
+      expect((await post(url, initialize(), { Origin: 'https://evil.example.com' })).status).toBe(403);
+      expect((await fetch(`${url}/health`, { headers: { Origin: 'null' } })).status).toBe(403);
+      expect((await post(url, initialize(), { Origin: 'https://lab.example.org' })).status).toBe(200);
+    });
+
+    it('accepts any origin with "*"', async () => {
+      const url = await start({ allowedOrigins: ['*'] });
+
+      expect((await post(url, initialize(), { Origin: 'https://elsewhere.example.com' })).status).toBe(200);
+    });
+  });
+
+  it('reports status on /health and 404 for other paths', async () => {
+    handle = await startHttpServer(createServer, {
+      host: '127.0.0.1',
+      port: 0,
+      sessionIdleTimeoutMs: 0,
+      maxSessions: 5,
+      allowedOrigins: [],
+      getStatus: async () => ({ backend: 'local' })
+    });
+
+    expect(await health(handle.url)).toMatchObject({ status: 'ok', backend: 'local', sessions: { max: 5 } });
+    expect((await fetch(`${handle.url}/elsewhere`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,127 @@
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it, vi } from 'vitest';
+import { HPOBackend, OntologyTerm } from '../../src/types/hpo.js';
+import { IdResolver } from '../../src/utils/id-resolution.js';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-mini.obo', import.meta.url));
+
+const SEIZURE = { id: 'HP:0001250', name: 'Seizure' };
+
+/**
+ * Backend serving hand-written terms, for replacement chains the fixture does not contain
+ */
+function termBackend(terms: Partial<OntologyTerm>[]): HPOBackend {
+  const byId = new Map(terms.map(term => [term.id, term]));
+  return {
+    getTerm: async (id: string) => byId.has(id)
+      ? { data: byId.get(id), status: 200 }
+      : { error: `HPO term ${id} not found`, status: 404 }
+  } as unknown as HPOBackend;
+}
+
+describe('IdResolver', () => {
+  const backend = new LocalOntologyClient(ONTOLOGY_FILE);
+  const resolver = new IdResolver(backend);
+
+  it('keeps current IDs, normalising their spelling', async () => {
+    expect(await resolver.resolve([' 1250 '])).toEqual([{
+      inputId: ' 1250 ',
+      id: 'HP:0001250',
+      status: 'current',
+      current: SEIZURE,
+      path: [],
+      consider: []
+    }]);
+  });
+
+  it('follows an alternative ID to the term it was merged into', async () => {
+    const [resolution] = await resolver.resolve(['HP:0002279']);
+
+    expect(resolution).toMatchObject({ status: 'merged', current: SEIZURE });
+    expect(resolution.path).toEqual([{ from: 'HP:0002279', to: 'HP:0001250', relation: 'alt_id' }]);
+  });
+
+  it('follows replaced_by from an obsolete term', async () => {
+    const [resolution] = await resolver.resolve(['HP:0001251']);
+
+    expect(resolution).toMatchObject({ status: 'replaced', current: SEIZURE, consider: [] });
+    expect(resolution.path).toEqual([{ from: 'HP:0001251', to: 'HP:0001250', relation: 'replaced_by' }]);
+  });
+
+  it('suggests the consider terms of an obsolete term without replacement', async () => {
+    const [resolution] = await resolver.resolve(['HP:0001640']);
+
+    expect(resolution).toEqual({
+      inputId: 'HP:0001640',
+      id: 'HP:0001640',
+      status: 'obsolete',
+      path: [],
+      consider: [
+        { id: 'HP:0001626', name: 'Abnormality of the cardiovascular system' },
+        { id: 'HP:0001627', name: 'Abnormal heart morphology' }
+      ],
+      message: 'Obsolete without replacement'
+    });
+  });
+
+  it('reports unknown and malformed IDs', async () => {
+    const [unknown, invalid] = await resolver.resolve(['HP:9999999', 'seizure']);
+
+    expect(unknown).toMatchObject({ id: 'HP:9999999', status: 'unknown', message: expect.stringContaining('HP:9999999 not found') });
+    expect(unknown.current).toBeUndefined();
+    expect(invalid).toMatchObject({ inputId: 'seizure', status: 'invalid', message: 'Invalid HPO ID format (expected HP:XXXXXXX)' });
+  });
+
+  it('returns results in input order, looking each ID up once', async () => {
+    const getTerm = vi.spyOn(backend, 'getTerm');
+
+    const resolutions = await resolver.resolve(['HP:0002279', 'HP:0001251', 'HP:0002279', 'HP:0001250']);
+
+    expect(resolutions.map(resolution => resolution.status)).toEqual(['merged', 'replaced', 'merged', 'current']);
+    expect(resolutions[2]).toBe(resolutions[0]);
+    // HP:0001250 is reached from all three distinct inputs but fetched once
+    expect(getTerm.mock.calls.map(([id]) => id).sort()).toEqual(['HP:0001250', 'HP:0001251', 'HP:0002279']);
+    getTerm.mockRestore();
+  });
+
+  describe('replacement chains', () => {
+    it('follows a chain of replacements to the current term', async () => {
+      const chained = new IdResolver(termBackend([
+        { id: 'HP:0000002', name: 'obsolete A', isObsolete: true, replacement: 'HP:0000003' },
+        { id: 'HP:0000003', name: 'obsolete B', isObsolete: true, replacement: 'HP:0000004' },
+        { id: 'HP:0000004', name: 'Current', isObsolete: false }
+      ]));
+
+      const [resolution] = await chained.resolve(['HP:0000002']);
+
+      expect(resolution).toMatchObject({ status: 'replaced', current: { id: 'HP:0000004', name: 'Current' } });
+      expect(resolution.path.map(step => step.to)).toEqual(['HP:0000003', 'HP:0000004']);
+    });
+
+    it('reports a replacement that does not exist', async () => {
+      const broken = new IdResolver(termBackend([
+        { id: 'HP:0000002', name: 'obsolete A', isObsolete: true, replacement: 'HP:0000003' }
+      ]));
+
+      const [resolution] = await broken.resolve(['HP:0000002']);
+
+      expect(resolution).toMatchObject({
+        status: 'obsolete',
+        message: 'Replacement HP:0000003 could not be resolved: HPO term HP:0000003 not found'
+      });
+    });
+
+    it('stops at a cycle', async () => {
+      const cyclic = new IdResolver(termBackend([
+        { id: 'HP:0000002', name: 'obsolete A', isObsolete: true, replacement: 'HP:0000003' },
+        { id: 'HP:0000003', name: 'obsolete B', isObsolete: true, replacement: 'HP:0000002' }
+      ]));
+
+      const [resolution] = await cyclic.resolve(['HP:0000002']);
+
+      expect(resolution).toMatchObject({ status: 'obsolete', message: 'Replacement chain is longer than 10 steps' });
+      expect(resolution.current).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { InformationContent } from '../../src/utils/information-content.js';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-mini.obo', import.meta.url));
+
+// The fixture has 9 terms below the root; IC(t) = -log((descendants(t) + 1) / (9 + 1))
+const icFromDescendants = (descendants: number) => Math.log(10 / (descendants + 1));
+
+describe('InformationContent', () => {
+  const ic = new InformationContent(new LocalOntologyClient(ONTOLOGY_FILE));
+
+  it('returns a term with all of its ancestors', async () => {
+    const closure = await ic.getClosure('0002069');
+
+    expect(closure.id).toBe('HP:0002069');
+    expect(closure.name).toBe('Bilateral tonic-clonic seizure');
+    expect(Array.from(closure.ancestors.keys()).sort()).toEqual(['HP:0000001', 'HP:0000118', 'HP:0000707', 'HP:0001250']);
+  });
+
+  it('leaves unknown terms out of a batch of closures', async () => {
+    const closures = await ic.getClosures(['HP:0001250', 'HP:9999999']);
+
+    expect(Array.from(closures.keys())).toEqual(['HP:0001250']);
+  });
+
+  it('computes IC from descendant counts', async () => {
+    expect(await ic.getIC('HP:0000001')).toBeCloseTo(0);
+    expect(await ic.getIC('HP:0000118')).toBeCloseTo(icFromDescendants(8));
+    expect(await ic.getIC('HP:0001250')).toBeCloseTo(icFromDescendants(2));
+    expect(await ic.getIC('HP:0002069')).toBeCloseTo(icFromDescendants(0));
+  });
+
+  it('makes more specific terms more informative', async () => {
+    const [root, nervous, seizure, leaf] = await Promise.all(
+      ['HP:0000001', 'HP:0000707', 'HP:0001250', 'HP:0002069'].map(id => ic.getIC(id))
+    );
+
+    expect(root).toBeLessThan(nervous);
+    expect(nervous).toBeLessThan(seizure);
+    expect(seizure).toBeLessThan(leaf);
+  });
+
+  it('computes IC from annotation frequencies propagated to ancestors', async () => {
+    const annotated = new InformationContent(new LocalOntologyClient(ONTOLOGY_FILE));
+    annotated.setAnnotationSource(async () => [
+      ['HP:0002069'],
+      ['HP:0002373'],
+      ['HP:0001631'],
+      ['HP:0001250', 'HP:0002069']
+    ]);
+
+    expect(await annotated.getIC('HP:0000001', 'annotations')).toBeCloseTo(0);
+    // Seizure: three of four items, counting the item annotated to it and a descendant once
+    expect(await annotated.getIC('HP:0001250', 'annotations')).toBeCloseTo(Math.log(4 / 3));
+    expect(await annotated.getIC('HP:0002069', 'annotations')).toBeCloseTo(Math.log(4 / 2));
+    // Unannotated terms are treated as annotated to a single item
+    expect(await annotated.getIC('HP:0001249', 'annotations')).toBeCloseTo(Math.log(4));
+  });
+
+  it('rejects annotation-based IC without annotation data', async () => {
+    await expect(ic.getIC('HP:0001250', 'annotations')).rejects.toThrow('no annotation data is loaded');
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { parseObo, parseOboGraphJson, parseOntology } from '../../src/utils/ontology-parser.js';
+
+const OBO = `format-version: 1.2
+data-version: hp/releases/2024-01-01
+! a comment line
+
+[Term]
+id: HP:0000001
+name: All
+
+[Term]
+id: HP:0001250
+name: Seizure
+def: "A seizure is an \\"intermittent\\" event." [HPO:probinson]
+comment: Seizures are common.
+synonym: "Epileptic seizure" EXACT []
+synonym: "Fits" RELATED []
+xref: UMLS:C0036572 {source="x"}
+xref: SNOMEDCT_US:91175000
+alt_id: HP:0002279
+subset: hposlim_core
+is_a: HP:0000001 ! All
+
+[Term]
+id: HP:0000002
+name: obsolete Abnormality of body height
+is_obsolete: true
+replaced_by: HP:0000001
+consider: HP:0001250
+
+[Term]
+id: GO:0008150
+name: biological_process
+
+[Typedef]
+id: part_of
+name: part of
+`;
+
+const purl = (id: string) => `http://purl.obolibrary.org/obo/${id.replace(':', '_')}`;
+
+const OBO_GRAPH = {
+  graphs: [{
+    id: 'http://purl.obolibrary.org/obo/hp.json',
+    meta: { version: 'http://purl.obolibrary.org/obo/hp/releases/2024-01-01/hp.json' },
+    nodes: [
+      { id: purl('HP:0000001'), lbl: 'All', type: 'CLASS' },
+      {
+        id: purl('HP:0001250'),
+        lbl: 'Seizure',
+        type: 'CLASS',
+        meta: {
+          definition: { val: 'A seizure is an intermittent event.' },
+          comments: ['Seizures are common.'],
+          synonyms: [{ pred: 'hasExactSynonym', val: 'Epileptic seizure' }],
+          xrefs: [{ val: 'UMLS:C0036572' }],
+          subsets: ['http://purl.obolibrary.org/obo/hp#hposlim_core'],
+          basicPropertyValues: [
+            { pred: 'http://www.geneontology.org/formats/oboInOwl#hasAlternativeId', val: 'HP:0002279' }
+          ]
+        }
+      },
+      {
+        id: purl('HP:0000002'),
+        lbl: 'obsolete Abnormality of body height',
+        type: 'CLASS',
+        meta: {
+          deprecated: true,
+          basicPropertyValues: [
+            { pred: 'http://purl.obolibrary.org/obo/IAO_0100001', val: purl('HP:0000001') },
+            { pred: 'http://www.geneontology.org/formats/oboInOwl#consider', val: 'HP:0001250' }
+          ]
+        }
+      },
+      { id: purl('GO:0008150'), lbl: 'biological_process', type: 'CLASS' },
+      { id: 'http://purl.obolibrary.org/obo/hp#hposlim_core', type: 'PROPERTY' }
+    ],
+    edges: [
+      { sub: purl('HP:0001250'), pred: 'is_a', obj: purl('HP:0000001') },
+      { sub: purl('HP:0001250'), pred: 'http://purl.obolibrary.org/obo/BFO_0000050', obj: purl('HP:0000001') },
+      { sub: purl('HP:0001250'), pred: 'is_a', obj: purl('GO:0008150') }
+    ]
+  }]
+};
+
+describe('parseObo', () => {
+  const ontology = parseObo(OBO);
+  const byId = new Map(ontology.terms.map(term => [term.id, term]));
+
+  it('reads the release date from data-version', () => {
+    expect(ontology.version).toBe('2024-01-01');
+  });
+
+  it('keeps HP term stanzas only', () => {
+    expect(ontology.terms.map(term => term.id)).toEqual(['HP:0000001', 'HP:0001250', 'HP:0000002']);
+  });
+
+  it('reads term tags, unescaping quoted values and dropping trailing comments and modifiers', () => {
+    expect(byId.get('HP:0001250')).toEqual({
+      id: 'HP:0001250',
+      name: 'Seizure',
+      definition: 'A seizure is an "intermittent" event.',
+      comment: 'Seizures are common.',
+      synonyms: ['Epileptic seizure', 'Fits'],
+      xrefs: ['UMLS:C0036572', 'SNOMEDCT_US:91175000'],
+      alternativeIds: ['HP:0002279'],
+      isObsolete: false,
+      consider: [],
+      subset: ['hposlim_core'],
+      parents: ['HP:0000001']
+    });
+  });
+
+  it('reads obsolete terms with their replacement and consider links', () => {
+    const obsolete = byId.get('HP:0000002')!;
+    expect(obsolete.isObsolete).toBe(true);
+    expect(obsolete.replacement).toBe('HP:0000001');
+    expect(obsolete.consider).toEqual(['HP:0001250']);
+  });
+
+  it('accepts Windows line endings', () => {
+    expect(parseObo(OBO.replace(/\n/g, '\r\n')).terms).toEqual(ontology.terms);
+  });
+});
+
+describe('parseOboGraphJson', () => {
+  const ontology = parseOboGraphJson(OBO_GRAPH);
+  const byId = new Map(ontology.terms.map(term => [term.id, term]));
+
+  it('reads the release date from the graph version', () => {
+    expect(ontology.version).toBe('2024-01-01');
+  });
+
+  it('keeps HP classes only, converting PURLs to CURIEs', () => {
+    expect(ontology.terms.map(term => term.id)).toEqual(['HP:0000001', 'HP:0001250', 'HP:0000002']);
+  });
+
+  it('reads node metadata and is_a edges to HP terms', () => {
+    expect(byId.get('HP:0001250')).toEqual({
+      id: 'HP:0001250',
+      name: 'Seizure',
+      definition: 'A seizure is an intermittent event.',
+      comment: 'Seizures are common.',
+      synonyms: ['Epileptic seizure'],
+      xrefs: ['UMLS:C0036572'],
+      alternativeIds: ['HP:0002279'],
+      isObsolete: false,
+      replacement: undefined,
+      consider: [],
+      subset: ['hposlim_core'],
+      parents: ['HP:0000001']
+    });
+  });
+
+  it('reads deprecated terms with their replacement and consider links', () => {
+    const obsolete = byId.get('HP:0000002')!;
+    expect(obsolete.isObsolete).toBe(true);
+    expect(obsolete.replacement).toBe('HP:0000001');
+    expect(obsolete.consider).toEqual(['HP:0001250']);
+  });
+
+  it('rejects documents without graph nodes', () => {
+    expect(() => parseOboGraphJson({ graphs: [{}] })).toThrow('no graph nodes found');
+  });
+
+  it('accepts a bare graph without the graphs wrapper', () => {
+    expect(parseOboGraphJson(OBO_GRAPH.graphs[0]).terms).toEqual(ontology.terms);
+  });
+
+  it('names the first malformed field', () => {
+    const withNode = (node: unknown) => ({ graphs: [{ nodes: [node] }] });
+
+    expect(() => parseOboGraphJson('hp.json')).toThrow('no graph nodes found');
+    expect(() => parseOboGraphJson(withNode('HP:0000001'))).toThrow('Invalid OBO Graphs JSON: graphs[0].nodes[0] must be an object');
+    expect(() => parseOboGraphJson(withNode({ lbl: 'All' }))).toThrow('graphs[0].nodes[0].id must be a string');
+    expect(() => parseOboGraphJson(withNode({ id: purl('HP:0000001'), meta: { synonyms: 'Fits' } })))
+      .toThrow('graphs[0].nodes[0].meta.synonyms must be an array');
+    expect(() => parseOboGraphJson(withNode({ id: purl('HP:0000001'), meta: { xrefs: [{ val: 7 }] } })))
+      .toThrow('graphs[0].nodes[0].meta.xrefs[0].val must be a string');
+    expect(() => parseOboGraphJson(withNode({ id: purl('HP:0000001'), meta: { deprecated: 'yes' } })))
+      .toThrow('graphs[0].nodes[0].meta.deprecated must be true or false');
+    expect(() => parseOboGraphJson({ graphs: [{ nodes: [], edges: [{ sub: purl('HP:0000001'), pred: 'is_a' }] }] }))
+      .toThrow('graphs[0].edges[0].obj must be a string');
+  });
+});
+
+describe('parseOntology', () => {
+  it('detects the format from the file contents', () => {
+    expect(parseOntology(JSON.stringify(OBO_GRAPH)).terms.map(term => term.name))
+      .toEqual(parseOntology(OBO).terms.map(term => term.name));
+  });
+});
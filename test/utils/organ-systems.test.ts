@@ -0,0 +1,108 @@
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { HPOBackend } from '../../src/types/hpo.js';
+import { failedResponse, UpstreamError } from '../../src/utils/errors.js';
+import { InformationContent } from '../../src/utils/information-content.js';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+import { OrganSystemClassifier } from '../../src/utils/organ-systems.js';
+
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-mini.obo', import.meta.url));
+const MULTI_PARENT_FILE = fileURLToPath(new URL('../fixtures/hp-multi-parent.obo', import.meta.url));
+
+const NERVOUS_SYSTEM = { id: 'HP:0000707', name: 'Abnormality of the nervous system', shortName: 'nervous system' };
+const CARDIOVASCULAR_SYSTEM = { id: 'HP:0001626', name: 'Abnormality of the cardiovascular system', shortName: 'cardiovascular system' };
+
+function classifier(file: string) {
+  const backend = new LocalOntologyClient(file);
+  return new OrganSystemClassifier(backend, new InformationContent(backend));
+}
+
+describe('OrganSystemClassifier', () => {
+  const systems = classifier(ONTOLOGY_FILE);
+
+  it('reads the organ systems from the children of Phenotypic abnormality', async () => {
+    expect(await systems.getSystems()).toEqual([CARDIOVASCULAR_SYSTEM, NERVOUS_SYSTEM]);
+  });
+
+  it('reports a failure to read the organ systems', async () => {
+    const failing = new OrganSystemClassifier({
+      getChildren: async () => failedResponse(new UpstreamError('HPO API returned 502', { status: 502 }))
+    } as unknown as HPOBackend, {} as InformationContent);
+
+    await expect(failing.getSystems()).rejects.toMatchObject({
+      category: 'upstream',
+      message: 'Error retrieving organ systems: HPO API returned 502'
+    });
+  });
+
+  describe('resolve', () => {
+    it('matches systems by ID, label, short name or common name', async () => {
+      for (const value of ['HP:0000707', '0000707', 'Abnormality of the nervous system', 'Nervous_System', ' neurological ']) {
+        expect(await systems.resolve([value])).toEqual({ systems: [NERVOUS_SYSTEM], invalid: [] });
+      }
+      expect((await systems.resolve(['heart'])).systems).toEqual([CARDIOVASCULAR_SYSTEM]);
+    });
+
+    it('lists each system once and reports values that match none', async () => {
+      expect(await systems.resolve(['cardiac', 'HP:0001626', 'renal', 'HP:0001250'])).toEqual({
+        systems: [CARDIOVASCULAR_SYSTEM],
+        invalid: ['renal', 'HP:0001250']
+      });
+    });
+  });
+
+  describe('classify', () => {
+    it('counts terms per system, most terms first', async () => {
+      const result = await systems.classify(['HP:0001631', 'HP:0002373', 'HP:0001249']);
+
+      expect(result.systems).toEqual([
+        {
+          system: NERVOUS_SYSTEM,
+          count: 2,
+          terms: [{ id: 'HP:0002373', name: 'Febrile seizure' }, { id: 'HP:0001249', name: 'Intellectual disability' }]
+        },
+        { system: CARDIOVASCULAR_SYSTEM, count: 1, terms: [{ id: 'HP:0001631', name: 'Atrial septal defect' }] }
+      ]);
+      expect(result.terms).toEqual([
+        { id: 'HP:0001631', name: 'Atrial septal defect', systems: ['HP:0001626'] },
+        { id: 'HP:0002373', name: 'Febrile seizure', systems: ['HP:0000707'] },
+        { id: 'HP:0001249', name: 'Intellectual disability', systems: ['HP:0000707'] }
+      ]);
+    });
+
+    it('classifies a branch term under itself and leaves terms above the branches unclassified', async () => {
+      const result = await systems.classify(['HP:0000707', 'HP:0000118']);
+
+      expect(result.terms).toEqual([
+        { id: 'HP:0000707', name: 'Abnormality of the nervous system', systems: ['HP:0000707'] },
+        { id: 'HP:0000118', name: 'Phenotypic abnormality', systems: [] }
+      ]);
+      expect(result.unclassified).toEqual([{ id: 'HP:0000118', name: 'Phenotypic abnormality' }]);
+    });
+
+    it('counts an alternative ID and its primary ID once, listing unknown IDs', async () => {
+      const result = await systems.classify(['HP:0002279', 'HP:0001250', 'HP:9999999']);
+
+      expect(result.systems).toEqual([{ system: NERVOUS_SYSTEM, count: 1, terms: [{ id: 'HP:0001250', name: 'Seizure' }] }]);
+      expect(result.unknown).toEqual(['HP:9999999']);
+    });
+
+    it('counts a term with parents in several systems under each of them', async () => {
+      const result = await classifier(MULTI_PARENT_FILE).classify(['HP:0000252']);
+
+      expect(result.terms).toEqual([{ id: 'HP:0000252', name: 'Microcephaly', systems: ['HP:0000152', 'HP:0000707'] }]);
+      expect(result.systems.map(entry => [entry.system.shortName, entry.count])).toEqual([['head or neck', 1], ['nervous system', 1]]);
+    });
+  });
+
+  it('keeps the terms below the given systems', async () => {
+    const terms = [
+      { id: 'HP:0001631', name: 'Atrial septal defect' },
+      { id: 'HP:0002373', name: 'Febrile seizure' },
+      { id: 'HP:0000118', name: 'Phenotypic abnormality' },
+      { id: 'HP:9999999', name: 'Unknown' }
+    ];
+
+    expect(await systems.filterTerms(terms, [CARDIOVASCULAR_SYSTEM])).toEqual([terms[0]]);
+  });
+});
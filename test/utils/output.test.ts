@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { NotFoundError, RateLimitedError, UpstreamError } from '../../src/utils/errors.js';
+import { formatError, formatResult, paginationInfo, readOutputFormat } from '../../src/utils/output.js';
+
+const json = (result: { content: Array<{ text: string }> }) => JSON.parse(result.content[0].text);
+
+describe('readOutputFormat', () => {
+  it('defaults to markdown and accepts json', () => {
+    expect(readOutputFormat({})).toBe('markdown');
+    expect(readOutputFormat({ output_format: 'json' })).toBe('json');
+  });
+
+  it('rejects other formats', () => {
+    expect(() => readOutputFormat({ output_format: 'xml' })).toThrow('output_format must be either "markdown" or "json"');
+  });
+});
+
+describe('formatResult', () => {
+  it('returns the markdown or the data as JSON', () => {
+    expect(formatResult('markdown', '**Seizure**', { id: 'HP:0001250' }).content[0].text).toBe('**Seizure**');
+    expect(json(formatResult('json', '**Seizure**', { id: 'HP:0001250' }))).toEqual({ id: 'HP:0001250' });
+  });
+});
+
+describe('formatError', () => {
+  it('returns the message as text, flagged as an error', () => {
+    const result = formatError('markdown', 'Term HP:9999999 not found', new NotFoundError('Term not found'));
+
+    expect(result).toEqual({ content: [{ type: 'text', text: 'Term HP:9999999 not found' }], isError: true });
+  });
+
+  it('adds the category and status of a typed cause to the JSON output', () => {
+    const result = formatError('json', 'Error retrieving term HP:0001250: HPO API Error (502)', new UpstreamError('HPO API Error (502)'));
+
+    expect(result.isError).toBe(true);
+    expect(json(result)).toEqual({
+      error: { message: 'Error retrieving term HP:0001250: HPO API Error (502)', category: 'upstream', status: 502 }
+    });
+  });
+
+  it('includes how long to wait when the API is rate limiting', () => {
+    const result = formatError('json', 'Rate limited', new RateLimitedError('Too many requests', { retryAfterMs: 120000 }));
+
+    expect(json(result)).toEqual({ error: { message: 'Rate limited', category: 'rate_limited', status: 429, retryAfterMs: 120000 } });
+  });
+
+  it('reports only the message when the cause is untyped or missing', () => {
+    expect(json(formatError('json', 'No terms given'))).toEqual({ error: { message: 'No terms given' } });
+    expect(json(formatError('json', 'Failed', new Error('boom')))).toEqual({ error: { message: 'Failed' } });
+  });
+});
+
+describe('paginationInfo', () => {
+  it('uses the reported total when there is one', () => {
+    expect(paginationInfo(20, 10, 10, 35)).toEqual({ page: 3, size: 10, totalResults: 35, hasMore: true });
+    expect(paginationInfo(30, 10, 5, 35)).toEqual({ page: 4, size: 10, totalResults: 35, hasMore: false });
+  });
+
+  it('assumes more results follow a full page when the total is unknown', () => {
+    expect(paginationInfo(0, 10, 10)).toEqual({ page: 1, size: 10, totalResults: 10, hasMore: true });
+    expect(paginationInfo(10, 10, 4)).toEqual({ page: 2, size: 10, totalResults: 14, hasMore: false });
+  });
+});
@@ -0,0 +1,174 @@
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+import { PHENOPACKET_SCHEMA_VERSION, PhenopacketConverter } from '../../src/utils/phenopacket.js';
+
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-mini.obo', import.meta.url));
+
+const backend = new LocalOntologyClient(ONTOLOGY_FILE);
+const converter = new PhenopacketConverter(backend);
+
+const minimal = (overrides: Record<string, unknown> = {}) => ({
+  id: 'case-1',
+  phenotypicFeatures: [{ type: { id: 'HP:0001250', label: 'Seizure' } }],
+  metaData: {
+    created: '2024-05-01T00:00:00Z',
+    createdBy: 'test',
+    resources: [{ id: 'hp', name: 'human phenotype ontology', url: '', version: '2024-04-26', namespacePrefix: 'HP', iriPrefix: '' }],
+    phenopacketSchemaVersion: '2.0'
+  },
+  ...overrides
+});
+
+describe('PhenopacketConverter.exportPhenopacket', () => {
+  it('builds a phenopacket with current labels and the HPO resource', async () => {
+    const { phenopacket, warnings } = await converter.exportPhenopacket({
+      id: 'case-1',
+      subjectId: 'patient-1',
+      sex: 'female',
+      features: [
+        { id: 'HP:0001250', onset: 'P2Y6M', description: 'Since infancy' },
+        { id: '0001631', excluded: true }
+      ]
+    });
+
+    expect(warnings).toEqual([]);
+    expect(phenopacket).toMatchObject({
+      id: 'case-1',
+      subject: { id: 'patient-1', sex: 'FEMALE' },
+      phenotypicFeatures: [
+        { type: { id: 'HP:0001250', label: 'Seizure' }, description: 'Since infancy', onset: { age: { iso8601duration: 'P2Y6M' } } },
+        { type: { id: 'HP:0001631', label: 'Atrial septal defect' }, excluded: true }
+      ],
+      metaData: { createdBy: 'hpo-mcp-server', phenopacketSchemaVersion: PHENOPACKET_SCHEMA_VERSION }
+    });
+    expect(phenopacket.metaData.resources).toEqual([expect.objectContaining({
+      id: 'hp',
+      namespacePrefix: 'HP',
+      version: await backend.getVersion()
+    })]);
+  });
+
+  it('exports the primary ID of an alternative ID, with a warning', async () => {
+    const { phenopacket, warnings } = await converter.exportPhenopacket({ features: [{ id: 'HP:0002279' }] });
+
+    expect(phenopacket.phenotypicFeatures?.[0].type).toEqual({ id: 'HP:0001250', label: 'Seizure' });
+    expect(warnings).toEqual(['Observed term HP:0002279 is an alternative ID; exported as HP:0001250 (Seizure)']);
+  });
+
+  it('warns when an onset term is outside the Onset branch', async () => {
+    const { warnings } = await converter.exportPhenopacket({ features: [{ id: 'HP:0001250', onset: 'HP:0001249' }] });
+
+    expect(warnings).toEqual(['Onset HP:0001249 (Intellectual disability) is not below HP:0003674 in the HPO hierarchy']);
+  });
+
+  it('rejects unknown and obsolete terms and an invalid sex, listing every problem', async () => {
+    const result = converter.exportPhenopacket({
+      sex: 'unspecified',
+      features: [{ id: 'HP:9999999' }, { id: 'HP:0001251' }, { id: 'seizure' }]
+    });
+
+    await expect(result).rejects.toThrow('Cannot build a valid phenopacket');
+    await expect(result).rejects.toThrow('Invalid sex "unspecified"');
+    await expect(result).rejects.toThrow('Observed term HP:9999999');
+    await expect(result).rejects.toThrow('Observed term HP:0001251 (obsolete Convulsions) is obsolete; use HP:0001250 instead');
+    await expect(result).rejects.toThrow('Invalid HPO ID format');
+  });
+});
+
+describe('PhenopacketConverter.importPhenopacket', () => {
+  it('reads back an exported phenopacket unchanged, as an object or a JSON string', async () => {
+    const { phenopacket } = await converter.exportPhenopacket({
+      id: 'case-2',
+      subjectId: 'patient-2',
+      sex: 'MALE',
+      features: [{ id: 'HP:0002373', onset: 'P1Y' }, { id: 'HP:0001249', excluded: true }]
+    });
+
+    for (const input of [phenopacket, JSON.stringify(phenopacket)]) {
+      const result = await converter.importPhenopacket(input);
+
+      expect(result.issues).toEqual([]);
+      expect(result).toMatchObject({ id: 'case-2', subject: { id: 'patient-2', sex: 'MALE' }, declaredHpoVersion: await backend.getVersion() });
+      expect(result.features.map(({ id, label, excluded, status, issues }) => ({ id, label, excluded, status, issues }))).toEqual([
+        { id: 'HP:0002373', label: 'Febrile seizure', excluded: false, status: 'valid', issues: [] },
+        { id: 'HP:0001249', label: 'Intellectual disability', excluded: true, status: 'valid', issues: [] }
+      ]);
+      expect(result.phenopacket).toEqual(phenopacket);
+    }
+  });
+
+  it('flags alternative, obsolete, unknown and malformed IDs', async () => {
+    const result = await converter.importPhenopacket(minimal({
+      phenotypicFeatures: [
+        { type: { id: 'HP:0002279', label: 'Seizures' } },
+        { type: { id: 'HP:0001251' } },
+        { type: { id: 'HP:9999999' } },
+        { type: { id: 'seizure' } },
+        { type: {} }
+      ]
+    }));
+
+    expect(result.features.map(({ status, replacement }) => ({ status, replacement }))).toEqual([
+      { status: 'alternative_id', replacement: { id: 'HP:0001250', label: 'Seizure' } },
+      { status: 'obsolete', replacement: { id: 'HP:0001250', label: 'Seizure' } },
+      { status: 'not_found', replacement: undefined },
+      { status: 'invalid_id', replacement: undefined },
+      { status: 'invalid_id', replacement: undefined }
+    ]);
+    expect(result.features[1].issues).toEqual(['Obsolete term; replaced by HP:0001250 (Seizure)']);
+    expect(result.features[4].issues).toEqual(['Missing type.id']);
+  });
+
+  it('normalises IDs and corrects outdated labels in the returned copy only', async () => {
+    const input = minimal({ phenotypicFeatures: [{ type: { id: 'hp:1250', label: 'Epilepsy' } }] });
+
+    const result = await converter.importPhenopacket(input);
+
+    expect(result.features[0]).toMatchObject({ id: 'HP:0001250', status: 'valid' });
+    expect(result.features[0].issues).toEqual(['Label "Epilepsy" differs from the current HPO label "Seizure"']);
+    expect(result.phenopacket.phenotypicFeatures?.[0].type).toEqual({ id: 'HP:0001250', label: 'Seizure' });
+    expect(input.phenotypicFeatures).toEqual([{ type: { id: 'hp:1250', label: 'Epilepsy' } }]);
+  });
+
+  it('lists the diseases of the phenopacket', async () => {
+    const result = await converter.importPhenopacket(minimal({
+      diseases: [{ term: { id: 'OMIM:607208', label: 'Dravet syndrome' } }, { excluded: true }, null]
+    }));
+
+    expect(result.diseases).toEqual([{ id: 'OMIM:607208', label: 'Dravet syndrome' }]);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('reports malformed fields as issues instead of failing', async () => {
+    const result = await converter.importPhenopacket({
+      phenotypicFeatures: { type: { id: 'HP:0001250' } },
+      diseases: 'OMIM:607208',
+      metaData: { phenopacketSchemaVersion: '1.0' }
+    });
+
+    expect(result.issues).toEqual([
+      'Missing required field "id"',
+      'Unsupported phenopacketSchemaVersion "1.0" (expected 2.x)',
+      '"phenotypicFeatures" must be an array',
+      '"diseases" must be an array'
+    ]);
+    expect(result.features).toEqual([]);
+    expect(result.diseases).toEqual([]);
+  });
+
+  it('adds the HPO resource when metaData does not declare it', async () => {
+    const result = await converter.importPhenopacket(minimal({
+      metaData: { created: '2024-05-01T00:00:00Z', createdBy: 'test', resources: [], phenopacketSchemaVersion: '2.0' }
+    }));
+
+    expect(result.issues).toEqual(['metaData.resources does not declare the HPO resource (namespacePrefix "HP"); it has been added']);
+    expect(result.phenopacket.metaData.resources.map(resource => resource.namespacePrefix)).toEqual(['HP']);
+  });
+
+  it('rejects input that is not a JSON object', async () => {
+    await expect(converter.importPhenopacket('{"id": ')).rejects.toThrow('Phenopacket is not valid JSON');
+    await expect(converter.importPhenopacket('[]')).rejects.toThrow('Phenopacket must be a JSON object');
+    await expect(converter.importPhenopacket(42)).rejects.toThrow('Phenopacket must be a JSON object');
+  });
+});
@@ -0,0 +1,115 @@
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { IdResolver } from '../../src/utils/id-resolution.js';
+import { InformationContent } from '../../src/utils/information-content.js';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+import { ProfileNormalizer } from '../../src/utils/profile-normalizer.js';
+
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-mini.obo', import.meta.url));
+
+const NERVOUS_SYSTEM = { id: 'HP:0000707', name: 'Abnormality of the nervous system' };
+const SEIZURE = { id: 'HP:0001250', name: 'Seizure' };
+const FEBRILE_SEIZURE = { id: 'HP:0002373', name: 'Febrile seizure' };
+const INTELLECTUAL_DISABILITY = { id: 'HP:0001249', name: 'Intellectual disability' };
+const HEART_MORPHOLOGY = { id: 'HP:0001627', name: 'Abnormal heart morphology' };
+const ATRIAL_SEPTAL_DEFECT = { id: 'HP:0001631', name: 'Atrial septal defect' };
+
+describe('ProfileNormalizer', () => {
+  const backend = new LocalOntologyClient(ONTOLOGY_FILE);
+  const normalizer = new ProfileNormalizer(new InformationContent(backend), new IdResolver(backend));
+
+  it('drops observed terms implied by a more specific observed term', async () => {
+    const result = await normalizer.normalize(['HP:0000707', 'HP:0001250', 'HP:0002373', 'HP:0001249']);
+
+    expect(result.observed).toEqual([FEBRILE_SEIZURE, INTELLECTUAL_DISABILITY]);
+    expect(result.dropped).toEqual([
+      {
+        inputId: 'HP:0000707',
+        term: NERVOUS_SYSTEM,
+        excluded: false,
+        reason: 'redundant',
+        message: 'Implied by the more specific observed terms HP:0002373, HP:0001249',
+        related: [FEBRILE_SEIZURE, INTELLECTUAL_DISABILITY]
+      },
+      {
+        inputId: 'HP:0001250',
+        term: SEIZURE,
+        excluded: false,
+        reason: 'redundant',
+        message: 'Implied by the more specific observed term HP:0002373',
+        related: [FEBRILE_SEIZURE]
+      }
+    ]);
+    expect(result.contradictions).toEqual([]);
+  });
+
+  it('drops excluded terms implied by the exclusion of a more general term', async () => {
+    const result = await normalizer.normalize([], ['HP:0001631', 'HP:0001627']);
+
+    expect(result.excluded).toEqual([HEART_MORPHOLOGY]);
+    expect(result.dropped).toEqual([expect.objectContaining({
+      inputId: 'HP:0001631',
+      excluded: true,
+      reason: 'redundant',
+      message: 'Implied by the more general excluded term HP:0001627',
+      related: [HEART_MORPHOLOGY]
+    })]);
+  });
+
+  it('reports observed terms that are excluded themselves or through an ancestor', async () => {
+    const result = await normalizer.normalize(['HP:0002373', 'HP:0001631'], ['HP:0001250', 'HP:0001631']);
+
+    expect(result.contradictions).toEqual([
+      { observed: FEBRILE_SEIZURE, excluded: SEIZURE, message: 'HP:0002373 is observed, but its ancestor HP:0001250 is excluded' },
+      { observed: ATRIAL_SEPTAL_DEFECT, excluded: ATRIAL_SEPTAL_DEFECT, message: 'HP:0001631 is both observed and excluded' }
+    ]);
+    // Contradictions are reported, not resolved
+    expect(result.observed).toEqual([FEBRILE_SEIZURE, ATRIAL_SEPTAL_DEFECT]);
+    expect(result.excluded).toEqual([SEIZURE, ATRIAL_SEPTAL_DEFECT]);
+  });
+
+  it('updates outdated IDs, then drops the duplicates they create', async () => {
+    const result = await normalizer.normalize(['HP:0002279', 'HP:0001251'], ['HP:0002279']);
+
+    expect(result.updated).toEqual([
+      { inputId: 'HP:0002279', term: SEIZURE, excluded: false, status: 'merged' },
+      { inputId: 'HP:0001251', term: SEIZURE, excluded: false, status: 'replaced' },
+      { inputId: 'HP:0002279', term: SEIZURE, excluded: true, status: 'merged' }
+    ]);
+    expect(result.observed).toEqual([SEIZURE]);
+    expect(result.excluded).toEqual([SEIZURE]);
+    expect(result.dropped).toEqual([{
+      inputId: 'HP:0001251',
+      term: SEIZURE,
+      excluded: false,
+      reason: 'duplicate',
+      message: 'Same term as HP:0002279',
+      related: []
+    }]);
+  });
+
+  it('drops a term listed twice', async () => {
+    const result = await normalizer.normalize(['HP:0001249', 'HP:0001249']);
+
+    expect(result.observed).toEqual([INTELLECTUAL_DISABILITY]);
+    expect(result.dropped).toEqual([expect.objectContaining({ reason: 'duplicate', message: 'Listed more than once' })]);
+  });
+
+  it('drops obsolete, unknown and malformed IDs, suggesting replacements', async () => {
+    const result = await normalizer.normalize(['HP:0001640', 'HP:9999999'], ['seizure']);
+
+    expect(result.observed).toEqual([]);
+    expect(result.excluded).toEqual([]);
+    expect(result.dropped).toEqual([
+      {
+        inputId: 'HP:0001640',
+        excluded: false,
+        reason: 'obsolete',
+        message: 'Obsolete without replacement',
+        related: [{ id: 'HP:0001626', name: 'Abnormality of the cardiovascular system' }, HEART_MORPHOLOGY]
+      },
+      { inputId: 'HP:9999999', excluded: false, reason: 'unknown', message: expect.stringContaining('not found'), related: [] },
+      { inputId: 'seizure', excluded: true, reason: 'invalid', message: 'Invalid HPO ID format (expected HP:XXXXXXX)', related: [] }
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker, TokenBucket, backoffDelay, isTransientStatus, parseRetryAfter } from '../../src/utils/resilience.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('backoffDelay', () => {
+  it('draws from a window that doubles with each attempt', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect([0, 1, 2, 3].map(attempt => backoffDelay(attempt, 500, 10000))).toEqual([500, 1000, 2000, 4000]);
+  });
+
+  it('caps the window at the maximum delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect(backoffDelay(10, 500, 10000)).toBe(10000);
+  });
+
+  it('jitters over the whole window', () => {
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(0.25);
+
+    expect(backoffDelay(2, 500, 10000)).toBe(0);
+    expect(backoffDelay(2, 500, 10000)).toBe(500);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-06-01T12:00:00Z');
+
+  it('reads a delay in seconds', () => {
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter(' 0 ', now)).toBe(0);
+  });
+
+  it('reads an HTTP date relative to now, never negative', () => {
+    expect(parseRetryAfter('Sat, 01 Jun 2024 12:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('Sat, 01 Jun 2024 11:59:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores missing and unreadable values', () => {
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    expect(parseRetryAfter('', now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(['120'], now)).toBeUndefined();
+  });
+});
+
+describe('isTransientStatus', () => {
+  it('retries rate limiting and gateway failures only', () => {
+    expect([429, 502, 503, 504].every(isTransientStatus)).toBe(true);
+    expect([400, 404, 500].some(isTransientStatus)).toBe(false);
+  });
+});
+
+describe('TokenBucket', () => {
+  it('holds every request back while paused', async () => {
+    vi.useFakeTimers();
+    const bucket = new TokenBucket(100, 10);
+    bucket.pause(1000);
+
+    let sent = false;
+    const request = bucket.take().then(() => {
+      sent = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(900);
+    expect(sent).toBe(false);
+    expect(bucket.getStatus().queued).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await request;
+    expect(sent).toBe(true);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and lets one trial through after the reset period', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker(2, 1000);
+
+    breaker.recordFailure('503');
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordFailure('503');
+    expect(breaker.getStatus().state).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('reopens when the trial request fails', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker(1, 1000);
+    breaker.recordFailure('timeout');
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordFailure('timeout');
+
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', lastError: 'timeout' });
+  });
+});
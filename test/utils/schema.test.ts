@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { JsonSchema, validateArguments } from '../../src/utils/schema.js';
+import { InvalidParamsError } from '../../src/utils/errors.js';
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    query: { type: 'string', minLength: 1, maxLength: 10 },
+    max: { type: 'integer', minimum: 1, maximum: 100 },
+    alpha: { type: 'number', minimum: 0, maximum: 1 },
+    exact: { type: 'boolean' },
+    format: { type: 'string', enum: ['markdown', 'json'] },
+    ids: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 3 },
+    observed: {
+      type: 'array',
+      items: {
+        oneOf: [
+          { type: 'string' },
+          { type: 'object', properties: { id: { type: 'string' }, onset: { type: 'string' } }, required: ['id'] }
+        ]
+      }
+    }
+  },
+  required: ['query']
+};
+
+describe('validateArguments', () => {
+  it('returns valid arguments unchanged', () => {
+    const args = { query: 'seizure', max: 20, alpha: 0.05, exact: true, format: 'json', ids: ['HP:0001250'] };
+    expect(validateArguments(schema, args)).toEqual(args);
+  });
+
+  it('coerces numeric and boolean strings', () => {
+    expect(validateArguments(schema, { query: 'x', max: '20', alpha: '.5', exact: 'false' }))
+      .toEqual({ query: 'x', max: 20, alpha: 0.5, exact: false });
+  });
+
+  it('drops null optional properties and keeps unknown ones', () => {
+    expect(validateArguments(schema, { query: 'x', max: null, extra: 1 })).toEqual({ query: 'x', extra: 1 });
+  });
+
+  it('names the missing or mistyped field', () => {
+    expect(() => validateArguments(schema, {})).toThrow('query is required');
+    expect(() => validateArguments(schema, { query: null })).toThrow('query is required');
+    expect(() => validateArguments(schema, { query: 5 })).toThrow('query must be a string');
+    expect(() => validateArguments(schema, { query: 'x', max: 'many' })).toThrow('max must be a whole number');
+    expect(() => validateArguments(schema, { query: 'x', max: 2.5 })).toThrow('max must be a whole number (got 2.5)');
+    expect(() => validateArguments(schema, { query: 'x', ids: 'HP:0001250' })).toThrow('ids must be an array');
+    expect(() => validateArguments(schema, 'seizure')).toThrow('Arguments must be an object');
+  });
+
+  it('enforces bounds, lengths, sizes and enums', () => {
+    expect(() => validateArguments(schema, { query: 'x', max: 500 })).toThrow('max must be at most 100 (got 500)');
+    expect(() => validateArguments(schema, { query: 'x', max: 0 })).toThrow('max must be at least 1 (got 0)');
+    expect(() => validateArguments(schema, { query: '' })).toThrow('query must not be empty');
+    expect(() => validateArguments(schema, { query: 'x'.repeat(11) })).toThrow('query must be at most 10 characters long (got 11)');
+    expect(() => validateArguments(schema, { query: 'x', ids: [] })).toThrow('ids must not be empty');
+    expect(() => validateArguments(schema, { query: 'x', ids: ['a', 'b', 'c', 'd'] })).toThrow('ids must contain at most 3 items (got 4)');
+    expect(() => validateArguments(schema, { query: 'x', format: 'xml' })).toThrow('format must be one of "markdown", "json"');
+  });
+
+  it('reports errors inside array items with their path', () => {
+    expect(() => validateArguments(schema, { query: 'x', ids: ['a', 7] })).toThrow('ids[1] must be a string');
+    expect(() => validateArguments(schema, { query: 'x', observed: ['HP:0001250', { onset: 'P2Y' }] })).toThrow('observed[1].id is required');
+    expect(() => validateArguments(schema, { query: 'x', observed: [true] })).toThrow('observed[0] must be a string or an object');
+  });
+
+  it('throws InvalidParamsError', () => {
+    expect(() => validateArguments(schema, {})).toThrow(InvalidParamsError);
+  });
+});
@@ -0,0 +1,116 @@
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { InformationContent } from '../../src/utils/information-content.js';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+import { SemanticSimilarity } from '../../src/utils/semantic-similarity.js';
+
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-mini.obo', import.meta.url));
+
+// Descendant-based IC in the fixture, which has 9 terms below the root
+const IC = {
+  phenotypicAbnormality: Math.log(10 / 9),
+  nervousSystem: Math.log(10 / 5),
+  seizure: Math.log(10 / 3),
+  leaf: Math.log(10)
+};
+
+describe('SemanticSimilarity.compare', () => {
+  const similarity = new SemanticSimilarity(new InformationContent(new LocalOntologyClient(ONTOLOGY_FILE)));
+
+  it('scores siblings by their most informative common ancestor', async () => {
+    const result = await similarity.compare('HP:0002069', 'HP:0002373');
+
+    expect(result.mica).toMatchObject({ id: 'HP:0001250', name: 'Seizure' });
+    expect(result.commonAncestorCount).toBe(4);
+    expect(result.term1.ic).toBeCloseTo(IC.leaf);
+    expect(result.resnik).toBeCloseTo(IC.seizure);
+    expect(result.lin).toBeCloseTo((2 * IC.seizure) / (2 * IC.leaf));
+    expect(result.jiangConrathDistance).toBeCloseTo(2 * IC.leaf - 2 * IC.seizure);
+    expect(result.jiangConrath).toBeCloseTo(1 / (1 + 2 * IC.leaf - 2 * IC.seizure));
+  });
+
+  it('scores terms in different organ systems by a general ancestor', async () => {
+    const result = await similarity.compare('HP:0002069', 'HP:0001631');
+
+    expect(result.mica?.id).toBe('HP:0000118');
+    expect(result.resnik).toBeCloseTo(IC.phenotypicAbnormality);
+    expect(result.lin).toBeLessThan(0.1);
+  });
+
+  it('counts a term as its own ancestor', async () => {
+    const same = await similarity.compare('HP:0001250', 'HP:0001250');
+    expect(same.mica?.id).toBe('HP:0001250');
+    expect(same.resnik).toBeCloseTo(IC.seizure);
+    expect(same.lin).toBeCloseTo(1);
+    expect(same.jiangConrathDistance).toBeCloseTo(0);
+    expect(same.jiangConrath).toBeCloseTo(1);
+
+    const ancestor = await similarity.compare('HP:0002069', 'HP:0000707');
+    expect(ancestor.mica?.id).toBe('HP:0000707');
+    expect(ancestor.resnik).toBeCloseTo(IC.nervousSystem);
+  });
+
+  it('is symmetric', async () => {
+    const forward = await similarity.compare('HP:0002373', 'HP:0001249');
+    const backward = await similarity.compare('HP:0001249', 'HP:0002373');
+
+    expect(backward.resnik).toBe(forward.resnik);
+    expect(backward.lin).toBe(forward.lin);
+    expect(backward.jiangConrath).toBe(forward.jiangConrath);
+  });
+
+  it('rejects unknown terms', async () => {
+    await expect(similarity.compare('HP:0002069', 'HP:9999999')).rejects.toThrow('HP:9999999');
+  });
+});
+
+describe('SemanticSimilarity.compareProfiles', () => {
+  const similarity = new SemanticSimilarity(new InformationContent(new LocalOntologyClient(ONTOLOGY_FILE)));
+
+  it('averages the best match of every term in both profiles', async () => {
+    // Resnik: tonic-clonic vs febrile seizure share Seizure; intellectual disability only the nervous system
+    const result = await similarity.compareProfiles(['HP:0002069', 'HP:0001249'], ['HP:0002373']);
+
+    expect(result.metric).toBe('resnik');
+    expect(result.bestMatches1.map(m => [m.term.id, m.match.id])).toEqual([['HP:0002069', 'HP:0002373'], ['HP:0001249', 'HP:0002373']]);
+    expect(result.bestMatches1.map(m => m.score)).toEqual([
+      expect.closeTo(IC.seizure, 10),
+      expect.closeTo(IC.nervousSystem, 10)
+    ]);
+    expect(result.bestMatches2).toEqual([{
+      term: { id: 'HP:0002373', name: 'Febrile seizure' },
+      match: { id: 'HP:0002069', name: 'Bilateral tonic-clonic seizure' },
+      score: expect.closeTo(IC.seizure, 10)
+    }]);
+
+    expect(result.bestMatchAverage).toBeCloseTo((IC.seizure + IC.nervousSystem + IC.seizure) / 3);
+    expect(result.maximum).toBeCloseTo(IC.seizure);
+    expect(result.funSimAvg).toBeCloseTo(((IC.seizure + IC.nervousSystem) / 2 + IC.seizure) / 2);
+  });
+
+  it('is symmetric in the profiles', async () => {
+    const profile1 = ['HP:0002069', 'HP:0001631'];
+    const profile2 = ['HP:0002373', 'HP:0001249', 'HP:0001627'];
+    const forward = await similarity.compareProfiles(profile1, profile2);
+    const backward = await similarity.compareProfiles(profile2, profile1);
+
+    expect(backward.bestMatchAverage).toBeCloseTo(forward.bestMatchAverage);
+    expect(backward.funSimAvg).toBeCloseTo(forward.funSimAvg);
+    expect(backward.maximum).toBeCloseTo(forward.maximum);
+  });
+
+  it('scores identical profiles 1 with Lin and Jiang-Conrath', async () => {
+    const profile = ['HP:0002069', 'HP:0001631'];
+
+    for (const metric of ['lin', 'jiang_conrath'] as const) {
+      const result = await similarity.compareProfiles(profile, profile, metric);
+      expect(result.bestMatchAverage).toBeCloseTo(1);
+      expect(result.funSimAvg).toBeCloseTo(1);
+      expect(result.bestMatches1.map(m => m.match.id)).toEqual(profile);
+    }
+  });
+
+  it('rejects an empty profile', async () => {
+    await expect(similarity.compareProfiles([], ['HP:0001250'])).rejects.toThrow('at least one term');
+  });
+});
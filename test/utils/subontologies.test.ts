@@ -0,0 +1,118 @@
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { IdResolver } from '../../src/utils/id-resolution.js';
+import { InformationContent } from '../../src/utils/information-content.js';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+import { SubontologyValidator } from '../../src/utils/subontologies.js';
+
+// One or two terms below the root of each sub-ontology; Onset lies within Clinical course
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-subontologies.obo', import.meta.url));
+
+const SEIZURE = { id: 'HP:0001250', name: 'Seizure' };
+const SEVERE = { id: 'HP:0012828', name: 'Severe' };
+
+describe('SubontologyValidator', () => {
+  const backend = new LocalOntologyClient(ONTOLOGY_FILE);
+  const validator = new SubontologyValidator(backend, new InformationContent(backend), new IdResolver(backend));
+
+  it('lists the terms below the root of a sub-ontology', async () => {
+    expect(await validator.listTerms('severity')).toEqual([SEVERE]);
+    expect((await validator.listTerms('onset')).map(term => term.id)).toEqual(['HP:0003577']);
+  });
+
+  describe('check', () => {
+    it('accepts a term below the root, listing every sub-ontology it lies in, narrowest first', async () => {
+      expect(await validator.check(['HP:0012828'], 'severity')).toEqual([{
+        inputId: 'HP:0012828',
+        subontology: 'severity',
+        term: SEVERE,
+        valid: true,
+        belongsTo: ['severity', 'modifier']
+      }]);
+      // Severity lies within Clinical modifier
+      expect((await validator.check(['HP:0012828'], 'modifier'))[0].valid).toBe(true);
+      expect((await validator.check(['HP:0003577'], 'onset'))[0].belongsTo).toEqual(['onset', 'modifier']);
+    });
+
+    it('names the sub-ontology a misplaced term belongs to', async () => {
+      const [phenotypeAsOnset, inheritanceAsOnset] = await validator.check(['HP:0001250', 'HP:0000006'], 'onset');
+
+      expect(phenotypeAsOnset).toMatchObject({
+        valid: false,
+        term: SEIZURE,
+        belongsTo: ['phenotype'],
+        message: 'HP:0001250 (Seizure) is not below Onset (HP:0003674); it belongs to Phenotypic abnormality (HP:0000118)'
+      });
+      expect(inheritanceAsOnset.message).toBe(
+        'HP:0000006 (Autosomal dominant inheritance) is not below Onset (HP:0003674); it belongs to Mode of inheritance (HP:0000005)'
+      );
+    });
+
+    it('rejects the root of the sub-ontology and terms outside every sub-ontology', async () => {
+      const [root, all] = await validator.check(['HP:0040279', 'HP:0000001'], 'frequency');
+
+      expect(root).toMatchObject({
+        valid: false,
+        belongsTo: [],
+        message: 'HP:0040279 is the root of the Frequency sub-ontology; use one of the more specific terms below it'
+      });
+      expect(all).toMatchObject({ valid: false, belongsTo: [], message: 'HP:0000001 (All) is not below Frequency (HP:0040279)' });
+    });
+
+    it('accepts an alternative ID, noting its primary ID', async () => {
+      expect(await validator.check(['HP:0002279'], 'phenotype')).toEqual([{
+        inputId: 'HP:0002279',
+        subontology: 'phenotype',
+        term: SEIZURE,
+        valid: true,
+        belongsTo: ['phenotype'],
+        message: 'HP:0002279 is an alternative ID of HP:0001250.'
+      }]);
+    });
+
+    it('rejects obsolete, unknown and malformed IDs', async () => {
+      const [obsolete, unknown, invalid] = await validator.check(['HP:0001251', 'HP:9999999', 'seizure'], 'phenotype');
+
+      expect(obsolete).toMatchObject({ valid: false, term: SEIZURE, message: 'HP:0001251 is obsolete; use HP:0001250 (Seizure) instead' });
+      expect(unknown).toMatchObject({ valid: false, message: expect.stringMatching(/^HP:9999999: .*not found/) });
+      expect(unknown.term).toBeUndefined();
+      expect(invalid).toMatchObject({ valid: false, message: 'seizure: Invalid HPO ID format (expected HP:XXXXXXX)' });
+    });
+  });
+
+  describe('validateObservation', () => {
+    it('builds the structured observation when every value is in its sub-ontology', async () => {
+      const result = await validator.validateObservation({
+        term: 'HP:0001250',
+        onset: 'HP:0003577',
+        frequency: 'HP:0040281',
+        severity: 'HP:0012828',
+        laterality: 'HP:0012832',
+        modifiers: ['HP:0031796']
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.checks.map(check => check.field)).toEqual(['term', 'onset', 'frequency', 'severity', 'laterality', 'modifiers[0]']);
+      expect(result.observation).toEqual({
+        term: SEIZURE,
+        excluded: false,
+        onset: { id: 'HP:0003577', name: 'Congenital onset' },
+        frequency: { id: 'HP:0040281', name: 'Very frequent' },
+        severity: SEVERE,
+        laterality: { id: 'HP:0012832', name: 'Bilateral' },
+        modifiers: [{ id: 'HP:0031796', name: 'Recurrent' }]
+      });
+    });
+
+    it('returns the failing checks without an observation when a value is misplaced', async () => {
+      const result = await validator.validateObservation({ term: 'HP:0012828', severity: 'HP:0001250', excluded: true });
+
+      expect(result.valid).toBe(false);
+      expect(result.observation).toBeUndefined();
+      expect(result.checks.map(({ field, valid, belongsTo }) => ({ field, valid, belongsTo }))).toEqual([
+        { field: 'term', valid: false, belongsTo: ['severity', 'modifier'] },
+        { field: 'severity', valid: false, belongsTo: ['phenotype'] }
+      ]);
+    });
+  });
+});
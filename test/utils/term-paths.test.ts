@@ -0,0 +1,59 @@
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+import { TermPathFinder } from '../../src/utils/term-paths.js';
+
+// Microcephaly has two parents. Through brain morphology it is 4 steps from the root
+// via the nervous system and 7 via calvarial morphology; through skull size it is 5.
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-multi-parent.obo', import.meta.url));
+
+const MICROCEPHALY = { id: 'HP:0000252', name: 'Microcephaly' };
+
+const ids = (paths: { id: string }[][]) => paths.map(path => path.map(term => term.id));
+
+describe('TermPathFinder', () => {
+  const finder = new TermPathFinder(new LocalOntologyClient(ONTOLOGY_FILE));
+
+  it('lists every root-to-term path, shortest first', async () => {
+    const result = await finder.getPaths(MICROCEPHALY);
+
+    expect(ids(result.paths)).toEqual([
+      ['HP:0000001', 'HP:0000118', 'HP:0000707', 'HP:0012443', 'HP:0000252'],
+      ['HP:0000001', 'HP:0000118', 'HP:0000152', 'HP:0000234', 'HP:0000240', 'HP:0000252'],
+      ['HP:0000001', 'HP:0000118', 'HP:0000152', 'HP:0000234', 'HP:0000929', 'HP:0002648', 'HP:0012443', 'HP:0000252']
+    ]);
+    expect(result.paths[0].map(term => term.name)).toEqual([
+      'All', 'Phenotypic abnormality', 'Abnormality of the nervous system', 'Abnormality of brain morphology', 'Microcephaly'
+    ]);
+    expect(result).toMatchObject({ pathCount: 3, truncated: false, minDepth: 4, maxDepth: 7 });
+  });
+
+  it('returns the shortest paths when limited, not the first ones found through one parent', async () => {
+    const result = await finder.getPaths(MICROCEPHALY, 2);
+
+    expect(result.paths.map(path => path.length - 1)).toEqual([4, 5]);
+    expect(result.paths[1].map(term => term.id)).toContain('HP:0000240');
+    expect(result).toMatchObject({ pathCount: 3, truncated: true, minDepth: 4, maxDepth: 7 });
+  });
+
+  it('counts paths through every parent of an intermediate term', async () => {
+    const result = await finder.getPaths({ id: 'HP:0012443', name: 'Abnormality of brain morphology' }, 1);
+
+    expect(ids(result.paths)).toEqual([['HP:0000001', 'HP:0000118', 'HP:0000707', 'HP:0012443']]);
+    expect(result).toMatchObject({ pathCount: 2, truncated: true, minDepth: 3, maxDepth: 6 });
+  });
+
+  it('returns the single path of a term with one parent at each level', async () => {
+    const result = await finder.getPaths({ id: 'HP:0000240', name: 'Abnormality of skull size' });
+
+    expect(ids(result.paths)).toEqual([['HP:0000001', 'HP:0000118', 'HP:0000152', 'HP:0000234', 'HP:0000240']]);
+    expect(result).toMatchObject({ pathCount: 1, truncated: false, minDepth: 4, maxDepth: 4 });
+  });
+
+  it('returns the root as a path of its own', async () => {
+    const result = await finder.getPaths({ id: 'HP:0000001', name: 'All' });
+
+    expect(ids(result.paths)).toEqual([['HP:0000001']]);
+    expect(result).toMatchObject({ pathCount: 1, minDepth: 0, maxDepth: 0 });
+  });
+});
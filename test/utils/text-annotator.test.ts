@@ -0,0 +1,122 @@
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { HPOBackend } from '../../src/types/hpo.js';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+import { TextAnnotator } from '../../src/utils/text-annotator.js';
+
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-mini.obo', import.meta.url));
+
+describe('TextAnnotator', () => {
+  const annotator = new TextAnnotator(new LocalOntologyClient(ONTOLOGY_FILE));
+
+  const summary = async (text: string) => (await annotator.annotate(text)).map(annotation => ({
+    text: annotation.text,
+    id: annotation.matches[0].id,
+    negated: annotation.negated
+  }));
+
+  describe('matching', () => {
+    it('matches a label exactly, with its character offsets', async () => {
+      const text = 'The boy has intellectual disability.';
+      const [annotation, ...rest] = await annotator.annotate(text);
+
+      expect(rest).toEqual([]);
+      expect(annotation).toMatchObject({ start: 12, end: 35, text: 'intellectual disability', negated: false });
+      expect(text.substring(annotation.start, annotation.end)).toBe(annotation.text);
+      expect(annotation.matches).toEqual([{
+        id: 'HP:0001249',
+        name: 'Intellectual disability',
+        matchedLabel: 'Intellectual disability',
+        matchType: 'label',
+        confidence: 1
+      }]);
+    });
+
+    it('matches inflected words through their stems, listing a term once', async () => {
+      const [annotation] = await annotator.annotate('Recurrent seizures since infancy');
+
+      expect(annotation.text).toBe('seizures');
+      // Stemmed label match (0.9) beats the exact "Seizures" synonym (0.85)
+      expect(annotation.matches).toEqual([expect.objectContaining({ id: 'HP:0001250', matchType: 'label', confidence: 0.9 })]);
+    });
+
+    it('matches synonyms with a lower confidence than labels', async () => {
+      const [annotation] = await annotator.annotate('History of mental retardation');
+
+      expect(annotation.matches).toEqual([expect.objectContaining({
+        id: 'HP:0001249',
+        matchedLabel: 'Mental retardation',
+        matchType: 'synonym',
+        confidence: 0.85
+      })]);
+    });
+
+    it('ignores stop words inside labels and text', async () => {
+      expect(await summary('Abnormality of cardiovascular system')).toEqual([
+        { text: 'Abnormality of cardiovascular system', id: 'HP:0001626', negated: false }
+      ]);
+    });
+
+    it('prefers the longest match over the shorter terms it contains', async () => {
+      expect(await summary('Febrile seizures and generalized tonic-clonic seizures, later an epileptic seizure')).toEqual([
+        { text: 'Febrile seizures', id: 'HP:0002373', negated: false },
+        { text: 'generalized tonic-clonic seizures', id: 'HP:0002069', negated: false },
+        { text: 'epileptic seizure', id: 'HP:0001250', negated: false }
+      ]);
+    });
+
+    it('does not match across sentences', async () => {
+      expect(await summary('He had a febrile. Seizure followed.')).toEqual([
+        { text: 'Seizure', id: 'HP:0001250', negated: false }
+      ]);
+    });
+
+    it('requires a backend that holds the full ontology', async () => {
+      const remote = new TextAnnotator({} as HPOBackend);
+
+      await expect(remote.annotate('seizures')).rejects.toThrow('requires a local HPO release');
+    });
+  });
+
+  describe('negation', () => {
+    it('negates a span preceded by a cue', async () => {
+      const [annotation] = await annotator.annotate('No seizures.');
+
+      expect(annotation).toMatchObject({ negated: true, negationCue: 'no' });
+    });
+
+    it('reaches every term in the same clause within the window', async () => {
+      expect(await summary('She denies seizures or intellectual disability')).toEqual([
+        { text: 'seizures', id: 'HP:0001250', negated: true },
+        { text: 'intellectual disability', id: 'HP:0001249', negated: true }
+      ]);
+    });
+
+    it('negates a span followed by a cue', async () => {
+      const [annotation] = await annotator.annotate('Atrial septal defect was ruled out');
+
+      expect(annotation).toMatchObject({ negated: true, negationCue: 'was ruled out' });
+    });
+
+    it('stops at words that end the scope of a cue', async () => {
+      expect(await summary('No fever but seizures')).toEqual([
+        { text: 'seizures', id: 'HP:0001250', negated: false }
+      ]);
+    });
+
+    it('stops at a comma, semicolon or colon', async () => {
+      expect(await summary('No fever, seizures present')).toEqual([
+        { text: 'seizures', id: 'HP:0001250', negated: false }
+      ]);
+      expect(await summary('No rash; seizures since birth')).toEqual([
+        { text: 'seizures', id: 'HP:0001250', negated: false }
+      ]);
+      expect(await summary('Not noted: intellectual disability')).toEqual([
+        { text: 'intellectual disability', id: 'HP:0001249', negated: false }
+      ]);
+      expect(await summary('Seizures, absent in the sibling')).toEqual([
+        { text: 'Seizures', id: 'HP:0001250', negated: false }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { HPOHandlers } from '../../src/handlers/hpo-handlers.js';
+import { AnnotationStore } from '../../src/utils/annotations.js';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+import { readTranslationConfig, TranslationStore } from '../../src/utils/translations.js';
+
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-mini.obo', import.meta.url));
+const TRANSLATIONS_DIR = fileURLToPath(new URL('../fixtures/translations', import.meta.url));
+
+const GERMAN = { code: 'de', name: 'German' };
+
+describe('readTranslationConfig', () => {
+  it('reads the directory from the environment, ignoring a blank value', () => {
+    expect(readTranslationConfig({ HPO_TRANSLATIONS_DIR: ' /data/translations ' })).toEqual({ directory: '/data/translations' });
+    expect(readTranslationConfig({ HPO_TRANSLATIONS_DIR: ' ' })).toEqual({ directory: undefined });
+  });
+});
+
+describe('TranslationStore', () => {
+  const store = new TranslationStore({ directory: TRANSLATIONS_DIR });
+
+  describe('languages', () => {
+    it('lists one language per Babelon file, named by its code', async () => {
+      expect(await store.getLanguages()).toEqual([
+        { language: GERMAN, file: join(TRANSLATIONS_DIR, 'hp-de.babelon.tsv') },
+        { language: { code: 'fr', name: 'French' }, file: join(TRANSLATIONS_DIR, 'hp-fr.babelon.tsv') }
+      ]);
+    });
+
+    it('resolves codes in any case, leaving English untranslated', async () => {
+      expect(await store.resolveLanguage(' DE ')).toEqual(GERMAN);
+      expect(await store.resolveLanguage('en')).toBeUndefined();
+      await expect(store.resolveLanguage('ja')).rejects.toMatchObject({
+        category: 'invalid_params',
+        message: 'Language "ja" is not available. Available languages: de, fr'
+      });
+    });
+
+    it('counts the translated terms of each language by status', async () => {
+      expect((await store.getLanguageSummaries()).map(({ language, terms, statuses }) => ({ code: language.code, terms, statuses }))).toEqual([
+        { code: 'de', terms: 2, statuses: { OFFICIAL: 1, CANDIDATE: 1 } },
+        { code: 'fr', terms: 1, statuses: { OFFICIAL: 1 } }
+      ]);
+    });
+
+    it('explains how to configure a missing directory', async () => {
+      const unconfigured = new TranslationStore();
+
+      expect(unconfigured.hasTranslations()).toBe(false);
+      await expect(unconfigured.getLanguages()).rejects.toThrow('set HPO_TRANSLATIONS_DIR');
+    });
+  });
+
+  describe('Babelon parsing', () => {
+    it('reads the label, definition and synonyms of a term', async () => {
+      expect(await store.getTranslation('HP:0001250', GERMAN)).toEqual({
+        language: GERMAN,
+        name: 'Krampfanfall',
+        definition: 'Ein Krampfanfall ist eine vorübergehende Störung der Funktion des Nervensystems.',
+        synonyms: ['Epileptischer Anfall'],
+        status: { code: 'OFFICIAL', name: 'Official' }
+      });
+    });
+
+    it('takes the status from the label, in any case', async () => {
+      expect(await store.getTranslation('HP:0002373', GERMAN)).toMatchObject({
+        name: 'Fieberkrampf',
+        synonyms: [],
+        status: { code: 'CANDIDATE', name: 'Candidate' }
+      });
+    });
+
+    it('reports terms without a translated label as not translated, dropping NOT_TRANSLATED values', async () => {
+      const notTranslated = { language: GERMAN, synonyms: [], status: { code: 'NOT_TRANSLATED', name: 'Not translated' } };
+
+      expect(await store.getTranslation('HP:0001249', GERMAN)).toEqual(notTranslated);
+      expect(await store.getTranslation('HP:0001626', GERMAN)).toEqual(notTranslated);
+    });
+
+    it('searches translated labels and synonyms, returning the English labels', async () => {
+      expect(await store.searchTranslations('krampf', GERMAN)).toEqual([
+        { id: 'HP:0001250', englishName: 'Seizure', score: 70 },
+        { id: 'HP:0002373', englishName: 'Febrile seizure', score: 50 }
+      ]);
+      expect(await store.searchTranslations('Epileptischer Anfall', GERMAN)).toEqual([
+        { id: 'HP:0001250', englishName: 'Seizure', score: 40 }
+      ]);
+      // Only terms with a translated label are searched, and only HPO subjects are read
+      expect(await store.searchTranslations('geistige', GERMAN)).toEqual([]);
+      expect(await store.searchTranslations('Dravet', GERMAN)).toEqual([]);
+    });
+  });
+});
+
+describe('language fallback', () => {
+  const handlers = new HPOHandlers(
+    new LocalOntologyClient(ONTOLOGY_FILE),
+    new AnnotationStore(),
+    new TranslationStore({ directory: TRANSLATIONS_DIR })
+  );
+
+  const text = async (id: string) => (await handlers.getHPOTerm({ id, language: 'de' })).content[0].text;
+
+  it('shows the translated term with its English name', async () => {
+    const output = await text('HP:0001250');
+
+    expect(output).toContain('**Name:** Krampfanfall\n**English Name:** Seizure\n**Translation:** German (de) - Official\n');
+    expect(output).toContain('**Synonyms:** Epileptischer Anfall');
+    expect(output).toContain('• HP:0002373: Fieberkrampf (Febrile seizure) [Candidate]');
+  });
+
+  it('falls back to English for untranslated terms, labelling them as such', async () => {
+    const output = await text('HP:0001249');
+
+    expect(output).toContain('**Name:** Intellectual disability\n**Translation:** German (de) - Not translated, showing English\n');
+    expect(output).toContain('**Synonyms:** Mental retardation');
+    expect(output).toContain('• HP:0000707: Abnormality of the nervous system [Not translated, English]');
+  });
+
+  it('rejects a language without a translation file', async () => {
+    await expect(handlers.getHPOTerm({ id: 'HP:0001250', language: 'ja' })).rejects.toThrow('Language "ja" is not available');
+  });
+});
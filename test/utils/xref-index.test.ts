@@ -0,0 +1,77 @@
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { HPOBackend } from '../../src/types/hpo.js';
+import { LocalOntologyClient } from '../../src/utils/local-ontology.js';
+import { canonicalPrefix, groupXrefs, XrefIndex } from '../../src/utils/xref-index.js';
+
+const ONTOLOGY_FILE = fileURLToPath(new URL('../fixtures/hp-mini.obo', import.meta.url));
+
+const SEIZURE = { id: 'HP:0001250', name: 'Seizure' };
+
+describe('XrefIndex', () => {
+  const index = new XrefIndex(new LocalOntologyClient(ONTOLOGY_FILE));
+
+  it('finds the terms cross-referencing a prefixed code', async () => {
+    expect(await index.findTerms('UMLS:C0036572')).toEqual([{ ...SEIZURE, xref: 'UMLS:C0036572' }]);
+    expect(await index.findTerms(' ICD-10:Q21.1 ')).toEqual([{ id: 'HP:0001631', name: 'Atrial septal defect', xref: 'ICD-10:Q21.1' }]);
+  });
+
+  it('accepts other spellings of prefixes and codes in any case', async () => {
+    for (const code of ['SNOMED:91175000', 'sctid:91175000', 'SNOMEDCT_US:91175000']) {
+      expect(await index.findTerms(code)).toEqual([{ ...SEIZURE, xref: 'SNOMEDCT_US:91175000' }]);
+    }
+    expect(await index.findTerms('MeSH:d012640')).toEqual([{ ...SEIZURE, xref: 'MSH:D012640' }]);
+  });
+
+  it('looks a code without prefix up in the given vocabulary, or in all of them', async () => {
+    expect(await index.findTerms('91175000', 'SNOMED CT')).toEqual([{ ...SEIZURE, xref: 'SNOMEDCT_US:91175000' }]);
+    expect(await index.findTerms('C0036572', 'MSH')).toEqual([]);
+    expect(await index.findTerms('c0009952')).toEqual([{ id: 'HP:0002373', name: 'Febrile seizure', xref: 'UMLS:C0009952' }]);
+  });
+
+  it('reads only the first token of an xref line', async () => {
+    expect(await index.findTerms('SNOMEDCT_US:41497008')).toEqual([
+      { id: 'HP:0002373', name: 'Febrile seizure', xref: 'SNOMEDCT_US:41497008' }
+    ]);
+  });
+
+  it('leaves obsolete terms and unknown codes unmapped', async () => {
+    expect(await index.findTerms('UMLS:C0009951')).toEqual([]);
+    expect(await index.findTerms('UMLS:C9999999')).toEqual([]);
+  });
+
+  it('requires a backend that holds the full ontology', async () => {
+    const remote = new XrefIndex({} as HPOBackend);
+
+    await expect(remote.findTerms('UMLS:C0036572')).rejects.toThrow('requires a local HPO release');
+  });
+});
+
+describe('groupXrefs', () => {
+  const xrefs = ['Fyler:1100', 'ICD-10:Q21.1', 'MSH:D006344', 'UMLS:C0018817', 'ORPHA:99', 'C0018817'];
+
+  it('groups codes by vocabulary in display order, unknown vocabularies last', () => {
+    expect(groupXrefs(xrefs)).toEqual([
+      { prefix: 'UMLS', vocabulary: 'UMLS', codes: ['C0018817'] },
+      { prefix: 'MSH', vocabulary: 'MeSH', codes: ['D006344'] },
+      { prefix: 'ICD-10', vocabulary: 'ICD-10', codes: ['Q21.1'] },
+      { prefix: 'Fyler', vocabulary: 'Fyler', codes: ['1100'] },
+      { prefix: 'ORPHA', vocabulary: 'ORPHA', codes: ['99'] }
+    ]);
+  });
+
+  it('keeps only the requested vocabularies, in any spelling', () => {
+    expect(groupXrefs(xrefs, ['mesh', 'icd10']).map(group => group.prefix)).toEqual(['MSH', 'ICD-10']);
+  });
+});
+
+describe('canonicalPrefix', () => {
+  it('maps aliases and spellings to the prefix used in HPO', () => {
+    expect(canonicalPrefix('snomed')).toBe('SNOMEDCT_US');
+    expect(canonicalPrefix('ICD10CM')).toBe('ICD-10');
+    expect(canonicalPrefix('icd-9')).toBe('ICD-9');
+    expect(canonicalPrefix('cui')).toBe('UMLS');
+    expect(canonicalPrefix('fyler')).toBe('Fyler');
+    expect(canonicalPrefix('orpha')).toBe('ORPHA');
+  });
+});